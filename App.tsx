@@ -9,7 +9,11 @@ import Spinner from './components/common/Spinner';
 import { loadData, saveData } from './services/indexedDBService';
 import { supabase, type Database } from './services/supabaseClient';
 import { runComprehensiveTokenTest } from './services/imagenV3Service';
+import { resumePendingVideoJobs } from './services/videoJobService';
+import { loadPromptTemplateOverrides } from './services/promptTemplateService';
+import { resetServerStats } from './services/proxyBalancer';
 import ConsoleLogSidebar from './components/ConsoleLogSidebar';
+import GenerationQueueIndicator from './components/common/GenerationQueueIndicator';
 import { getTranslations } from './services/translations';
 import ApiKeyStatus from './components/ApiKeyStatus';
 import eventBus from './services/eventBus';
@@ -235,6 +239,7 @@ const App: React.FC = () => {
     sessionStorage.removeItem('monoklix_session_api_key');
     sessionStorage.removeItem('session_started_at');
     sessionStorage.removeItem('selectedProxyServer');
+    resetServerStats();
     setCurrentUser(null);
     setActiveApiKey(null);
   }, [currentUser]);
@@ -283,11 +288,7 @@ const App: React.FC = () => {
       handleUserUpdate(updatedUser);
     };
 
-    eventBus.on('userUsageUpdated', handleUserUsageUpdate);
-
-    return () => {
-      eventBus.remove('userUsageUpdated', handleUserUsageUpdate);
-    };
+    return eventBus.on('userUsageUpdated', handleUserUsageUpdate);
   }, [handleUserUpdate]);
   
   useEffect(() => {
@@ -423,10 +424,7 @@ const App: React.FC = () => {
 
 
     useEffect(() => {
-        eventBus.on('personalTokenFailed', handlePersonalTokenFailure);
-        return () => {
-            eventBus.remove('personalTokenFailed', handlePersonalTokenFailure);
-        };
+        return eventBus.on('personalTokenFailed', handlePersonalTokenFailure);
     }, [handlePersonalTokenFailure]);
 
   const initializeSessionData = useCallback(async (userId: string) => {
@@ -481,6 +479,31 @@ const App: React.FC = () => {
     }
   }, [currentUser?.id, initializeSessionData]);
 
+  useEffect(() => {
+    if (currentUser?.id) {
+      loadPromptTemplateOverrides(currentUser.id);
+    }
+  }, [currentUser?.id]);
+
+  useEffect(() => {
+    // Pick up any Veo generations that were still in flight when the page was last closed.
+    if (!currentUser?.id || isApiKeyLoading) return;
+
+    resumePendingVideoJobs().then(count => {
+      if (count > 0) {
+        setNotification(T.videoJobsResumed.replace('{count}', String(count)));
+      }
+    });
+  }, [currentUser?.id, isApiKeyLoading, T.videoJobsResumed]);
+
+  useEffect(() => {
+    const handleVideoJobCompleted = () => {
+      setNotification(T.videoJobCompleted);
+    };
+
+    return eventBus.on('videoJobCompleted', handleVideoJobCompleted);
+  }, [T.videoJobCompleted]);
+
 
   useEffect(() => {
     if (justLoggedIn) {
@@ -780,6 +803,7 @@ const App: React.FC = () => {
             <UgcGeneratorView currentUser={currentUser!} language={language} onUserUpdate={handleUserUpdate} />
         </div>
       </main>
+      <GenerationQueueIndicator />
       <ConsoleLogSidebar 
         isOpen={isLogSidebarOpen}
         onClose={() => setIsLogSidebarOpen(false)}
@@ -1,35 +1,25 @@
 import React, { useState, useEffect, useRef } from 'react';
-import eventBus from '../services/eventBus';
+import eventBus, { type ConsoleLogEvent } from '../services/eventBus';
 import { XIcon, TrashIcon, TerminalIcon } from './Icons';
 import { getTranslations } from '../services/translations';
 
-interface LogEntry {
-  level: 'log' | 'warn' | 'error' | 'debug';
-  message: string;
-  timestamp: Date;
-}
-
 interface ConsoleLogSidebarProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
 const ConsoleLogSidebar: React.FC<ConsoleLogSidebarProps> = ({ isOpen, onClose }) => {
-  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [logs, setLogs] = useState<ConsoleLogEvent[]>([]);
   const logContainerRef = useRef<HTMLDivElement>(null);
   const T = getTranslations().consoleLogSidebar;
 
   useEffect(() => {
-    const handleLog = (data: LogEntry) => {
+    const handleLog = (data: ConsoleLogEvent) => {
       // Append new logs to the end, and keep max 200 logs by slicing from the end
       setLogs(prevLogs => [...prevLogs, data].slice(-200));
     };
 
-    eventBus.on('consoleLog', handleLog);
-
-    return () => {
-      eventBus.remove('consoleLog', handleLog);
-    };
+    return eventBus.on('consoleLog', handleLog);
   }, []);
 
   useEffect(() => {
@@ -43,7 +33,7 @@ const ConsoleLogSidebar: React.FC<ConsoleLogSidebarProps> = ({ isOpen, onClose }
     setLogs([]);
   };
 
-  const getLevelClasses = (level: LogEntry['level']) => {
+  const getLevelClasses = (level: ConsoleLogEvent['level']) => {
     switch (level) {
       case 'error':
         return 'bg-red-500/10 border-red-500/50 text-red-700 dark:text-red-300';
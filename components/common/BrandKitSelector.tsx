@@ -0,0 +1,62 @@
+import React, { useState, useEffect } from 'react';
+import { getBrandKits } from '../../services/brandKitService';
+import { type BrandKit, type BrandProduct } from '../../types';
+
+interface BrandKitSelectorProps {
+    brandKit: BrandKit | null;
+    onBrandKitChange: (kit: BrandKit | null) => void;
+    // Omit for tools that don't take a product (the product picker is hidden).
+    onProductSelect?: (product: BrandProduct) => void;
+}
+
+const selectClasses = "w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none";
+
+/**
+ * Brand kit dropdown for the generator views. Picking a product from the kit's
+ * catalog hands its image and description to the view to prefill its inputs.
+ */
+const BrandKitSelector: React.FC<BrandKitSelectorProps> = ({ brandKit, onBrandKitChange, onProductSelect }) => {
+    const [kits, setKits] = useState<BrandKit[]>([]);
+    const [productId, setProductId] = useState('');
+
+    useEffect(() => {
+        getBrandKits().then(setKits);
+    }, []);
+
+    useEffect(() => {
+        setProductId('');
+    }, [brandKit?.id]);
+
+    if (kits.length === 0) {
+        return <p className="text-xs text-neutral-500 dark:text-neutral-400">Create a Brand Kit in Settings to reuse your products, colors and tone of voice here.</p>;
+    }
+
+    const handleProductChange = (id: string) => {
+        setProductId(id);
+        const product = brandKit?.products.find(p => p.id === id);
+        if (product && onProductSelect) onProductSelect(product);
+    };
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+                <label className="block text-sm font-medium mb-1">Brand Kit</label>
+                <select value={brandKit?.id || ''} onChange={e => onBrandKitChange(kits.find(k => k.id === e.target.value) || null)} className={selectClasses}>
+                    <option value="">None</option>
+                    {kits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+                </select>
+            </div>
+            {onProductSelect && brandKit && brandKit.products.length > 0 && (
+                <div>
+                    <label className="block text-sm font-medium mb-1">Product</label>
+                    <select value={productId} onChange={e => handleProductChange(e.target.value)} className={selectClasses}>
+                        <option value="" disabled>Select a product...</option>
+                        {brandKit.products.map(product => <option key={product.id} value={product.id}>{product.name || 'Untitled product'}</option>)}
+                    </select>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BrandKitSelector;
@@ -10,13 +10,21 @@ import {
     vibeOptions,
     poseOptions,
     aspectRatioOptions,
+    cameraMovementOptions,
+    subjectMotionOptions,
+    pacingOptions,
+    shotDurationOptions,
+    transitionOptions,
+    isVideoCreativeDirectionState,
     type CreativeDirectionState,
+    type VideoCreativeDirectionState,
 } from '../../services/creativeDirectionService';
 import { type Language } from '../../types';
 
-interface CreativeDirectionPanelProps {
-    state: CreativeDirectionState;
-    setState: React.Dispatch<React.SetStateAction<CreativeDirectionState>>;
+// Video tools pass a VideoCreativeDirectionState, which adds the motion controls.
+interface CreativeDirectionPanelProps<T extends CreativeDirectionState> {
+    state: T;
+    setState: React.Dispatch<React.SetStateAction<T>>;
     language: Language;
     showVibe?: boolean;
     showPose?: boolean;
@@ -42,9 +50,9 @@ const SelectControl: React.FC<{
     </div>
 );
 
-const CreativeDirectionPanel: React.FC<CreativeDirectionPanelProps> = ({ state, setState, showVibe = true, showPose = false, showEffect = true, showAspectRatio = false }) => {
+const CreativeDirectionPanel = <T extends CreativeDirectionState>({ state, setState, showVibe = true, showPose = false, showEffect = true, showAspectRatio = false }: CreativeDirectionPanelProps<T>) => {
     
-    const handleChange = (field: keyof CreativeDirectionState, value: string | number) => {
+    const handleChange = (field: keyof VideoCreativeDirectionState, value: string | number) => {
         setState(prevState => ({ ...prevState, [field]: value }));
     };
 
@@ -64,6 +72,18 @@ const CreativeDirectionPanel: React.FC<CreativeDirectionPanelProps> = ({ state,
                     {showEffect && <SelectControl label="Visual Effect" value={state.effect} onChange={val => handleChange('effect', val)} options={effectOptions} />}
                     {showAspectRatio && <SelectControl label="Aspect Ratio" value={state.aspectRatio} onChange={val => handleChange('aspectRatio', val)} options={aspectRatioOptions} />}
                 </div>
+                {isVideoCreativeDirectionState(state) && (
+                    <div>
+                        <h3 className="text-sm font-semibold mb-2">Motion & Pacing</h3>
+                        <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+                            <SelectControl label="Camera Movement" value={state.cameraMovement} onChange={val => handleChange('cameraMovement', val)} options={cameraMovementOptions} />
+                            <SelectControl label="Subject Motion" value={state.subjectMotion} onChange={val => handleChange('subjectMotion', val)} options={subjectMotionOptions} />
+                            <SelectControl label="Pacing" value={state.pacing} onChange={val => handleChange('pacing', val)} options={pacingOptions} />
+                            <SelectControl label="Shot Duration" value={state.shotDuration} onChange={val => handleChange('shotDuration', val)} options={shotDurationOptions} />
+                            <SelectControl label="Transition" value={state.transition} onChange={val => handleChange('transition', val)} options={transitionOptions} />
+                        </div>
+                    </div>
+                )}
                 <div>
                     <label className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">AI Creativity Level ({state.creativityLevel})</label>
                     <input type="range" min="0" max="10" value={state.creativityLevel} onChange={(e) => handleChange('creativityLevel', Number(e.target.value))} className="w-full" />
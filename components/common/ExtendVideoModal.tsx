@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { type HistoryItem } from '../../types';
+import { XIcon, FilmIcon } from '../Icons';
+import { getTranslations } from '../../services/translations';
+import { handleApiError } from '../../services/errorHandler';
+import { extendHistoryVideo, MAX_EXTENSION_SEGMENTS, type VideoExtensionProgress } from '../../services/videoExtensionService';
+import { isAbortError } from '../../utils/abortUtils';
+import GenerationProgressBar from './GenerationProgressBar';
+import Spinner from './Spinner';
+
+interface ExtendVideoModalProps {
+    item: HistoryItem | null;
+    onClose: () => void;
+    // Called once the extended video has been saved to history.
+    onExtended: () => void;
+}
+
+const ExtendVideoModal: React.FC<ExtendVideoModalProps> = ({ item, onClose, onExtended }) => {
+    const [direction, setDirection] = useState('');
+    const [segments, setSegments] = useState(1);
+    const [progress, setProgress] = useState<VideoExtensionProgress | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const T = getTranslations().galleryView.extend;
+
+    useEffect(() => {
+        setDirection('');
+        setSegments(1);
+        setMessage(null);
+    }, [item]);
+
+    useEffect(() => {
+        return () => abortControllerRef.current?.abort();
+    }, []);
+
+    if (!item) return null;
+
+    const isExtending = progress !== null;
+
+    const handleExtend = async () => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setMessage(null);
+        setProgress({ step: 'segment', segment: 1, total: segments, progress: { phase: 'queued', percent: 0 } });
+        try {
+            await extendHistoryVideo(item, { direction, segments }, setProgress, controller.signal);
+            setMessage(T.done);
+            onExtended();
+        } catch (e) {
+            if (!isAbortError(e)) {
+                setMessage(handleApiError(e));
+            }
+            // Finished segments are saved on their own after a failure or cancel, so refresh either way.
+            onExtended();
+        } finally {
+            setProgress(null);
+            abortControllerRef.current = null;
+        }
+    };
+
+    const handleClose = () => {
+        abortControllerRef.current?.abort();
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-zoomIn p-4" onClick={handleClose} role="dialog" aria-modal="true">
+            <div className="bg-white dark:bg-neutral-900 rounded-lg shadow-2xl w-full max-w-md p-6 space-y-4" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-bold flex items-center gap-2"><FilmIcon className="w-5 h-5"/> {T.title}</h2>
+                    <button onClick={handleClose} className="p-1 rounded-full hover:bg-neutral-200 dark:hover:bg-neutral-700"><XIcon className="w-6 h-6"/></button>
+                </div>
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">{T.subtitle}</p>
+                <p className="text-xs text-neutral-500 dark:text-neutral-400 line-clamp-2">{item.prompt}</p>
+
+                <div>
+                    <label htmlFor="extend-direction" className="block text-sm font-medium mb-1">{T.directionLabel}</label>
+                    <textarea
+                        id="extend-direction"
+                        value={direction}
+                        onChange={e => setDirection(e.target.value)}
+                        placeholder={T.directionPlaceholder}
+                        rows={3}
+                        disabled={isExtending}
+                        className="w-full bg-neutral-100 dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none resize-none"
+                    />
+                </div>
+
+                <div>
+                    <label htmlFor="extend-segments" className="block text-sm font-medium mb-1">{T.segmentsLabel}</label>
+                    <select
+                        id="extend-segments"
+                        value={segments}
+                        onChange={e => setSegments(Number(e.target.value))}
+                        disabled={isExtending}
+                        className="w-full bg-neutral-100 dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none"
+                    >
+                        {Array.from({ length: MAX_EXTENSION_SEGMENTS }, (_, i) => i + 1).map(count => (
+                            <option key={count} value={count}>{T.segmentOption.replace('{count}', String(count))}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {progress?.step === 'segment' && (
+                    <div className="space-y-1">
+                        <p className="text-xs font-semibold text-neutral-600 dark:text-neutral-300">
+                            {T.segmentProgress.replace('{segment}', String(progress.segment)).replace('{total}', String(progress.total))}
+                        </p>
+                        <GenerationProgressBar progress={progress.progress} />
+                    </div>
+                )}
+                {progress?.step === 'joining' && (
+                    <div className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-300">
+                        <Spinner /> {T.joining} <span className="text-xs text-neutral-500">{progress.message}</span>
+                    </div>
+                )}
+                {message && <p className="text-sm text-neutral-600 dark:text-neutral-300">{message}</p>}
+
+                <div className="flex justify-end gap-2">
+                    <button onClick={handleClose} className="px-4 py-2 text-sm font-semibold rounded-lg bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors">
+                        {T.cancel}
+                    </button>
+                    <button
+                        onClick={handleExtend}
+                        disabled={isExtending}
+                        className="px-4 py-2 text-sm font-semibold rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-colors disabled:opacity-50"
+                    >
+                        {T.start}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExtendVideoModal;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { type GenerationProgress } from '../../types';
+import { getTranslations } from '../../services/translations';
+
+interface GenerationProgressBarProps {
+    progress: GenerationProgress | null;
+    className?: string;
+}
+
+/**
+ * Renders a generation's phase, estimated percentage and details (queue position,
+ * server, attempt) the same way in every view.
+ */
+const GenerationProgressBar: React.FC<GenerationProgressBarProps> = ({ progress, className = '' }) => {
+    const T = getTranslations().common.progress;
+    if (!progress) return null;
+
+    const details: string[] = [];
+    if (progress.phase === 'queued' && progress.queuePosition) {
+        details.push(T.queuePosition.replace('{position}', String(progress.queuePosition)));
+    }
+    if (progress.phase === 'queued' && progress.etaSeconds) {
+        details.push(T.eta.replace('{seconds}', String(progress.etaSeconds)));
+    }
+    if (progress.attempt && progress.attempt > 1) {
+        details.push(T.attempt.replace('{attempt}', String(progress.attempt)));
+    }
+    if (progress.server) {
+        details.push(progress.server.replace(/^https?:\/\//, ''));
+    }
+
+    const isFailed = progress.phase === 'failed';
+
+    return (
+        <div className={`w-full max-w-xs ${className}`}>
+            <div className="flex justify-between text-sm mb-1">
+                <span className={`font-medium ${isFailed ? 'text-red-500' : 'text-neutral-700 dark:text-neutral-300'}`}>{T[progress.phase]}</span>
+                {!isFailed && <span className="text-neutral-500">{Math.round(progress.percent)}%</span>}
+            </div>
+            <div className="w-full h-2 rounded-full bg-neutral-200 dark:bg-neutral-700 overflow-hidden">
+                <div
+                    className={`h-full rounded-full transition-all duration-500 ${isFailed ? 'bg-red-500' : 'bg-primary-500'}`}
+                    style={{ width: `${progress.percent}%` }}
+                />
+            </div>
+            {details.length > 0 && (
+                <p className="mt-1 text-xs text-neutral-400 dark:text-neutral-500 truncate">{details.join(' · ')}</p>
+            )}
+        </div>
+    );
+};
+
+export default GenerationProgressBar;
@@ -0,0 +1,58 @@
+import React, { useState, useEffect } from 'react';
+import eventBus from '../../services/eventBus';
+import { cancelQueuedGeneration } from '../../services/generationQueueService';
+import { type GenerationQueueEntry } from '../../types';
+import Spinner from './Spinner';
+import { XIcon } from '../Icons';
+
+const formatEta = (seconds: number | null) => {
+    if (seconds === null) return 'estimating...';
+    if (seconds < 60) return `~${seconds}s`;
+    return `~${Math.round(seconds / 60)} min`;
+};
+
+/**
+ * Floating list of this tab's generations that are waiting for a slot, with their queue
+ * position, estimated wait and a way to cancel. Positions arrive via the event bus from
+ * the generation queue service, which follows the queue over Supabase realtime.
+ */
+const GenerationQueueIndicator: React.FC = () => {
+    const [entries, setEntries] = useState<GenerationQueueEntry[]>([]);
+
+    useEffect(() => {
+        return eventBus.on('generationQueueUpdated', entry => {
+            setEntries(prev => entry.status === 'waiting'
+                ? [...prev.filter(e => e.id !== entry.id), entry]
+                : prev.filter(e => e.id !== entry.id));
+        });
+    }, []);
+
+    if (entries.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-4 right-4 z-50 w-72 space-y-2">
+            {entries.map(entry => (
+                <div key={entry.id} className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-lg shadow-lg p-3 flex items-center gap-3 animate-zoomIn">
+                    <Spinner />
+                    <div className="flex-1 min-w-0">
+                        <p className="text-sm font-semibold">
+                            {entry.position === 1 ? "You're next in the queue" : `#${entry.position} in the queue`}
+                        </p>
+                        <p className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                            Estimated wait {formatEta(entry.etaSeconds)} · {entry.serverUrl.replace('https://', '')}
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => cancelQueuedGeneration(entry.id)}
+                        className="p-1 rounded-full text-neutral-500 hover:text-red-500 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                        title="Cancel and leave the queue"
+                    >
+                        <XIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default GenerationQueueIndicator;
@@ -10,6 +10,8 @@ interface ImageUploadProps {
   title?: string;
   description?: string;
   language: Language;
+  // Pre-fills the preview, e.g. when restoring a saved project.
+  initialImage?: { base64: string; mimeType: string; } | null;
 }
 
 const ImageUpload: React.FC<ImageUploadProps> = ({ 
@@ -17,9 +19,12 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
   onImageUpload, 
   onRemove,
   title,
-  description
+  description,
+  initialImage
 }) => {
-  const [preview, setPreview] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string | null>(
+    initialImage ? `data:${initialImage.mimeType};base64,${initialImage.base64}` : null
+  );
   const [isDragging, setIsDragging] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
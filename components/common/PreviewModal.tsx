@@ -1,7 +1,12 @@
-import React, { useEffect } from 'react';
-import { type HistoryItem, type Language } from '../../types';
-import { XIcon, ChevronLeftIcon, ChevronRightIcon } from '../Icons';
+import React, { useEffect, useState } from 'react';
+import { type HistoryItem, type Language, type GenerationProgress, type ProgressCallback } from '../../types';
+import { XIcon, ChevronLeftIcon, ChevronRightIcon, ClipboardIcon, RefreshCwIcon, ScissorsIcon } from '../Icons';
 import { getTranslations } from '../../services/translations';
+import { handleApiError } from '../../services/errorHandler';
+import { type RerunSeedMode } from '../../services/generationRerunService';
+import { getModelLabel } from '../../services/generationMetadataService';
+import { isAbortError } from '../../utils/abortUtils';
+import GenerationProgressBar from './GenerationProgressBar';
 
 interface PreviewModalProps {
   item: HistoryItem | null;
@@ -11,12 +16,26 @@ interface PreviewModalProps {
   onPrevious?: () => void;
   hasNext?: boolean;
   hasPrevious?: boolean;
+  // Runs the item's generation again; the re-run buttons are only shown when provided.
+  onRerun?: (item: HistoryItem, seedMode: RerunSeedMode, onProgress: ProgressCallback) => Promise<void>;
+  canRerun?: (item: HistoryItem) => boolean;
+  // Opens the trim editor for a video; the trim button is only shown when provided.
+  onTrim?: (item: HistoryItem) => void;
+  canTrim?: (item: HistoryItem) => boolean;
   language: Language;
 }
 
-const PreviewModal: React.FC<PreviewModalProps> = ({ item, onClose, getDisplayUrl, onNext, onPrevious, hasNext, hasPrevious, language }) => {
+const PreviewModal: React.FC<PreviewModalProps> = ({ item, onClose, getDisplayUrl, onNext, onPrevious, hasNext, hasPrevious, onRerun, canRerun, onTrim, canTrim, language }) => {
   // FIX: Remove `language` argument from `getTranslations` call.
   const T = getTranslations().common;
+  const [rerunProgress, setRerunProgress] = useState<GenerationProgress | null>(null);
+  const [rerunMessage, setRerunMessage] = useState<string | null>(null);
+  const [isSeedCopied, setIsSeedCopied] = useState(false);
+
+  useEffect(() => {
+    setRerunMessage(null);
+    setIsSeedCopied(false);
+  }, [item]);
   
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -39,6 +58,45 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ item, onClose, getDisplayUr
   const displayUrl = getDisplayUrl(item);
   const isImage = item.type === 'Image' || item.type === 'Canvas';
   const isVideo = item.type === 'Video';
+  const metadata = item.metadata;
+  const seed = metadata?.seed;
+  const isRerunning = rerunProgress !== null;
+  const detailsT = T.generationDetails;
+
+  const details: { label?: string; value: string; title?: string }[] = [];
+  if (metadata?.sourceTool && metadata.sourceTool !== 'Unknown') details.push({ label: detailsT.source, value: T.sourceTools[metadata.sourceTool] });
+  if (metadata?.model) details.push({ label: detailsT.model, value: getModelLabel(metadata.model) });
+  if (metadata?.aspectRatio) details.push({ label: detailsT.aspectRatio, value: metadata.aspectRatio });
+  if (metadata?.resolution) details.push({ label: detailsT.resolution, value: metadata.resolution });
+  if (metadata?.segments) details.push({ label: detailsT.segments, value: String(metadata.segments.length) });
+  if (metadata?.trimmedFrom) details.push({ value: detailsT.trimmedFrom.replace('{start}', metadata.trimmedFrom.startSeconds.toFixed(2)).replace('{end}', metadata.trimmedFrom.endSeconds.toFixed(2)) });
+  if (metadata?.durationMs !== undefined) details.push({ value: detailsT.duration.replace('{seconds}', String(Math.round(metadata.durationMs / 1000))) });
+  if (metadata?.costUsd !== undefined) details.push({ value: detailsT.cost.replace('{cost}', metadata.costUsd.toFixed(2)), title: detailsT.costHint });
+  if (metadata?.server) details.push({ label: detailsT.server, value: metadata.server.replace(/^https?:\/\//, '') });
+  if (metadata?.tokenSuffix) details.push({ value: detailsT.token.replace('{suffix}', metadata.tokenSuffix) });
+
+  const handleCopySeed = () => {
+    if (seed === undefined) return;
+    navigator.clipboard.writeText(String(seed));
+    setIsSeedCopied(true);
+    setTimeout(() => setIsSeedCopied(false), 2000);
+  };
+
+  const handleRerun = async (seedMode: RerunSeedMode) => {
+    if (!onRerun) return;
+    setRerunMessage(null);
+    setRerunProgress({ phase: 'queued', percent: 0 });
+    try {
+      await onRerun(item, seedMode, setRerunProgress);
+      setRerunMessage(T.seed.rerunDone);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        setRerunMessage(handleApiError(e));
+      }
+    } finally {
+      setRerunProgress(null);
+    }
+  };
 
   return (
     <div
@@ -75,12 +133,83 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ item, onClose, getDisplayUr
             <img src={displayUrl} alt={item.prompt} className="max-w-full max-h-full object-contain rounded-md" />
           )}
           {isVideo && displayUrl && (
-            <video src={displayUrl} controls autoPlay className="max-w-full max-h-full object-contain rounded-md" />
+            <video src={displayUrl} poster={metadata?.posterFrame} controls autoPlay className="max-w-full max-h-full object-contain rounded-md" />
           )}
         </div>
         
         <div className="flex-shrink-0 mt-4 text-center">
             <p className="text-white text-sm line-clamp-2">{item.prompt}</p>
+            {details.length > 0 && (
+              <div className="mt-2 flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-xs text-neutral-400">
+                {details.map((detail, index) => (
+                  <span key={index} title={detail.title}>
+                    {detail.label && <span className="text-neutral-500">{detail.label}: </span>}
+                    {detail.value}
+                  </span>
+                ))}
+              </div>
+            )}
+            {metadata?.referenceThumbnails && metadata.referenceThumbnails.length > 0 && (
+              <div className="mt-2 flex items-center justify-center gap-2" title={detailsT.references}>
+                {metadata.referenceThumbnails.map((thumbnail, index) => (
+                  <img key={index} src={thumbnail} alt={`${detailsT.references} ${index + 1}`} className="w-10 h-10 object-cover rounded border border-white/20" />
+                ))}
+              </div>
+            )}
+            {(isImage || isVideo) && (
+              <div className="mt-3 flex flex-wrap items-center justify-center gap-2 text-sm">
+                {seed !== undefined && (
+                  <button
+                    onClick={handleCopySeed}
+                    title={T.seed.copy}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/10 text-neutral-200 hover:bg-white/20 transition-colors font-mono"
+                  >
+                    {T.seed.label}: {seed}
+                    <ClipboardIcon className={`w-3.5 h-3.5 ${isSeedCopied ? 'text-green-400' : ''}`} />
+                  </button>
+                )}
+                {onRerun && (!canRerun || canRerun(item)) && (
+                  <>
+                    {seed !== undefined && (
+                      <button
+                        onClick={() => handleRerun('same')}
+                        disabled={isRerunning}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-primary-600 text-white hover:bg-primary-700 transition-colors disabled:opacity-50"
+                      >
+                        <RefreshCwIcon className="w-3.5 h-3.5" />
+                        {T.seed.rerunSame}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRerun('vary')}
+                      disabled={isRerunning}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-50"
+                    >
+                      {T.seed.rerunVary}
+                    </button>
+                  </>
+                )}
+                {isVideo && onTrim && (!canTrim || canTrim(item)) && (
+                  <button
+                    onClick={() => onTrim(item)}
+                    disabled={isRerunning}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-50"
+                  >
+                    <ScissorsIcon className="w-3.5 h-3.5" />
+                    {T.trimVideo}
+                  </button>
+                )}
+                {onRerun && canRerun && !canRerun(item) && (
+                  <p className="text-xs text-neutral-400">{T.seed.rerunUnavailable}</p>
+                )}
+              </div>
+            )}
+            {isRerunning && (
+              <div className="mx-auto mt-3 max-w-xs rounded-md bg-neutral-100 dark:bg-neutral-900 p-2">
+                <GenerationProgressBar progress={rerunProgress} />
+              </div>
+            )}
+            {rerunMessage && <p className="mt-2 text-xs text-neutral-300">{rerunMessage}</p>}
         </div>
       </div>
 
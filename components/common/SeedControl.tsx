@@ -0,0 +1,72 @@
+import React from 'react';
+import { RefreshCwIcon, XIcon } from '../Icons';
+import { getTranslations } from '../../services/translations';
+
+// The generation APIs accept 31-bit positive integers.
+export const MAX_SEED = 2147483647;
+
+export const createRandomSeed = (): number => Math.floor(Math.random() * MAX_SEED) + 1;
+
+interface SeedControlProps {
+    // Null means a fresh random seed is used for every generation.
+    seed: number | null;
+    onChange: (seed: number | null) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Lets the user lock the seed of the next generation so a result can be reproduced,
+ * or leave it empty for a new random seed each time.
+ */
+const SeedControl: React.FC<SeedControlProps> = ({ seed, onChange, disabled }) => {
+    const T = getTranslations().common.seed;
+
+    const handleInputChange = (value: string) => {
+        const parsed = parseInt(value, 10);
+        onChange(Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, MAX_SEED) : null);
+    };
+
+    return (
+        <div>
+            <label htmlFor="seed-input" className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">{T.label}</label>
+            <div className="flex gap-2">
+                <input
+                    id="seed-input"
+                    type="number"
+                    min={1}
+                    max={MAX_SEED}
+                    value={seed ?? ''}
+                    onChange={(e) => handleInputChange(e.target.value)}
+                    placeholder={T.random}
+                    disabled={disabled}
+                    className="w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-3 font-mono focus:ring-2 focus:ring-primary-500 focus:outline-none transition disabled:opacity-50"
+                />
+                <button
+                    type="button"
+                    onClick={() => onChange(createRandomSeed())}
+                    disabled={disabled}
+                    title={T.randomize}
+                    aria-label={T.randomize}
+                    className="flex-shrink-0 p-3 rounded-lg bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50"
+                >
+                    <RefreshCwIcon className="w-4 h-4" />
+                </button>
+                {seed !== null && (
+                    <button
+                        type="button"
+                        onClick={() => onChange(null)}
+                        disabled={disabled}
+                        title={T.clear}
+                        aria-label={T.clear}
+                        className="flex-shrink-0 p-3 rounded-lg bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50"
+                    >
+                        <XIcon className="w-4 h-4" />
+                    </button>
+                )}
+            </div>
+            <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">{T.hint}</p>
+        </div>
+    );
+};
+
+export default SeedControl;
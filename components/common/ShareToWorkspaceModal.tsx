@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { getMyWorkspaces, shareHistoryItemToWorkspace } from '../../services/workspaceService';
+import { type HistoryItem, type Workspace } from '../../types';
+import { CheckCircleIcon, UsersIcon, XIcon } from '../Icons';
+import Spinner from './Spinner';
+
+interface ShareToWorkspaceModalProps {
+    item: HistoryItem | null;
+    onClose: () => void;
+}
+
+const ShareToWorkspaceModal: React.FC<ShareToWorkspaceModalProps> = ({ item, onClose }) => {
+    const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null);
+    const [sharingTo, setSharingTo] = useState<string | null>(null);
+    const [sharedTo, setSharedTo] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!item) return;
+        setSharedTo([]);
+        setError(null);
+        getMyWorkspaces()
+            .then(setWorkspaces)
+            .catch(e => {
+                setWorkspaces([]);
+                setError(e instanceof Error ? e.message : String(e));
+            });
+    }, [item]);
+
+    if (!item) return null;
+
+    const handleShare = async (workspace: Workspace) => {
+        setSharingTo(workspace.id);
+        setError(null);
+        try {
+            await shareHistoryItemToWorkspace(workspace.id, item);
+            setSharedTo(prev => [...prev, workspace.id]);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setSharingTo(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-zoomIn p-4" onClick={onClose} role="dialog" aria-modal="true">
+            <div className="bg-white dark:bg-neutral-900 rounded-lg shadow-2xl w-full max-w-md p-6 space-y-4" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-bold">Share to Workspace</h2>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-neutral-200 dark:hover:bg-neutral-700"><XIcon className="w-6 h-6"/></button>
+                </div>
+                <p className="text-sm text-neutral-500 dark:text-neutral-400 line-clamp-2">{item.prompt}</p>
+
+                {workspaces === null ? (
+                    <div className="flex justify-center py-6"><Spinner /></div>
+                ) : workspaces.length === 0 ? (
+                    <p className="text-sm text-center text-neutral-500 py-6">You're not in any workspace yet. Create one under Gallery &gt; Team Workspace.</p>
+                ) : (
+                    <div className="space-y-2">
+                        {workspaces.map(workspace => {
+                            const isShared = sharedTo.includes(workspace.id);
+                            return (
+                                <button
+                                    key={workspace.id}
+                                    onClick={() => handleShare(workspace)}
+                                    disabled={!!sharingTo || isShared}
+                                    className="w-full flex items-center justify-between gap-3 p-3 rounded-lg border border-neutral-200 dark:border-neutral-700 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors disabled:cursor-default"
+                                >
+                                    <span className="flex items-center gap-2 font-semibold text-sm"><UsersIcon className="w-4 h-4"/> {workspace.name}</span>
+                                    {sharingTo === workspace.id ? <Spinner /> : isShared ? <span className="flex items-center gap-1 text-xs text-green-600"><CheckCircleIcon className="w-4 h-4"/> Shared</span> : <span className="text-xs text-primary-600 dark:text-primary-400">Share</span>}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {error && <p className="text-sm text-red-500">{error}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default ShareToWorkspaceModal;
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { type HistoryItem } from '../../types';
+import { XIcon, ScissorsIcon, ChevronLeftIcon, ChevronRightIcon, PlayIcon } from '../Icons';
+import { getTranslations } from '../../services/translations';
+import { handleApiError } from '../../services/errorHandler';
+import { trimHistoryVideo, snapToFrame, VIDEO_FRAME_RATE } from '../../services/videoTrimService';
+import Spinner from './Spinner';
+
+interface TrimVideoModalProps {
+    item: HistoryItem | null;
+    onClose: () => void;
+    // Called once the trimmed copy has been saved to history.
+    onTrimmed: () => void;
+}
+
+const FRAME_DURATION = 1 / VIDEO_FRAME_RATE;
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+const TrimVideoModal: React.FC<TrimVideoModalProps> = ({ item, onClose, onTrimmed }) => {
+    const [videoUrl, setVideoUrl] = useState<string | null>(null);
+    const [duration, setDuration] = useState(0);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [inPoint, setInPoint] = useState(0);
+    const [outPoint, setOutPoint] = useState(0);
+    const [posterTime, setPosterTime] = useState<number | null>(null);
+    const [posterPreview, setPosterPreview] = useState<string | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const T = getTranslations().galleryView.trim;
+
+    useEffect(() => {
+        setDuration(0);
+        setCurrentTime(0);
+        setInPoint(0);
+        setOutPoint(0);
+        setPosterTime(null);
+        setPosterPreview(null);
+        setMessage(null);
+        if (!(item?.result instanceof Blob)) {
+            setVideoUrl(null);
+            return;
+        }
+        const url = URL.createObjectURL(item.result);
+        setVideoUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [item]);
+
+    const seekTo = (seconds: number) => {
+        const time = Math.min(Math.max(0, snapToFrame(seconds)), duration);
+        if (videoRef.current) {
+            videoRef.current.pause();
+            videoRef.current.currentTime = time;
+        }
+        setCurrentTime(time);
+    };
+
+    // Arrow keys step one frame, unless a slider has focus and handles them itself.
+    useEffect(() => {
+        if (!item) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+            if (event.key === 'ArrowLeft') seekTo(currentTime - FRAME_DURATION);
+            if (event.key === 'ArrowRight') seekTo(currentTime + FRAME_DURATION);
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    });
+
+    if (!item) return null;
+
+    const isSaving = status !== null;
+    const isValidRange = outPoint > inPoint;
+
+    const handleLoadedMetadata = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        setDuration(video.duration);
+        setOutPoint(video.duration);
+    };
+
+    const handleTimeUpdate = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        // Playing the selection stops at the out point.
+        if (!video.paused && video.currentTime >= outPoint) {
+            video.pause();
+            video.currentTime = outPoint;
+        }
+        setCurrentTime(video.currentTime);
+    };
+
+    const handlePlayRange = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.currentTime = inPoint;
+        video.play();
+    };
+
+    const handleSetPoster = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+        setPosterPreview(canvas.toDataURL('image/jpeg', 0.85));
+        setPosterTime(currentTime);
+    };
+
+    const handleSave = async () => {
+        if (!isValidRange) {
+            setMessage(T.invalidRange);
+            return;
+        }
+        setMessage(null);
+        setStatus('');
+        try {
+            await trimHistoryVideo(item, { startSeconds: inPoint, endSeconds: outPoint, posterSeconds: posterTime ?? inPoint }, setStatus);
+            setMessage(T.done);
+            onTrimmed();
+        } catch (e) {
+            setMessage(handleApiError(e));
+        } finally {
+            setStatus(null);
+        }
+    };
+
+    const percent = (seconds: number) => duration > 0 ? `${(seconds / duration) * 100}%` : '0%';
+    const sliderClassName = 'w-full accent-primary-600 disabled:opacity-50';
+    const buttonClassName = 'flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-lg bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50';
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-zoomIn p-4" onClick={onClose} role="dialog" aria-modal="true">
+            <div className="bg-white dark:bg-neutral-900 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-4" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-bold flex items-center gap-2"><ScissorsIcon className="w-5 h-5"/> {T.title}</h2>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-neutral-200 dark:hover:bg-neutral-700"><XIcon className="w-6 h-6"/></button>
+                </div>
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">{T.subtitle}</p>
+
+                {videoUrl && (
+                    <video
+                        ref={videoRef}
+                        src={videoUrl}
+                        onLoadedMetadata={handleLoadedMetadata}
+                        onTimeUpdate={handleTimeUpdate}
+                        onSeeked={handleTimeUpdate}
+                        playsInline
+                        className="w-full max-h-[40vh] bg-black rounded-md object-contain"
+                    />
+                )}
+
+                <div className="space-y-2">
+                    <div className="relative h-2 rounded-full bg-neutral-200 dark:bg-neutral-700">
+                        <div className="absolute h-2 rounded-full bg-primary-500/60" style={{ left: percent(inPoint), width: `calc(${percent(outPoint)} - ${percent(inPoint)})` }} />
+                        {posterTime !== null && <div className="absolute -top-1 w-1 h-4 bg-yellow-400 rounded" style={{ left: percent(posterTime) }} title={T.poster} />}
+                    </div>
+                    <input type="range" min={0} max={duration} step={FRAME_DURATION} value={currentTime} onChange={e => seekTo(Number(e.target.value))} disabled={isSaving || duration === 0} className={sliderClassName} aria-label={formatTime(currentTime)} />
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => seekTo(currentTime - FRAME_DURATION)} disabled={isSaving} className={buttonClassName} title={T.previousFrame} aria-label={T.previousFrame}><ChevronLeftIcon className="w-4 h-4" /></button>
+                            <span className="font-mono text-sm w-20 text-center">{formatTime(currentTime)}</span>
+                            <button onClick={() => seekTo(currentTime + FRAME_DURATION)} disabled={isSaving} className={buttonClassName} title={T.nextFrame} aria-label={T.nextFrame}><ChevronRightIcon className="w-4 h-4" /></button>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => setInPoint(Math.min(currentTime, outPoint))} disabled={isSaving} className={buttonClassName}>{T.setIn}</button>
+                            <button onClick={() => setOutPoint(Math.max(currentTime, inPoint))} disabled={isSaving} className={buttonClassName}>{T.setOut}</button>
+                            <button onClick={handlePlayRange} disabled={isSaving || !isValidRange} className={buttonClassName}><PlayIcon className="w-4 h-4" /> {T.playRange}</button>
+                        </div>
+                    </div>
+                    <p className="text-xs text-neutral-500 dark:text-neutral-400">{T.keyboardHint}</p>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="trim-in" className="block text-sm font-medium mb-1">{T.in}: <span className="font-mono">{formatTime(inPoint)}</span></label>
+                        <input id="trim-in" type="range" min={0} max={duration} step={FRAME_DURATION} value={inPoint} onChange={e => { const time = Math.min(snapToFrame(Number(e.target.value)), outPoint); setInPoint(time); seekTo(time); }} disabled={isSaving || duration === 0} className={sliderClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="trim-out" className="block text-sm font-medium mb-1">{T.out}: <span className="font-mono">{formatTime(outPoint)}</span></label>
+                        <input id="trim-out" type="range" min={0} max={duration} step={FRAME_DURATION} value={outPoint} onChange={e => { const time = Math.max(Math.min(snapToFrame(Number(e.target.value)), duration), inPoint); setOutPoint(time); seekTo(time); }} disabled={isSaving || duration === 0} className={sliderClassName} />
+                    </div>
+                </div>
+                <p className="text-sm text-neutral-600 dark:text-neutral-300">{T.keptDuration.replace('{seconds}', Math.max(0, outPoint - inPoint).toFixed(2))}</p>
+
+                <div className="flex items-center gap-3">
+                    {posterPreview
+                        ? <img src={posterPreview} alt={T.poster} className="w-16 h-16 object-cover rounded border border-neutral-300 dark:border-neutral-700" />
+                        : <div className="w-16 h-16 rounded bg-neutral-100 dark:bg-neutral-800" />}
+                    <div className="space-y-1">
+                        <p className="text-sm font-medium">{T.poster}{posterTime !== null && <span className="font-mono text-xs text-neutral-500"> {formatTime(posterTime)}</span>}</p>
+                        <button onClick={handleSetPoster} disabled={isSaving || currentTime < inPoint || currentTime > outPoint} className={buttonClassName}>{T.setPoster}</button>
+                        <p className="text-xs text-neutral-500 dark:text-neutral-400">{T.posterHint}</p>
+                    </div>
+                </div>
+
+                {isSaving && (
+                    <div className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-300">
+                        <Spinner /> <span className="text-xs text-neutral-500">{status}</span>
+                    </div>
+                )}
+                {message && <p className="text-sm text-neutral-600 dark:text-neutral-300">{message}</p>}
+
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-semibold rounded-lg bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors">
+                        {T.cancel}
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || !isValidRange}
+                        className="px-4 py-2 text-sm font-semibold rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-colors disabled:opacity-50"
+                    >
+                        {T.save}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TrimVideoModal;
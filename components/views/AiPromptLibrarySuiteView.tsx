@@ -1,22 +1,25 @@
 import React, { useState } from 'react';
 import LibraryView from './LibraryView';
 import PromptViralMyView from './PromptViralMyView';
+import MyPromptsView from './MyPromptsView';
 import Tabs, { type Tab } from '../common/Tabs';
 import { type Language } from '../../types';
 
 interface AiPromptLibrarySuiteViewProps {
     onUsePrompt: (prompt: string) => void;
+    onCreateVideo: (preset: { prompt: string; image: null }) => void;
     language: Language;
 }
 
-type TabId = 'library' | 'viral-my';
+type TabId = 'library' | 'viral-my' | 'my-prompts';
 
-const AiPromptLibrarySuiteView: React.FC<AiPromptLibrarySuiteViewProps> = ({ onUsePrompt, language }) => {
+const AiPromptLibrarySuiteView: React.FC<AiPromptLibrarySuiteViewProps> = ({ onUsePrompt, onCreateVideo, language }) => {
     const [activeTab, setActiveTab] = useState<TabId>('library');
 
     const tabs: Tab<TabId>[] = [
         { id: 'library', label: "Prompt Library" },
         { id: 'viral-my', label: "Viral Prompts (MY)" },
+        { id: 'my-prompts', label: "My Prompts" },
     ];
 
     const renderActiveTabContent = () => {
@@ -26,6 +29,8 @@ const AiPromptLibrarySuiteView: React.FC<AiPromptLibrarySuiteViewProps> = ({ onU
             case 'viral-my':
                 // PromptViralMyView does not require a language prop as its content is curated.
                 return <PromptViralMyView onUsePrompt={onUsePrompt} />;
+            case 'my-prompts':
+                return <MyPromptsView onUsePrompt={onUsePrompt} onCreateVideo={onCreateVideo} language={language} />;
             default:
                 return <LibraryView onUsePrompt={onUsePrompt} language={language} />;
         }
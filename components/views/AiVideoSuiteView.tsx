@@ -2,17 +2,19 @@ import React, { useState, useEffect, useMemo } from 'react';
 import VideoGenerationView from './VideoGenerationView';
 import { VideoCombinerView } from './VideoCombinerView';
 import VoiceStudioView from './VoiceStudioView';
+import VoiceOverMixerView from './VoiceOverMixerView';
+import CaptionStudioView from './CaptionStudioView';
 import ProductReviewView from './ProductReviewView';
 import Tabs, { type Tab } from '../common/Tabs';
 import { type BatchProcessorPreset, type User, type Language } from '../../types';
 import BatchProcessorView from './BatchProcessorView';
 
 
-type TabId = 'generation' | 'storyboard' | 'batch' | 'combiner' | 'voice';
+type TabId = 'generation' | 'storyboard' | 'batch' | 'combiner' | 'voice' | 'mixer' | 'captions';
 
 interface VideoGenPreset {
   prompt: string;
-  image: { base64: string; mimeType: string; };
+  image: { base64: string; mimeType: string; } | null;
 }
 
 interface ImageEditPreset {
@@ -38,7 +40,9 @@ const AiVideoSuiteView: React.FC<AiVideoSuiteViewProps> = ({ preset, clearPreset
         { id: 'storyboard', label: "Video Storyboard" },
         { id: 'batch', label: "Batch Processing", adminOnly: true },
         { id: 'combiner', label: "Video Combiner", adminOnly: true },
-        { id: 'voice', label: "Voice Studio" }
+        { id: 'voice', label: "Voice Studio" },
+        { id: 'mixer', label: "Voice-over Mixer" },
+        { id: 'captions', label: "Captions" }
     ];
 
     useEffect(() => {
@@ -77,6 +81,10 @@ const AiVideoSuiteView: React.FC<AiVideoSuiteViewProps> = ({ preset, clearPreset
                 return <VideoCombinerView language={language} />;
             case 'voice':
                 return <VoiceStudioView language={language} />;
+            case 'mixer':
+                return <VoiceOverMixerView language={language} />;
+            case 'captions':
+                return <CaptionStudioView language={language} />;
             default:
                 return <VideoGenerationView 
                             preset={preset} 
@@ -1,11 +1,16 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { generateVideo } from '../../services/geminiService';
+import { generateVideo, generateText } from '../../services/geminiService';
+import { generateImageWithImagen, editOrComposeWithImagen, type ImagenConfig } from '../../services/imagenV3Service';
+import { getImageEditingPrompt, getSafetyRephrasePrompt } from '../../services/promptManager';
+import { createBatchScheduler, MAX_JOBS_PER_TOKEN, type BatchScheduler, type BatchSchedulerEvent } from '../../services/batchScheduler';
 import { addHistoryItem } from '../../services/historyService';
 import Spinner from '../common/Spinner';
-import { UploadIcon, PlayIcon, TrashIcon, CheckCircleIcon, XIcon, ClipboardListIcon } from '../Icons';
+import { UploadIcon, PlayIcon, TrashIcon, CheckCircleIcon, XIcon, ClipboardListIcon, DownloadIcon } from '../Icons';
 import { MODELS } from '../../services/aiConfig';
-import { type BatchItem, type BatchProcessorPreset, type Language } from '../../types';
+import { type BatchItem, type BatchItemResult, type BatchProcessorPreset, type NewGenerationMetadata, type Language } from '../../types';
 import { getTranslations } from '../../services/translations';
+import { BATCH_ASPECT_RATIOS, buildBatchArchive, buildResultsManifest, getBatchOutputName, isBatchManifestFile, parseBatchManifest } from '../../services/batchManifestService';
+import { getRunMetadata } from '../../services/generationMetadataService';
 
 interface Log {
   timestamp: string;
@@ -19,16 +24,69 @@ interface BatchProcessorViewProps {
   language: Language;
 }
 
+const RESULT_STATUS_STYLES: Record<BatchItemResult['status'], string> = {
+  pending: 'bg-neutral-200 text-neutral-600 dark:bg-neutral-700 dark:text-neutral-300',
+  running: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  success: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  cancelled: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300',
+};
+
+// Keyframe mode makes videos that move from each row's image to its end image.
+type BatchMode = 'video' | 'image' | 'keyframes';
+
+const MODE_LABELS: Record<BatchMode, string> = {
+  video: 'Videos',
+  image: 'Images',
+  keyframes: 'Keyframes',
+};
+
+const CONCURRENCY_OPTIONS = Array.from({ length: MAX_JOBS_PER_TOKEN }, (_, i) => i + 1);
+const MAX_ITEM_RETRIES = 2;
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const downloadText = (content: string, fileName: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+};
+
 const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPreset, language }) => {
   const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<BatchMode>('video');
   const model = MODELS.videoGenerationDefault;
   const [aspectRatio, setAspectRatio] = useState("9:16");
   const [resolution, setResolution] = useState("720p");
+  const [concurrency, setConcurrency] = useState(2);
+  const [autoRephrase, setAutoRephrase] = useState(true);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [logs, setLogs] = useState<Log[]>([{ timestamp: new Date().toLocaleTimeString(), message: 'Engine ready. Upload a file to start.', type: 'info' }]);
   const [progress, setProgress] = useState({ completed: 0, failed: 0 });
-  const isCancelledRef = useRef(false);
+  const [results, setResults] = useState<BatchItemResult[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const schedulerRef = useRef<BatchScheduler | null>(null);
+  // Generated files by batch index, kept for the zip export.
+  const outputsRef = useRef<Map<number, Blob>>(new Map());
   const logContainerRef = useRef<HTMLDivElement>(null);
   
   useEffect(() => {
@@ -52,16 +110,37 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
             };
         });
         setBatchItems(formattedPreset);
+        setResults([]);
         setFileName(`${formattedPreset.length} prompts loaded from Storyboard.`);
         addLog(`${formattedPreset.length} prompts loaded from Storyboard.`, 'info');
         clearPreset();
     }
   }, [preset, clearPreset, addLog]);
 
+  const loadManifest = async (file: File) => {
+    try {
+        const { items, warnings } = await parseBatchManifest(file);
+        warnings.forEach(warning => addLog(warning, 'error'));
+        setBatchItems(items);
+        setResults([]);
+        setFileName(file.name);
+        addLog(`${items.length} rows loaded from manifest ${file.name}`, 'info');
+    } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : "Unknown error";
+        addLog(`Could not read manifest ${file.name}: ${errorMessage}`, 'error');
+    }
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    if (isBatchManifestFile(file.name)) {
+        loadManifest(file);
+        if (e.target) e.target.value = '';
+        return;
+    }
+
     const reader = new FileReader();
     reader.onload = (event) => {
         const content = event.target?.result as string;
@@ -96,6 +175,7 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
         }
 
         setBatchItems(items);
+        setResults([]);
         setFileName(file.name);
         addLog(`${items.length} prompts loaded from ${file.name}`, 'info');
     };
@@ -105,6 +185,7 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
 
   const clearItems = () => {
       setBatchItems([]);
+      setResults([]);
       setFileName(null);
   }
 
@@ -116,9 +197,68 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
     });
   };
 
+  // Rows with a reference image become recipe edits of that image; the rest are text-to-image.
+  const generateBatchImage = async (item: BatchItem, seed: number, signal: AbortSignal): Promise<Blob> => {
+    const config: ImagenConfig = {
+        sampleCount: 1,
+        aspectRatio: (item.aspectRatio ?? aspectRatio) as ImagenConfig['aspectRatio'],
+        seed,
+    };
+    const startedAt = Date.now();
+
+    let result;
+    let metadata: NewGenerationMetadata;
+    if (item.image) {
+        const fullPrompt = item.negativePrompt ? `${item.prompt}, negative prompt: ${item.negativePrompt}` : item.prompt;
+        const editingPrompt = getImageEditingPrompt(fullPrompt);
+        result = await editOrComposeWithImagen({
+            prompt: editingPrompt,
+            images: [{ ...item.image, category: 'MEDIA_CATEGORY_SUBJECT', caption: 'image to edit' }],
+            config,
+            signal
+        });
+        metadata = {
+            ...getRunMetadata(MODELS.imageEdit, startedAt, result),
+            prompt: editingPrompt,
+            seed,
+            aspectRatio: config.aspectRatio,
+            referenceImages: [item.image],
+        };
+    } else {
+        result = await generateImageWithImagen({
+            prompt: item.prompt,
+            config: { ...config, negativePrompt: item.negativePrompt },
+            signal
+        });
+        metadata = {
+            ...getRunMetadata(MODELS.imageGeneration, startedAt, result),
+            prompt: item.prompt,
+            seed,
+            aspectRatio: config.aspectRatio,
+            negativePrompt: item.negativePrompt,
+        };
+    }
+
+    const resultImage: string | undefined = result.imagePanels[0]?.generatedImages[0]?.encodedImage;
+    if (!resultImage) {
+        throw new Error("Image generation did not return any output.");
+    }
+
+    await addHistoryItem({ type: 'Image', prompt: `Batch: ${item.prompt}`, result: resultImage, metadata });
+    return base64ToBlob(resultImage, 'image/png');
+  };
+
   const handleStartProcess = async () => {
     if (batchItems.length === 0) return;
 
+    if (mode === 'keyframes') {
+      const missing = batchItems.map((item, i) => item.image && item.endImage ? null : i + 1).filter((row): row is number => row !== null);
+      if (missing.length > 0) {
+        addLog(`Keyframe mode needs a start and an end image for every row. Missing on row(s): ${missing.join(', ')}.`, 'error');
+        return;
+      }
+    }
+
     const tokensJSON = sessionStorage.getItem('veoAuthTokens');
     if (!tokensJSON || tokensJSON === '[]') {
       addLog('Veo Authentication Token is required. Please set it using the Key icon in the header.', 'error');
@@ -126,52 +266,148 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
     }
 
     setIsProcessing(true);
-    isCancelledRef.current = false;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setLogs([]);
     setProgress({ completed: 0, failed: 0 });
-    addLog(`Starting batch process for ${batchItems.length} videos...`, 'info');
+    // Seeds are fixed per item up front so retries reproduce the same generation and the
+    // exported manifest can list them.
+    const seeds = batchItems.map(() => Math.floor(Math.random() * 2147483647));
+    setResults(batchItems.map((item, i) => ({ status: 'pending', outputName: getBatchOutputName(item, i, mode === 'image' ? 'png' : 'mp4'), seed: seeds[i] })));
+    outputsRef.current = new Map();
+    addLog(`Starting batch process for ${batchItems.length} ${mode === 'image' ? 'images' : 'videos'}...`, 'info');
 
-    for (let i = 0; i < batchItems.length; i++) {
-        if (isCancelledRef.current) {
-            addLog('Process cancelled by user.', 'info');
-            break;
+    const updateResult = (index: number, update: Partial<BatchItemResult>) => {
+        setResults(prev => prev.map((result, i) => i === index ? { ...result, ...update } : result));
+    };
+
+    const runItem = async (i: number, prompt: string, signal: AbortSignal) => {
+        const item = { ...batchItems[i], prompt };
+        if (mode === 'image') {
+            outputsRef.current.set(i, await generateBatchImage(item, seeds[i], signal));
+            return;
         }
 
-        const item = batchItems[i];
-        const prompt = item.prompt;
-        addLog(`Processing [${i + 1}/${batchItems.length}]: ${prompt}`, 'info');
-
-        try {
-            const imagePayload = item.image ? { imageBytes: item.image.base64, mimeType: item.image.mimeType } : undefined;
-            const { videoFile } = await generateVideo(prompt, model, aspectRatio, resolution, "", imagePayload);
-
-            if (!videoFile) {
-                throw new Error("Video generation did not return any output.");
-            }
-            
-            await addHistoryItem({ type: 'Video', prompt: `Batch: ${prompt}`, result: videoFile });
-            
-            addLog(`Successfully generated video for: ${prompt}`, 'success');
-            setProgress(p => ({ ...p, completed: p.completed + 1 }));
-        } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : "Unknown error";
-            addLog(`Failed to generate video for: ${prompt}. Error: ${errorMessage}`, 'error');
-            setProgress(p => ({ ...p, failed: p.failed + 1 }));
+        const imagePayload = item.image ? { imageBytes: item.image.base64, mimeType: item.image.mimeType } : undefined;
+        const endImage = mode === 'keyframes' ? item.endImage : undefined;
+        const endImagePayload = endImage ? { imageBytes: endImage.base64, mimeType: endImage.mimeType } : undefined;
+        const startedAt = Date.now();
+        const { videoFile, successfulToken, server } = await generateVideo(prompt, item.model ?? model, item.aspectRatio ?? aspectRatio, resolution, item.negativePrompt ?? "", imagePayload, undefined, signal, seeds[i], endImagePayload);
+
+        if (!videoFile) {
+            throw new Error("Video generation did not return any output.");
         }
-         // Add a small delay between requests to be polite to the API
-        if (i < batchItems.length - 1) {
-             await new Promise(resolve => setTimeout(resolve, 1000));
+
+        await addHistoryItem({
+            type: 'Video',
+            prompt: `Batch: ${prompt}`,
+            result: videoFile,
+            metadata: {
+                ...getRunMetadata(item.model ?? model, startedAt, { successfulToken, server }),
+                prompt,
+                seed: seeds[i],
+                aspectRatio: item.aspectRatio ?? aspectRatio,
+                resolution,
+                negativePrompt: item.negativePrompt,
+                referenceImages: item.image ? [item.image, ...(endImage ? [endImage] : [])] : undefined,
+            },
+        });
+        outputsRef.current.set(i, videoFile);
+    };
+
+    const handleSchedulerEvent = (event: BatchSchedulerEvent) => {
+        if (event.type === 'rateLimited') {
+            addLog(`Rate limited by the server. Holding new jobs for ${event.delayMs / 1000}s.`, 'error');
+            return;
         }
-    }
-    
-    if (!isCancelledRef.current) {
+        const label = `[${event.index + 1}/${batchItems.length}]`;
+        switch (event.type) {
+            case 'started':
+                addLog(`Processing ${label}${event.attempt > 1 ? ` (attempt ${event.attempt})` : ''}: ${batchItems[event.index].prompt}`, 'info');
+                updateResult(event.index, { status: 'running' });
+                break;
+            case 'succeeded':
+                addLog(`Successfully generated ${mode === 'image' ? 'image' : 'video'} ${label}`, 'success');
+                updateResult(event.index, { status: 'success', error: undefined });
+                setProgress(p => ({ ...p, completed: p.completed + 1 }));
+                break;
+            case 'retrying':
+                addLog(`${label} failed: ${event.error}. Retrying in ${event.delayMs / 1000}s...`, 'error');
+                updateResult(event.index, { status: 'pending' });
+                break;
+            case 'rephrased':
+                addLog(`${label} was blocked by a safety filter. Retrying with a rephrased prompt.`, 'info');
+                updateResult(event.index, { status: 'pending' });
+                handlePromptChange(event.index, event.prompt);
+                break;
+            case 'failed':
+                addLog(`Failed to generate ${mode === 'image' ? 'image' : 'video'} ${label}. Error: ${event.error}`, 'error');
+                updateResult(event.index, { status: 'failed', error: event.error });
+                setProgress(p => ({ ...p, failed: p.failed + 1 }));
+                break;
+            case 'cancelled':
+                updateResult(event.index, { status: 'cancelled' });
+                break;
+        }
+    };
+
+    const scheduler = createBatchScheduler(batchItems.map(item => item.prompt), runItem, {
+        concurrency,
+        maxRetries: MAX_ITEM_RETRIES,
+        rephrasePrompt: autoRephrase
+            ? async (prompt, signal) => (await generateText(getSafetyRephrasePrompt(prompt), signal)).trim()
+            : undefined,
+        onEvent: handleSchedulerEvent,
+        signal: controller.signal,
+    });
+    schedulerRef.current = scheduler;
+    await scheduler.run();
+
+    if (controller.signal.aborted) {
+        addLog('Process cancelled by user.', 'info');
+    } else {
         addLog('Batch process completed.', 'info');
     }
+    abortControllerRef.current = null;
+    schedulerRef.current = null;
+    setIsPaused(false);
     setIsProcessing(false);
   };
 
+  const handleTogglePause = () => {
+    const scheduler = schedulerRef.current;
+    if (!scheduler) return;
+    if (scheduler.isPaused()) {
+        scheduler.resume();
+        addLog('Batch resumed.', 'info');
+    } else {
+        scheduler.pause();
+        addLog('Batch paused. Jobs already running will finish.', 'info');
+    }
+    setIsPaused(scheduler.isPaused());
+  };
+
   const handleStopProcess = () => {
-    isCancelledRef.current = true;
+    // Aborts the jobs in flight as well, not just the ones still waiting.
+    abortControllerRef.current?.abort();
+  };
+
+  const handleDownloadResults = (format: 'csv' | 'json') => {
+    const content = buildResultsManifest(batchItems, results, format);
+    downloadText(content, `batch-results.${format}`, format === 'csv' ? 'text/csv' : 'application/json');
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+        const archive = await buildBatchArchive(batchItems, results, outputsRef.current);
+        downloadBlob(archive, `batch-${mode === 'image' ? 'images' : 'videos'}-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : "Unknown error";
+        addLog(`Could not create zip: ${errorMessage}`, 'error');
+    } finally {
+        setIsZipping(false);
+    }
   };
 
   const getLogIcon = (type: Log['type']) => {
@@ -187,15 +423,28 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
       {/* Left Panel: Controls */}
       <div className="bg-white dark:bg-neutral-900 p-6 rounded-lg shadow-sm flex flex-col gap-4 overflow-y-auto pr-2 custom-scrollbar">
         <div>
-          <h1 className="text-2xl font-bold sm:text-3xl">Batch Video Processor</h1>
-          <p className="text-neutral-500 dark:text-neutral-400 mt-1">Generate multiple videos from a list of prompts.</p>
+          <h1 className="text-2xl font-bold sm:text-3xl">Batch {mode === 'image' ? 'Image' : 'Video'} Processor</h1>
+          <p className="text-neutral-500 dark:text-neutral-400 mt-1">Generate multiple {mode === 'image' ? 'images' : 'videos'} from a list of prompts.</p>
+        </div>
+
+        <div className="flex gap-2 p-1 rounded-lg bg-neutral-100 dark:bg-neutral-800">
+            {(Object.keys(MODE_LABELS) as BatchMode[]).map(m => (
+                <button
+                    key={m}
+                    onClick={() => { setMode(m); setResults([]); }}
+                    disabled={isProcessing}
+                    className={`flex-1 py-2 text-sm font-semibold rounded-md transition-colors disabled:cursor-not-allowed ${mode === m ? 'bg-white dark:bg-neutral-900 shadow-sm text-primary-600 dark:text-primary-400' : 'text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300'}`}
+                >
+                    {MODE_LABELS[m]}
+                </button>
+            ))}
         </div>
 
         <div>
             <label htmlFor="file-upload" className="flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors duration-300 h-32 border-neutral-300 dark:border-neutral-700 hover:border-primary-400 hover:bg-neutral-100 dark:hover:bg-neutral-800/50">
                 <UploadIcon className="w-6 h-6 mb-2 text-neutral-500 dark:text-neutral-400" />
-                <p className="text-sm text-neutral-600 dark:text-neutral-400">Upload Prompts (.txt)</p>
-                <input id="file-upload" type="file" accept=".txt" onChange={handleFileChange} className="hidden" disabled={isProcessing}/>
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">Upload Prompts (.txt) or Manifest (.csv, .json, .zip)</p>
+                <input id="file-upload" type="file" accept=".txt,.csv,.json,.zip" onChange={handleFileChange} className="hidden" disabled={isProcessing}/>
             </label>
             {fileName && (
                 <div className="mt-2 text-center text-sm text-green-600 dark:text-green-400 flex items-center justify-center gap-2">
@@ -209,11 +458,23 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
             {batchItems.length > 0 ? (
                 batchItems.map((item, i) => (
                   <div key={i} className="bg-white dark:bg-neutral-900 p-2 rounded-md flex flex-col gap-2">
-                    {item.image && (
-                        <div className="flex items-center gap-2">
+                    <div className="flex items-center gap-2 flex-wrap text-xs">
+                      {item.image && (
                           <img src={`data:${item.image.mimeType};base64,${item.image.base64}`} alt={`Preview for prompt ${i+1}`} className="w-10 h-10 object-cover rounded-sm flex-shrink-0" />
-                        </div>
-                    )}
+                      )}
+                      {mode === 'keyframes' && item.endImage && (
+                          <>
+                              <span className="text-neutral-400">→</span>
+                              <img src={`data:${item.endImage.mimeType};base64,${item.endImage.base64}`} alt={`End frame for prompt ${i+1}`} className="w-10 h-10 object-cover rounded-sm flex-shrink-0" />
+                          </>
+                      )}
+                      {[item.aspectRatio, item.model && (MODELS.videoGenerationOptions.find(o => o.id === item.model)?.label ?? item.model), item.outputName, item.negativePrompt && 'Negative prompt']
+                        .filter(Boolean)
+                        .map(chip => <span key={chip} className="px-2 py-0.5 rounded-full bg-neutral-100 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-400">{chip}</span>)}
+                      {results[i] && (
+                          <span title={results[i].error} className={`ml-auto px-2 py-0.5 rounded-full font-semibold capitalize ${RESULT_STATUS_STYLES[results[i].status]}`}>{results[i].status}</span>
+                      )}
+                    </div>
                     <textarea
                       value={item.prompt}
                       onChange={(e) => handlePromptChange(i, e.target.value)}
@@ -224,35 +485,54 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
                   </div>
                 ))
             ) : (
-                <div className="text-center text-xs text-neutral-500 h-full flex items-center justify-center">Upload a .txt file with one prompt per line, or load prompts from a storyboard.</div>
+                <div className="text-center text-xs text-neutral-500 h-full flex items-center justify-center">
+                    {mode === 'keyframes'
+                        ? 'Upload a .zip with a CSV/JSON manifest and its images. Each row needs an image (the first frame) and an end_image (the last frame).'
+                        : 'Upload a .txt file with one prompt per line, a CSV/JSON manifest (or a .zip with the manifest and its images), or load prompts from a storyboard.'}
+                </div>
             )}
         </div>
         {batchItems.length > 0 && <button onClick={clearItems} disabled={isProcessing} className="text-sm text-red-500 hover:underline disabled:opacity-50">Clear all prompts</button>}
         
         <div>
-            <h3 className="text-lg font-semibold mb-2">Video Settings</h3>
+            <h3 className="text-lg font-semibold mb-2">{mode === 'image' ? 'Image' : 'Video'} Settings</h3>
             <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
                     <div>
                          <label className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">Aspect Ratio</label>
                          <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value)} className="w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-3 focus:ring-2 focus:ring-primary-500 focus:outline-none transition" disabled={isProcessing}>
-                            {["9:16", "1:1", "16:9", "4:3", "3:4"].map(ar => <option key={ar} value={ar}>{ar}</option>)}
+                            {BATCH_ASPECT_RATIOS.map(ar => <option key={ar} value={ar}>{ar}</option>)}
                         </select>
                     </div>
+                    {mode !== 'image' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">Resolution</label>
+                            <select value={resolution} onChange={(e) => setResolution(e.target.value)} className="w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-3 focus:ring-2 focus:ring-primary-500 focus:outline-none transition" disabled={isProcessing}>
+                                {["720p", "1080p"].map(res => <option key={res} value={res}>{res}</option>)}
+                            </select>
+                        </div>
+                    )}
                     <div>
-                        <label className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">Resolution</label>
-                        <select value={resolution} onChange={(e) => setResolution(e.target.value)} className="w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-3 focus:ring-2 focus:ring-primary-500 focus:outline-none transition" disabled={isProcessing}>
-                            {["720p", "1080p"].map(res => <option key={res} value={res}>{res}</option>)}
+                        <label className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">Concurrent Jobs</label>
+                        <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} className="w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-3 focus:ring-2 focus:ring-primary-500 focus:outline-none transition" disabled={isProcessing}>
+                            {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
                         </select>
                     </div>
                 </div>
+                <label className="flex items-start gap-2 text-sm text-neutral-600 dark:text-neutral-400 cursor-pointer">
+                    <input type="checkbox" checked={autoRephrase} onChange={(e) => setAutoRephrase(e.target.checked)} disabled={isProcessing} className="mt-0.5 rounded text-primary-600 focus:ring-primary-500" />
+                    <span>Auto-rephrase prompts blocked by safety filters and retry them once</span>
+                </label>
             </div>
         </div>
 
         <div className="pt-4 mt-auto flex gap-4">
             <button onClick={handleStartProcess} disabled={isProcessing || batchItems.length === 0} className="w-full flex items-center justify-center gap-2 bg-primary-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
-                {isProcessing ? <Spinner /> : <PlayIcon className="w-5 h-5"/>}
+                {isProcessing && !isPaused ? <Spinner /> : <PlayIcon className="w-5 h-5"/>}
                 Start Processing
+            </button>
+            <button onClick={handleTogglePause} disabled={!isProcessing} className="w-full flex items-center justify-center gap-2 bg-neutral-200 dark:bg-neutral-800 font-semibold py-3 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                {isPaused ? 'Resume' : 'Pause'}
             </button>
              <button onClick={handleStopProcess} disabled={!isProcessing} className="w-full flex items-center justify-center gap-2 bg-red-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
                 Stop
@@ -279,6 +559,17 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
             </div>
         </div>
         
+        {results.length > 0 && !isProcessing && (
+            <div className="flex flex-wrap gap-2 mb-4 flex-shrink-0">
+                <button onClick={handleDownloadAll} disabled={isZipping || progress.completed === 0} className="w-full flex items-center justify-center gap-2 text-sm font-semibold py-2 px-3 rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                    {isZipping ? <Spinner /> : <DownloadIcon className="w-4 h-4" />}
+                    Download All (.zip)
+                </button>
+                <button onClick={() => handleDownloadResults('csv')} className="flex-1 text-sm font-semibold py-2 px-3 rounded-lg bg-neutral-200 dark:bg-neutral-800 hover:bg-neutral-300 dark:hover:bg-neutral-700 transition-colors">Download Results (CSV)</button>
+                <button onClick={() => handleDownloadResults('json')} className="flex-1 text-sm font-semibold py-2 px-3 rounded-lg bg-neutral-200 dark:bg-neutral-800 hover:bg-neutral-300 dark:hover:bg-neutral-700 transition-colors">Download Results (JSON)</button>
+            </div>
+        )}
+
         <div className="flex-1 flex flex-col bg-neutral-100 dark:bg-neutral-950 rounded-lg p-2 min-h-0">
             <h4 className="text-lg font-semibold mb-2 px-2 flex-shrink-0">Activity Log</h4>
             <div ref={logContainerRef} className="flex-1 space-y-2 overflow-y-auto pr-2 custom-scrollbar flex flex-col-reverse">
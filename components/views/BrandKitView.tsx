@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import ImageUpload from '../common/ImageUpload';
+import Spinner from '../common/Spinner';
+import { CheckCircleIcon, PlusIcon, TrashIcon, XIcon } from '../Icons';
+import { type BrandKit, type BrandProduct, type Language } from '../../types';
+import {
+    getBrandKits, saveBrandKit, deleteBrandKit, createBrandKit, createBrandProduct
+} from '../../services/brandKitService';
+
+interface BrandKitViewProps {
+    language: Language;
+}
+
+const inputClasses = "w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none";
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const BrandKitView: React.FC<BrandKitViewProps> = ({ language }) => {
+    const [kits, setKits] = useState<BrandKit[]>([]);
+    const [draft, setDraft] = useState<BrandKit | null>(null);
+    const [colorInput, setColorInput] = useState('#000000');
+    const [isLoading, setIsLoading] = useState(true);
+    const [status, setStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+    // Changing this remounts the image uploaders so they pick up the selected kit's images.
+    const [uploadKey, setUploadKey] = useState(Date.now());
+
+    const refreshKits = useCallback(async () => {
+        const saved = await getBrandKits();
+        setKits(saved);
+        return saved;
+    }, []);
+
+    useEffect(() => {
+        refreshKits().then(saved => {
+            setDraft(saved[0] || null);
+            setIsLoading(false);
+        });
+    }, [refreshKits]);
+
+    const selectKit = (kit: BrandKit | null) => {
+        setDraft(kit);
+        setStatus('idle');
+        setUploadKey(Date.now());
+    };
+
+    const update = (changes: Partial<BrandKit>) => setDraft(prev => prev ? { ...prev, ...changes } : prev);
+
+    const updateProduct = (productId: string, changes: Partial<BrandProduct>) =>
+        setDraft(prev => prev ? { ...prev, products: prev.products.map(p => p.id === productId ? { ...p, ...changes } : p) } : prev);
+
+    const handleSave = async () => {
+        if (!draft || !draft.name.trim()) return;
+        setStatus('saving');
+        await saveBrandKit(draft);
+        await refreshKits();
+        setStatus('saved');
+        setTimeout(() => setStatus('idle'), 2000);
+    };
+
+    const handleDelete = async () => {
+        if (!draft || !window.confirm(`Delete the brand kit "${draft.name}"?`)) return;
+        await deleteBrandKit(draft.id);
+        const saved = await refreshKits();
+        selectKit(saved[0] || null);
+    };
+
+    const addColor = () => {
+        if (!draft || draft.colors.includes(colorInput.toUpperCase())) return;
+        update({ colors: [...draft.colors, colorInput.toUpperCase()] });
+    };
+
+    if (isLoading) {
+        return <div className="flex justify-center py-20"><Spinner /></div>;
+    }
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="bg-white dark:bg-neutral-900 p-4 rounded-lg shadow-sm space-y-2 self-start">
+                <h2 className="text-lg font-semibold px-2">Brand Kits</h2>
+                <p className="text-xs text-neutral-500 px-2 pb-2">Select a brand kit in Product Photos, Product Ad, TikTok Affiliate and Marketing Copy to prefill products and apply your brand to every prompt.</p>
+                {kits.map(kit => (
+                    <button
+                        key={kit.id}
+                        onClick={() => selectKit(kit)}
+                        className={`w-full text-left p-3 rounded-lg transition-colors ${draft?.id === kit.id ? 'bg-primary-600 text-white' : 'hover:bg-neutral-100 dark:hover:bg-neutral-800'}`}
+                    >
+                        <span className="font-semibold text-sm">{kit.name}</span>
+                        <div className="flex gap-1 mt-1">
+                            {kit.colors.map(color => <span key={color} className="w-4 h-4 rounded-full border border-white/50" style={{ backgroundColor: color }}/>)}
+                            <span className="text-xs opacity-75 ml-1">{kit.products.length} product{kit.products.length === 1 ? '' : 's'}</span>
+                        </div>
+                    </button>
+                ))}
+                <button onClick={() => selectKit(createBrandKit('New Brand'))} className="w-full flex items-center justify-center gap-2 p-2 rounded-lg border-2 border-dashed border-neutral-300 dark:border-neutral-700 text-sm font-semibold hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors">
+                    <PlusIcon className="w-4 h-4"/> New Brand Kit
+                </button>
+            </div>
+
+            {draft && (
+                <div className="lg:col-span-2 bg-white dark:bg-neutral-900 p-6 rounded-lg shadow-sm space-y-5">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div className="sm:col-span-2 space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Brand Name</label>
+                                <input type="text" value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClasses}/>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Fonts</label>
+                                <input type="text" defaultValue={draft.fonts.join(', ')} key={`fonts-${uploadKey}`} onChange={e => update({ fonts: splitList(e.target.value) })} placeholder="Poppins, Playfair Display" className={inputClasses}/>
+                            </div>
+                        </div>
+                        <ImageUpload
+                            key={`logo-${uploadKey}`}
+                            id="brand-kit-logo"
+                            title="Logo"
+                            initialImage={draft.logo}
+                            onImageUpload={(base64, mimeType) => update({ logo: { base64, mimeType } })}
+                            onRemove={() => update({ logo: null })}
+                            language={language}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Brand Colors</label>
+                        <div className="flex flex-wrap items-center gap-2">
+                            {draft.colors.map(color => (
+                                <span key={color} className="flex items-center gap-1 pl-1 pr-2 py-1 rounded-full bg-neutral-100 dark:bg-neutral-800 text-xs font-mono">
+                                    <span className="w-5 h-5 rounded-full border border-neutral-300 dark:border-neutral-600" style={{ backgroundColor: color }}/>
+                                    {color}
+                                    <button onClick={() => update({ colors: draft.colors.filter(c => c !== color) })} className="hover:text-red-500"><XIcon className="w-3 h-3"/></button>
+                                </span>
+                            ))}
+                            <input type="color" value={colorInput} onChange={e => setColorInput(e.target.value)} className="w-9 h-9 rounded cursor-pointer bg-transparent"/>
+                            <button onClick={addColor} className="text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline">Add Color</button>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Tone of Voice</label>
+                        <textarea value={draft.toneOfVoice} onChange={e => update({ toneOfVoice: e.target.value })} rows={3} placeholder="e.g., Warm and neighbourly, short sentences, light Manglish is fine, never pushy." className={inputClasses}/>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Forbidden Words</label>
+                        <input type="text" defaultValue={draft.forbiddenWords.join(', ')} key={`forbidden-${uploadKey}`} onChange={e => update({ forbiddenWords: splitList(e.target.value) })} placeholder="cheap, miracle, best in the world" className={inputClasses}/>
+                        <p className="text-xs text-neutral-500 mt-1">Separate with commas. Generated copy is checked against this list.</p>
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between items-center mb-2">
+                            <h3 className="text-sm font-semibold">Product Catalog</h3>
+                            <button onClick={() => update({ products: [...draft.products, createBrandProduct()] })} className="flex items-center gap-1 text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline">
+                                <PlusIcon className="w-4 h-4"/> Add Product
+                            </button>
+                        </div>
+                        <div className="space-y-3">
+                            {draft.products.map((product, index) => (
+                                <div key={product.id} className="grid grid-cols-1 sm:grid-cols-3 gap-3 p-3 rounded-lg border border-neutral-200 dark:border-neutral-800">
+                                    <ImageUpload
+                                        key={`${product.id}-${uploadKey}`}
+                                        id={`brand-product-${product.id}`}
+                                        title={`Product ${index + 1}`}
+                                        initialImage={product.image}
+                                        onImageUpload={(base64, mimeType) => updateProduct(product.id, { image: { base64, mimeType } })}
+                                        onRemove={() => updateProduct(product.id, { image: null })}
+                                        language={language}
+                                    />
+                                    <div className="sm:col-span-2 space-y-2">
+                                        <div className="flex gap-2">
+                                            <input type="text" value={product.name} onChange={e => updateProduct(product.id, { name: e.target.value })} placeholder="Product name" className={inputClasses}/>
+                                            <button onClick={() => update({ products: draft.products.filter(p => p.id !== product.id) })} title="Remove product" className="p-2 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"><TrashIcon className="w-4 h-4"/></button>
+                                        </div>
+                                        <textarea value={product.description} onChange={e => updateProduct(product.id, { description: e.target.value })} rows={4} placeholder="Product description, key features and benefits" className={inputClasses}/>
+                                    </div>
+                                </div>
+                            ))}
+                            {draft.products.length === 0 && <p className="text-sm text-neutral-500">No products yet.</p>}
+                        </div>
+                    </div>
+
+                    <div className="flex gap-4">
+                        <button onClick={handleSave} disabled={status === 'saving' || !draft.name.trim()} className="flex items-center justify-center gap-2 bg-primary-600 text-white font-semibold py-2 px-6 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50">
+                            {status === 'saving' ? <Spinner/> : status === 'saved' ? <><CheckCircleIcon className="w-4 h-4"/> Saved</> : 'Save Brand Kit'}
+                        </button>
+                        {kits.some(k => k.id === draft.id) && (
+                            <button onClick={handleDelete} className="flex items-center gap-2 text-red-500 font-semibold py-2 px-4 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors">
+                                <TrashIcon className="w-4 h-4"/> Delete
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BrandKitView;
@@ -0,0 +1,443 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { getHistory, addHistoryItem } from '../../services/historyService';
+import { renderCaptionsOnServer } from '../../services/renderService';
+import {
+    buildCaptionCues, updateCaptionCue, toSrt, toVtt, toAss, getDefaultCaptionStyle, captionFontOptions,
+    type CaptionCue, type CaptionStyle, type CaptionPosition
+} from '../../services/captionService';
+import { getMediaDuration } from '../../utils/audioUtils';
+import { type HistoryItem, type Language } from '../../types';
+import Spinner from '../common/Spinner';
+import { FileTextIcon, DownloadIcon, CheckCircleIcon, AlertTriangleIcon, TrashIcon } from '../Icons';
+import TwoColumnLayout from '../common/TwoColumnLayout';
+
+const fontSizeOptions = [
+    { label: 'Small', value: 0.045 },
+    { label: 'Medium', value: 0.06 },
+    { label: 'Large', value: 0.08 },
+];
+const positionOptions: CaptionPosition[] = ['top', 'middle', 'bottom'];
+const wordsPerCueOptions = [2, 3, 4, 5, 6, 8];
+
+const downloadText = (text: string, fileName: string) => {
+    const blob = new Blob([text], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const positionClasses: Record<CaptionPosition, string> = {
+    top: 'top-[8%]',
+    middle: 'top-1/2 -translate-y-1/2',
+    bottom: 'bottom-[8%]',
+};
+
+// Draws the active cue over the preview video with the same styling the server burns in.
+const CaptionOverlay: React.FC<{ cue: CaptionCue | null; time: number; style: CaptionStyle; videoHeight: number }> = ({ cue, time, style, videoHeight }) => {
+    if (!cue) return null;
+    const format = (text: string) => style.uppercase ? text.toUpperCase() : text;
+    const outline = Math.max(1, Math.round(videoHeight * style.fontScale / 12));
+    return (
+        <div
+            className={`absolute left-0 right-0 px-4 text-center font-bold pointer-events-none ${positionClasses[style.position]}`}
+            style={{
+                fontFamily: style.fontFamily,
+                fontSize: `${videoHeight * style.fontScale}px`,
+                color: style.textColor,
+                lineHeight: 1.2,
+                textShadow: `0 0 ${outline}px ${style.outlineColor}, 0 0 ${outline}px ${style.outlineColor}`,
+            }}
+        >
+            {style.karaoke ? cue.words.map((word, i) => (
+                <span key={i} style={time >= word.start && (time < word.end || i === cue.words.length - 1) ? { color: style.highlightColor } : undefined}>
+                    {format(word.text)}{i < cue.words.length - 1 ? ' ' : ''}
+                </span>
+            )) : format(cue.text)}
+        </div>
+    );
+};
+
+const CaptionStudioView: React.FC<{ language: Language }> = ({ language }) => {
+    const [allVideos, setAllVideos] = useState<HistoryItem[]>([]);
+    const [allAudio, setAllAudio] = useState<HistoryItem[]>([]);
+    const [blobUrls, setBlobUrls] = useState<Map<string, string>>(new Map());
+    const [selectedVideoId, setSelectedVideoId] = useState<string | null>(null);
+    const [timingAudioId, setTimingAudioId] = useState<string>('');
+    const [videoDuration, setVideoDuration] = useState(0);
+    const [audioDuration, setAudioDuration] = useState(0);
+    const [script, setScript] = useState('');
+    const [offset, setOffset] = useState(0);
+    const [wordsPerCue, setWordsPerCue] = useState(4);
+    const [cues, setCues] = useState<CaptionCue[]>([]);
+    const [style, setStyle] = useState<CaptionStyle>(getDefaultCaptionStyle);
+    const [previewTime, setPreviewTime] = useState(0);
+    const [previewHeight, setPreviewHeight] = useState(0);
+    const [isRendering, setIsRendering] = useState(false);
+    const [progressMessage, setProgressMessage] = useState('');
+    const [outputUrl, setOutputUrl] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const previewVideoRef = useRef<HTMLVideoElement>(null);
+    const animationFrameRef = useRef<number | null>(null);
+
+    const selectedVideo = allVideos.find(v => v.id === selectedVideoId) || null;
+    const timingAudio = allAudio.find(a => a.id === timingAudioId) || null;
+    // Captions follow the voice-over when one is chosen, otherwise the rest of the video after the offset.
+    const captionDuration = timingAudio ? audioDuration : Math.max(0, videoDuration - offset);
+    const activeCue = cues.find(cue => previewTime >= cue.start && previewTime < cue.end) || null;
+
+    useEffect(() => {
+        let urls = new Map<string, string>();
+        const fetchMedia = async () => {
+            const history = await getHistory();
+            const videoItems = history.filter(item => item.type === 'Video' && item.result instanceof Blob);
+            const audioItems = history.filter(item => item.type === 'Audio' && item.result instanceof Blob);
+            setAllVideos(videoItems);
+            setAllAudio(audioItems);
+
+            urls = new Map<string, string>();
+            videoItems.forEach(item => {
+                urls.set(item.id, URL.createObjectURL(item.result as Blob));
+            });
+            setBlobUrls(urls);
+        };
+        fetchMedia();
+
+        return () => {
+            urls.forEach(url => URL.revokeObjectURL(url));
+        };
+    }, []);
+
+    useEffect(() => {
+        return () => {
+            if (outputUrl) URL.revokeObjectURL(outputUrl);
+        };
+    }, [outputUrl]);
+
+    useEffect(() => {
+        setVideoDuration(0);
+        if (selectedVideo?.result instanceof Blob) {
+            getMediaDuration(selectedVideo.result).then(setVideoDuration);
+        }
+    }, [selectedVideo]);
+
+    useEffect(() => {
+        setAudioDuration(0);
+        if (timingAudio?.result instanceof Blob) {
+            getMediaDuration(timingAudio.result).then(setAudioDuration);
+        }
+    }, [timingAudio]);
+
+    const stopPreviewLoop = () => {
+        if (animationFrameRef.current !== null) {
+            cancelAnimationFrame(animationFrameRef.current);
+            animationFrameRef.current = null;
+        }
+    };
+
+    useEffect(() => stopPreviewLoop, []);
+
+    // timeupdate fires only a few times a second, which is too coarse for word highlighting.
+    const handlePreviewPlay = () => {
+        stopPreviewLoop();
+        const tick = () => {
+            const video = previewVideoRef.current;
+            if (!video) return;
+            setPreviewTime(video.currentTime);
+            setPreviewHeight(video.clientHeight);
+            animationFrameRef.current = requestAnimationFrame(tick);
+        };
+        tick();
+    };
+
+    const syncPreview = () => {
+        const video = previewVideoRef.current;
+        if (!video) return;
+        setPreviewTime(video.currentTime);
+        setPreviewHeight(video.clientHeight);
+    };
+
+    const handleGenerateCues = () => {
+        if (!script.trim()) {
+            setError("Please enter the voice-over script.");
+            return;
+        }
+        if (captionDuration <= 0) {
+            setError("Could not read the media duration. Please select a video first.");
+            return;
+        }
+        setError(null);
+        setCues(buildCaptionCues(script, captionDuration, offset, wordsPerCue));
+    };
+
+    const handleCueChange = (id: string, changes: Partial<Pick<CaptionCue, 'text' | 'start' | 'end'>>) => {
+        setCues(prev => prev.map(cue => cue.id === id ? updateCaptionCue(cue, changes) : cue));
+    };
+
+    const handleDeleteCue = (id: string) => {
+        setCues(prev => prev.filter(cue => cue.id !== id));
+    };
+
+    const updateStyle = <K extends keyof CaptionStyle>(key: K, value: CaptionStyle[K]) => {
+        setStyle(prev => ({ ...prev, [key]: value }));
+    };
+
+    const handleBurn = async () => {
+        if (!(selectedVideo?.result instanceof Blob) || cues.length === 0) {
+            setError("Please select a video and generate captions first.");
+            return;
+        }
+        const video = previewVideoRef.current;
+        if (!video || !video.videoWidth || !video.videoHeight) {
+            setError("The video is still loading. Please try again in a moment.");
+            return;
+        }
+
+        stopPreviewLoop();
+        video.pause();
+        setIsRendering(true);
+        setError(null);
+        setProgressMessage('Preparing...');
+        if (outputUrl) URL.revokeObjectURL(outputUrl);
+        setOutputUrl(null);
+
+        try {
+            const subtitles = toAss(cues, style, { width: video.videoWidth, height: video.videoHeight });
+            const blob = await renderCaptionsOnServer(selectedVideo.result, subtitles, setProgressMessage);
+            const videoFile = new File([blob], `monoklix-captioned-${Date.now()}.mp4`, { type: 'video/mp4' });
+
+            setProgressMessage('Saving to gallery...');
+            await addHistoryItem({
+                type: 'Video',
+                prompt: `Captioned: ${selectedVideo.prompt.substring(0, 80)}`,
+                result: videoFile,
+            });
+
+            setOutputUrl(URL.createObjectURL(videoFile));
+        } catch (err) {
+            console.error('❌ Caption render error:', err);
+            setError(err instanceof Error ? err.message : 'Rendering captions failed');
+        } finally {
+            setIsRendering(false);
+            setProgressMessage('');
+        }
+    };
+
+    const handleReset = () => {
+        stopPreviewLoop();
+        setSelectedVideoId(null);
+        setTimingAudioId('');
+        setScript('');
+        setOffset(0);
+        setCues([]);
+        setStyle(getDefaultCaptionStyle());
+        setOutputUrl(null);
+        setError(null);
+    };
+
+    const maxOffset = Math.max(0, Math.floor(videoDuration * 10) / 10);
+    const inputClasses = "w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none";
+
+    const leftPanel = (
+        <>
+            <div>
+                <h1 className="text-2xl font-bold sm:text-3xl">Caption Studio</h1>
+                <p className="text-neutral-500 dark:text-neutral-400 mt-1">Turn a voice-over script into timed captions, export them as SRT/VTT, or burn TikTok-style captions onto a video.</p>
+            </div>
+
+            <div>
+                <h3 className="text-lg font-semibold mb-2">1. Select a Video</h3>
+                <div className="max-h-56 overflow-y-auto pr-2 custom-scrollbar bg-neutral-100 dark:bg-neutral-800/50 p-3 rounded-lg">
+                    {allVideos.length > 0 ? (
+                        <div className="grid grid-cols-3 md:grid-cols-4 gap-3">
+                            {allVideos.map(video => (
+                                <div key={video.id} className="relative aspect-square cursor-pointer" onClick={() => setSelectedVideoId(video.id)}>
+                                    <video src={blobUrls.get(video.id)} className="w-full h-full object-cover rounded-md bg-black" />
+                                    {selectedVideoId === video.id && (
+                                        <div className="absolute inset-0 bg-primary-500/50 flex items-center justify-center rounded-md ring-4 ring-primary-500">
+                                            <CheckCircleIcon className="w-8 h-8 text-white"/>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-center text-sm text-neutral-500">No videos found in your gallery.</p>
+                    )}
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                <h3 className="text-lg font-semibold">2. Script & Timing</h3>
+                <textarea value={script} onChange={e => setScript(e.target.value)} placeholder="Paste the voice-over script here..." rows={4} className={inputClasses} />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Match Timing To</label>
+                        <select value={timingAudioId} onChange={e => setTimingAudioId(e.target.value)} className={inputClasses}>
+                            <option value="">Video length</option>
+                            {allAudio.map(audio => <option key={audio.id} value={audio.id}>{audio.prompt}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Words per Caption</label>
+                        <select value={wordsPerCue} onChange={e => setWordsPerCue(Number(e.target.value))} className={inputClasses}>
+                            {wordsPerCueOptions.map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <div>
+                    <div className="flex justify-between text-sm mb-1">
+                        <label className="font-medium">Voice-over Start</label>
+                        <span className="text-neutral-500">{Math.min(offset, maxOffset)}s</span>
+                    </div>
+                    <input type="range" min={0} max={maxOffset} step={0.1} value={Math.min(offset, maxOffset)} onChange={e => setOffset(Number(e.target.value))} className="w-full accent-primary-600" />
+                </div>
+                <button onClick={handleGenerateCues} disabled={!selectedVideo || !script.trim()} className="w-full bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50">
+                    {cues.length > 0 ? 'Regenerate Captions' : 'Generate Captions'}
+                </button>
+            </div>
+
+            {cues.length > 0 && (
+                <div>
+                    <div className="flex justify-between items-center mb-2">
+                        <h3 className="text-lg font-semibold">3. Edit Captions</h3>
+                        <div className="flex gap-2">
+                            <button onClick={() => downloadText(toSrt(cues), `monoklix-captions-${Date.now()}.srt`)} className="text-xs bg-neutral-200 dark:bg-neutral-700 py-1 px-3 rounded-full flex items-center gap-1">
+                                <DownloadIcon className="w-3 h-3"/> SRT
+                            </button>
+                            <button onClick={() => downloadText(toVtt(cues), `monoklix-captions-${Date.now()}.vtt`)} className="text-xs bg-neutral-200 dark:bg-neutral-700 py-1 px-3 rounded-full flex items-center gap-1">
+                                <DownloadIcon className="w-3 h-3"/> VTT
+                            </button>
+                        </div>
+                    </div>
+                    <div className="max-h-64 overflow-y-auto pr-2 custom-scrollbar space-y-2">
+                        {cues.map(cue => (
+                            <div key={cue.id} className={`flex items-center gap-2 p-2 rounded-lg ${cue === activeCue ? 'bg-primary-100 dark:bg-primary-900/40' : 'bg-neutral-100 dark:bg-neutral-800/50'}`}>
+                                <input type="number" min={0} step={0.1} value={Number(cue.start.toFixed(2))} onChange={e => handleCueChange(cue.id, { start: Number(e.target.value) })} className={`${inputClasses} w-20 flex-shrink-0`} aria-label="Start time" />
+                                <input type="number" min={0} step={0.1} value={Number(cue.end.toFixed(2))} onChange={e => handleCueChange(cue.id, { end: Number(e.target.value) })} className={`${inputClasses} w-20 flex-shrink-0`} aria-label="End time" />
+                                <input type="text" value={cue.text} onChange={e => handleCueChange(cue.id, { text: e.target.value })} className={inputClasses} aria-label="Caption text" />
+                                <button onClick={() => handleDeleteCue(cue.id)} className="p-1 text-neutral-500 hover:text-red-500 flex-shrink-0" title="Delete caption">
+                                    <TrashIcon className="w-4 h-4"/>
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-3">
+                <h3 className="text-lg font-semibold">{cues.length > 0 ? '4.' : '3.'} Caption Style</h3>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Font</label>
+                        <select value={style.fontFamily} onChange={e => updateStyle('fontFamily', e.target.value)} className={inputClasses}>
+                            {captionFontOptions.map(font => <option key={font} value={font}>{font}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Size</label>
+                        <select value={style.fontScale} onChange={e => updateStyle('fontScale', Number(e.target.value))} className={inputClasses}>
+                            {fontSizeOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium mb-1">Position</label>
+                    <div className="flex gap-2">
+                        {positionOptions.map(position => (
+                            <button key={position} onClick={() => updateStyle('position', position)} className={`px-4 py-1 rounded-full text-sm font-semibold capitalize ${style.position === position ? 'bg-primary-600 text-white' : 'bg-neutral-200 dark:bg-neutral-700'}`}>{position}</button>
+                        ))}
+                    </div>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Text</label>
+                        <input type="color" value={style.textColor} onChange={e => updateStyle('textColor', e.target.value)} className="w-full h-9 rounded cursor-pointer" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Highlight</label>
+                        <input type="color" value={style.highlightColor} onChange={e => updateStyle('highlightColor', e.target.value)} disabled={!style.karaoke} className="w-full h-9 rounded cursor-pointer disabled:opacity-50" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Outline</label>
+                        <input type="color" value={style.outlineColor} onChange={e => updateStyle('outlineColor', e.target.value)} className="w-full h-9 rounded cursor-pointer" />
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-4 text-sm">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={style.karaoke} onChange={e => updateStyle('karaoke', e.target.checked)} className="accent-primary-600" />
+                        Highlight spoken word (karaoke)
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={style.uppercase} onChange={e => updateStyle('uppercase', e.target.checked)} className="accent-primary-600" />
+                        UPPERCASE
+                    </label>
+                </div>
+            </div>
+
+            <div className="pt-4 mt-auto flex gap-4">
+                <button onClick={handleBurn} disabled={isRendering || !selectedVideo || cues.length === 0} className="w-full flex items-center justify-center gap-2 bg-primary-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                    {isRendering ? <Spinner/> : 'Burn Captions & Save'}
+                </button>
+                <button onClick={handleReset} disabled={isRendering} className="flex-shrink-0 bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 font-semibold py-3 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50">
+                    Reset
+                </button>
+            </div>
+        </>
+    );
+
+    const rightPanel = (
+        <>
+            {isRendering ? (
+                <div className="flex flex-col items-center justify-center h-full gap-4">
+                    <Spinner />
+                    <p className="text-neutral-500 dark:text-neutral-400">{progressMessage || 'Processing...'}</p>
+                </div>
+            ) : error ? (
+                <div className="text-center p-4 text-red-500 dark:text-red-400">
+                    <AlertTriangleIcon className="w-12 h-12 mx-auto mb-2"/>
+                    <p className="font-semibold">Oh no!</p>
+                    <p className="text-sm">{error}</p>
+                </div>
+            ) : outputUrl ? (
+                <div className="w-full h-full flex flex-col items-center justify-center gap-4">
+                    <video src={outputUrl} controls autoPlay className="max-w-full max-h-[80%] rounded-md"/>
+                    <a href={outputUrl} download={`monoklix-captioned-${Date.now()}.mp4`} className="flex items-center gap-2 bg-green-600 text-white font-semibold py-2 px-6 rounded-lg hover:bg-green-700 transition-colors">
+                        <DownloadIcon className="w-4 h-4"/> Download Video
+                    </a>
+                </div>
+            ) : selectedVideo ? (
+                <div className="w-full h-full flex items-center justify-center">
+                    <div className="relative max-w-full max-h-full">
+                        <video
+                            ref={previewVideoRef}
+                            src={blobUrls.get(selectedVideo.id)}
+                            controls
+                            playsInline
+                            onLoadedMetadata={syncPreview}
+                            onSeeked={syncPreview}
+                            onPlay={handlePreviewPlay}
+                            onPause={stopPreviewLoop}
+                            onEnded={stopPreviewLoop}
+                            className="max-w-full max-h-[70vh] rounded-md bg-black"
+                        />
+                        <CaptionOverlay cue={activeCue} time={previewTime} style={style} videoHeight={previewHeight} />
+                    </div>
+                </div>
+            ) : (
+                <div className="text-center text-neutral-500 dark:text-neutral-600">
+                    <FileTextIcon className="w-16 h-16 mx-auto" />
+                    <p>Your captioned video will appear here.</p>
+                </div>
+            )}
+        </>
+    );
+
+    return <TwoColumnLayout leftPanel={leftPanel} rightPanel={rightPanel} language={language} />;
+};
+
+export default CaptionStudioView;
@@ -1,13 +1,22 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { getHistory, deleteHistoryItem } from '../../services/historyService';
 // FIX: Add missing Language import.
-import { type HistoryItem, type AiLogItem, type Language } from '../../types';
-import { ImageIcon, VideoIcon, DownloadIcon, TrashIcon, PlayIcon, AudioIcon, WandIcon, ClipboardListIcon, ChevronDownIcon, ClipboardIcon, CheckCircleIcon, AlertTriangleIcon } from '../Icons';
+import { type HistoryItem, type AiLogItem, type Language, type User, type ProgressCallback, type GenerationSourceTool } from '../../types';
+import { ImageIcon, VideoIcon, DownloadIcon, TrashIcon, PlayIcon, AudioIcon, WandIcon, ClipboardListIcon, ChevronDownIcon, ClipboardIcon, CheckCircleIcon, AlertTriangleIcon, UsersIcon, RefreshCwIcon, FilmIcon, ScissorsIcon } from '../Icons';
 import Tabs, { type Tab } from '../common/Tabs';
 import PreviewModal from '../common/PreviewModal'; // Import the new component
+import ShareToWorkspaceModal from '../common/ShareToWorkspaceModal';
+import ExtendVideoModal from '../common/ExtendVideoModal';
+import TrimVideoModal from '../common/TrimVideoModal';
+import WorkspaceView from './WorkspaceView';
 import { getLogs, clearLogs } from '../../services/aiLogService';
 import Spinner from '../common/Spinner';
 import { getTranslations } from '../../services/translations';
+import { rerunHistoryItem, canRerunHistoryItem, type RerunSeedMode } from '../../services/generationRerunService';
+import { getModelLabel } from '../../services/generationMetadataService';
+import { canExtendHistoryItem } from '../../services/videoExtensionService';
+import { canTrimHistoryItem } from '../../services/videoTrimService';
+import { handleApiError } from '../../services/errorHandler';
 
 interface VideoGenPreset {
   prompt: string;
@@ -22,11 +31,24 @@ interface ImageEditPreset {
 interface GalleryViewProps {
   onCreateVideo: (preset: VideoGenPreset) => void;
   onReEdit: (preset: ImageEditPreset) => void;
+  currentUser: User;
   // FIX: Add language to props.
   language: Language;
 }
 
-type GalleryTabId = 'images' | 'videos' | 'log';
+type GalleryTabId = 'images' | 'videos' | 'team' | 'log';
+
+interface GalleryFilters {
+  search: string;
+  sourceTool: GenerationSourceTool | 'all';
+  model: string;
+  aspectRatio: string;
+}
+
+const EMPTY_FILTERS: GalleryFilters = { search: '', sourceTool: 'all', model: 'all', aspectRatio: 'all' };
+
+const getUniqueValues = (items: HistoryItem[], getValue: (item: HistoryItem) => string | undefined): string[] =>
+  [...new Set(items.map(getValue).filter((value): value is string => !!value))].sort();
 
 const AiLogPanel: React.FC = () => {
     const [logs, setLogs] = useState<AiLogItem[]>([]);
@@ -199,13 +221,19 @@ const AiLogPanel: React.FC = () => {
 };
 
 
-const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, language }) => {
+const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, currentUser, language }) => {
     const [allItems, setAllItems] = useState<HistoryItem[]>([]);
     const [activeTab, setActiveTab] = useState<GalleryTabId>('images');
     const [blobUrls, setBlobUrls] = useState(new Map<string, string>());
     const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+    const [itemToShare, setItemToShare] = useState<HistoryItem | null>(null);
+    const [itemToExtend, setItemToExtend] = useState<HistoryItem | null>(null);
+    const [itemToTrim, setItemToTrim] = useState<HistoryItem | null>(null);
+    const [filters, setFilters] = useState<GalleryFilters>(EMPTY_FILTERS);
+    const [rerunningIds, setRerunningIds] = useState<Set<string>>(new Set());
     const blobUrlsRef = useRef(new Map<string, string>());
     const T = getTranslations().galleryView;
+    const commonT = getTranslations().common;
 
     const refreshHistory = useCallback(async () => {
         const history = await getHistory();
@@ -216,6 +244,36 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
         refreshHistory();
     }, [refreshHistory]);
 
+    // Filter options differ between images and videos, so each tab starts unfiltered.
+    useEffect(() => {
+        setFilters(EMPTY_FILTERS);
+        setPreviewIndex(null);
+    }, [activeTab]);
+
+    const handleRerun = useCallback(async (item: HistoryItem, seedMode: RerunSeedMode, onProgress: ProgressCallback) => {
+        await rerunHistoryItem(item, seedMode, onProgress);
+        await refreshHistory();
+        // The new item is added to the top of the list; keep previewing the original.
+        setPreviewIndex(prev => prev !== null ? prev + 1 : prev);
+    }, [refreshHistory]);
+
+    // Re-runs from a card happen in the background with the same seed, several at once if wanted.
+    const handleCardRerun = async (item: HistoryItem) => {
+        setRerunningIds(prev => new Set(prev).add(item.id));
+        try {
+            await rerunHistoryItem(item, 'same');
+            await refreshHistory();
+        } catch (e) {
+            alert(handleApiError(e));
+        } finally {
+            setRerunningIds(prev => {
+                const next = new Set(prev);
+                next.delete(item.id);
+                return next;
+            });
+        }
+    };
+
     // Robustly manage object URLs to prevent premature revocation
     useEffect(() => {
         const prevUrls = blobUrlsRef.current;
@@ -315,11 +373,34 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
     
     const imageItems = allItems.filter(item => item.type === 'Image' || item.type === 'Canvas');
     const videoItems = allItems.filter(item => item.type === 'Video');
-    const itemsToDisplay = activeTab === 'images' ? imageItems : videoItems;
+    const tabItems = activeTab === 'images' ? imageItems : videoItems;
+
+    const filterOptions = {
+        sourceTools: getUniqueValues(tabItems, item => item.metadata?.sourceTool) as GenerationSourceTool[],
+        models: getUniqueValues(tabItems, item => item.metadata?.model),
+        aspectRatios: getUniqueValues(tabItems, item => item.metadata?.aspectRatio),
+    };
+
+    const search = filters.search.trim().toLowerCase();
+    const itemsToDisplay = tabItems.filter(item =>
+        (filters.sourceTool === 'all' || (item.metadata?.sourceTool ?? 'Unknown') === filters.sourceTool)
+        && (filters.model === 'all' || item.metadata?.model === filters.model)
+        && (filters.aspectRatio === 'all' || item.metadata?.aspectRatio === filters.aspectRatio)
+        && (!search || item.prompt.toLowerCase().includes(search) || !!item.metadata?.prompt?.toLowerCase().includes(search))
+    );
+
+    const hasActiveFilters = filters.search !== '' || filters.sourceTool !== 'all' || filters.model !== 'all' || filters.aspectRatio !== 'all';
+
+    const updateFilters = (update: Partial<GalleryFilters>) => {
+        setFilters(prev => ({ ...prev, ...update }));
+        setPreviewIndex(null);
+    };
+
 
     const tabs: Tab<GalleryTabId>[] = [
         { id: 'images', label: T.tabs.images, count: imageItems.length },
         { id: 'videos', label: T.tabs.videos, count: videoItems.length },
+        { id: 'team', label: T.tabs.team },
         { id: 'log', label: T.tabs.log },
     ];
 
@@ -359,7 +440,7 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
                 {isImage && <img src={displayUrl} alt={item.prompt} className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105" />}
                 {isVideo && displayUrl && (
                     <div className="w-full h-full flex items-center justify-center">
-                        <video src={displayUrl} className="w-full h-full object-cover" loop muted playsInline title={item.prompt}/>
+                        <video src={displayUrl} poster={item.metadata?.posterFrame} className="w-full h-full object-cover" loop muted playsInline title={item.prompt}/>
                         <div className="absolute inset-0 bg-black/30 flex items-center justify-center opacity-100 group-hover:opacity-0 transition-opacity">
                             <PlayIcon className="w-12 h-12 text-white/80" />
                         </div>
@@ -369,6 +450,34 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
                 <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-black/20 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-between p-3">
                     <p className="text-white text-xs line-clamp-3 drop-shadow-md">{item.prompt}</p>
                     <div className="flex justify-end gap-2">
+                        {canRerunHistoryItem(item) && (
+                            <button
+                                onClick={(e) => handleActionClick(e, () => handleCardRerun(item))}
+                                disabled={rerunningIds.has(item.id)}
+                                className="p-2 bg-green-600/80 text-white rounded-full hover:bg-green-600 transition-colors transform hover:scale-110 disabled:opacity-50"
+                                title={T.rerun}
+                            >
+                                <RefreshCwIcon className={`w-4 h-4 ${rerunningIds.has(item.id) ? 'animate-spin' : ''}`} />
+                            </button>
+                        )}
+                        {isVideo && canExtendHistoryItem(item) && (
+                            <button
+                                onClick={(e) => handleActionClick(e, () => setItemToExtend(item))}
+                                className="p-2 bg-primary-600/80 text-white rounded-full hover:bg-primary-600 transition-colors transform hover:scale-110"
+                                title={T.extend.action}
+                            >
+                                <FilmIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                        {isVideo && canTrimHistoryItem(item) && (
+                            <button
+                                onClick={(e) => handleActionClick(e, () => setItemToTrim(item))}
+                                className="p-2 bg-primary-600/80 text-white rounded-full hover:bg-primary-600 transition-colors transform hover:scale-110"
+                                title={T.trim.action}
+                            >
+                                <ScissorsIcon className="w-4 h-4" />
+                            </button>
+                        )}
                         {isImage && (
                           <>
                             <button
@@ -387,6 +496,13 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
                             </button>
                           </>
                         )}
+                        <button
+                            onClick={(e) => handleActionClick(e, () => setItemToShare(item))}
+                            className="p-2 bg-white/80 text-black rounded-full hover:bg-white transition-colors transform hover:scale-110"
+                            title={T.shareToWorkspace}
+                        >
+                            <UsersIcon className="w-4 h-4" />
+                        </button>
                         <button
                             onClick={(e) => handleActionClick(e, () => downloadAsset(item))}
                             className="p-2 bg-white/80 text-black rounded-full hover:bg-white transition-colors transform hover:scale-110"
@@ -407,17 +523,57 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
         );
     };
     
+    const selectClasses = "bg-neutral-100 dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none";
+
+    const renderFilters = () => (
+        <div className="flex flex-wrap items-center gap-2 mb-4 flex-shrink-0">
+            <input
+                type="search"
+                value={filters.search}
+                onChange={e => updateFilters({ search: e.target.value })}
+                placeholder={T.filters.search}
+                className={`${selectClasses} flex-1 min-w-[10rem]`}
+            />
+            <select value={filters.sourceTool} onChange={e => updateFilters({ sourceTool: e.target.value as GalleryFilters['sourceTool'] })} className={selectClasses}>
+                <option value="all">{T.filters.allTools}</option>
+                {filterOptions.sourceTools.map(tool => <option key={tool} value={tool}>{commonT.sourceTools[tool]}</option>)}
+            </select>
+            <select value={filters.model} onChange={e => updateFilters({ model: e.target.value })} className={selectClasses}>
+                <option value="all">{T.filters.allModels}</option>
+                {filterOptions.models.map(model => <option key={model} value={model}>{getModelLabel(model)}</option>)}
+            </select>
+            <select value={filters.aspectRatio} onChange={e => updateFilters({ aspectRatio: e.target.value })} className={selectClasses}>
+                <option value="all">{T.filters.allAspectRatios}</option>
+                {filterOptions.aspectRatios.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+            {hasActiveFilters && (
+                <button onClick={() => updateFilters(EMPTY_FILTERS)} className="text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline">
+                    {T.filters.clear}
+                </button>
+            )}
+        </div>
+    );
+
     const renderContent = () => {
         switch (activeTab) {
             case 'images':
             case 'videos':
-                if (itemsToDisplay.length > 0) {
+                if (tabItems.length > 0) {
                     return (
-                        <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar min-h-0">
-                            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-                                {itemsToDisplay.map((item, index) => renderGridItem(item, index))}
-                            </div>
-                        </div>
+                        <>
+                            {renderFilters()}
+                            {itemsToDisplay.length > 0 ? (
+                                <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar min-h-0">
+                                    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                                        {itemsToDisplay.map((item, index) => renderGridItem(item, index))}
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="flex-1 flex items-center justify-center text-sm text-neutral-500 dark:text-neutral-400">
+                                    {T.filters.noMatches}
+                                </div>
+                            )}
+                        </>
                     );
                 }
                 return (
@@ -431,6 +587,8 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
                         </div>
                     </div>
                 );
+            case 'team':
+                return <WorkspaceView currentUser={currentUser} />;
             case 'log':
                 return <AiLogPanel />;
             default:
@@ -476,10 +634,18 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
                     }}
                     hasNext={previewIndex !== null && previewIndex < itemsToDisplay.length - 1}
                     hasPrevious={previewIndex !== null && previewIndex > 0}
+                    onRerun={handleRerun}
+                    canRerun={canRerunHistoryItem}
+                    onTrim={(item) => { setPreviewIndex(null); setItemToTrim(item); }}
+                    canTrim={canTrimHistoryItem}
                     // FIX: Pass the 'language' prop to the PreviewModal component.
                     language={language}
                 />
             )}
+
+            <ShareToWorkspaceModal item={itemToShare} onClose={() => setItemToShare(null)} />
+            <ExtendVideoModal item={itemToExtend} onClose={() => setItemToExtend(null)} onExtended={refreshHistory} />
+            <TrimVideoModal item={itemToTrim} onClose={() => setItemToTrim(null)} onTrimmed={refreshHistory} />
         </div>
     );
 };
@@ -9,9 +9,15 @@ import { handleApiError } from '../../services/errorHandler';
 import { generateImageWithImagen, editOrComposeWithImagen } from '../../services/imagenV3Service';
 import { incrementImageUsage } from '../../services/userService';
 // FIX: Add missing Language import.
-import { type User, type Language } from '../../types';
+import { type User, type Language, type GenerationProgress, type ProgressCallback, type NewGenerationMetadata } from '../../types';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
 import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
+import { isAbortError } from '../../utils/abortUtils';
+import { createProgress } from '../../utils/progressUtils';
+import GenerationProgressBar from '../common/GenerationProgressBar';
+import SeedControl, { MAX_SEED } from '../common/SeedControl';
+import { MODELS } from '../../services/aiConfig';
+import { getRunMetadata } from '../../services/generationMetadataService';
 
 interface ImageData extends MultimodalContent {
   id: string;
@@ -58,16 +64,18 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
   const [prompt, setPrompt] = useState('');
   const [images, setImages] = useState<ImageSlot[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [statusMessage, setStatusMessage] = useState('');
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [referenceImages, setReferenceImages] = useState<ImageData[]>([]);
   const [numberOfImages, setNumberOfImages] = useState(1);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [progress, setProgress] = useState(0);
 
   const [negativePrompt, setNegativePrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState<'1:1' | '9:16' | '16:9' | '3:4' | '4:3'>('1:1');
+  const [seed, setSeed] = useState<number | null>(null);
   const [creativeState, setCreativeState] = useState<CreativeDirectionState>(getInitialCreativeDirectionState());
 
   const isEditing = referenceImages.length > 0;
@@ -82,6 +90,7 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
         if (state.selectedImageIndex) setSelectedImageIndex(state.selectedImageIndex);
         if (state.negativePrompt) setNegativePrompt(state.negativePrompt);
         if (state.aspectRatio) setAspectRatio(state.aspectRatio);
+        if (state.seed) setSeed(state.seed);
         if (state.creativeState) setCreativeState(state.creativeState);
       }
     } catch (e) { console.error("Failed to load state from session storage", e); }
@@ -89,10 +98,10 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
 
   useEffect(() => {
     try {
-      const stateToSave = { prompt, numberOfImages, selectedImageIndex, negativePrompt, aspectRatio, creativeState };
+      const stateToSave = { prompt, numberOfImages, selectedImageIndex, negativePrompt, aspectRatio, seed, creativeState };
       sessionStorage.setItem(SESSION_KEY, JSON.stringify(stateToSave));
     } catch (e) { console.error("Failed to save state to session storage", e); }
-  }, [prompt, numberOfImages, selectedImageIndex, negativePrompt, aspectRatio, creativeState]);
+  }, [prompt, numberOfImages, selectedImageIndex, negativePrompt, aspectRatio, seed, creativeState]);
 
   useEffect(() => {
     if (imageToReEdit) {
@@ -160,15 +169,21 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
     setReferenceImages(prev => prev.filter(img => img.id !== id));
   };
   
-  const generateOneImage = useCallback(async (index: number, onStatusUpdate: (status: string) => void) => {
+  const generateOneImage = useCallback(async (index: number, onProgress: ProgressCallback, signal?: AbortSignal) => {
       setImages(prev => {
           const newImages = [...prev];
           newImages[index] = null; // Set to loading
           return newImages;
       });
       
+      // With a locked seed, each slot uses the next seed up so the images still differ
+      // but every one of them can be reproduced.
+      const slotSeed = seed !== null ? (seed + index - 1) % MAX_SEED + 1 : undefined;
+      const startedAt = Date.now();
+
       try {
           let resultImage: string | undefined;
+          let metadata: NewGenerationMetadata;
           if (isEditing) {
               const creativeDetails = Object.entries(creativeState)
                 .filter(([key, value]) => key !== 'creativityLevel' && value !== 'Random' && value !== 'None')
@@ -183,9 +198,17 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
               const result = await editOrComposeWithImagen({
                   prompt: editingPrompt,
                   images: referenceImages.map(img => ({ ...img, category: 'MEDIA_CATEGORY_SUBJECT', caption: 'image to edit' })),
-                  config: { aspectRatio }
-              }, onStatusUpdate);
+                  config: { aspectRatio, seed: slotSeed },
+                  signal
+              }, onProgress);
               resultImage = result.imagePanels[0]?.generatedImages[0]?.encodedImage;
+              metadata = {
+                  ...getRunMetadata(MODELS.imageEdit, startedAt, result),
+                  prompt: editingPrompt,
+                  seed: result.seed,
+                  aspectRatio,
+                  referenceImages: referenceImages.map(({ base64, mimeType }) => ({ base64, mimeType })),
+              };
           } else {
               const creativeDetails = Object.entries(creativeState)
                 .filter(([key, value]) => key !== 'creativityLevel' && value !== 'Random' && value !== 'None')
@@ -199,20 +222,31 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
                   config: {
                       sampleCount: 1,
                       aspectRatio,
-                      negativePrompt
-                  }
-              }, onStatusUpdate);
+                      negativePrompt,
+                      seed: slotSeed
+                  },
+                  signal
+              }, onProgress);
               resultImage = result.imagePanels[0]?.generatedImages[0]?.encodedImage;
+              metadata = {
+                  ...getRunMetadata(MODELS.imageGeneration, startedAt, result),
+                  prompt: fullPrompt,
+                  seed: result.seed,
+                  aspectRatio,
+                  negativePrompt: negativePrompt || undefined,
+              };
           }
 
           if (!resultImage) {
               throw new Error("The AI did not return an image. Please try a different prompt or reference image.");
           }
           
+          onProgress(createProgress('caching'));
           await addHistoryItem({
               type: 'Image',
               prompt: isEditing ? `Image Edit: ${prompt}` : `Image Generation: ${prompt}`,
-              result: resultImage
+              result: resultImage,
+              metadata
           });
 
           // FIX: Pass the full currentUser object instead of just the ID, as required by the function signature.
@@ -228,6 +262,14 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
           });
 
       } catch (e) {
+          if (isAbortError(e)) {
+              setImages(prev => {
+                  const newImages = [...prev];
+                  newImages[index] = { error: 'Cancelled' };
+                  return newImages;
+              });
+              return;
+          }
           const userFriendlyMessage = handleApiError(e);
           console.error(`Image Generation Failed (Slot ${index + 1}): ${userFriendlyMessage}`);
           setImages(prev => {
@@ -236,7 +278,7 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
               return newImages;
           });
       }
-  }, [prompt, referenceImages, isEditing, negativePrompt, aspectRatio, currentUser, onUserUpdate, creativeState]);
+  }, [prompt, referenceImages, isEditing, negativePrompt, aspectRatio, seed, currentUser, onUserUpdate, creativeState]);
 
   const handleGenerate = useCallback(async () => {
     if (!prompt.trim() && !isEditing) {
@@ -245,24 +287,37 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
     }
     setIsLoading(true);
     setError(null);
-    setStatusMessage('Preparing request...');
+    setGenerationProgress(createProgress('submitted'));
     setImages(Array(numberOfImages).fill(null));
     setSelectedImageIndex(0);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     for (let i = 0; i < numberOfImages; i++) {
+        if (controller.signal.aborted) {
+            // Leave the remaining slots in a retryable state instead of loading forever.
+            setImages(prev => prev.map((image, index) => index >= i ? { error: 'Cancelled' } : image));
+            break;
+        }
         setProgress(i + 1);
-        await generateOneImage(i, setStatusMessage);
+        await generateOneImage(i, setGenerationProgress, controller.signal);
     }
 
+    abortControllerRef.current = null;
     setIsLoading(false);
     setProgress(0);
-    setStatusMessage('');
+    setGenerationProgress(null);
   }, [numberOfImages, isEditing, prompt, generateOneImage]);
   
   const handleRetry = useCallback(async (index: number) => {
-    await generateOneImage(index, setStatusMessage);
+    await generateOneImage(index, setGenerationProgress);
+    setGenerationProgress(null);
   }, [generateOneImage]);
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleLocalReEdit = (base64: string, mimeType: string) => {
       const newImage: ImageData = { id: `re-edit-${Date.now()}`, previewUrl: `data:${mimeType};base64,${base64}`, base64, mimeType };
       setReferenceImages([newImage]);
@@ -279,8 +334,9 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
     setSelectedImageIndex(0);
     if(fileInputRef.current) fileInputRef.current.value = '';
     setNegativePrompt('');
+    setSeed(null);
     setProgress(0);
-    setStatusMessage('');
+    setGenerationProgress(null);
     setCreativeState(getInitialCreativeDirectionState());
     sessionStorage.removeItem(SESSION_KEY);
   }, []);
@@ -352,6 +408,7 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
             <label htmlFor="negative-prompt" className={`block text-sm font-medium mb-2 transition-colors text-gray-600 dark:text-gray-400`}>Negative Prompt (What to avoid)</label>
             <textarea id="negative-prompt" value={negativePrompt} onChange={(e) => setNegativePrompt(e.target.value)} placeholder="e.g., text, watermarks, blurry, ugly" rows={2} className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-3 focus:ring-2 focus:ring-primary-500 focus:outline-none transition" />
           </div>
+          <SeedControl seed={seed} onChange={setSeed} disabled={isLoading} />
       </div>
 
       <div className="pt-4 mt-auto">
@@ -360,11 +417,10 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
             {isLoading ? <Spinner /> : isEditing ? 'Apply Edit' : 'Generate Image'}
           </button>
           <button
-            onClick={handleReset}
-            disabled={isLoading}
+            onClick={isLoading ? handleCancel : handleReset}
             className="flex-shrink-0 bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 font-semibold py-3 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50"
           >
-            Reset
+            {isLoading ? 'Cancel' : 'Reset'}
           </button>
         </div>
         {error && !isLoading && <p className="text-red-500 dark:text-red-400 mt-2 text-center">{error}</p>}
@@ -413,7 +469,7 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
                     return (
                         <div className="flex flex-col items-center justify-center h-full gap-2">
                             <Spinner />
-                            <p className="text-sm text-neutral-500">{statusMessage}</p>
+                            <GenerationProgressBar progress={generationProgress} />
                             {isLoading && numberOfImages > 1 && (
                                 <p className="text-sm text-neutral-500">
                                     {`Generating... (${progress}/${numberOfImages})`}
@@ -444,7 +500,7 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
       ) : isLoading ? (
         <div className="flex flex-col items-center justify-center h-full gap-2">
             <Spinner />
-            <p className="text-sm text-neutral-500">{statusMessage}</p>
+            <GenerationProgressBar progress={generationProgress} />
             <p className="text-sm text-neutral-500">
                 {`Generating...${numberOfImages > 1 ? ` (1/${numberOfImages})` : ''}`}
             </p>
@@ -1,12 +1,14 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { generateText } from '../../services/geminiService';
 import { addHistoryItem } from '../../services/historyService';
 import Spinner from '../common/Spinner';
-import { MegaphoneIcon, DownloadIcon, ClipboardIcon, CheckCircleIcon } from '../Icons';
+import { MegaphoneIcon, DownloadIcon, ClipboardIcon, CheckCircleIcon, AlertTriangleIcon } from '../Icons';
 import TwoColumnLayout from '../common/TwoColumnLayout';
+import BrandKitSelector from '../common/BrandKitSelector';
 import { getMarketingCopyPrompt } from '../../services/promptManager';
 import { handleApiError } from '../../services/errorHandler';
-import { type Language } from '../../types';
+import { findForbiddenWords } from '../../services/brandKitService';
+import { type Language, type BrandKit } from '../../types';
 
 
 const tones = ["Professional", "Casual", "Witty", "Persuasive", "Empathetic", "Bold"];
@@ -37,6 +39,7 @@ const MarketingCopyView: React.FC<MarketingCopyViewProps> = ({ language }) => {
     const [selectedTone, setSelectedTone] = useState(tones[0]);
     const [selectedLanguage, setSelectedLanguage] = useState("English");
     const [generatedCopy, setGeneratedCopy] = useState('');
+    const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [copied, setCopied] = useState(false);
@@ -78,7 +81,8 @@ const MarketingCopyView: React.FC<MarketingCopyViewProps> = ({ language }) => {
             targetAudience,
             keywords,
             selectedTone,
-            selectedLanguage
+            selectedLanguage,
+            brandKit
         });
 
         try {
@@ -95,7 +99,9 @@ const MarketingCopyView: React.FC<MarketingCopyViewProps> = ({ language }) => {
         } finally {
             setIsLoading(false);
         }
-    }, [productDetails, targetAudience, keywords, selectedTone, selectedLanguage]);
+    }, [productDetails, targetAudience, keywords, selectedTone, selectedLanguage, brandKit]);
+
+    const forbiddenWordsFound = useMemo(() => findForbiddenWords(generatedCopy, brandKit), [generatedCopy, brandKit]);
     
     const handleCopy = () => {
         if (!generatedCopy) return;
@@ -122,6 +128,12 @@ const MarketingCopyView: React.FC<MarketingCopyViewProps> = ({ language }) => {
                 <p className="text-neutral-500 dark:text-neutral-400 mt-1">Generate persuasive copy for ads, posts, and websites.</p>
             </div>
 
+            <BrandKitSelector
+                brandKit={brandKit}
+                onBrandKitChange={setBrandKit}
+                onProductSelect={product => setProductDetails(product.description || product.name)}
+            />
+
             <div>
                 <label htmlFor="product-details" className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-2">Product/Service Details</label>
                 <textarea
@@ -229,8 +241,16 @@ const MarketingCopyView: React.FC<MarketingCopyViewProps> = ({ language }) => {
                     <p className="text-neutral-500 dark:text-neutral-400">Generating your copy...</p>
                 </div>
             ) : generatedCopy ? (
-                <div className="prose dark:prose-invert max-w-none text-neutral-700 dark:text-neutral-300 whitespace-pre-wrap w-full h-full overflow-y-auto pr-2">
-                    {generatedCopy}
+                <div className="w-full h-full overflow-y-auto pr-2">
+                    {forbiddenWordsFound.length > 0 && (
+                        <div className="flex items-start gap-2 p-3 mb-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 text-sm">
+                            <AlertTriangleIcon className="w-5 h-5 flex-shrink-0"/>
+                            <p>This copy uses words that {brandKit?.name} avoids: {forbiddenWordsFound.join(', ')}. Edit them out or generate again.</p>
+                        </div>
+                    )}
+                    <div className="prose dark:prose-invert max-w-none text-neutral-700 dark:text-neutral-300 whitespace-pre-wrap">
+                        {generatedCopy}
+                    </div>
                 </div>
             ) : (
                  <div className="flex items-center justify-center h-full text-center text-neutral-500 dark:text-neutral-600 p-4">
@@ -0,0 +1,444 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Spinner from '../common/Spinner';
+import ConfirmationModal from '../common/ConfirmationModal';
+import { ImageIcon, PlusIcon, SparklesIcon, TrashIcon, VideoIcon, WandIcon, XIcon } from '../Icons';
+import { type HistoryItem, type Language, type UserPrompt, type UserPromptTarget } from '../../types';
+import {
+    getUserPrompts, saveUserPrompt, deleteUserPrompt, getPromptPlaceholders, fillPromptPlaceholders,
+    normalizePromptTags, type UserPromptDraft
+} from '../../services/userPromptService';
+import { getHistory } from '../../services/historyService';
+import { createImageThumbnail } from '../../services/imageService';
+import { type PromptInputs } from '../../services/promptTemplateEngine';
+
+interface MyPromptsViewProps {
+    onUsePrompt: (prompt: string) => void;
+    onCreateVideo: (preset: { prompt: string; image: null }) => void;
+    language: Language;
+}
+
+const inputClasses = "w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none";
+
+const emptyDraft: UserPromptDraft = { title: '', prompt: '', tags: [], coverImage: null, target: 'image' };
+
+const getErrorMessage = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+// --- Cover Picker ---
+
+interface CoverPickerProps {
+    onPick: (coverImage: string) => void;
+    onClose: () => void;
+}
+
+const CoverPicker: React.FC<CoverPickerProps> = ({ onPick, onClose }) => {
+    const [images, setImages] = useState<HistoryItem[] | null>(null);
+    const [pickingId, setPickingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        getHistory().then(history => setImages(history.filter(item =>
+            (item.type === 'Image' || item.type === 'Canvas') && typeof item.result === 'string' && item.result !== 'unavailable'
+        )));
+    }, []);
+
+    const handlePick = async (item: HistoryItem) => {
+        setPickingId(item.id);
+        try {
+            // Covers are stored in the database, so keep them small.
+            onPick(await createImageThumbnail(item.result as string, 384));
+        } catch (e) {
+            console.error("Failed to create cover thumbnail:", e);
+        } finally {
+            setPickingId(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-zoomIn p-4" onClick={onClose} role="dialog" aria-modal="true">
+            <div className="bg-white dark:bg-neutral-900 rounded-lg shadow-2xl w-full max-w-3xl h-[80vh] flex flex-col p-6" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold">Pick a Cover Image</h2>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-neutral-200 dark:hover:bg-neutral-700"><XIcon className="w-6 h-6"/></button>
+                </div>
+                <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar">
+                    {images === null ? (
+                        <div className="flex h-full items-center justify-center"><Spinner /></div>
+                    ) : images.length === 0 ? (
+                        <p className="text-center text-neutral-500 py-20">No images in your history yet.</p>
+                    ) : (
+                        <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+                            {images.map(item => (
+                                <button key={item.id} onClick={() => handlePick(item)} disabled={!!pickingId} className="relative aspect-square rounded-md overflow-hidden group">
+                                    <img src={`data:image/png;base64,${item.result as string}`} alt={item.prompt} className="w-full h-full object-cover bg-neutral-200 dark:bg-neutral-800"/>
+                                    <div className="absolute inset-0 flex items-center justify-center group-hover:bg-black/30 transition-colors">
+                                        {pickingId === item.id && <Spinner />}
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Editor ---
+
+interface PromptEditorProps {
+    initial: UserPrompt | null;
+    onSaved: (prompt: UserPrompt) => void;
+    onClose: () => void;
+}
+
+const PromptEditor: React.FC<PromptEditorProps> = ({ initial, onSaved, onClose }) => {
+    const [draft, setDraft] = useState<UserPromptDraft>(initial ? {
+        title: initial.title, prompt: initial.prompt, tags: initial.tags, coverImage: initial.coverImage, target: initial.target
+    } : emptyDraft);
+    const [tagsText, setTagsText] = useState(initial ? initial.tags.join(', ') : '');
+    const [isPickingCover, setIsPickingCover] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const placeholders = useMemo(() => getPromptPlaceholders(draft.prompt), [draft.prompt]);
+
+    const handleSave = async () => {
+        if (!draft.title.trim() || !draft.prompt.trim()) {
+            setError("A title and a prompt are required.");
+            return;
+        }
+        setIsSaving(true);
+        setError(null);
+        try {
+            onSaved(await saveUserPrompt({ ...draft, tags: tagsText.split(',') }, initial?.id));
+        } catch (e) {
+            setError(getErrorMessage(e));
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-40 animate-zoomIn p-4" onClick={onClose} role="dialog" aria-modal="true">
+            <div className="bg-white dark:bg-neutral-900 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar p-6 space-y-4" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-bold">{initial ? 'Edit Prompt' : 'New Prompt'}</h2>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-neutral-200 dark:hover:bg-neutral-700"><XIcon className="w-6 h-6"/></button>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium mb-1">Title</label>
+                    <input type="text" value={draft.title} onChange={e => setDraft(prev => ({ ...prev, title: e.target.value }))} className={inputClasses} placeholder="e.g., Cozy product flat lay"/>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium mb-1">Prompt</label>
+                    <textarea
+                        value={draft.prompt}
+                        onChange={e => setDraft(prev => ({ ...prev, prompt: e.target.value }))}
+                        rows={6}
+                        className={`${inputClasses} font-mono`}
+                        placeholder='A {{product}} on a {{surface || "marble table"}}, soft morning light'
+                    />
+                    <p className="text-xs text-neutral-500 mt-1">
+                        {'Add placeholders with {{name}}, or {{name || "default"}} to give them a default.'}
+                        {placeholders.length > 0 && <> Placeholders: {placeholders.map(p => p.name).join(', ')}.</>}
+                    </p>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Tags</label>
+                        <input type="text" value={tagsText} onChange={e => setTagsText(e.target.value)} className={inputClasses} placeholder="skincare, flat lay"/>
+                        <p className="text-xs text-neutral-500 mt-1">Separate tags with commas.</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Use For</label>
+                        <div className="flex gap-2">
+                            {(['image', 'video'] as UserPromptTarget[]).map(target => (
+                                <button key={target} onClick={() => setDraft(prev => ({ ...prev, target }))} className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-semibold ${draft.target === target ? 'bg-primary-600 text-white' : 'bg-neutral-200 dark:bg-neutral-700'}`}>
+                                    {target === 'image' ? <ImageIcon className="w-4 h-4"/> : <VideoIcon className="w-4 h-4"/>}
+                                    {target === 'image' ? 'Image' : 'Video'}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium mb-1">Cover Image</label>
+                    <div className="flex items-center gap-4">
+                        <div className="w-24 h-24 rounded-md bg-neutral-100 dark:bg-neutral-800 overflow-hidden flex items-center justify-center">
+                            {draft.coverImage ? <img src={draft.coverImage} alt="Cover" className="w-full h-full object-cover"/> : <ImageIcon className="w-8 h-8 text-neutral-400"/>}
+                        </div>
+                        <div className="flex flex-col gap-2">
+                            <button onClick={() => setIsPickingCover(true)} className="bg-neutral-200 dark:bg-neutral-700 font-semibold py-1.5 px-4 rounded-lg text-sm hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors">Pick from History</button>
+                            {draft.coverImage && <button onClick={() => setDraft(prev => ({ ...prev, coverImage: null }))} className="text-sm text-red-500 hover:underline">Remove</button>}
+                        </div>
+                    </div>
+                </div>
+
+                {error && <p className="text-sm text-red-500">{error}</p>}
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-6 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors">Cancel</button>
+                    <button onClick={handleSave} disabled={isSaving} className="flex items-center justify-center gap-2 bg-primary-600 text-white font-semibold py-2 px-6 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50">
+                        {isSaving ? <Spinner /> : 'Save Prompt'}
+                    </button>
+                </div>
+
+                {isPickingCover && (
+                    <CoverPicker
+                        onPick={coverImage => { setDraft(prev => ({ ...prev, coverImage })); setIsPickingCover(false); }}
+                        onClose={() => setIsPickingCover(false)}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- Fill Form ---
+
+interface PromptFillFormProps {
+    promptItem: UserPrompt;
+    onSend: (prompt: string, target: UserPromptTarget) => void;
+    onClose: () => void;
+}
+
+const PromptFillForm: React.FC<PromptFillFormProps> = ({ promptItem, onSend, onClose }) => {
+    const placeholders = useMemo(() => getPromptPlaceholders(promptItem.prompt), [promptItem.prompt]);
+    const [values, setValues] = useState<PromptInputs>({});
+
+    const missing = placeholders.filter(p => p.fallback === undefined && !String(values[p.name] ?? '').trim());
+    const preview = useMemo(() => {
+        try {
+            return fillPromptPlaceholders(promptItem.prompt, values);
+        } catch {
+            // Malformed placeholders are sent as written.
+            return promptItem.prompt;
+        }
+    }, [promptItem.prompt, values]);
+
+    const sendButton = (target: UserPromptTarget) => (
+        <button
+            onClick={() => onSend(preview, target)}
+            disabled={missing.length > 0}
+            className={`flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 ${promptItem.target === target ? 'bg-primary-600 text-white hover:bg-primary-700' : 'bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600'}`}
+        >
+            {target === 'image' ? <ImageIcon className="w-4 h-4"/> : <VideoIcon className="w-4 h-4"/>}
+            {target === 'image' ? 'Send to Image Generation' : 'Send to Video Generation'}
+        </button>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-40 animate-zoomIn p-4" onClick={onClose} role="dialog" aria-modal="true">
+            <div className="bg-white dark:bg-neutral-900 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar p-6 space-y-4" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-bold">{promptItem.title}</h2>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-neutral-200 dark:hover:bg-neutral-700"><XIcon className="w-6 h-6"/></button>
+                </div>
+
+                {placeholders.length > 0 && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {placeholders.map(p => (
+                            <div key={p.name}>
+                                <label className="block text-xs font-medium mb-1">{p.name}{p.fallback === undefined && <span className="text-red-500"> *</span>}</label>
+                                <input
+                                    type="text"
+                                    value={String(values[p.name] ?? '')}
+                                    placeholder={p.fallback ?? ''}
+                                    onChange={e => setValues(prev => ({ ...prev, [p.name]: e.target.value }))}
+                                    className={inputClasses}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div>
+                    <h3 className="text-sm font-semibold mb-2">Preview</h3>
+                    <pre className="text-sm whitespace-pre-wrap p-3 rounded-lg bg-neutral-100 dark:bg-neutral-800 max-h-60 overflow-y-auto custom-scrollbar">{preview}</pre>
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                    {sendButton('image')}
+                    {sendButton('video')}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Main View ---
+
+const MyPromptsView: React.FC<MyPromptsViewProps> = ({ onUsePrompt, onCreateVideo, language }) => {
+    const [prompts, setPrompts] = useState<UserPrompt[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [activeTag, setActiveTag] = useState<string | null>(null);
+    const [editing, setEditing] = useState<UserPrompt | 'new' | null>(null);
+    const [filling, setFilling] = useState<UserPrompt | null>(null);
+    const [toDelete, setToDelete] = useState<UserPrompt | null>(null);
+
+    useEffect(() => {
+        const fetchPrompts = async () => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                setPrompts(await getUserPrompts());
+            } catch (err) {
+                setError(`Could not load your prompts. ${getErrorMessage(err)}`);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchPrompts();
+    }, []);
+
+    const allTags = useMemo(() => normalizePromptTags(prompts.flatMap(p => p.tags)).sort(), [prompts]);
+
+    const filteredPrompts = useMemo(() => {
+        const lowercasedTerm = searchTerm.toLowerCase();
+        return prompts.filter(p =>
+            (!activeTag || p.tags.includes(activeTag)) &&
+            (!lowercasedTerm ||
+                p.title.toLowerCase().includes(lowercasedTerm) ||
+                p.prompt.toLowerCase().includes(lowercasedTerm) ||
+                p.tags.some(tag => tag.includes(lowercasedTerm)))
+        );
+    }, [prompts, searchTerm, activeTag]);
+
+    const handleSaved = (saved: UserPrompt) => {
+        setPrompts(prev => [saved, ...prev.filter(p => p.id !== saved.id)]);
+        setEditing(null);
+    };
+
+    const handleDelete = async () => {
+        if (!toDelete) return;
+        const { id } = toDelete;
+        setToDelete(null);
+        try {
+            await deleteUserPrompt(id);
+            setPrompts(prev => prev.filter(p => p.id !== id));
+        } catch (err) {
+            setError(`Could not delete the prompt. ${getErrorMessage(err)}`);
+        }
+    };
+
+    const handleSend = (prompt: string, target: UserPromptTarget) => {
+        setFilling(null);
+        if (target === 'video') {
+            onCreateVideo({ prompt, image: null });
+        } else {
+            onUsePrompt(prompt);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold sm:text-3xl">My Prompts</h1>
+                    <p className="text-neutral-500 dark:text-neutral-400 mt-1">Save your own prompts with placeholders and reuse them in Image or Video Generation.</p>
+                </div>
+                <div className="flex gap-3">
+                    <input
+                        type="text"
+                        placeholder="Search my prompts..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="w-full sm:w-64 bg-white dark:bg-neutral-800/50 border border-neutral-300 dark:border-neutral-700 rounded-lg p-3 focus:ring-2 focus:ring-primary-500 focus:outline-none transition"
+                    />
+                    <button onClick={() => setEditing('new')} className="flex-shrink-0 flex items-center gap-2 bg-primary-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-primary-700 transition-colors">
+                        <PlusIcon className="w-4 h-4"/> New Prompt
+                    </button>
+                </div>
+            </div>
+
+            {allTags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {allTags.map(tag => (
+                        <button key={tag} onClick={() => setActiveTag(activeTag === tag ? null : tag)} className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${activeTag === tag ? 'bg-primary-600 text-white' : 'bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600'}`}>
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {isLoading && (
+                <div className="flex justify-center items-center py-20">
+                    <Spinner />
+                </div>
+            )}
+
+            {error && (
+                <div className="text-center py-10 text-red-500 dark:text-red-400">
+                    <p className="text-sm">{error}</p>
+                </div>
+            )}
+
+            {!isLoading && (
+                filteredPrompts.length > 0 ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4 gap-6">
+                        {filteredPrompts.map(promptItem => (
+                            <div key={promptItem.id} className="bg-white dark:bg-neutral-900 p-5 rounded-lg shadow-sm border border-neutral-200 dark:border-neutral-800 flex flex-col gap-3">
+                                {promptItem.coverImage ? (
+                                    <img src={promptItem.coverImage} alt={promptItem.title} className="w-full aspect-square object-cover rounded-md bg-neutral-100 dark:bg-neutral-800"/>
+                                ) : (
+                                    <div className="w-full aspect-square rounded-md bg-neutral-100 dark:bg-neutral-800 flex items-center justify-center">
+                                        <SparklesIcon className="w-12 h-12 text-neutral-300 dark:text-neutral-600"/>
+                                    </div>
+                                )}
+                                <div className="flex justify-between items-start gap-2">
+                                    <h3 className="text-lg font-bold text-neutral-800 dark:text-white">{promptItem.title}</h3>
+                                    <span className="flex-shrink-0 flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300">
+                                        {promptItem.target === 'image' ? <ImageIcon className="w-3 h-3"/> : <VideoIcon className="w-3 h-3"/>}
+                                        {promptItem.target === 'image' ? 'Image' : 'Video'}
+                                    </span>
+                                </div>
+                                <p className="text-sm font-mono text-neutral-600 dark:text-neutral-400 line-clamp-3">{promptItem.prompt}</p>
+                                {promptItem.tags.length > 0 && (
+                                    <div className="flex flex-wrap gap-1">
+                                        {promptItem.tags.map(tag => <span key={tag} className="text-xs text-neutral-500">#{tag}</span>)}
+                                    </div>
+                                )}
+                                <div className="flex gap-2 mt-auto pt-2">
+                                    <button onClick={() => setFilling(promptItem)} className="flex-1 flex items-center justify-center gap-2 bg-primary-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-primary-700 transition-colors">
+                                        <WandIcon className="w-4 h-4"/> Use
+                                    </button>
+                                    <button onClick={() => setEditing(promptItem)} className="bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors">Edit</button>
+                                    <button onClick={() => setToDelete(promptItem)} title="Delete" className="p-2 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"><TrashIcon className="w-5 h-5"/></button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                ) : !error && (
+                    <div className="text-center py-20 text-neutral-500 dark:text-neutral-400 bg-white dark:bg-neutral-900 p-6 rounded-lg shadow-sm">
+                        <SparklesIcon className="w-16 h-16 mx-auto mb-4 text-primary-500" />
+                        <p className="font-semibold text-xl">No Prompts Yet</p>
+                        <p className="text-base mt-2">{searchTerm || activeTag ? "No saved prompts match your filters." : "Save a prompt you like to reuse it anytime."}</p>
+                    </div>
+                )
+            )}
+
+            {editing && (
+                <PromptEditor initial={editing === 'new' ? null : editing} onSaved={handleSaved} onClose={() => setEditing(null)} />
+            )}
+            {filling && (
+                <PromptFillForm promptItem={filling} onSend={handleSend} onClose={() => setFilling(null)} />
+            )}
+            <ConfirmationModal
+                isOpen={!!toDelete}
+                title="Delete Prompt"
+                message={`Are you sure you want to delete "${toDelete?.title}"? This cannot be undone.`}
+                onConfirm={handleDelete}
+                onCancel={() => setToDelete(null)}
+                confirmText="Delete"
+                confirmButtonClass="bg-red-600 hover:bg-red-700"
+                language={language}
+            />
+        </div>
+    );
+};
+
+export default MyPromptsView;
@@ -1,5 +1,6 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import ImageUpload from '../common/ImageUpload';
+import BrandKitSelector from '../common/BrandKitSelector';
 import { generateMultimodalContent } from '../../services/geminiService';
 import { addHistoryItem } from '../../services/historyService';
 import Spinner from '../common/Spinner';
@@ -9,7 +10,7 @@ import TwoColumnLayout from '../common/TwoColumnLayout';
 import { getProductAdPrompt } from '../../services/promptManager';
 import { handleApiError } from '../../services/errorHandler';
 // FIX: Add missing Language import.
-import { type Language } from '../../types';
+import { type Language, type BrandKit, type BrandProduct } from '../../types';
 import { vibeOptions, lightingOptions } from '../../services/creativeDirectionService';
 
 
@@ -67,6 +68,7 @@ const ProductAdView: React.FC<ProductAdViewProps> = ({ language }) => {
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [imageUploadKey, setImageUploadKey] = useState(Date.now());
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
   
   useEffect(() => {
     try {
@@ -95,6 +97,14 @@ const ProductAdView: React.FC<ProductAdViewProps> = ({ language }) => {
   const handleRemoveImage = useCallback(() => {
     setProductImage(null);
   }, []);
+
+  const handleBrandProductSelect = (product: BrandProduct) => {
+    if (product.image) {
+      setProductImage(product.image);
+      setImageUploadKey(Date.now());
+    }
+    if (product.description) setProductDesc(product.description);
+  };
   
   const handleSelection = (category: keyof typeof selections, value: string) => {
     setSelections(prev => ({ ...prev, [category]: value }));
@@ -118,6 +128,7 @@ const ProductAdView: React.FC<ProductAdViewProps> = ({ language }) => {
         vibe: selections.vibe,
         lighting: selections.lighting,
         contentType: selections.contentType,
+        brandKit,
     });
 
     try {
@@ -166,8 +177,11 @@ const ProductAdView: React.FC<ProductAdViewProps> = ({ language }) => {
         </div>
         <div>
           <h2 className="text-lg font-semibold mb-2">Muat Naik Foto Produk</h2>
+          <div className="mb-4">
+            <BrandKitSelector brandKit={brandKit} onBrandKitChange={setBrandKit} onProductSelect={handleBrandProductSelect} />
+          </div>
           {/* FIX: Add missing 'language' prop to ImageUpload component. */}
-          <ImageUpload key={imageUploadKey} id="product-ad-upload" onImageUpload={handleImageUpload} onRemove={handleRemoveImage} language={language} />
+          <ImageUpload key={imageUploadKey} id="product-ad-upload" onImageUpload={handleImageUpload} onRemove={handleRemoveImage} initialImage={productImage} language={language} />
         </div>
 
         <div>
@@ -6,12 +6,13 @@ import Spinner from '../common/Spinner';
 import { CameraIcon, DownloadIcon, WandIcon, VideoIcon, AlertTriangleIcon, RefreshCwIcon } from '../Icons';
 import TwoColumnLayout from '../common/TwoColumnLayout';
 import { getProductPhotoPrompt } from '../../services/promptManager';
-import { type Language, type User } from '../../types';
+import { type BrandKit, type Language, type User } from '../../types';
 import { getTranslations } from '../../services/translations';
 import { editOrComposeWithImagen } from '../../services/imagenV3Service';
 import { handleApiError } from '../../services/errorHandler';
 import { incrementImageUsage } from '../../services/userService';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
+import BrandKitSelector from '../common/BrandKitSelector';
 import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
 
 
@@ -66,6 +67,7 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
   const [aspectRatio, setAspectRatio] = useState<'1:1' | '9:16' | '16:9' | '3:4' | '4:3'>('1:1');
   const [imageUploadKey, setImageUploadKey] = useState(Date.now());
   const [progress, setProgress] = useState(0);
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
   
   // FIX: Remove `language` argument from `getTranslations` call to match the function signature.
   const T = getTranslations().productPhotoView;
@@ -111,7 +113,8 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
     // FIX: Group creative direction properties into a `creativeDirection` object to match the function signature.
     const prompt = getProductPhotoPrompt({
         customPrompt,
-        creativeDirection: creativeState
+        creativeDirection: creativeState,
+        brandKit
     });
 
     try {
@@ -151,7 +154,7 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
             return newImages;
         });
     }
-  }, [productImage, creativeState, customPrompt, aspectRatio, currentUser, onUserUpdate]);
+  }, [productImage, creativeState, customPrompt, brandKit, aspectRatio, currentUser, onUserUpdate]);
 
   const handleGenerate = useCallback(async () => {
     if (!productImage) {
@@ -202,8 +205,17 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
       </div>
 
       <Section title={T.uploadProduct}>
+        <BrandKitSelector
+          brandKit={brandKit}
+          onBrandKitChange={setBrandKit}
+          onProductSelect={product => {
+            if (!product.image) return;
+            setProductImage(product.image);
+            setImageUploadKey(Date.now());
+          }}
+        />
         {/* FIX: Add missing 'language' prop to ImageUpload component. */}
-        <ImageUpload key={imageUploadKey} id="product-photo-upload" onImageUpload={(base64, mimeType) => setProductImage({ base64, mimeType })} onRemove={handleRemoveImage} title={T.uploadTitle} language={language} />
+        <ImageUpload key={imageUploadKey} id="product-photo-upload" onImageUpload={(base64, mimeType) => setProductImage({ base64, mimeType })} onRemove={handleRemoveImage} title={T.uploadTitle} initialImage={productImage} language={language} />
       </Section>
 
       <Section title={T.customPrompt}>
@@ -279,7 +291,7 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
     <div className="absolute top-2 right-2 flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
       <button onClick={() => onReEdit({ base64: imageBase64, mimeType })} title="Re-edit this image" className="flex items-center justify-center w-8 h-8 bg-black/60 text-white rounded-full hover:bg-black/80 transition-colors"><WandIcon className="w-4 h-4" /></button>
       {/* FIX: Group creative direction properties into a `creativeDirection` object to match the function signature. */}
-      <button onClick={() => onCreateVideo({ prompt: getProductPhotoPrompt({ customPrompt, creativeDirection: creativeState }), image: { base64: imageBase64, mimeType } })} title="Create Video from this image" className="flex items-center justify-center w-8 h-8 bg-black/60 text-white rounded-full hover:bg-black/80 transition-colors"><VideoIcon className="w-4 h-4" /></button>
+      <button onClick={() => onCreateVideo({ prompt: getProductPhotoPrompt({ customPrompt, creativeDirection: creativeState, brandKit }), image: { base64: imageBase64, mimeType } })} title="Create Video from this image" className="flex items-center justify-center w-8 h-8 bg-black/60 text-white rounded-full hover:bg-black/80 transition-colors"><VideoIcon className="w-4 h-4" /></button>
       <button onClick={() => triggerDownload(imageBase64, 'monoklix-product-photo')} title="Download Image" className="flex items-center justify-center w-8 h-8 bg-black/60 text-white rounded-full hover:bg-black/80 transition-colors"><DownloadIcon className="w-4 h-4" /></button>
     </div>
   );
@@ -5,9 +5,9 @@ import { type MultimodalContent, generateMultimodalContent, generateVideo } from
 import { addHistoryItem } from '../../services/historyService';
 import Spinner from '../common/Spinner';
 // FIX: Added missing UserIcon and TikTokIcon to fix 'Cannot find name' errors.
-import { StarIcon, DownloadIcon, ImageIcon, VideoIcon, WandIcon, AlertTriangleIcon, RefreshCwIcon, XIcon, UserIcon, TikTokIcon } from '../Icons';
-import { getProductReviewImagePrompt, getProductReviewStoryboardPrompt, getImageEditingPrompt } from '../../services/promptManager';
-import { type User, type Language } from '../../types';
+import { StarIcon, DownloadIcon, ImageIcon, VideoIcon, WandIcon, AlertTriangleIcon, RefreshCwIcon, XIcon, UserIcon, TikTokIcon, TrashIcon, ClipboardIcon, PlusIcon, GripVerticalIcon } from '../Icons';
+import { getProductReviewImagePrompt, getProductReviewStoryboardPrompt, getImageEditingPrompt, getVideoDirectionPromptLines } from '../../services/promptManager';
+import { type User, type Language, type StoryboardScene, type StoryboardProject, type StoryboardSettings } from '../../types';
 import { MODELS } from '../../services/aiConfig';
 import { incrementVideoUsage, incrementImageUsage } from '../../services/userService';
 import { addLogEntry } from '../../services/aiLogService';
@@ -16,11 +16,20 @@ import PreviewModal from '../common/PreviewModal';
 import { handleApiError } from '../../services/errorHandler';
 import { editOrComposeWithImagen } from '../../services/imagenV3Service';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
-import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
+import { getInitialVideoCreativeDirectionState, type VideoCreativeDirectionState } from '../../services/creativeDirectionService';
+import { getRunMetadata } from '../../services/generationMetadataService';
+import {
+    createScene, parseStoryboardScenes, serializeStoryboard, duplicateScene, moveScene,
+    createStoryboardProject, getStoryboardProjects, saveStoryboardProject, deleteStoryboardProject,
+    MIN_SCENE_COUNT, MAX_SCENE_COUNT,
+} from '../../services/storyboardService';
 
 
 const contentTypeOptions = ["None", "Random", "Hard Selling", "Soft Selling", "Storytelling", "Problem/Solution", "ASMR / Sensory", "Unboxing", "Educational", "Testimonial"];
 const languages = ["English", "Bahasa Malaysia", "Chinese"];
+const sceneCountOptions = Array.from({ length: MAX_SCENE_COUNT - MIN_SCENE_COUNT + 1 }, (_, i) => MIN_SCENE_COUNT + i);
+const DEFAULT_SCENE_COUNT = 4;
+const AUTOSAVE_DELAY_MS = 1000;
 
 
 interface VideoGenPreset {
@@ -61,41 +70,38 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
   const [productDesc, setProductDesc] = useState('');
   const [selectedContentType, setSelectedContentType] = useState<string>(contentTypeOptions[0]);
   const [selectedLanguage, setSelectedLanguage] = useState<string>("English");
-  const [storyboard, setStoryboard] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [storyboardError, setStoryboardError] = useState<string | null>(null);
   const [includeCaptions, setIncludeCaptions] = useState<'Yes' | 'No'>('No');
   const [includeVoiceover, setIncludeVoiceover] = useState<'Yes' | 'No'>('Yes');
   const [includeModel, setIncludeModel] = useState<'No' | 'Yes'>('No');
+  const [sceneCount, setSceneCount] = useState(DEFAULT_SCENE_COUNT);
 
-  // State for multi-image generation
-  const [parsedScenes, setParsedScenes] = useState<string[]>([]);
+  // The storyboard itself: an ordered list of scenes, each with its own media and error state.
+  const [scenes, setScenes] = useState<StoryboardScene[]>([]);
+  const [imageLoadingIds, setImageLoadingIds] = useState<Record<string, boolean>>({});
+  const [videoLoadingIds, setVideoLoadingIds] = useState<Record<string, boolean>>({});
   const [isGeneratingImages, setIsGeneratingImages] = useState(false);
-  const [imageLoadingStatus, setImageLoadingStatus] = useState<boolean[]>(Array(4).fill(false));
-  const [generatedImages, setGeneratedImages] = useState<(string | null)[]>(Array(4).fill(null));
-  const [imageGenerationErrors, setImageGenerationErrors] = useState<(string | null)[]>(Array(4).fill(null));
-  const [previewingSceneIndex, setPreviewingSceneIndex] = useState<number | null>(null);
+  const [previewingSceneId, setPreviewingSceneId] = useState<string | null>(null);
+
+  // Drag-and-drop reordering. Dragging is only enabled from the grip so the textarea stays selectable.
+  const [draggableSceneId, setDraggableSceneId] = useState<string | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const dragIndexRef = useRef<number | null>(null);
 
   // New state for inline editing
-  const [editingSceneIndex, setEditingSceneIndex] = useState<number | null>(null);
+  const [editingSceneId, setEditingSceneId] = useState<string | null>(null);
   const [editPrompt, setEditPrompt] = useState('');
 
   // State for integrated video generation
   const [isGeneratingVideos, setIsGeneratingVideos] = useState(false);
-  const [videoGenerationStatus, setVideoGenerationStatus] = useState<('idle' | 'loading' | 'success' | 'error')[]>(Array(4).fill('idle'));
-  const [generatedVideos, setGeneratedVideos] = useState<(string | null)[]>(Array(4).fill(null));
-  const [generatedThumbnails, setGeneratedThumbnails] = useState<(string | null)[]>(Array(4).fill(null));
-  const [videoFilenames, setVideoFilenames] = useState<(string | null)[]>(Array(4).fill(null));
-  // FIX: Add missing videoGenerationErrors state to resolve 'Cannot find name' errors.
-  const [videoGenerationErrors, setVideoGenerationErrors] = useState<(string | null)[]>(Array(4).fill(null));
-  const [downloadingVideoIndex, setDownloadingVideoIndex] = useState<number | null>(null);
   const isVideoCancelledRef = useRef(false);
-  
+
   const [productImageUploadKey, setProductImageUploadKey] = useState(Date.now());
   const [faceImageUploadKey, setFaceImageUploadKey] = useState(Date.now() + 1);
 
   // New creative direction states
-  const [creativeState, setCreativeState] = useState<CreativeDirectionState>(getInitialCreativeDirectionState());
+  const [creativeState, setCreativeState] = useState<VideoCreativeDirectionState>(getInitialVideoCreativeDirectionState());
 
   // New video generation settings state
   const videoModel = MODELS.videoGenerationDefault;
@@ -103,79 +109,145 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
   const [videoResolution, setVideoResolution] = useState('720p');
   const [videoLanguage, setVideoLanguage] = useState<string>("English");
 
+  // Saved projects
+  const [projects, setProjects] = useState<StoryboardProject[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const activeProjectRef = useRef<StoryboardProject | null>(null);
+
   const aivoiceoverAlert = "Please note: The voiceover language may be inconsistent. If you're not satisfied, you can regenerate the video individually using the 'Create Video' button on each scene.";
 
+  const settings = useMemo<StoryboardSettings>(() => ({
+    productDesc, productImage, faceImage,
+    selectedContentType, selectedLanguage, includeCaptions, includeVoiceover, includeModel,
+    sceneCount, creativeState,
+    videoAspectRatio, videoResolution, videoLanguage,
+  }), [
+    productDesc, productImage, faceImage,
+    selectedContentType, selectedLanguage, includeCaptions, includeVoiceover, includeModel,
+    sceneCount, creativeState,
+    videoAspectRatio, videoResolution, videoLanguage
+  ]);
+
+  const applyProject = useCallback((project: StoryboardProject) => {
+    const { settings: saved } = project;
+    activeProjectRef.current = project;
+    setActiveProjectId(project.id);
+    setScenes(project.scenes);
+    setProductDesc(saved.productDesc);
+    setProductImage(saved.productImage);
+    setFaceImage(saved.faceImage);
+    setSelectedContentType(saved.selectedContentType);
+    setSelectedLanguage(saved.selectedLanguage);
+    setIncludeCaptions(saved.includeCaptions);
+    setIncludeVoiceover(saved.includeVoiceover);
+    setIncludeModel(saved.includeModel);
+    setSceneCount(saved.sceneCount);
+    // Projects saved before the motion controls existed lack those fields.
+    setCreativeState({ ...getInitialVideoCreativeDirectionState(), ...saved.creativeState });
+    setVideoAspectRatio(saved.videoAspectRatio);
+    setVideoResolution(saved.videoResolution);
+    setVideoLanguage(saved.videoLanguage);
+    setStoryboardError(null);
+    setEditingSceneId(null);
+    setProductImageUploadKey(Date.now());
+    setFaceImageUploadKey(Date.now() + 1);
+  }, []);
 
   useEffect(() => {
-    try {
-        const savedState = sessionStorage.getItem(SESSION_KEY);
-        if (savedState) {
-            const state = JSON.parse(savedState);
-            if (state.productDesc) setProductDesc(state.productDesc);
-            if (state.selectedContentType) setSelectedContentType(state.selectedContentType);
-            if (state.selectedLanguage) setSelectedLanguage(state.selectedLanguage);
-            if (state.storyboard) setStoryboard(state.storyboard);
-            if (state.includeCaptions) setIncludeCaptions(state.includeCaptions);
-            if (state.includeVoiceover) setIncludeVoiceover(state.includeVoiceover);
-            if (state.includeModel) setIncludeModel(state.includeModel);
-            if (state.parsedScenes) setParsedScenes(state.parsedScenes);
-            if (state.creativeState) setCreativeState(state.creativeState);
-            if (state.videoAspectRatio) setVideoAspectRatio(state.videoAspectRatio);
-            if (state.videoResolution) setVideoResolution(state.videoResolution);
-            if (state.videoLanguage) {
-                setVideoLanguage(state.videoLanguage);
-            } else if (state.selectedLanguage) {
-                setVideoLanguage(state.selectedLanguage);
+    let isMounted = true;
+    getStoryboardProjects().then(savedProjects => {
+        if (!isMounted) return;
+        setProjects(savedProjects);
+        try {
+            const savedState = sessionStorage.getItem(SESSION_KEY);
+            if (savedState) {
+                const state = JSON.parse(savedState);
+                const project = savedProjects.find(p => p.id === state.projectId);
+                if (project) applyProject(project);
             }
-        }
-    } catch (e) { console.error("Failed to load state from session storage", e); }
-  }, []);
+        } catch (e) { console.error("Failed to load state from session storage", e); }
+    });
+    return () => { isMounted = false; };
+  }, [applyProject]);
 
   useEffect(() => {
     try {
-        const stateToSave = { 
-            productDesc,
-            selectedContentType, selectedLanguage, storyboard, includeCaptions, includeVoiceover,
-            includeModel,
-            parsedScenes, 
-            creativeState,
-            videoAspectRatio, videoResolution, videoLanguage,
-        };
-        sessionStorage.setItem(SESSION_KEY, JSON.stringify(stateToSave));
+        if (activeProjectId) {
+            sessionStorage.setItem(SESSION_KEY, JSON.stringify({ projectId: activeProjectId }));
+        } else {
+            sessionStorage.removeItem(SESSION_KEY);
+        }
     } catch (e) { console.error("Failed to save state to session storage", e); }
-  }, [
-    productDesc,
-    selectedContentType, selectedLanguage, storyboard, includeCaptions, includeVoiceover,
-    includeModel,
-    parsedScenes, creativeState,
-    videoAspectRatio, videoResolution, videoLanguage
-  ]);
+  }, [activeProjectId]);
 
-  const generatedVideosRef = useRef(generatedVideos);
+  // Auto-save the storyboard as a project once it has at least one scene.
   useEffect(() => {
-      generatedVideosRef.current = generatedVideos;
-  }, [generatedVideos]);
+    if (scenes.length === 0 && !activeProjectRef.current) return;
+
+    const timer = setTimeout(() => {
+        const title = settings.productDesc.trim().substring(0, 40) || 'Untitled Storyboard';
+        const project: StoryboardProject = activeProjectRef.current
+            ? { ...activeProjectRef.current, title, scenes, settings }
+            : createStoryboardProject(title, settings, scenes);
+        activeProjectRef.current = project;
+        setActiveProjectId(project.id);
+
+        saveStoryboardProject(project).then(() => {
+            setProjects(prev => prev.some(p => p.id === project.id)
+                ? prev.map(p => p.id === project.id ? project : p)
+                : [project, ...prev]);
+        }).catch(err => console.error("Failed to save storyboard project:", err));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [scenes, settings]);
+
+  // Object URLs for scene videos, cached per Blob so editing a scene does not reload every player.
+  const videoUrlCacheRef = useRef(new Map<Blob, string>());
+  const videoUrls = useMemo(() => {
+    const cache = videoUrlCacheRef.current;
+    const urls: Record<string, string> = {};
+    const liveBlobs = new Set<Blob>();
+    scenes.forEach(scene => {
+        if (!scene.video) return;
+        liveBlobs.add(scene.video);
+        if (!cache.has(scene.video)) {
+            cache.set(scene.video, URL.createObjectURL(scene.video));
+        }
+        urls[scene.id] = cache.get(scene.video)!;
+    });
+    cache.forEach((url, blob) => {
+        if (!liveBlobs.has(blob)) {
+            URL.revokeObjectURL(url);
+            cache.delete(blob);
+        }
+    });
+    return urls;
+  }, [scenes]);
 
   useEffect(() => {
+    const cache = videoUrlCacheRef.current;
     return () => {
-      generatedVideosRef.current.forEach(url => {
-        if (url && url.startsWith('blob:')) {
-          URL.revokeObjectURL(url);
-        }
-      });
+      cache.forEach(url => URL.revokeObjectURL(url));
+      cache.clear();
     };
   }, []);
 
-  // Effect to re-parse scenes whenever the storyboard text is edited by the user.
-  useEffect(() => {
-    if (storyboard) {
-      const sceneSplitRegex = /\*\*(?:Scene|Babak)\s+\d+:\s*\*\*/i;
-      const parts = storyboard.split(sceneSplitRegex);
-      const scenes = parts.length > 1 ? parts.slice(1).map(part => part.trim()) : [];
-      setParsedScenes(scenes.slice(0, 4));
-    }
-  }, [storyboard]);
+  const updateScene = useCallback((sceneId: string, changes: Partial<StoryboardScene>) => {
+    setScenes(prev => prev.map(scene => scene.id === sceneId ? { ...scene, ...changes } : scene));
+  }, []);
 
+  const setSceneFlag = (setter: React.Dispatch<React.SetStateAction<Record<string, boolean>>>, sceneId: string, value: boolean) => {
+    setter(prev => {
+        const next = { ...prev };
+        if (value) {
+            next[sceneId] = true;
+        } else {
+            delete next[sceneId];
+        }
+        return next;
+    });
+  };
 
   const handleProductImageUpload = useCallback((base64: string, mimeType: string) => {
     setProductImage({ base64, mimeType });
@@ -200,19 +272,7 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
     }
     setIsLoading(true);
     setStoryboardError(null);
-    setStoryboard(null);
-    setParsedScenes([]);
-    setGeneratedImages(Array(4).fill(null));
-    setImageGenerationErrors(Array(4).fill(null));
-    
-    // Revoke any existing video URLs before resetting state to prevent memory leaks.
-    generatedVideosRef.current.forEach(url => { if (url && url.startsWith('blob:')) URL.revokeObjectURL(url) });
-    setGeneratedVideos(Array(4).fill(null));
-
-    setGeneratedThumbnails(Array(4).fill(null));
-    setVideoFilenames(Array(4).fill(null));
-    setVideoGenerationStatus(Array(4).fill('idle'));
-    setVideoGenerationErrors(Array(4).fill(null));
+    setScenes([]);
 
     // FIX: Group creative direction properties into a `creativeDirection` object to match the function signature.
     const prompt = getProductReviewStoryboardPrompt({
@@ -222,6 +282,7 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
       includeCaptions,
       includeVoiceover,
       includeModel,
+      sceneCount,
       creativeDirection: creativeState
     });
 
@@ -230,16 +291,18 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
       if (includeModel === 'Yes' && faceImage) {
         imagesPayload.push(faceImage);
       }
-      
+
       const result = await generateMultimodalContent(prompt, imagesPayload);
-      setStoryboard(result); // This will trigger the useEffect to parse scenes
+      const sceneScripts = parseStoryboardScenes(result);
+      // If the AI ignored the scene headings, keep the whole script as a single editable scene.
+      setScenes((sceneScripts.length > 0 ? sceneScripts : [result.trim()]).map(script => createScene(script)));
 
       await addHistoryItem({
         type: 'Storyboard',
         prompt: `Product Review: ${productDesc.substring(0, 50)}...`,
         result: result,
       });
-      
+
     } catch (e) {
       const userFriendlyMessage = handleApiError(e);
       setStoryboardError(userFriendlyMessage);
@@ -248,57 +311,73 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
     }
   };
 
-  const handleSceneChange = (index: number, newText: string) => {
-    // Reconstruct the full storyboard string from the modified scenes
-    if (storyboard) {
-        // Create a temporary copy of parsedScenes to work with.
-        const updatedScenes = [...parsedScenes];
-        updatedScenes[index] = newText;
+  const handleSceneChange = (sceneId: string, newText: string) => {
+    updateScene(sceneId, { prompt: newText });
+  };
 
-        const isMalay = selectedLanguage === 'Bahasa Malaysia';
-        const sceneTitle = isMalay ? 'Babak' : 'Scene';
-        
-        // This regex will find all scene titles in the original storyboard.
-        const titles = storyboard?.match(/\*\*(?:Scene|Babak)\s+\d+:.*?\*\*/gi) || [];
-        
-        const newStoryboardString = updatedScenes.map((content, i) => {
-            // Try to use the original title, otherwise generate a new one.
-            const title = titles[i] || `**${sceneTitle} ${i + 1}:**`;
-            return `${title}\n${content}`;
-        }).join('\n\n');
+  const handleAddScene = () => {
+    if (scenes.length >= MAX_SCENE_COUNT) return;
+    setScenes(prev => [...prev, createScene()]);
+  };
+
+  const handleDuplicateScene = (sceneId: string) => {
+    if (scenes.length >= MAX_SCENE_COUNT) return;
+    setScenes(prev => duplicateScene(prev, sceneId));
+  };
+
+  const handleDeleteScene = (sceneId: string) => {
+    setScenes(prev => prev.filter(scene => scene.id !== sceneId));
+    if (editingSceneId === sceneId) setEditingSceneId(null);
+  };
+
+  const handleSceneDragStart = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    dragIndexRef.current = index;
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleSceneDragOver = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    if (dragIndexRef.current === null) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dragOverIndex !== index) setDragOverIndex(index);
+  };
 
-        setStoryboard(newStoryboardString);
+  const handleSceneDrop = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    e.preventDefault();
+    const fromIndex = dragIndexRef.current;
+    if (fromIndex !== null) {
+        setScenes(prev => moveScene(prev, fromIndex, index));
     }
+    handleSceneDragEnd();
+  };
+
+  const handleSceneDragEnd = () => {
+    dragIndexRef.current = null;
+    setDragOverIndex(null);
+    setDraggableSceneId(null);
   };
 
-  const handleRetryScene = async (index: number) => {
+  const handleRetryScene = async (scene: StoryboardScene, sceneNumber: number) => {
     if (!productImage) return;
 
-    setImageLoadingStatus(prev => {
-        const newStatus = [...prev];
-        newStatus[index] = true;
-        return newStatus;
-    });
-    setImageGenerationErrors(prev => {
-        const newErrors = [...prev];
-        newErrors[index] = null;
-        return newErrors;
-    });
+    setSceneFlag(setImageLoadingIds, scene.id, true);
+    updateScene(scene.id, { imageError: null });
 
     // FIX: Group creative direction properties into a `creativeDirection` object to match the function signature.
     const prompt = getProductReviewImagePrompt({
         productDesc,
-        sceneDescription: parsedScenes[index],
+        sceneDescription: scene.prompt,
         includeModel,
         creativeDirection: creativeState
     });
-    
+
     const imagesToCompose: { base64: string, mimeType: string, category: string, caption: string }[] = [{ ...productImage, category: 'MEDIA_CATEGORY_SUBJECT', caption: 'product' }];
     if (includeModel === 'Yes' && faceImage) {
       imagesToCompose.push({ ...faceImage, category: 'MEDIA_CATEGORY_SUBJECT', caption: 'model face' });
     }
 
     try {
+        const startedAt = Date.now();
         const result = await editOrComposeWithImagen({
             prompt,
             images: imagesToCompose,
@@ -309,60 +388,53 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
         if (!imageBase64) {
             throw new Error("The AI did not return an image. Please try a different prompt.");
         }
-        
-        await addHistoryItem({ type: 'Image', prompt: `Storyboard Scene ${index + 1}: ${parsedScenes[index].substring(0, 50)}...`, result: imageBase64 });
+
+        await addHistoryItem({
+            type: 'Image',
+            prompt: `Storyboard Scene ${sceneNumber}: ${scene.prompt.substring(0, 50)}...`,
+            result: imageBase64,
+            metadata: {
+                ...getRunMetadata(MODELS.imageEdit, startedAt, result),
+                prompt,
+                seed: result.seed,
+                aspectRatio: '1:1',
+                referenceImages: imagesToCompose.map(({ base64, mimeType, caption }) => ({ base64, mimeType, caption })),
+                sourceTool: 'ProductReview',
+            },
+        });
 
         const updateResult = await incrementImageUsage(currentUser);
         if (updateResult.success && updateResult.user) {
             onUserUpdate(updateResult.user);
         }
 
-        setGeneratedImages(prev => {
-            const newImages = [...prev];
-            newImages[index] = imageBase64;
-            return newImages;
-        });
+        updateScene(scene.id, { image: imageBase64 });
     } catch (e) {
         const userFriendlyMessage = handleApiError(e);
-        setImageGenerationErrors(prev => {
-            const newErrors = [...prev];
-            newErrors[index] = userFriendlyMessage;
-            return newErrors;
-        });
+        updateScene(scene.id, { imageError: userFriendlyMessage });
     } finally {
-        setImageLoadingStatus(prev => {
-            const newStatus = [...prev];
-            newStatus[index] = false;
-            return newStatus;
-        });
+        setSceneFlag(setImageLoadingIds, scene.id, false);
     }
   };
 
-  const handleEditScene = async (index: number) => {
-    const baseImage = generatedImages[index];
-    if (!baseImage || typeof baseImage !== 'string' || !editPrompt.trim()) return;
+  const handleEditScene = async (scene: StoryboardScene, sceneNumber: number) => {
+    const baseImage = scene.image;
+    if (!baseImage || !editPrompt.trim()) return;
 
-    setImageLoadingStatus(prev => {
-        const newStatus = [...prev];
-        newStatus[index] = true;
-        return newStatus;
-    });
-    setImageGenerationErrors(prev => {
-        const newErrors = [...prev];
-        newErrors[index] = null;
-        return newErrors;
-    });
+    setSceneFlag(setImageLoadingIds, scene.id, true);
+    updateScene(scene.id, { imageError: null });
 
     const prompt = getImageEditingPrompt(editPrompt);
-    
+
     try {
+        const startedAt = Date.now();
         const result = await editOrComposeWithImagen({
             prompt,
-            images: [{ 
-                base64: baseImage, 
-                mimeType: 'image/png', 
-                category: 'MEDIA_CATEGORY_SUBJECT', 
-                caption: 'image to edit' 
+            images: [{
+                base64: baseImage,
+                mimeType: 'image/png',
+                category: 'MEDIA_CATEGORY_SUBJECT',
+                caption: 'image to edit'
             }],
             config: { aspectRatio: '1:1' }
         });
@@ -371,70 +443,64 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
         if (!imageBase64) {
             throw new Error("The AI did not return an edited image. Please try a different prompt.");
         }
-        
-        await addHistoryItem({ type: 'Image', prompt: `Edited Storyboard Scene ${index + 1}: ${editPrompt}`, result: imageBase64 });
+
+        await addHistoryItem({
+            type: 'Image',
+            prompt: `Edited Storyboard Scene ${sceneNumber}: ${editPrompt}`,
+            result: imageBase64,
+            metadata: {
+                ...getRunMetadata(MODELS.imageEdit, startedAt, result),
+                prompt,
+                seed: result.seed,
+                aspectRatio: '1:1',
+                referenceImages: [{ base64: baseImage, mimeType: 'image/png' }],
+                sourceTool: 'ProductReview',
+            },
+        });
 
         const updateResult = await incrementImageUsage(currentUser);
         if (updateResult.success && updateResult.user) {
             onUserUpdate(updateResult.user);
         }
 
-        setGeneratedImages(prev => {
-            const newImages = [...prev];
-            newImages[index] = imageBase64;
-            return newImages;
-        });
+        updateScene(scene.id, { image: imageBase64 });
 
-        setEditingSceneIndex(null);
+        setEditingSceneId(null);
         setEditPrompt('');
 
     } catch (e) {
         const userFriendlyMessage = handleApiError(e);
-        setImageGenerationErrors(prev => {
-            const newErrors = [...prev];
-            newErrors[index] = userFriendlyMessage;
-            return newErrors;
-        });
+        updateScene(scene.id, { imageError: userFriendlyMessage });
     } finally {
-        setImageLoadingStatus(prev => {
-            const newStatus = [...prev];
-            newStatus[index] = false;
-            return newStatus;
-        });
+        setSceneFlag(setImageLoadingIds, scene.id, false);
     }
   };
 
   const handleGenerateAllImages = async () => {
     setIsGeneratingImages(true);
-    for (let i = 0; i < 4; i++) {
-        if (parsedScenes[i]) {
-            await handleRetryScene(i);
+    // Work from a snapshot so scenes added or reordered mid-run do not shift the queue.
+    const queue = scenes.map((scene, index) => ({ scene, sceneNumber: index + 1 }));
+    for (const { scene, sceneNumber } of queue) {
+        if (scene.prompt.trim()) {
+            await handleRetryScene(scene, sceneNumber);
         }
     }
     setIsGeneratingImages(false);
   };
-  
-  const handleGenerateVideo = async (index: number, suppressAlert = false) => {
-    const imageBase64 = generatedImages[index];
-    if (!imageBase64 || !parsedScenes[index]) return;
+
+  const handleGenerateVideo = async (scene: StoryboardScene, sceneNumber: number, suppressAlert = false) => {
+    const imageBase64 = scene.image;
+    if (!imageBase64 || !scene.prompt.trim()) return;
 
     if (!suppressAlert) {
         alert(aivoiceoverAlert);
     }
 
-    setVideoGenerationStatus(prev => {
-        const newStatus = [...prev];
-        newStatus[index] = 'loading';
-        return newStatus;
-    });
-    setVideoGenerationErrors(prev => {
-        const newErrors = [...prev];
-        newErrors[index] = null;
-        return newErrors;
-    });
+    setSceneFlag(setVideoLoadingIds, scene.id, true);
+    updateScene(scene.id, { videoError: null });
 
     try {
-        const sceneText = parsedScenes[index];
+        const sceneText = scene.prompt;
         let voiceover = '';
         let caption = '';
         let visualDescription = sceneText;
@@ -505,6 +571,14 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
         promptLines.push(`• ${isMalay ? 'Kamera' : 'Camera'}: ${creativeState.camera === 'Random' ? (isMalay ? 'shot sederhana' : 'medium shot') : creativeState.camera}`);
         promptLines.push('\n---');
 
+        // Motion & Pacing
+        const videoDirectionLines = getVideoDirectionPromptLines(creativeState, isMalay);
+        if (videoDirectionLines.length > 0) {
+            promptLines.push(isMalay ? '🎥 ARAHAN VIDEO (VIDEO DIRECTION):' : '🎥 VIDEO DIRECTION:');
+            promptLines.push(...videoDirectionLines);
+            promptLines.push('\n---');
+        }
+
         // Audio
         if (includeVoiceover === 'Yes' && voiceover) {
             promptLines.push(isMalay ? '🔊 AUDIO (DIALOGUE):' : '🔊 AUDIO (DIALOGUE):');
@@ -528,7 +602,8 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
         
         const image = { imageBytes: imageBase64, mimeType: 'image/png' };
         
-        const { videoFile, thumbnailUrl } = await generateVideo(
+        const startedAt = Date.now();
+        const { videoFile, thumbnailUrl, seed, successfulToken, server } = await generateVideo(
             fullPrompt, 
             videoModel, 
             videoAspectRatio, 
@@ -538,34 +613,23 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
         );
 
         if (videoFile) {
-            const objectUrl = URL.createObjectURL(videoFile);
-
-            setGeneratedVideos(prev => {
-                const newVideos = [...prev];
-                if (newVideos[index] && newVideos[index]?.startsWith('blob:')) {
-                    URL.revokeObjectURL(newVideos[index]!);
-                }
-                newVideos[index] = objectUrl;
-                return newVideos;
-            });
-             setGeneratedThumbnails(prev => {
-                const newThumbs = [...prev];
-                newThumbs[index] = thumbnailUrl;
-                return newThumbs;
-            });
-
-            setVideoGenerationStatus(prev => {
-                const newStatus = [...prev];
-                newStatus[index] = 'success';
-                return newStatus;
-            });
-            setVideoFilenames(prev => {
-                const newNames = [...prev];
-                newNames[index] = videoFile.name;
-                return newNames;
-            });
-
-            addHistoryItem({ type: 'Video', prompt: `Scene ${index + 1} Video`, result: videoFile }).then(async () => {
+            updateScene(scene.id, { video: videoFile, videoFilename: videoFile.name, thumbnailUrl });
+
+            addHistoryItem({
+                type: 'Video',
+                prompt: `Scene ${sceneNumber} Video`,
+                result: videoFile,
+                metadata: {
+                    ...getRunMetadata(videoModel, startedAt, { successfulToken, server }),
+                    prompt: fullPrompt,
+                    seed,
+                    aspectRatio: videoAspectRatio,
+                    resolution: videoResolution,
+                    negativePrompt,
+                    referenceImages: [{ base64: imageBase64, mimeType: 'image/png' }],
+                    sourceTool: 'ProductReview',
+                },
+            }).then(async () => {
                 const updateResult = await incrementVideoUsage(currentUser);
                 if (updateResult.success && updateResult.user) {
                     onUserUpdate(updateResult.user);
@@ -574,7 +638,7 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
                 console.error("Background video processing failed:", err);
                 addLogEntry({
                     model: videoModel,
-                    prompt: `Background save for Scene ${index + 1}`,
+                    prompt: `Background save for Scene ${sceneNumber}`,
                     output: `Failed to save video to history/gallery. Error: ${err.message}`,
                     tokenCount: 0,
                     status: 'Error',
@@ -585,137 +649,132 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
 
     } catch (e) {
         const userFriendlyMessage = handleApiError(e);
-        setVideoGenerationErrors(prev => {
-            const newErrors = [...prev];
-            newErrors[index] = userFriendlyMessage;
-            return newErrors;
-        });
-        setVideoGenerationStatus(prev => {
-            const newStatus = [...prev];
-            newStatus[index] = 'error';
-            return newStatus;
-        });
+        updateScene(scene.id, { videoError: userFriendlyMessage });
+    } finally {
+        setSceneFlag(setVideoLoadingIds, scene.id, false);
     }
   };
-  
+
   const handleGenerateAllVideos = async () => {
     alert(aivoiceoverAlert);
     setIsGeneratingVideos(true);
     isVideoCancelledRef.current = false;
-    for (let i = 0; i < 4; i++) {
+    const queue = scenes.map((scene, index) => ({ scene, sceneNumber: index + 1 }));
+    for (const { scene, sceneNumber } of queue) {
         if (isVideoCancelledRef.current) {
             break;
         }
-        if (generatedImages[i] && parsedScenes[i]) {
-            await handleGenerateVideo(i, true);
+        if (scene.image && scene.prompt.trim()) {
+            await handleGenerateVideo(scene, sceneNumber, true);
         }
     }
     setIsGeneratingVideos(false);
   };
-  
+
   const handleCancelVideos = () => {
       isVideoCancelledRef.current = true;
       setIsGeneratingVideos(false); // Immediately update UI
   };
 
-  const handleDownloadVideo = async (url: string | null, filename: string, index: number) => {
+  const handleDownloadVideo = (scene: StoryboardScene, sceneNumber: number) => {
+    const url = videoUrls[scene.id];
     if (!url) return;
-    setDownloadingVideoIndex(index);
-    try {
-        const response = await fetch(url);
-        if (!response.ok) {
-            throw new Error(`Download failed: ${response.statusText}`);
-        }
-        const blob = await response.blob();
-        const objectUrl = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = objectUrl;
-        link.download = filename;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(objectUrl);
-    } catch (error) {
-        console.error("Download error:", error);
-        alert("Failed to download video.");
-    } finally {
-        setDownloadingVideoIndex(null);
-    }
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = scene.videoFilename || `monoklix-scene-${sceneNumber}.mp4`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
   };
 
   const handleReset = useCallback(() => {
+    activeProjectRef.current = null;
+    setActiveProjectId(null);
     setProductImage(null);
     setFaceImage(null);
     setProductDesc('');
     setSelectedContentType(contentTypeOptions[0]);
     setSelectedLanguage("English");
-    setStoryboard(null);
     setStoryboardError(null);
     setIncludeCaptions('No');
     setIncludeVoiceover('Yes');
     setIncludeModel('No');
-    setParsedScenes([]);
+    setSceneCount(DEFAULT_SCENE_COUNT);
+    setScenes([]);
     setIsGeneratingImages(false);
-    setGeneratedImages(Array(4).fill(null));
-    setImageGenerationErrors(Array(4).fill(null));
+    setEditingSceneId(null);
     setProductImageUploadKey(Date.now());
     setFaceImageUploadKey(Date.now() + 1);
-    setCreativeState(getInitialCreativeDirectionState());
+    setCreativeState(getInitialVideoCreativeDirectionState());
 
     setIsGeneratingVideos(false);
-    setVideoGenerationStatus(Array(4).fill('idle'));
-    // Use the ref to ensure we're revoking the latest URLs
-    generatedVideosRef.current.forEach(url => { if (url && url.startsWith('blob:')) URL.revokeObjectURL(url) });
-    setGeneratedVideos(Array(4).fill(null));
-    setGeneratedThumbnails(Array(4).fill(null));
-    setVideoFilenames(Array(4).fill(null));
-    setVideoGenerationErrors(Array(4).fill(null));
     isVideoCancelledRef.current = false;
-    
-    sessionStorage.removeItem(SESSION_KEY);
   }, []);
-  
-  const step2Disabled = parsedScenes.length === 0;
-  const step3Disabled = !generatedImages.some(img => img);
-  
+
+  const handleOpenProject = (projectId: string) => {
+    if (!projectId) {
+        handleReset();
+        return;
+    }
+    const project = projects.find(p => p.id === projectId);
+    if (project) applyProject(project);
+  };
+
+  const handleDeleteProject = async () => {
+    if (!activeProjectId || !window.confirm("Delete this storyboard project? Generated media already saved to your gallery will be kept.")) return;
+    try {
+        await deleteStoryboardProject(activeProjectId);
+        setProjects(prev => prev.filter(p => p.id !== activeProjectId));
+        handleReset();
+    } catch (e) {
+        console.error("Failed to delete storyboard project:", e);
+        alert("Failed to delete the project.");
+    }
+  };
+
+  const step2Disabled = scenes.length === 0;
+  const step3Disabled = !scenes.some(scene => scene.image);
+  const canAddScene = scenes.length < MAX_SCENE_COUNT;
+
   // Logic for Preview Modal
-    const validGeneratedImages = useMemo(() => 
-        generatedImages
-            .map((img, index) => ({ img, index }))
-            .filter((item): item is { img: string; index: number } => typeof item.img === 'string'),
-        [generatedImages]
+    const validGeneratedImages = useMemo(() =>
+        scenes
+            .map((scene, index) => ({ scene, index }))
+            .filter((item): item is { scene: StoryboardScene & { image: string }; index: number } => typeof item.scene.image === 'string'),
+        [scenes]
     );
 
     const currentPreviewItemInFilteredList = useMemo(() => {
-        if (previewingSceneIndex === null) return null;
-        const index = validGeneratedImages.findIndex(item => item.index === previewingSceneIndex);
+        if (previewingSceneId === null) return null;
+        const index = validGeneratedImages.findIndex(item => item.scene.id === previewingSceneId);
         return index !== -1 ? { item: validGeneratedImages[index], filteredIndex: index } : null;
-    }, [previewingSceneIndex, validGeneratedImages]);
+    }, [previewingSceneId, validGeneratedImages]);
 
     const itemToPreview = useMemo(() => {
         if (!currentPreviewItemInFilteredList) return null;
-        
+        const { scene, index } = currentPreviewItemInFilteredList.item;
+
         return {
-            id: `scene-${currentPreviewItemInFilteredList.item.index}`,
+            id: `scene-${scene.id}`,
             type: 'Image' as const,
-            prompt: parsedScenes[currentPreviewItemInFilteredList.item.index] || `Scene ${currentPreviewItemInFilteredList.item.index + 1}`,
-            result: currentPreviewItemInFilteredList.item.img,
+            prompt: scene.prompt || `Scene ${index + 1}`,
+            result: scene.image,
             timestamp: Date.now()
         };
-    }, [currentPreviewItemInFilteredList, parsedScenes]);
+    }, [currentPreviewItemInFilteredList]);
 
     const handleNextPreview = () => {
         if (!currentPreviewItemInFilteredList) return;
         const { filteredIndex } = currentPreviewItemInFilteredList;
         if (filteredIndex < validGeneratedImages.length - 1) {
-            setPreviewingSceneIndex(validGeneratedImages[filteredIndex + 1].index);
+            setPreviewingSceneId(validGeneratedImages[filteredIndex + 1].scene.id);
         }
     };
     const handlePreviousPreview = () => {
         if (!currentPreviewItemInFilteredList) return;
         const { filteredIndex } = currentPreviewItemInFilteredList;
         if (filteredIndex > 0) {
-            setPreviewingSceneIndex(validGeneratedImages[filteredIndex - 1].index);
+            setPreviewingSceneId(validGeneratedImages[filteredIndex - 1].scene.id);
         }
     };
 
@@ -724,23 +783,41 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
 
   return (
     <div className="space-y-8">
-      <div>
-        <h1 className="text-2xl font-bold sm:text-3xl">AI Video Storyboard</h1>
-        <p className="text-neutral-500 dark:text-neutral-400 mt-1">A powerful 3-step workflow to generate a complete 4-scene product review video, from script to final clips.</p>
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold sm:text-3xl">AI Video Storyboard</h1>
+          <p className="text-neutral-500 dark:text-neutral-400 mt-1">A powerful 3-step workflow to generate a multi-scene product review video, from script to final clips.</p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <select
+            value={activeProjectId ?? ''}
+            onChange={e => handleOpenProject(e.target.value)}
+            className="bg-neutral-50 dark:bg-neutral-800/50 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm max-w-[16rem]"
+            aria-label="Storyboard project"
+          >
+            <option value="">New Project</option>
+            {projects.map(p => (
+              <option key={p.id} value={p.id}>{p.title} ({p.scenes.length} scenes)</option>
+            ))}
+          </select>
+          <button onClick={handleDeleteProject} disabled={!activeProjectId} title="Delete Project" className="p-2 bg-neutral-200 dark:bg-neutral-700 rounded-lg hover:bg-red-500 hover:text-white transition-colors disabled:opacity-50 disabled:pointer-events-none">
+            <TrashIcon className="w-4 h-4"/>
+          </button>
+        </div>
       </div>
 
       {/* Step 1: Inputs and Storyboard Generation */}
       <div className="bg-white dark:bg-neutral-900 p-6 rounded-lg shadow-sm">
         <h2 className="text-xl font-bold mb-1">Step 1: Generate Script & Storyboard</h2>
-        <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-6">Provide product details and creative direction to generate a 4-scene video script.</p>
+        <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-6">Provide product details and creative direction to generate a multi-scene video script. Scenes can then be edited, added, duplicated, deleted or dragged into a new order.</p>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Left Column: Inputs */}
           <div className="space-y-4">
             <div>
                 <h3 className="text-lg font-semibold mb-2">Include a Model?</h3>
-                <select 
-                    value={includeModel} 
+                <select
+                    value={includeModel}
                     onChange={e => {
                         const value = e.target.value as 'Yes' | 'No';
                         setIncludeModel(value);
@@ -748,7 +825,7 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
                             setFaceImage(null);
                             setFaceImageUploadKey(Date.now());
                         }
-                    }} 
+                    }}
                     className="w-full bg-neutral-50 dark:bg-neutral-800/50 border border-neutral-300 dark:border-neutral-700 rounded-lg p-3"
                 >
                     <option value="No">No, Product Only</option>
@@ -758,9 +835,9 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
             <div>
                 <h3 className="text-lg font-semibold mb-2">Upload Your Assets</h3>
                 <div className={`grid grid-cols-1 ${includeModel === 'Yes' ? 'sm:grid-cols-2' : ''} gap-4`}>
-                    <ImageUpload key={productImageUploadKey} id="review-product-upload" onImageUpload={handleProductImageUpload} onRemove={handleRemoveProductImage} title="Product Photo" description="Clear, front-facing" language={language}/>
+                    <ImageUpload key={productImageUploadKey} id="review-product-upload" onImageUpload={handleProductImageUpload} onRemove={handleRemoveProductImage} initialImage={productImage} title="Product Photo" description="Clear, front-facing" language={language}/>
                     {includeModel === 'Yes' && (
-                        <ImageUpload key={faceImageUploadKey} id="review-face-upload" onImageUpload={handleFaceImageUpload} onRemove={handleRemoveFaceImage} title="Model's Face Photo" description="Clear, front-facing" language={language}/>
+                        <ImageUpload key={faceImageUploadKey} id="review-face-upload" onImageUpload={handleFaceImageUpload} onRemove={handleRemoveFaceImage} initialImage={faceImage} title="Model's Face Photo" description="Clear, front-facing" language={language}/>
                     )}
                 </div>
             </div>
@@ -775,6 +852,7 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
                     <div><label className="block text-sm font-medium mb-1">Output Language</label><select value={selectedLanguage} onChange={e => { const newLang = e.target.value; setSelectedLanguage(newLang); setVideoLanguage(newLang); }} className="w-full bg-neutral-50 dark:bg-neutral-800/50 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm">{languages.map(o=><option key={o}>{o}</option>)}</select></div>
                     <div><label className="block text-sm font-medium mb-1">Include Voiceover Script?</label><select value={includeVoiceover} onChange={e => setIncludeVoiceover(e.target.value as any)} className="w-full bg-neutral-50 dark:bg-neutral-800/50 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm"><option>Yes</option><option>No</option></select></div>
                     <div><label className="block text-sm font-medium mb-1">Include On-Screen Captions?</label><select value={includeCaptions} onChange={e => setIncludeCaptions(e.target.value as any)} className="w-full bg-neutral-50 dark:bg-neutral-800/50 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm"><option>Yes</option><option>No</option></select></div>
+                    <div><label className="block text-sm font-medium mb-1">Number of Scenes</label><select value={sceneCount} onChange={e => setSceneCount(Number(e.target.value))} className="w-full bg-neutral-50 dark:bg-neutral-800/50 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm">{sceneCountOptions.map(o=><option key={o} value={o}>{o}</option>)}</select></div>
                 </div>
                 <div className="mt-4">
                     <CreativeDirectionPanel
@@ -799,28 +877,58 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
           {/* Right Column: Storyboard Output */}
           <div className="bg-neutral-100 dark:bg-neutral-800/50 rounded-lg p-4 relative min-h-[300px] flex flex-col">
             <h3 className="text-lg font-semibold mb-2 flex-shrink-0">Generated Storyboard</h3>
-            {storyboard && (
-                 <button onClick={() => downloadText(storyboard, `monoklix-storyboard-${Date.now()}.txt`)} className="absolute top-4 right-4 text-xs bg-neutral-200 dark:bg-neutral-700 py-1 px-3 rounded-full flex items-center gap-1 z-10">
+            {scenes.length > 0 && (
+                 <button onClick={() => downloadText(serializeStoryboard(scenes, selectedLanguage), `monoklix-storyboard-${Date.now()}.txt`)} className="absolute top-4 right-4 text-xs bg-neutral-200 dark:bg-neutral-700 py-1 px-3 rounded-full flex items-center gap-1 z-10">
                     <DownloadIcon className="w-3 h-3"/> Download Text
                 </button>
             )}
             {isLoading ? <div className="flex-1 flex h-full items-center justify-center"><Spinner /></div> : (
-                storyboard ? (
+                scenes.length > 0 ? (
                     <div className="flex-1 w-full h-full overflow-y-auto custom-scrollbar space-y-3 pr-2">
-                        {parsedScenes.map((scene, index) => (
-                            <div key={index} className="bg-white dark:bg-neutral-800/60 p-3 rounded-lg border border-neutral-200 dark:border-neutral-700/50">
-                                <h4 className="font-semibold text-sm mb-2 text-neutral-800 dark:text-neutral-200">Scene {index + 1}</h4>
+                        {scenes.map((scene, index) => (
+                            <div
+                                key={scene.id}
+                                draggable={draggableSceneId === scene.id}
+                                onDragStart={(e) => handleSceneDragStart(e, index)}
+                                onDragOver={(e) => handleSceneDragOver(e, index)}
+                                onDrop={(e) => handleSceneDrop(e, index)}
+                                onDragEnd={handleSceneDragEnd}
+                                className={`bg-white dark:bg-neutral-800/60 p-3 rounded-lg border transition-colors ${dragOverIndex === index ? 'border-primary-500' : 'border-neutral-200 dark:border-neutral-700/50'}`}
+                            >
+                                <div className="flex items-center gap-2 mb-2">
+                                    <span
+                                        onMouseDown={() => setDraggableSceneId(scene.id)}
+                                        onMouseUp={() => setDraggableSceneId(null)}
+                                        className="cursor-grab active:cursor-grabbing text-neutral-400"
+                                        title="Drag to reorder"
+                                    >
+                                        <GripVerticalIcon className="w-4 h-4"/>
+                                    </span>
+                                    <h4 className="font-semibold text-sm text-neutral-800 dark:text-neutral-200 flex-1">Scene {index + 1}</h4>
+                                    <button onClick={() => handleDuplicateScene(scene.id)} disabled={!canAddScene} title="Duplicate Scene" className="p-1 text-neutral-500 hover:text-primary-500 disabled:opacity-50"><ClipboardIcon className="w-4 h-4"/></button>
+                                    <button onClick={() => handleDeleteScene(scene.id)} title="Delete Scene" className="p-1 text-neutral-500 hover:text-red-500"><TrashIcon className="w-4 h-4"/></button>
+                                </div>
                                 <textarea
-                                    value={scene}
-                                    onChange={(e) => handleSceneChange(index, e.target.value)}
+                                    value={scene.prompt}
+                                    onChange={(e) => handleSceneChange(scene.id, e.target.value)}
                                     rows={6}
                                     className="w-full bg-transparent text-sm font-sans whitespace-pre-wrap custom-scrollbar resize-y focus:outline-none focus:ring-1 focus:ring-primary-500 rounded-md p-2 -m-1"
                                 />
                             </div>
                         ))}
+                        <button onClick={handleAddScene} disabled={!canAddScene} className="w-full text-sm border-2 border-dashed border-neutral-300 dark:border-neutral-700 text-neutral-500 font-semibold py-2 px-3 rounded-lg hover:border-primary-400 hover:text-primary-500 transition-colors disabled:opacity-50 flex items-center justify-center gap-2">
+                            <PlusIcon className="w-4 h-4"/> Add Scene
+                        </button>
+                    </div>
+                )
+                : (
+                    <div className="flex-1 flex flex-col h-full items-center justify-center gap-3 text-center text-sm text-neutral-500">
+                        <p>Your generated storyboard will appear here.</p>
+                        <button onClick={handleAddScene} className="text-xs bg-neutral-200 dark:bg-neutral-700 py-1 px-3 rounded-full flex items-center gap-1">
+                            <PlusIcon className="w-3 h-3"/> Write scenes manually
+                        </button>
                     </div>
                 )
-                : <div className="flex-1 flex h-full items-center justify-center text-center text-sm text-neutral-500">Your generated storyboard will appear here.</div>
             )}
           </div>
         </div>
@@ -831,46 +939,47 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
         <h2 className="text-xl font-bold mb-1">Step 2: Generate Scene Images</h2>
         <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-6">Create a unique AI-generated image for each scene from your storyboard.</p>
         <button onClick={handleGenerateAllImages} disabled={isGeneratingImages || step2Disabled} className="w-full mb-6 bg-primary-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50">
-            {isGeneratingImages ? <Spinner/> : 'Create All 4 Images'}
+            {isGeneratingImages ? <Spinner/> : `Create All ${scenes.length} Images`}
         </button>
         {isGeneratingImages && <p className="text-center text-sm text-neutral-500 -mt-4 mb-4">This may take a minute...</p>}
+        {step2Disabled ? (
+            <div className="flex flex-col items-center justify-center text-center text-xs text-neutral-500 p-8 bg-neutral-100 dark:bg-neutral-800/50 rounded-lg">
+                <ImageIcon className="w-8 h-8 mb-2"/>
+                <p>Waiting for storyboard</p>
+            </div>
+        ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-            {Array.from({ length: 4 }).map((_, i) => (
-                <div key={`image-scene-${i}`} className="bg-neutral-100 dark:bg-neutral-800/50 p-3 rounded-lg flex flex-col gap-3">
+            {scenes.map((scene, i) => (
+                <div key={`image-scene-${scene.id}`} className="bg-neutral-100 dark:bg-neutral-800/50 p-3 rounded-lg flex flex-col gap-3">
                     <p className="font-bold text-sm">Scene {i+1}</p>
                     <div
                         onClick={() => {
-                            if (generatedImages[i] && typeof generatedImages[i] === 'string') {
-                                setPreviewingSceneIndex(i);
+                            if (scene.image) {
+                                setPreviewingSceneId(scene.id);
                             }
                         }}
-                        className={`bg-neutral-200 dark:bg-neutral-700/50 rounded-md flex items-center justify-center relative group w-full p-0 border-0 ${generatedImages[i] && typeof generatedImages[i] === 'string' ? 'cursor-pointer' : ''}`}
+                        className={`bg-neutral-200 dark:bg-neutral-700/50 rounded-md flex items-center justify-center relative group w-full p-0 border-0 ${scene.image ? 'cursor-pointer' : ''}`}
                         style={{ aspectRatio: videoAspectRatio.replace(':', ' / ') }}
                         role="button"
-                        tabIndex={generatedImages[i] && typeof generatedImages[i] === 'string' ? 0 : -1}
+                        tabIndex={scene.image ? 0 : -1}
                         aria-label={`Preview scene ${i + 1}`}
                     >
-                        {step2Disabled ? (
-                            <div className="flex flex-col items-center justify-center text-center text-xs text-neutral-500 p-2">
-                                <ImageIcon className="w-8 h-8 mb-2"/>
-                                <p>Waiting for storyboard</p>
-                            </div>
-                        ) : imageLoadingStatus[i] ? <Spinner/> : imageGenerationErrors[i] ? (
+                        {imageLoadingIds[scene.id] ? <Spinner/> : scene.imageError ? (
                             <div className="text-center text-red-500 p-2">
                                 <AlertTriangleIcon className="w-8 h-8 mx-auto mb-2"/>
-                                <p className="text-xs">{imageGenerationErrors[i]}</p>
+                                <p className="text-xs">{scene.imageError}</p>
                             </div>
-                        ) : generatedImages[i] && typeof generatedImages[i] === 'string' ? (
+                        ) : scene.image ? (
                             <>
-                                <img src={`data:image/png;base64,${generatedImages[i]}`} alt={`Scene ${i+1}`} className="w-full h-full object-cover rounded-md"/>
+                                <img src={`data:image/png;base64,${scene.image}`} alt={`Scene ${i+1}`} className="w-full h-full object-cover rounded-md"/>
                                 <div className="absolute top-2 right-2 flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                    <button onClick={(e) => {e.stopPropagation(); onReEdit({ base64: generatedImages[i]!, mimeType: 'image/png' })}} title="Re-edit" className="p-1.5 bg-black/60 text-white rounded-full"><WandIcon className="w-4 h-4"/></button>
-                                    <button onClick={(e) => {e.stopPropagation(); onCreateVideo({ prompt: parsedScenes[i], image: { base64: generatedImages[i]!, mimeType: 'image/png' } })}} title="Create Video" className="p-1.5 bg-black/60 text-white rounded-full"><VideoIcon className="w-4 h-4"/></button>
+                                    <button onClick={(e) => {e.stopPropagation(); onReEdit({ base64: scene.image!, mimeType: 'image/png' })}} title="Re-edit" className="p-1.5 bg-black/60 text-white rounded-full"><WandIcon className="w-4 h-4"/></button>
+                                    <button onClick={(e) => {e.stopPropagation(); onCreateVideo({ prompt: scene.prompt, image: { base64: scene.image!, mimeType: 'image/png' } })}} title="Create Video" className="p-1.5 bg-black/60 text-white rounded-full"><VideoIcon className="w-4 h-4"/></button>
                                 </div>
                             </>
                         ) : null}
                     </div>
-                    {editingSceneIndex === i ? (
+                    {editingSceneId === scene.id ? (
                         <div className="space-y-2 animate-zoomIn">
                             <textarea
                                 value={editPrompt}
@@ -881,15 +990,15 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
                                 autoFocus
                             />
                             <div className="flex gap-2">
-                                <button 
-                                    onClick={() => handleEditScene(i)} 
-                                    disabled={imageLoadingStatus[i] || !editPrompt.trim()} 
+                                <button
+                                    onClick={() => handleEditScene(scene, i + 1)}
+                                    disabled={imageLoadingIds[scene.id] || !editPrompt.trim()}
                                     className="w-full text-sm bg-primary-600 text-white font-semibold py-2 px-3 rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center"
                                 >
-                                    {imageLoadingStatus[i] ? <Spinner/> : 'Submit Edit'}
+                                    {imageLoadingIds[scene.id] ? <Spinner/> : 'Submit Edit'}
                                 </button>
-                                <button 
-                                    onClick={() => setEditingSceneIndex(null)} 
+                                <button
+                                    onClick={() => setEditingSceneId(null)}
                                     className="flex-shrink-0 text-sm bg-neutral-200 dark:bg-neutral-600 font-semibold py-2 px-3 rounded-md hover:bg-neutral-300 dark:hover:bg-neutral-500 transition-colors"
                                 >
                                     Cancel
@@ -898,26 +1007,26 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
                         </div>
                     ) : (
                         <div className="grid grid-cols-1 gap-2">
-                            <button 
-                                onClick={() => handleRetryScene(i)} 
-                                disabled={imageLoadingStatus[i] || !parsedScenes[i]} 
+                            <button
+                                onClick={() => handleRetryScene(scene, i + 1)}
+                                disabled={imageLoadingIds[scene.id] || !scene.prompt.trim()}
                                 className="w-full text-sm bg-white dark:bg-neutral-700 font-semibold py-2 px-3 rounded-md hover:bg-neutral-200 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
                             >
-                                {imageLoadingStatus[i] ? <Spinner/> : <><ImageIcon className="w-4 h-4"/> Create New Image</>}
+                                {imageLoadingIds[scene.id] ? <Spinner/> : <><ImageIcon className="w-4 h-4"/> Create New Image</>}
                             </button>
-                            <button 
-                                onClick={() => { setEditingSceneIndex(i); setEditPrompt(''); }} 
-                                disabled={!generatedImages[i] || typeof generatedImages[i] !== 'string' || imageLoadingStatus[i]} 
+                            <button
+                                onClick={() => { setEditingSceneId(scene.id); setEditPrompt(''); }}
+                                disabled={!scene.image || imageLoadingIds[scene.id]}
                                 className="w-full text-sm bg-white dark:bg-neutral-700 font-semibold py-2 px-3 rounded-md hover:bg-neutral-200 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
                             >
                                 <WandIcon className="w-4 h-4"/> Edit This Image
                             </button>
                             <a
-                                href={generatedImages[i] && typeof generatedImages[i] === 'string' ? `data:image/png;base64,${generatedImages[i]}` : undefined}
-                                download={generatedImages[i] && typeof generatedImages[i] === 'string' ? `monoklix-scene-${i + 1}.png` : undefined}
-                                className={`w-full text-sm bg-green-600 text-white font-semibold py-2 px-3 rounded-md hover:bg-green-700 transition-colors flex items-center justify-center gap-2 ${!generatedImages[i] || typeof generatedImages[i] !== 'string' ? 'opacity-50 cursor-not-allowed pointer-events-none' : ''}`}
-                                onClick={(e) => { if (!generatedImages[i] || typeof generatedImages[i] !== 'string') e.preventDefault(); }}
-                                aria-disabled={!generatedImages[i] || typeof generatedImages[i] !== 'string'}
+                                href={scene.image ? `data:image/png;base64,${scene.image}` : undefined}
+                                download={scene.image ? `monoklix-scene-${i + 1}.png` : undefined}
+                                className={`w-full text-sm bg-green-600 text-white font-semibold py-2 px-3 rounded-md hover:bg-green-700 transition-colors flex items-center justify-center gap-2 ${!scene.image ? 'opacity-50 cursor-not-allowed pointer-events-none' : ''}`}
+                                onClick={(e) => { if (!scene.image) e.preventDefault(); }}
+                                aria-disabled={!scene.image}
                                 role="button"
                             >
                                 <DownloadIcon className="w-4 h-4"/> Download
@@ -927,13 +1036,14 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
                 </div>
             ))}
         </div>
+        )}
       </div>
-      
+
        {/* Step 3: Video Generation */}
       <div className={`bg-white dark:bg-neutral-900 p-6 rounded-lg shadow-sm transition-opacity duration-500 ${step3Disabled ? 'opacity-50 pointer-events-none' : 'opacity-100'}`}>
         <h2 className="text-xl font-bold mb-1">Step 3: Generate Scene Videos</h2>
         <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-6">Animate your generated scene images into video clips.</p>
-        
+
         <div className="mb-6 p-4 border border-neutral-200 dark:border-neutral-700 rounded-lg">
             <h3 className="text-lg font-semibold mb-2">Video Generation Settings</h3>
             <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
@@ -950,7 +1060,7 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
 
         <div className="flex gap-4 mb-6">
             <button onClick={handleGenerateAllVideos} disabled={isGeneratingVideos || step3Disabled} className="w-full bg-primary-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50">
-                {isGeneratingVideos ? <Spinner/> : 'Create All 4 Videos'}
+                {isGeneratingVideos ? <Spinner/> : `Create All ${scenes.filter(scene => scene.image).length} Videos`}
             </button>
             {isGeneratingVideos && (
                 <button onClick={handleCancelVideos} className="bg-red-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-red-700 transition-colors">
@@ -961,42 +1071,41 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
          <p className="text-center text-xs text-neutral-500 -mt-4 mb-4">This process can take several minutes. You can also generate videos one by one.</p>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-            {Array.from({ length: 4 }).map((_, i) => (
-                 <div key={`video-scene-${i}`} className="bg-neutral-100 dark:bg-neutral-800/50 p-3 rounded-lg flex flex-col gap-3">
+            {scenes.map((scene, i) => (
+                 <div key={`video-scene-${scene.id}`} className="bg-neutral-100 dark:bg-neutral-800/50 p-3 rounded-lg flex flex-col gap-3">
                     <p className="font-bold text-sm">Scene {i+1}</p>
                     <div className="bg-neutral-200 dark:bg-neutral-700/50 rounded-md flex items-center justify-center relative group" style={{ aspectRatio: videoAspectRatio.replace(':', ' / ') }}>
-                        {step3Disabled || !generatedImages[i] ? (
+                        {!scene.image ? (
                             <div className="flex flex-col items-center justify-center text-center text-xs text-neutral-500 p-2">
                                 <VideoIcon className="w-8 h-8 mb-2"/>
                                 <p>Waiting for image</p>
                             </div>
-                        ) : videoGenerationStatus[i] === 'loading' ? <Spinner/> : videoGenerationStatus[i] === 'error' ? (
-                            <div className="text-center text-red-500 p-2"><AlertTriangleIcon className="w-8 h-8 mx-auto mb-2"/><p className="text-xs">{videoGenerationErrors[i]}</p></div>
-                        ) : videoGenerationStatus[i] === 'success' && generatedVideos[i] ? (
+                        ) : videoLoadingIds[scene.id] ? <Spinner/> : scene.videoError ? (
+                            <div className="text-center text-red-500 p-2"><AlertTriangleIcon className="w-8 h-8 mx-auto mb-2"/><p className="text-xs">{scene.videoError}</p></div>
+                        ) : videoUrls[scene.id] ? (
                             <video
-                                key={generatedVideos[i]}
-                                src={generatedVideos[i]!} 
-                                poster={generatedThumbnails[i] || `data:image/png;base64,${generatedImages[i]}`} 
-                                controls 
+                                key={videoUrls[scene.id]}
+                                src={videoUrls[scene.id]}
+                                poster={scene.thumbnailUrl || `data:image/png;base64,${scene.image}`}
+                                controls
                                 autoPlay
                                 playsInline
                                 muted
                                 className="w-full h-full object-cover rounded-md"
                             />
                         ) : (
-                            <img src={`data:image/png;base64,${generatedImages[i]}`} alt={`Scene ${i+1} preview`} className="w-full h-full object-cover rounded-md"/>
+                            <img src={`data:image/png;base64,${scene.image}`} alt={`Scene ${i+1} preview`} className="w-full h-full object-cover rounded-md"/>
                         )}
                     </div>
-                    <button onClick={() => handleGenerateVideo(i)} disabled={!generatedImages[i] || videoGenerationStatus[i] === 'loading' || isGeneratingVideos} className="w-full text-sm bg-white dark:bg-neutral-700 font-semibold py-2 px-3 rounded-md hover:bg-neutral-200 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50 flex items-center justify-center gap-2">
-                       {videoGenerationStatus[i] === 'loading' ? <Spinner/> : <><VideoIcon className="w-4 h-4"/> Create Video</>}
+                    <button onClick={() => handleGenerateVideo(scene, i + 1)} disabled={!scene.image || videoLoadingIds[scene.id] || isGeneratingVideos} className="w-full text-sm bg-white dark:bg-neutral-700 font-semibold py-2 px-3 rounded-md hover:bg-neutral-200 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50 flex items-center justify-center gap-2">
+                       {videoLoadingIds[scene.id] ? <Spinner/> : <><VideoIcon className="w-4 h-4"/> Create Video</>}
                     </button>
                     <button
-                        onClick={() => handleDownloadVideo(generatedVideos[i], videoFilenames[i] || `monoklix-scene-${i+1}.mp4`, i)}
-                        disabled={!generatedVideos[i] || downloadingVideoIndex !== null}
+                        onClick={() => handleDownloadVideo(scene, i + 1)}
+                        disabled={!videoUrls[scene.id]}
                         className="w-full text-sm bg-green-600 text-white font-semibold py-2 px-3 rounded-md hover:bg-green-700 transition-colors flex items-center justify-center gap-2 text-center disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                        {downloadingVideoIndex === i ? <Spinner /> : <DownloadIcon className="w-4 h-4"/>}
-                        {downloadingVideoIndex === i ? 'Downloading...' : 'Download'}
+                        <DownloadIcon className="w-4 h-4"/> Download
                     </button>
                 </div>
             ))}
@@ -1006,7 +1115,7 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
       {itemToPreview && (
           <PreviewModal
               item={itemToPreview}
-              onClose={() => setPreviewingSceneIndex(null)}
+              onClose={() => setPreviewingSceneId(null)}
               getDisplayUrl={(item) => `data:image/png;base64,${item.result}`}
               onNext={handleNextPreview}
               onPrevious={handlePreviousPreview}
@@ -1019,4 +1128,4 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
   );
 };
 
-export default ProductReviewView;
\ No newline at end of file
+export default ProductReviewView;
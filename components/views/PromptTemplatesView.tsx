@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    listPromptTemplates, getPromptTemplate, previewPromptTemplate, savePromptTemplateOverride,
+    resetPromptTemplateOverride, promptLocales, type PromptTemplateSummary
+} from '../../services/promptTemplateService';
+import { type PromptLocale, type PromptInputs, type PromptTemplate } from '../../services/promptTemplateEngine';
+import { AlertTriangleIcon, CheckCircleIcon, RefreshCwIcon } from '../Icons';
+import Spinner from '../common/Spinner';
+
+const localeLabels: Record<PromptLocale, string> = { en: 'English', ms: 'Bahasa Malaysia' };
+
+const inputClasses = "w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none";
+
+const getLocaleBody = (template: PromptTemplate, locale: PromptLocale) => template.body[locale] ?? template.body.en;
+
+const PromptTemplatesView: React.FC = () => {
+    const [summaries, setSummaries] = useState<PromptTemplateSummary[]>(() => listPromptTemplates());
+    const [selectedId, setSelectedId] = useState<string>(summaries[0]?.id || '');
+    const [locale, setLocale] = useState<PromptLocale>('en');
+    const [drafts, setDrafts] = useState<Record<PromptLocale, string>>({ en: '', ms: '' });
+    const [sampleInputs, setSampleInputs] = useState<PromptInputs>({});
+    const [status, setStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+    const [error, setError] = useState<string | null>(null);
+
+    const builtIn = useMemo(() => selectedId ? getPromptTemplate(selectedId, true) : null, [selectedId]);
+    const summary = summaries.find(s => s.id === selectedId) || null;
+
+    useEffect(() => {
+        if (!selectedId) return;
+        const effective = getPromptTemplate(selectedId);
+        setDrafts({ en: getLocaleBody(effective, 'en'), ms: getLocaleBody(effective, 'ms') });
+        setSampleInputs(effective.sampleInputs);
+        setStatus('idle');
+        setError(null);
+    }, [selectedId, summaries]);
+
+    const draftTemplate = useMemo<PromptTemplate | null>(
+        () => builtIn ? { ...builtIn, body: { ...builtIn.body, ...drafts } } : null,
+        [builtIn, drafts]
+    );
+    const preview = draftTemplate ? previewPromptTemplate(draftTemplate, locale, sampleInputs) : null;
+
+    const refreshSummaries = () => setSummaries(listPromptTemplates());
+
+    const handleSave = async () => {
+        if (!builtIn) return;
+        // Only keep the locales that actually differ from the built-in text.
+        const changed = promptLocales.filter(l => drafts[l] !== getLocaleBody(builtIn, l));
+        setStatus('saving');
+        setError(null);
+        try {
+            if (changed.length === 0) {
+                await resetPromptTemplateOverride(builtIn.id);
+            } else {
+                await savePromptTemplateOverride(builtIn.id, Object.fromEntries(changed.map(l => [l, drafts[l]])));
+            }
+            refreshSummaries();
+            setStatus('saved');
+            setTimeout(() => setStatus('idle'), 2000);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+            setStatus('idle');
+        }
+    };
+
+    const handleReset = async () => {
+        if (!builtIn) return;
+        await resetPromptTemplateOverride(builtIn.id);
+        refreshSummaries();
+    };
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="bg-white dark:bg-neutral-900 p-4 rounded-lg shadow-sm space-y-2 self-start">
+                <h2 className="text-lg font-semibold px-2">Prompt Templates</h2>
+                <p className="text-xs text-neutral-500 px-2 pb-2">Customize the prompts behind each tool. Changes only apply to your account.</p>
+                {summaries.map(s => (
+                    <button
+                        key={s.id}
+                        onClick={() => setSelectedId(s.id)}
+                        className={`w-full text-left p-3 rounded-lg transition-colors ${selectedId === s.id ? 'bg-primary-600 text-white' : 'hover:bg-neutral-100 dark:hover:bg-neutral-800'}`}
+                    >
+                        <div className="flex justify-between items-center gap-2">
+                            <span className="font-semibold text-sm">{s.title}</span>
+                            <span className="text-xs opacity-75">v{s.version}</span>
+                        </div>
+                        {s.override && (
+                            <span className={`text-xs ${selectedId === s.id ? 'text-white' : s.isOverrideOutdated ? 'text-yellow-600 dark:text-yellow-400' : 'text-primary-600 dark:text-primary-400'}`}>
+                                Customized (v{s.override.version}){s.isOverrideOutdated ? ' · built-in updated' : ''}
+                            </span>
+                        )}
+                    </button>
+                ))}
+            </div>
+
+            {builtIn && draftTemplate && (
+                <div className="lg:col-span-2 bg-white dark:bg-neutral-900 p-6 rounded-lg shadow-sm space-y-4">
+                    <div className="flex flex-wrap justify-between items-start gap-4">
+                        <div>
+                            <h2 className="text-xl font-bold">{builtIn.title}</h2>
+                            <p className="text-sm text-neutral-500">{builtIn.description}</p>
+                        </div>
+                        <div className="flex gap-2">
+                            {promptLocales.map(l => (
+                                <button key={l} onClick={() => setLocale(l)} className={`px-4 py-1 rounded-full text-sm font-semibold ${locale === l ? 'bg-primary-600 text-white' : 'bg-neutral-200 dark:bg-neutral-700'}`}>
+                                    {localeLabels[l]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {summary?.isOverrideOutdated && (
+                        <div className="flex items-start gap-2 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 text-sm">
+                            <AlertTriangleIcon className="w-5 h-5 flex-shrink-0"/>
+                            <p>The built-in template has been updated (v{builtIn.version}) since you customized it (based on v{summary.override?.baseVersion}). Review your changes or reset to the built-in version.</p>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Template ({localeLabels[locale]})</label>
+                        <textarea
+                            value={drafts[locale]}
+                            onChange={e => setDrafts(prev => ({ ...prev, [locale]: e.target.value }))}
+                            rows={14}
+                            spellCheck={false}
+                            className={`${inputClasses} font-mono text-xs`}
+                        />
+                        <p className="text-xs text-neutral-500 mt-1">
+                            {'Use {{name}}, {{name || "fallback"}}, {{@message}} and {{#if name == "Yes"}} ... {{else}} ... {{/if}}.'}
+                        </p>
+                    </div>
+
+                    <div>
+                        <h3 className="text-sm font-semibold mb-2">Variables & Sample Inputs</h3>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {builtIn.variables.map(variable => (
+                                <div key={variable.name}>
+                                    <label className="block text-xs font-medium mb-1">
+                                        {variable.label} <code className="text-neutral-500">{variable.name}</code>
+                                        <span className="text-neutral-400"> · {variable.type}{variable.required ? ', required' : ''}</span>
+                                    </label>
+                                    {variable.type === 'enum' || variable.type === 'boolean' ? (
+                                        <select
+                                            value={String(sampleInputs[variable.name] ?? variable.default ?? '')}
+                                            onChange={e => setSampleInputs(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                                            className={inputClasses}
+                                        >
+                                            {(variable.type === 'boolean' ? ['true', 'false'] : variable.options || []).map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                                        </select>
+                                    ) : (
+                                        <input
+                                            type={variable.type === 'number' ? 'number' : 'text'}
+                                            value={String(sampleInputs[variable.name] ?? '')}
+                                            placeholder={variable.default !== undefined ? String(variable.default) : ''}
+                                            onChange={e => setSampleInputs(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                                            className={inputClasses}
+                                        />
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <h3 className="text-sm font-semibold mb-2">Preview</h3>
+                        {preview?.error ? (
+                            <pre className="text-xs whitespace-pre-wrap p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">{preview.error}</pre>
+                        ) : (
+                            <pre className="text-xs whitespace-pre-wrap p-3 rounded-lg bg-neutral-100 dark:bg-neutral-800 max-h-72 overflow-y-auto custom-scrollbar">{preview?.prompt}</pre>
+                        )}
+                    </div>
+
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+
+                    <div className="flex gap-4">
+                        <button onClick={handleSave} disabled={status === 'saving' || !!preview?.error} className="flex items-center justify-center gap-2 bg-primary-600 text-white font-semibold py-2 px-6 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50">
+                            {status === 'saving' ? <Spinner/> : status === 'saved' ? <><CheckCircleIcon className="w-4 h-4"/> Saved</> : 'Save Customization'}
+                        </button>
+                        <button onClick={handleReset} disabled={!summary?.override} className="flex items-center gap-2 bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-6 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50">
+                            <RefreshCwIcon className="w-4 h-4"/> Reset to Built-in
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PromptTemplatesView;
@@ -9,6 +9,8 @@ import Spinner from '../common/Spinner';
 import { sendTestUserWebhook } from '../../services/webhookService';
 import AdminDashboardView from './AdminDashboardView';
 import ETutorialAdminView from './ETutorialAdminView';
+import PromptTemplatesView from './PromptTemplatesView';
+import BrandKitView from './BrandKitView';
 import Tabs, { type Tab } from '../common/Tabs';
 import { runApiHealthCheck, type HealthCheckResult } from '../../services/geminiService';
 import { getTranslations } from '../../services/translations';
@@ -16,13 +18,15 @@ import { getFormattedCacheStats, clearVideoCache } from '../../services/videoCac
 import { runComprehensiveTokenTest, type TokenTestResult } from '../../services/imagenV3Service';
 
 // Define the types for the tabs in the settings view
-type SettingsTabId = 'profile' | 'api' | 'content-admin' | 'user-db';
+type SettingsTabId = 'profile' | 'api' | 'brand-kits' | 'prompts' | 'content-admin' | 'user-db';
 
 const getTabs = (): Tab<SettingsTabId>[] => {
     const T = getTranslations().settingsView;
     return [
         { id: 'profile', label: T.tabs.profile },
         { id: 'api', label: T.tabs.api },
+        { id: 'brand-kits', label: T.tabs.brandKits },
+        { id: 'prompts', label: T.tabs.prompts },
         { id: 'content-admin', label: T.tabs.contentAdmin, adminOnly: true },
         { id: 'user-db', label: T.tabs.userDb, adminOnly: true },
     ];
@@ -765,6 +769,8 @@ const SettingsView: React.FC<SettingsViewProps> = (props) => {
                             veoTokenRefreshedAt={props.veoTokenRefreshedAt}
                             assignTokenProcess={props.assignTokenProcess}
                         />;
+            case 'brand-kits': return <BrandKitView language={language} />;
+            case 'prompts': return <PromptTemplatesView />;
             case 'content-admin': return <ETutorialAdminView />;
             case 'user-db': return <AdminDashboardView language={language} />;
             default: return <ProfilePanel currentUser={currentUser} onUserUpdate={props.onUserUpdate} language={language} setLanguage={setLanguage} />;
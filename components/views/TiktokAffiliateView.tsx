@@ -7,7 +7,7 @@ import Spinner from '../common/Spinner';
 // FIX: Added missing UserIcon and TikTokIcon to fix 'Cannot find name' errors.
 import { StarIcon, DownloadIcon, ImageIcon, VideoIcon, WandIcon, AlertTriangleIcon, RefreshCwIcon, XIcon, UserIcon, TikTokIcon } from '../Icons';
 import { getTiktokAffiliatePrompt } from '../../services/promptManager';
-import { type User, type Language } from '../../types';
+import { type User, type Language, type BrandKit, type GenerationProgress } from '../../types';
 import { incrementImageUsage } from '../../services/userService';
 import { handleApiError } from '../../services/errorHandler';
 import { editOrComposeWithImagen } from '../../services/imagenV3Service';
@@ -15,7 +15,12 @@ import { getTranslations } from '../../services/translations';
 // FIX: Added missing TwoColumnLayout import to fix 'Cannot find name' error.
 import TwoColumnLayout from '../common/TwoColumnLayout';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
+import BrandKitSelector from '../common/BrandKitSelector';
+import GenerationProgressBar from '../common/GenerationProgressBar';
+import { createProgress } from '../../utils/progressUtils';
 import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
+import { MODELS } from '../../services/aiConfig';
+import { getRunMetadata } from '../../services/generationMetadataService';
 
 
 const CreativeButton: React.FC<{
@@ -108,6 +113,8 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
     const [productImageUploadKey, setProductImageUploadKey] = useState(Date.now());
     const [faceImageUploadKey, setFaceImageUploadKey] = useState(Date.now() + 1);
     const [progress, setProgress] = useState(0);
+    const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+    const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
     
     // FIX: Remove `language` argument from `getTranslations` call to match the function signature.
     const T = getTranslations().tiktokAffiliateView;
@@ -156,7 +163,8 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
             modelFace,
             customPrompt,
             hasFaceImage: !!faceImage,
-            creativeDirection: creativeState
+            creativeDirection: creativeState,
+            brandKit
         });
         
         const imagesToCompose: { base64: string, mimeType: string, category: string, caption: string }[] = [
@@ -168,18 +176,32 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
         }
 
         try {
+            const startedAt = Date.now();
             const result = await editOrComposeWithImagen({
                 prompt,
                 images: imagesToCompose,
                 config: { aspectRatio }
-            });
+            }, setGenerationProgress);
             const imageBase64 = result.imagePanels[0]?.generatedImages[0]?.encodedImage;
 
             if (!imageBase64) {
                 throw new Error("The AI did not return an image. Please try a different prompt.");
             }
             
-            await addHistoryItem({ type: 'Image', prompt: `TikTok Affiliate: Vibe - ${creativeState.vibe}, Model - ${gender}`, result: imageBase64 });
+            setGenerationProgress(createProgress('caching'));
+            await addHistoryItem({
+                type: 'Image',
+                prompt: `TikTok Affiliate: Vibe - ${creativeState.vibe}, Model - ${gender}`,
+                result: imageBase64,
+                metadata: {
+                    ...getRunMetadata(MODELS.imageEdit, startedAt, result),
+                    prompt,
+                    seed: result.seed,
+                    aspectRatio,
+                    referenceImages: imagesToCompose.map(({ base64, mimeType, caption }) => ({ base64, mimeType, caption })),
+                    sourceTool: 'TiktokAffiliate',
+                },
+            });
     
             const updateResult = await incrementImageUsage(currentUser);
             if (updateResult.success && updateResult.user) {
@@ -200,7 +222,7 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
                 return newImages;
             });
         }
-    }, [productImage, faceImage, gender, modelFace, customPrompt, creativeState, aspectRatio, currentUser, onUserUpdate]);
+    }, [productImage, faceImage, gender, modelFace, customPrompt, creativeState, brandKit, aspectRatio, currentUser, onUserUpdate]);
     
     const handleGenerate = useCallback(async () => {
         if (!productImage) {
@@ -219,6 +241,7 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
 
         setIsLoading(false);
         setProgress(0);
+        setGenerationProgress(null);
     }, [numberOfImages, productImage, generateOneImage]);
     
     const handleRetry = useCallback(async (index: number) => {
@@ -228,6 +251,7 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
             return newImages;
         });
         await generateOneImage(index);
+        setGenerationProgress(null);
     }, [generateOneImage]);
     
     const handleReset = useCallback(() => {
@@ -255,9 +279,18 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
           </div>
           
           <Section title={T.assetAndModel}>
+              <BrandKitSelector
+                  brandKit={brandKit}
+                  onBrandKitChange={setBrandKit}
+                  onProductSelect={product => {
+                      if (!product.image) return;
+                      setProductImage(product.image);
+                      setProductImageUploadKey(Date.now());
+                  }}
+              />
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   {/* FIX: Add missing 'language' prop to ImageUpload component. */}
-                  <ImageUpload key={productImageUploadKey} id="tiktok-product-upload" onImageUpload={(base64, mimeType) => setProductImage({base64, mimeType})} onRemove={() => setProductImage(null)} title={T.productPhoto} description={T.productPhotoDesc} language={language}/>
+                  <ImageUpload key={productImageUploadKey} id="tiktok-product-upload" onImageUpload={(base64, mimeType) => setProductImage({base64, mimeType})} onRemove={() => setProductImage(null)} title={T.productPhoto} description={T.productPhotoDesc} initialImage={productImage} language={language}/>
                   {/* FIX: Add missing 'language' prop to ImageUpload component. */}
                   <ImageUpload key={faceImageUploadKey} id="tiktok-face-upload" onImageUpload={(base64, mimeType) => setFaceImage({base64, mimeType})} onRemove={() => setFaceImage(null)} title={T.facePhoto} description={T.facePhotoDesc} language={language}/>
               </div>
@@ -336,7 +369,7 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
         <div className="absolute top-2 right-2 flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
             <button onClick={() => onReEdit({ base64: imageBase64, mimeType })} title="Re-edit this image" className="flex items-center justify-center w-8 h-8 bg-black/60 text-white rounded-full hover:bg-black/80 transition-colors"><WandIcon className="w-4 h-4" /></button>
             {/* FIX: Group creative direction properties into a `creativeDirection` object to match the function signature. */}
-            <button onClick={() => onCreateVideo({ prompt: getTiktokAffiliatePrompt({ gender, modelFace, customPrompt, hasFaceImage: !!faceImage, creativeDirection: creativeState }), image: { base64: imageBase64, mimeType } })} title="Create Video from this image" className="flex items-center justify-center w-8 h-8 bg-black/60 text-white rounded-full hover:bg-black/80 transition-colors"><VideoIcon className="w-4 h-4" /></button>
+            <button onClick={() => onCreateVideo({ prompt: getTiktokAffiliatePrompt({ gender, modelFace, customPrompt, hasFaceImage: !!faceImage, creativeDirection: creativeState, brandKit }), image: { base64: imageBase64, mimeType } })} title="Create Video from this image" className="flex items-center justify-center w-8 h-8 bg-black/60 text-white rounded-full hover:bg-black/80 transition-colors"><VideoIcon className="w-4 h-4" /></button>
             <button onClick={() => triggerDownload(imageBase64, 'monoklix-model-photo')} title="Download Image" className="flex items-center justify-center w-8 h-8 bg-black/60 text-white rounded-full hover:bg-black/80 transition-colors"><DownloadIcon className="w-4 h-4" /></button>
         </div>
     );
@@ -374,6 +407,7 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
                         return (
                             <div className="flex flex-col items-center justify-center h-full gap-2">
                                 <Spinner />
+                                <GenerationProgressBar progress={generationProgress} />
                                 {isLoading && numberOfImages > 1 && (
                                     <p className="text-sm text-neutral-500">
                                         {`${commonT.generating} (${progress}/${numberOfImages})`}
@@ -1,109 +1,47 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { getHistory } from '../../services/historyService';
 // FIX: Add missing Language import.
 import { type HistoryItem, type Language } from '../../types';
 import Spinner from '../common/Spinner';
 import { FilmIcon, DownloadIcon, CheckCircleIcon, AlertTriangleIcon } from '../Icons';
 import TwoColumnLayout from '../common/TwoColumnLayout';
-
-declare global {
-    interface Window {
-        FFmpeg: any;
-        FFmpegUtil: any;
-    }
-}
+import { renderConcatOnServer } from '../../services/renderService';
+import { loadFFmpeg, concatVideosInBrowser } from '../../services/ffmpegService';
 
 type EngineStatus = 'idle' | 'loading' | 'ready' | 'error';
 
 // FIX: Add language prop to component props.
 const VideoCombinerView: React.FC<{ language: Language }> = ({ language }) => {
     const [allVideos, setAllVideos] = useState<HistoryItem[]>([]);
+    const [allAudio, setAllAudio] = useState<HistoryItem[]>([]);
     const [selectedVideos, setSelectedVideos] = useState<string[]>([]);
+    const [selectedAudioId, setSelectedAudioId] = useState<string>('');
     const [isCombining, setIsCombining] = useState(false);
     const [progressMessage, setProgressMessage] = useState('');
     const [outputUrl, setOutputUrl] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const ffmpegRef = useRef<any>(null);
     const [blobUrls, setBlobUrls] = useState<Map<string, string>>(new Map());
     const [engineStatus, setEngineStatus] = useState<EngineStatus>('idle');
-    const loadingAttemptRef = useRef(false);
 
-    // ✅ SIMPLE: Just wait for FFmpeg from HTML script tags
+    // The engine is shared with the other in-browser video tools, so it may already be loaded.
     useEffect(() => {
-        const initFFmpeg = async () => {
-            if (loadingAttemptRef.current || ffmpegRef.current || engineStatus !== 'idle') {
-                return;
-            }
-
-            loadingAttemptRef.current = true;
-            setEngineStatus('loading');
-            setError(null);
-            setProgressMessage('Waiting for video engine to load...');
-
-            try {
-                // Wait for FFmpeg libraries (loaded from HTML script tags)
-                let attempts = 0;
-                const maxAttempts = 60; // 15 seconds
-                
-                while ((!window.FFmpeg || !window.FFmpegUtil) && attempts < maxAttempts) {
-                    await new Promise(resolve => setTimeout(resolve, 250));
-                    attempts++;
-                    
-                    if (attempts % 4 === 0) {
-                        setProgressMessage(`Loading libraries... (${Math.round(attempts / 4)}s)`);
-                    }
-                }
-
-                if (!window.FFmpeg || !window.FFmpegUtil) {
-                    throw new Error(
-                        "Video processing library failed to load. " +
-                        "Please check your internet connection and reload the page. " +
-                        "Ensure the script tags in index.html are correct."
-                    );
-                }
-
-                console.log('✅ FFmpeg libraries detected');
-                setProgressMessage('Initializing FFmpeg...');
-
-                // Create FFmpeg instance
-                const { createFFmpeg } = window.FFmpeg;
-                const ffmpeg = createFFmpeg({
-                    log: true,
-                    coreURL: 'https://unpkg.com/@ffmpeg/core@0.12.10/dist/umd/ffmpeg-core.js',
-                });
-
-                // Enhanced logger
-                ffmpeg.setLogger(({ type, message }: { type: string; message: string }) => {
-                    console.log(`[FFmpeg ${type}]`, message);
-                    if (isCombining && message.includes('time=')) {
-                        const timeMatch = message.match(/time=(\d{2}:\d{2}:\d{2})/);
-                        if (timeMatch) {
-                            setProgressMessage(`Processing: ${timeMatch[1]}`);
-                        }
-                    }
-                });
-
-                setProgressMessage('Loading FFmpeg core...');
-                await ffmpeg.load();
-
-                ffmpegRef.current = ffmpeg;
+        let isCancelled = false;
+        setEngineStatus('loading');
+        loadFFmpeg(message => { if (!isCancelled) setProgressMessage(message); })
+            .then(() => {
+                if (isCancelled) return;
                 setEngineStatus('ready');
                 setProgressMessage('');
-                console.log('✅ FFmpeg ready');
-
-            } catch (err) {
+            })
+            .catch(err => {
                 console.error('❌ FFmpeg init error:', err);
-                const errorMsg = err instanceof Error ? err.message : 'Failed to initialize video engine';
-                setError(errorMsg);
+                if (isCancelled) return;
+                // Not surfaced as a view error: the engine is only needed when the render server is unreachable.
                 setEngineStatus('error');
                 setProgressMessage('');
-            } finally {
-                loadingAttemptRef.current = false;
-            }
-        };
-
-        initFFmpeg();
-    }, [engineStatus, isCombining]);
+            });
+        return () => { isCancelled = true; };
+    }, []);
 
     // Fetch videos
     useEffect(() => {
@@ -111,6 +49,7 @@ const VideoCombinerView: React.FC<{ language: Language }> = ({ language }) => {
             const history = await getHistory();
             const videoItems = history.filter(item => item.type === 'Video');
             setAllVideos(videoItems);
+            setAllAudio(history.filter(item => item.type === 'Audio' && item.result instanceof Blob));
 
             const newUrls = new Map<string, string>();
             videoItems.forEach(item => {
@@ -146,80 +85,42 @@ const VideoCombinerView: React.FC<{ language: Language }> = ({ language }) => {
             return;
         }
 
-        if (engineStatus !== 'ready' || !ffmpegRef.current) {
-            setError("Video engine is not ready. Please wait or reload.");
-            return;
-        }
-
         setIsCombining(true);
         setError(null);
         setProgressMessage('Preparing videos...');
         if (outputUrl) URL.revokeObjectURL(outputUrl);
         setOutputUrl(null);
 
-        const tempFiles: string[] = [];
-
         try {
-            const ffmpeg = ffmpegRef.current;
             const selectedItems = allVideos.filter(v => selectedVideos.includes(v.id));
-            
-            let fileList = '';
-
-            // Write videos to virtual filesystem
-            for (let i = 0; i < selectedItems.length; i++) {
-                const item = selectedItems[i];
+            const clips = selectedItems.map((item, i) => {
                 if (!(item.result instanceof Blob)) {
                     throw new Error(`Video ${i + 1} is invalid`);
                 }
+                return item.result;
+            });
+            const audioItem = allAudio.find(a => a.id === selectedAudioId);
+            const audio = audioItem?.result instanceof Blob ? audioItem.result : null;
 
-                const fileName = `input${i}.mp4`;
-                tempFiles.push(fileName);
-                
-                setProgressMessage(`Loading video ${i + 1}/${selectedItems.length}...`);
-                
-                const videoData = await window.FFmpegUtil.fetchFile(item.result);
-                ffmpeg.FS('writeFile', fileName, videoData);
-                fileList += `file '${fileName}'\n`;
+            let blob: Blob;
+            try {
+                blob = await renderConcatOnServer(clips, audio, setProgressMessage);
+            } catch (serverError) {
+                // The render server is the primary path; the in-browser engine only takes over when it is unavailable.
+                console.warn('⚠️ Server render failed, falling back to in-browser combine:', serverError);
+                if (engineStatus !== 'ready') {
+                    throw serverError;
+                }
+                blob = await concatVideosInBrowser(clips, audio, setProgressMessage);
             }
 
-            tempFiles.push('filelist.txt', 'output.mp4');
-            ffmpeg.FS('writeFile', 'filelist.txt', fileList);
-
-            setProgressMessage('Combining videos... This may take a moment.');
-            console.log('🎬 Starting video combine...');
-
-            // Combine with re-encoding for better compatibility
-            await ffmpeg.run(
-                '-f', 'concat',
-                '-safe', '0',
-                '-i', 'filelist.txt',
-                '-c:v', 'libx264',
-                '-preset', 'fast',
-                '-crf', '23',
-                '-c:a', 'aac',
-                '-b:a', '192k',
-                'output.mp4'
-            );
-
-            console.log('✅ Combine finished');
-            setProgressMessage('Finishing up...');
-
-            const data = ffmpeg.FS('readFile', 'output.mp4');
-            const blob = new Blob([data.buffer], { type: 'video/mp4' });
-            const url = URL.createObjectURL(blob);
-            setOutputUrl(url);
+            setOutputUrl(URL.createObjectURL(blob));
 
         } catch (err) {
             console.error('❌ Combine error:', err);
             const errorMsg = err instanceof Error ? err.message : 'Combine operation failed';
             setError(errorMsg);
         } finally {
-            // Clean up virtual files
-            if (ffmpegRef.current) {
-                for (const file of tempFiles) {
-                    try { ffmpegRef.current.FS('unlink', file); } catch (e) {}
-                }
-            }
             setIsCombining(false);
             setProgressMessage('');
         }
@@ -227,6 +128,7 @@ const VideoCombinerView: React.FC<{ language: Language }> = ({ language }) => {
     
     const handleReset = () => {
         setSelectedVideos([]);
+        setSelectedAudioId('');
         setOutputUrl(null);
         setError(null);
         setProgressMessage('');
@@ -266,6 +168,21 @@ const VideoCombinerView: React.FC<{ language: Language }> = ({ language }) => {
             </div>
 
             <div className="pt-4 mt-auto flex flex-col gap-4">
+                <div>
+                    <label htmlFor="combiner-audio" className="block text-sm font-medium mb-1">Audio Track (Optional)</label>
+                    <select
+                        id="combiner-audio"
+                        value={selectedAudioId}
+                        onChange={e => setSelectedAudioId(e.target.value)}
+                        disabled={isCombining}
+                        className="w-full bg-neutral-50 dark:bg-neutral-800/50 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm"
+                    >
+                        <option value="">Keep original clip audio</option>
+                        {allAudio.map(audio => (
+                            <option key={audio.id} value={audio.id}>{audio.prompt.substring(0, 60)}</option>
+                        ))}
+                    </select>
+                </div>
                  {engineStatus === 'loading' && (
                     <div className="flex items-center gap-2 p-3 bg-blue-100 dark:bg-blue-900/40 rounded-md">
                         <Spinner />
@@ -276,13 +193,13 @@ const VideoCombinerView: React.FC<{ language: Language }> = ({ language }) => {
                     <div className="flex items-start gap-2 p-3 bg-red-100 dark:bg-red-900/40 rounded-md">
                         <AlertTriangleIcon className="w-5 h-5 text-red-600 dark:text-red-400 mt-0.5 flex-shrink-0" />
                         <div className="text-sm text-red-800 dark:text-red-300">
-                            <p className="font-semibold">Video Library Error</p>
-                            <p className="text-xs">{error}</p>
+                            <p className="font-semibold">Browser Fallback Unavailable</p>
+                            <p className="text-xs">Videos are combined on the render server. The in-browser engine failed to load, so there is no fallback if the server is unreachable.</p>
                         </div>
                     </div>
                 )}
                  <div className="flex gap-4">
-                    <button onClick={handleCombine} disabled={isCombining || selectedVideos.length < 2 || engineStatus !== 'ready'} className="w-full flex items-center justify-center gap-2 bg-primary-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                    <button onClick={handleCombine} disabled={isCombining || selectedVideos.length < 2} className="w-full flex items-center justify-center gap-2 bg-primary-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
                         {isCombining ? <Spinner/> : 'Combine Videos'}
                     </button>
                     <button onClick={handleReset} disabled={isCombining} className="flex-shrink-0 bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 font-semibold py-3 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50">
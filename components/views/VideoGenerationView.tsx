@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { generateVideo } from '../../services/geminiService';
+import { generateVideoVariations } from '../../services/geminiService';
 import { addHistoryItem } from '../../services/historyService';
 import Spinner from '../common/Spinner';
 import { DownloadIcon, TrashIcon, StarIcon, AlertTriangleIcon, RefreshCwIcon } from '../Icons';
@@ -10,10 +10,16 @@ import { addLogEntry } from '../../services/aiLogService';
 import { triggerUserWebhook } from '../../services/webhookService';
 import { handleApiError } from '../../services/errorHandler';
 // FIX: Add missing Language import.
-import { type User, type Language } from '../../types';
+import { type User, type Language, type GenerationProgress, type VideoVariationResult } from '../../types';
 import { incrementVideoUsage } from '../../services/userService';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
-import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
+import { getInitialVideoCreativeDirectionState, type VideoCreativeDirectionState } from '../../services/creativeDirectionService';
+import { getVideoDirectionPromptLines } from '../../services/promptManager';
+import { isAbortError } from '../../utils/abortUtils';
+import { createProgress } from '../../utils/progressUtils';
+import GenerationProgressBar from '../common/GenerationProgressBar';
+import SeedControl from '../common/SeedControl';
+import { getRunMetadata } from '../../services/generationMetadataService';
 
 
 interface ImageData {
@@ -23,7 +29,8 @@ interface ImageData {
 
 interface VideoGenPreset {
   prompt: string;
-  image: { base64: string; mimeType: string; };
+  // Null when the preset is a prompt only, e.g. a saved prompt from the library.
+  image: { base64: string; mimeType: string; } | null;
 }
 
 interface VideoGenerationViewProps {
@@ -36,6 +43,7 @@ interface VideoGenerationViewProps {
 }
 
 const resolutions = ["720p", "1080p"];
+const variationCounts = [1, 2, 3, 4];
 const moodOptions = [
     'Normal', 
     'Cheerful - Fast', 
@@ -57,6 +65,11 @@ const voiceActorOptions = ["Male", "Female", "Mix Actor"];
 
 const SESSION_KEY = 'videoGenerationState';
 
+// A finished variation, with its video ready to play, or the reason it failed.
+type GeneratedVariation =
+  | { seed: number; url: string; filename: string; thumbnailUrl: string | null }
+  | { seed: number; error: string };
+
 const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clearPreset, currentUser, onUserUpdate, language }) => {
   const [prompt, setPrompt] = useState('');
   const [negativePrompt, setNegativePrompt] = useState('');
@@ -64,21 +77,25 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
   const [dialogueAudio, setDialogueAudio] = useState('');
   
   // Creative Direction State
-  const [creativeState, setCreativeState] = useState<CreativeDirectionState>(getInitialCreativeDirectionState());
+  const [creativeState, setCreativeState] = useState<VideoCreativeDirectionState>(getInitialVideoCreativeDirectionState());
 
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const videoUrlRef = useRef<string | null>(null);
-  const [videoFilename, setVideoFilename] = useState<string | null>(null);
-  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const [variations, setVariations] = useState<GeneratedVariation[]>([]);
+  const [selectedVariation, setSelectedVariation] = useState(0);
+  // Every object URL currently in `variations`, kept in a ref for the unmount cleanup.
+  const videoUrlsRef = useRef<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [statusMessage, setStatusMessage] = useState('');
+  const [variationProgress, setVariationProgress] = useState<(GenerationProgress | null)[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [loadingMessageIndex, setLoadingMessageIndex] = useState(0);
   const [referenceImage, setReferenceImage] = useState<ImageData | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [endImage, setEndImage] = useState<ImageData | null>(null);
+  const [endImageUploadKey, setEndImageUploadKey] = useState(Date.now() + 1);
   const [resolution, setResolution] = useState("720p");
   const [aspectRatio, setAspectRatio] = useState("9:16");
+  const [seed, setSeed] = useState<number | null>(null);
+  const [variationCount, setVariationCount] = useState(1);
   const [imageUploadKey, setImageUploadKey] = useState(Date.now());
 
   const [includeCaptions, setIncludeCaptions] = useState<'Yes' | 'No'>('No');
@@ -91,10 +108,14 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
   const model = MODELS.videoGenerationDefault;
   const isVeo3 = model.startsWith('veo-3');
 
+  const selected = variations[selectedVariation];
+  const selectedVideo = selected && 'url' in selected ? selected : null;
+  const videoUrl = selectedVideo?.url ?? null;
+
   const allStates = {
     prompt, negativePrompt, dialogue, dialogueAudio,
     creativeState,
-    referenceImage, previewUrl, resolution, aspectRatio, 
+    referenceImage, previewUrl, endImage, resolution, aspectRatio, seed, variationCount,
     includeCaptions, includeVoiceover, voiceoverLanguage, voiceoverMood, voiceoverActor
   };
 
@@ -108,11 +129,14 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
                 if (key === 'negativePrompt') setNegativePrompt(state[key]);
                 if (key === 'dialogue') setDialogue(state[key]);
                 if (key === 'dialogueAudio') setDialogueAudio(state[key]);
-                if (key === 'creativeState') setCreativeState(state[key]);
+                if (key === 'creativeState') setCreativeState({ ...getInitialVideoCreativeDirectionState(), ...state[key] });
                 if (key === 'referenceImage') setReferenceImage(state[key]);
                 if (key === 'previewUrl') setPreviewUrl(state[key]);
+                if (key === 'endImage') setEndImage(state[key]);
                 if (key === 'resolution') setResolution(state[key]);
                 if (key === 'aspectRatio') setAspectRatio(state[key]);
+                if (key === 'seed') setSeed(state[key]);
+                if (key === 'variationCount') setVariationCount(state[key]);
                 if (key === 'includeCaptions') setIncludeCaptions(state[key]);
                 if (key === 'includeVoiceover') setIncludeVoiceover(state[key]);
                 if (key === 'voiceoverLanguage') setVoiceoverLanguage(state[key]);
@@ -131,34 +155,10 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
   }, [
     prompt, negativePrompt, dialogue, dialogueAudio,
     creativeState,
-    referenceImage, previewUrl, resolution, aspectRatio,
+    referenceImage, previewUrl, endImage, resolution, aspectRatio, seed, variationCount,
     includeCaptions, includeVoiceover, voiceoverLanguage, voiceoverMood, voiceoverActor
   ]);
 
-  const loadingMessages = [
-    "Warming up the AI director...",
-    "Scouting digital locations...",
-    "Casting virtual actors...",
-    "Adjusting cameras and lighting...",
-    "Action! Rendering the scene...",
-    "This may take a few minutes. Please be patient.",
-    "The AI is working hard on your masterpiece...",
-    "Adding the final cinematic touches...",
-    "Almost ready for the premiere...",
-  ];
-
-  useEffect(() => {
-      let interval: ReturnType<typeof setInterval> | null = null;
-      if (isLoading) {
-        interval = setInterval(() => {
-          setLoadingMessageIndex(prev => (prev + 1) % loadingMessages.length);
-        }, 3000);
-      }
-      return () => {
-        if (interval) clearInterval(interval);
-      };
-  }, [isLoading, loadingMessages.length]);
-
   useEffect(() => {
       if (preset) {
           const sceneText = preset.prompt;
@@ -180,7 +180,11 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
               visualDescription = visualDescription.replace(captionRegex, '');
           }
 
-          visualDescription = visualDescription.replace(/\*\*(.*?):\*\*/g, '').replace(/[\*\-]/g, '').replace(/\s+/g, ' ').trim();
+          // Storyboard scenes are markdown; plain prompts are kept as written.
+          if (/\*\*(.*?):\*\*/.test(visualDescription)) {
+              visualDescription = visualDescription.replace(/\*\*(.*?):\*\*/g, '').replace(/[\*\-]/g, '').replace(/\s+/g, ' ');
+          }
+          visualDescription = visualDescription.trim();
 
           setPrompt(visualDescription);
           if (voiceover) {
@@ -191,21 +195,28 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
               setIncludeCaptions('Yes');
               setDialogue(caption);
           }
-          setReferenceImage(preset.image);
-          setPreviewUrl(`data:${preset.image.mimeType};base64,${preset.image.base64}`);
+          if (preset.image) {
+              setReferenceImage(preset.image);
+              setPreviewUrl(`data:${preset.image.mimeType};base64,${preset.image.base64}`);
+          }
           
           clearPreset();
           window.scrollTo(0, 0);
       }
   }, [preset, clearPreset]);
 
-  // Cleanup blob URL on component unmount to prevent memory leaks
+  const clearVariations = useCallback(() => {
+      videoUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+      videoUrlsRef.current = [];
+      setVariations([]);
+      setSelectedVariation(0);
+  }, []);
+
+  // Cleanup blob URLs on component unmount to prevent memory leaks
   useEffect(() => {
-    // The ref holds the latest URL. The function captures the ref itself.
+    // The ref holds the latest URLs. The function captures the ref itself.
     return () => {
-      if (videoUrlRef.current && videoUrlRef.current.startsWith('blob:')) {
-        URL.revokeObjectURL(videoUrlRef.current);
-      }
+      videoUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
     };
   }, []); // Empty array ensures it only runs on mount/unmount
 
@@ -219,6 +230,10 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
       reader.readAsDataURL(file);
   }, []);
 
+  const handleEndImageUpload = useCallback((base64: string, mimeType: string) => {
+      setEndImage({ base64, mimeType });
+  }, []);
+
   const handleGenerate = useCallback(async () => {
       if (!prompt.trim() && !referenceImage) {
           setError("Please provide a prompt or a reference image.");
@@ -229,15 +244,10 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
 
       setIsLoading(true);
       setError(null);
-      // Manually revoke the old URL before clearing state
-      if (videoUrl && videoUrl.startsWith('blob:')) {
-          URL.revokeObjectURL(videoUrl);
-      }
-      setVideoUrl(null);
-      videoUrlRef.current = null;
-      setVideoFilename(null);
-      setThumbnailUrl(null);
-      setStatusMessage('Preparing generation request...');
+      clearVariations();
+      setVariationProgress(Array(variationCount).fill(createProgress('submitted')));
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
       
       const isMalay = voiceoverLanguage === 'Bahasa Malaysia';
       let targetLanguage = voiceoverLanguage;
@@ -277,6 +287,9 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
       if (referenceImage) {
           promptLines.push(isMalay ? 'Animate the provided image.' : 'Animate the provided image.');
           promptLines.push(isMalay ? `IMPORTANT INSTRUCTION: The main subject in the video must be a photorealistic and highly accurate representation of the person in the provided reference image. Maintain their facial features and identity precisely.` : 'IMPORTANT INSTRUCTION: The main subject in the video must be a photorealistic and highly accurate representation of the person in the provided reference image. Maintain their facial features and identity precisely.');
+          if (endImage) {
+              promptLines.push('The video starts on the first provided frame and must end exactly on the last provided frame. Transform smoothly and continuously from one to the other in a single shot, without cuts.');
+          }
       }
       promptLines.push(prompt.trim());
       promptLines.push('\n---');
@@ -292,6 +305,14 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
       if (filmSim !== 'Random') promptLines.push(`• ${isMalay ? 'Film Simulation' : 'Film Simulation'}: ${filmSim}`);
       if (effect !== 'None' && effect !== 'Random') promptLines.push(`• ${isMalay ? 'Additional Effect' : 'Additional Effect'}: ${effect}`);
       promptLines.push('\n---');
+
+      // Motion & Pacing
+      const videoDirectionLines = getVideoDirectionPromptLines(creativeState, isMalay);
+      if (videoDirectionLines.length > 0) {
+          promptLines.push(isMalay ? '🎥 ARAHAN VIDEO (VIDEO DIRECTION):' : '🎥 VIDEO DIRECTION:');
+          promptLines.push(...videoDirectionLines);
+          promptLines.push('\n---');
+      }
   
       // Audio
       if (includeVoiceover === 'Yes' && dialogueAudio.trim() && isVeo3) {
@@ -316,48 +337,77 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
 
       try {
           const image = referenceImage ? { imageBytes: referenceImage.base64, mimeType: referenceImage.mimeType } : undefined;
+          const lastFrame = referenceImage && endImage ? { imageBytes: endImage.base64, mimeType: endImage.mimeType } : undefined;
           
-          const { videoFile, thumbnailUrl: newThumbnailUrl } = await generateVideo(fullPrompt, model, aspectRatio, resolution, dynamicNegativePrompt, image, setStatusMessage);
-
-          if (videoFile) {
-              const objectUrl = URL.createObjectURL(videoFile);
-              console.log('✅ Video file received and object URL created:', objectUrl);
-              setVideoUrl(objectUrl);
-              videoUrlRef.current = objectUrl; // Keep ref in sync for cleanup
-              setVideoFilename(videoFile.name);
-              setThumbnailUrl(newThumbnailUrl);
-              
-              // Save to history in the background
-              addHistoryItem({
-                  type: 'Video',
-                  prompt: `Video Generation: ${prompt.trim().substring(0, 100)}...`,
-                  result: videoFile,
-              }).then(async () => {
-                  const updateResult = await incrementVideoUsage(currentUser);
+          const startedAt = Date.now();
+          const onVariationProgress = (index: number, progress: GenerationProgress) => {
+              setVariationProgress(prev => prev.map((current, i) => i === index ? progress : current));
+          };
+          const { variations: results, successfulToken, server } = await generateVideoVariations(fullPrompt, model, aspectRatio, resolution, dynamicNegativePrompt, image, variationCount, onVariationProgress, controller.signal, seed ?? undefined, lastFrame);
+          const runMetadata = getRunMetadata(model, startedAt, { successfulToken, server });
+
+          const generated = results.map((result: VideoVariationResult): GeneratedVariation => {
+              if ('error' in result) return result;
+              return { seed: result.seed, url: URL.createObjectURL(result.videoFile), filename: result.videoFile.name, thumbnailUrl: result.thumbnailUrl };
+          });
+          videoUrlsRef.current = generated.flatMap(variation => 'url' in variation ? [variation.url] : []);
+          setVariations(generated);
+          setSelectedVariation(Math.max(0, generated.findIndex(variation => 'url' in variation)));
+
+          // Save each variation to history in the background. Usage is counted one video at
+          // a time because each update starts from the previous one's total.
+          const saveVariations = async () => {
+              let user = currentUser;
+              for (const [index, result] of results.entries()) {
+                  if ('error' in result) continue;
+                  await addHistoryItem({
+                      type: 'Video',
+                      prompt: `Video Generation: ${prompt.trim().substring(0, 100)}...${results.length > 1 ? ` (Variation ${index + 1}/${results.length})` : ''}`,
+                      result: result.videoFile,
+                      metadata: {
+                          ...runMetadata,
+                          prompt: fullPrompt,
+                          seed: result.seed,
+                          aspectRatio,
+                          resolution,
+                          negativePrompt: dynamicNegativePrompt,
+                          referenceImages: referenceImage ? [referenceImage, ...(lastFrame && endImage ? [endImage] : [])] : undefined,
+                      },
+                  });
+                  const updateResult = await incrementVideoUsage(user);
                   if (updateResult.success && updateResult.user) {
+                      user = updateResult.user;
                       onUserUpdate(updateResult.user);
                   }
-              }).catch(err => {
-                  console.error("Failed to save video to history:", err);
-                  setError("Video generated but failed to save to gallery. Please download it now.");
-              });
-          }
+              }
+          };
+          saveVariations().catch(err => {
+              console.error("Failed to save video to history:", err);
+              setError("Video generated but failed to save to gallery. Please download it now.");
+          });
       } catch (e) {
-          handleApiError(e);
-          setError("Failed");
+          if (!isAbortError(e)) {
+              handleApiError(e);
+              setError("Failed");
+          }
       } finally {
+          abortControllerRef.current = null;
           setIsLoading(false);
-          setStatusMessage('');
+          setVariationProgress([]);
       }
-  }, [prompt, creativeState, dialogue, dialogueAudio, isVeo3, referenceImage, model, aspectRatio, resolution, negativePrompt, voiceoverLanguage, voiceoverMood, currentUser, onUserUpdate, videoUrl, includeCaptions, includeVoiceover, voiceoverActor]);
+  }, [prompt, creativeState, dialogue, dialogueAudio, isVeo3, referenceImage, endImage, model, aspectRatio, resolution, seed, variationCount, negativePrompt, voiceoverLanguage, voiceoverMood, currentUser, onUserUpdate, clearVariations, includeCaptions, includeVoiceover, voiceoverActor]);
+
+  const handleCancel = () => {
+      abortControllerRef.current?.abort();
+  };
 
   const handleDownloadVideo = async () => {
-    if (!videoUrl || !videoFilename) return;
+    if (!selectedVideo) return;
     setIsDownloading(true);
     try {
         const link = document.createElement('a');
-        link.href = videoUrl;
-        link.download = videoFilename;
+        link.href = selectedVideo.url;
+        link.download = selectedVideo.filename;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -373,6 +423,13 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
       setReferenceImage(null);
       setPreviewUrl(null);
       setImageUploadKey(Date.now());
+      // A last frame only works together with a first one.
+      removeEndImage();
+  };
+
+  const removeEndImage = () => {
+      setEndImage(null);
+      setEndImageUploadKey(Date.now());
   };
 
   const handleReset = useCallback(() => {
@@ -381,29 +438,27 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
     setDialogue('');
     setDialogueAudio('');
     
-    setCreativeState(getInitialCreativeDirectionState());
+    setCreativeState(getInitialVideoCreativeDirectionState());
     
-    if (videoUrlRef.current) {
-        URL.revokeObjectURL(videoUrlRef.current);
-    }
-    setVideoUrl(null);
-    videoUrlRef.current = null;
-    setVideoFilename(null);
-    setThumbnailUrl(null);
+    clearVariations();
     setError(null);
     setReferenceImage(null);
     setPreviewUrl(null);
+    setEndImage(null);
     setResolution("720p");
     setAspectRatio("9:16");
+    setSeed(null);
+    setVariationCount(1);
     setIncludeCaptions('No');
     setIncludeVoiceover('No');
     setVoiceoverLanguage('English');
     setVoiceoverMood('Normal');
     setVoiceoverActor('Male');
     setImageUploadKey(Date.now());
-    setStatusMessage('');
+    setEndImageUploadKey(Date.now() + 1);
+    setVariationProgress([]);
     sessionStorage.removeItem(SESSION_KEY);
-  }, []);
+  }, [clearVariations]);
 
   const leftPanel = (
     <>
@@ -427,6 +482,13 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
                         {resolutions.map(res => <option key={res} value={res}>{res}</option>)}
                     </select>
                 </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">Variations</label>
+                    <select value={variationCount} onChange={(e) => setVariationCount(Number(e.target.value))} disabled={isLoading} className="w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-3 focus:ring-2 focus:ring-primary-500 focus:outline-none transition disabled:opacity-50">
+                        {variationCounts.map(count => <option key={count} value={count}>{count === 1 ? '1 video' : `${count} videos`}</option>)}
+                    </select>
+                    <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">Each variation uses its own seed and counts as one video.</p>
+                </div>
             </div>
         </div>
 
@@ -448,6 +510,25 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
             </p>
         </div>
 
+        {previewUrl && (
+            <div>
+                <h2 className="text-lg font-semibold mb-2">Last Frame (Optional)</h2>
+                {endImage ? (
+                     <div className="relative w-full aspect-video rounded-lg overflow-hidden">
+                        <img src={`data:${endImage.mimeType};base64,${endImage.base64}`} alt="Last Frame Preview" className="w-full h-full object-contain bg-neutral-100 dark:bg-neutral-800" />
+                        <button onClick={removeEndImage} className="absolute top-2 right-2 p-1.5 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors">
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                ) : (
+                    <ImageUpload id="video-end-upload" key={endImageUploadKey} onImageUpload={handleEndImageUpload} title="Upload Ending Image" language={language}/>
+                )}
+                <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2 p-2 bg-neutral-100 dark:bg-neutral-800/50 rounded-md">
+                    The video will move from the starting image to this one, e.g. a product before and after.
+                </p>
+            </div>
+        )}
+
         <div>
           <h2 className="text-lg font-semibold mb-2">Main Prompt</h2>
           <textarea value={prompt} onChange={e => setPrompt(e.target.value)} placeholder="e.g., A futuristic city with flying cars at dusk..." rows={5} className="w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-3 focus:ring-2 focus:ring-primary-500 focus:outline-none transition" />
@@ -467,6 +548,7 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
                 <label className="block text-sm font-medium mb-1">Negative Prompt (What to avoid)</label>
                 <textarea value={negativePrompt} onChange={e => setNegativePrompt(e.target.value)} placeholder="e.g., blurry, shaky, watermark" rows={1} className="w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-3 focus:ring-2 focus:ring-primary-500 focus:outline-none" />
             </div>
+            <SeedControl seed={seed} onChange={setSeed} disabled={isLoading} />
         </div>
 
         <div>
@@ -528,11 +610,10 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
                     {isLoading ? <Spinner /> : 'Generate Video'}
                 </button>
                 <button
-                    onClick={handleReset}
-                    disabled={isLoading}
+                    onClick={isLoading ? handleCancel : handleReset}
                     className="flex-shrink-0 bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 font-semibold py-3 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50"
                 >
-                    Reset
+                    {isLoading ? 'Cancel' : 'Reset'}
                 </button>
             </div>
              {error && error !== 'Failed' && <p className="text-red-500 dark:text-red-400 mt-2 text-center">{error}</p>}
@@ -545,8 +626,18 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
           {isLoading ? (
               <div className="flex flex-col items-center justify-center h-full gap-2">
                   <Spinner />
-                  <p className="mt-4 text-neutral-500 dark:text-neutral-400">{statusMessage || 'Generating...'}</p>
-                  <p className="mt-2 text-xs text-neutral-400 dark:text-neutral-500">{loadingMessages[loadingMessageIndex]}</p>
+                  {variationProgress.length > 1 ? (
+                      <div className="w-full max-w-md mt-4 space-y-3">
+                          {variationProgress.map((current, index) => (
+                              <div key={index}>
+                                  <p className="text-xs font-semibold text-neutral-600 dark:text-neutral-300 mb-1">Variation {index + 1}</p>
+                                  <GenerationProgressBar progress={current} />
+                              </div>
+                          ))}
+                      </div>
+                  ) : (
+                      <GenerationProgressBar progress={variationProgress[0] ?? null} className="mt-4" />
+                  )}
               </div>
           ) : error && !videoUrl ? ( // Only show error if there's no video to display
                <div className="text-center text-red-500 dark:text-red-400 p-4">
@@ -566,7 +657,7 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
                   <video 
                       key={videoUrl}
                       src={videoUrl}
-                      poster={thumbnailUrl || undefined}
+                      poster={selectedVideo?.thumbnailUrl || undefined}
                       controls 
                       autoPlay 
                       playsInline
@@ -576,6 +667,27 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
                       Your browser does not support the video tag.
                   </video>
                   
+                  {variations.length > 1 && (
+                      <div className="grid grid-cols-4 gap-2 w-full max-w-md">
+                          {variations.map((variation, index) => 'url' in variation ? (
+                              <button
+                                  key={index}
+                                  onClick={() => setSelectedVariation(index)}
+                                  title={`Seed ${variation.seed}`}
+                                  className={`relative aspect-square rounded-md overflow-hidden bg-black border-2 transition-colors ${index === selectedVariation ? 'border-primary-500' : 'border-transparent hover:border-neutral-400'}`}
+                              >
+                                  <video src={variation.url} poster={variation.thumbnailUrl || undefined} muted playsInline preload="metadata" className="w-full h-full object-cover" />
+                                  <span className="absolute bottom-1 left-1 text-[10px] font-semibold text-white bg-black/60 rounded px-1">{index + 1}</span>
+                              </button>
+                          ) : (
+                              <div key={index} title={variation.error} className="aspect-square rounded-md bg-neutral-100 dark:bg-neutral-800 flex flex-col items-center justify-center text-red-500 dark:text-red-400 p-1">
+                                  <AlertTriangleIcon className="w-5 h-5" />
+                                  <span className="text-[10px] mt-1">Variation {index + 1} failed</span>
+                              </div>
+                          ))}
+                      </div>
+                  )}
+
                   {error && <p className="text-red-500 dark:text-red-400 text-center text-sm">{error}</p>}
 
                   <button
@@ -0,0 +1,304 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { getHistory, addHistoryItem } from '../../services/historyService';
+import { renderMixOnServer, type VoiceOverMixOptions } from '../../services/renderService';
+import { getMediaDuration } from '../../utils/audioUtils';
+import { type HistoryItem, type Language } from '../../types';
+import Spinner from '../common/Spinner';
+import { MicIcon, DownloadIcon, CheckCircleIcon, AlertTriangleIcon, PlayIcon } from '../Icons';
+import TwoColumnLayout from '../common/TwoColumnLayout';
+
+const DEFAULT_MIX = {
+    offset: 0,
+    originalVolume: 100,
+    duckedVolume: 25,
+    voiceVolume: 100,
+    fadeIn: 0.3,
+    fadeOut: 0.5,
+};
+
+type MixSettings = typeof DEFAULT_MIX;
+
+const SliderControl: React.FC<{
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+    onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, unit, onChange }) => (
+    <div>
+        <div className="flex justify-between text-sm mb-1">
+            <label className="font-medium">{label}</label>
+            <span className="text-neutral-500">{value}{unit}</span>
+        </div>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(Number(e.target.value))} className="w-full accent-primary-600" />
+    </div>
+);
+
+const VoiceOverMixerView: React.FC<{ language: Language }> = ({ language }) => {
+    const [allVideos, setAllVideos] = useState<HistoryItem[]>([]);
+    const [allAudio, setAllAudio] = useState<HistoryItem[]>([]);
+    const [blobUrls, setBlobUrls] = useState<Map<string, string>>(new Map());
+    const [selectedVideoId, setSelectedVideoId] = useState<string | null>(null);
+    const [selectedAudioId, setSelectedAudioId] = useState<string | null>(null);
+    const [videoDuration, setVideoDuration] = useState(0);
+    const [audioDuration, setAudioDuration] = useState(0);
+    const [mix, setMix] = useState<MixSettings>(DEFAULT_MIX);
+    const [isMixing, setIsMixing] = useState(false);
+    const [progressMessage, setProgressMessage] = useState('');
+    const [outputUrl, setOutputUrl] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const previewVideoRef = useRef<HTMLVideoElement>(null);
+    const previewAudioRef = useRef<HTMLAudioElement>(null);
+    const previewTimerRef = useRef<number | null>(null);
+
+    const selectedVideo = allVideos.find(v => v.id === selectedVideoId) || null;
+    const selectedAudio = allAudio.find(a => a.id === selectedAudioId) || null;
+
+    useEffect(() => {
+        let urls = new Map<string, string>();
+        const fetchMedia = async () => {
+            const history = await getHistory();
+            const videoItems = history.filter(item => item.type === 'Video' && item.result instanceof Blob);
+            const audioItems = history.filter(item => item.type === 'Audio' && item.result instanceof Blob);
+            setAllVideos(videoItems);
+            setAllAudio(audioItems);
+
+            urls = new Map<string, string>();
+            [...videoItems, ...audioItems].forEach(item => {
+                urls.set(item.id, URL.createObjectURL(item.result as Blob));
+            });
+            setBlobUrls(urls);
+        };
+        fetchMedia();
+
+        return () => {
+            urls.forEach(url => URL.revokeObjectURL(url));
+        };
+    }, []);
+
+    useEffect(() => {
+        return () => {
+            if (outputUrl) URL.revokeObjectURL(outputUrl);
+        };
+    }, [outputUrl]);
+
+    useEffect(() => {
+        setVideoDuration(0);
+        if (selectedVideo?.result instanceof Blob) {
+            getMediaDuration(selectedVideo.result).then(setVideoDuration);
+        }
+    }, [selectedVideo]);
+
+    useEffect(() => {
+        setAudioDuration(0);
+        if (selectedAudio?.result instanceof Blob) {
+            getMediaDuration(selectedAudio.result).then(setAudioDuration);
+        }
+    }, [selectedAudio]);
+
+    const stopPreview = () => {
+        if (previewTimerRef.current !== null) {
+            window.clearTimeout(previewTimerRef.current);
+            previewTimerRef.current = null;
+        }
+        previewAudioRef.current?.pause();
+        previewVideoRef.current?.pause();
+    };
+
+    useEffect(() => stopPreview, []);
+
+    // Approximates the mix with the two media elements so the offset can be tuned before rendering.
+    const handlePreview = () => {
+        const video = previewVideoRef.current;
+        const audio = previewAudioRef.current;
+        if (!video || !audio) return;
+
+        stopPreview();
+        video.currentTime = 0;
+        video.volume = Math.min(mix.originalVolume / 100, 1);
+        audio.currentTime = 0;
+        audio.volume = Math.min(mix.voiceVolume / 100, 1);
+        audio.onended = () => { video.volume = Math.min(mix.originalVolume / 100, 1); };
+        video.play();
+
+        previewTimerRef.current = window.setTimeout(() => {
+            video.volume = Math.min(mix.duckedVolume / 100, 1);
+            audio.play();
+        }, mix.offset * 1000);
+    };
+
+    const updateMix = (key: keyof MixSettings) => (value: number) => {
+        setMix(prev => ({ ...prev, [key]: value }));
+    };
+
+    const handleMix = async () => {
+        if (!(selectedVideo?.result instanceof Blob) || !(selectedAudio?.result instanceof Blob)) {
+            setError("Please select a video and a voice-over from your gallery.");
+            return;
+        }
+
+        stopPreview();
+        setIsMixing(true);
+        setError(null);
+        setProgressMessage('Preparing...');
+        if (outputUrl) URL.revokeObjectURL(outputUrl);
+        setOutputUrl(null);
+
+        const options: VoiceOverMixOptions = {
+            offset: mix.offset,
+            audioDuration,
+            originalVolume: mix.originalVolume / 100,
+            duckedVolume: mix.duckedVolume / 100,
+            voiceVolume: mix.voiceVolume / 100,
+            fadeIn: mix.fadeIn,
+            fadeOut: mix.fadeOut,
+        };
+
+        try {
+            const blob = await renderMixOnServer(selectedVideo.result, selectedAudio.result, options, setProgressMessage);
+            const videoFile = new File([blob], `monoklix-voiceover-${Date.now()}.mp4`, { type: 'video/mp4' });
+
+            setProgressMessage('Saving to gallery...');
+            await addHistoryItem({
+                type: 'Video',
+                prompt: `Voice-over mix: ${selectedVideo.prompt.substring(0, 80)}`,
+                result: videoFile,
+            });
+
+            setOutputUrl(URL.createObjectURL(videoFile));
+        } catch (err) {
+            console.error('❌ Voice-over mix error:', err);
+            setError(err instanceof Error ? err.message : 'Mixing failed');
+        } finally {
+            setIsMixing(false);
+            setProgressMessage('');
+        }
+    };
+
+    const handleReset = () => {
+        stopPreview();
+        setSelectedVideoId(null);
+        setSelectedAudioId(null);
+        setMix(DEFAULT_MIX);
+        setOutputUrl(null);
+        setError(null);
+    };
+
+    const maxOffset = Math.max(0, Math.floor(videoDuration * 10) / 10);
+
+    const leftPanel = (
+        <>
+            <div>
+                <h1 className="text-2xl font-bold sm:text-3xl">Voice-over Mixer</h1>
+                <p className="text-neutral-500 dark:text-neutral-400 mt-1">Lay a voice-over from Voice Studio on top of a generated video and save the narrated clip to your gallery.</p>
+            </div>
+
+            <div>
+                <h3 className="text-lg font-semibold mb-2">1. Select a Video</h3>
+                <div className="max-h-56 overflow-y-auto pr-2 custom-scrollbar bg-neutral-100 dark:bg-neutral-800/50 p-3 rounded-lg">
+                    {allVideos.length > 0 ? (
+                        <div className="grid grid-cols-3 md:grid-cols-4 gap-3">
+                            {allVideos.map(video => (
+                                <div key={video.id} className="relative aspect-square cursor-pointer" onClick={() => setSelectedVideoId(video.id)}>
+                                    <video src={blobUrls.get(video.id)} className="w-full h-full object-cover rounded-md bg-black" />
+                                    {selectedVideoId === video.id && (
+                                        <div className="absolute inset-0 bg-primary-500/50 flex items-center justify-center rounded-md ring-4 ring-primary-500">
+                                            <CheckCircleIcon className="w-8 h-8 text-white"/>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-center text-sm text-neutral-500">No videos found in your gallery.</p>
+                    )}
+                </div>
+            </div>
+
+            <div>
+                <h3 className="text-lg font-semibold mb-2">2. Select a Voice-over</h3>
+                <div className="max-h-40 overflow-y-auto pr-2 custom-scrollbar bg-neutral-100 dark:bg-neutral-800/50 p-2 rounded-lg space-y-1">
+                    {allAudio.length > 0 ? allAudio.map(audio => (
+                        <button
+                            key={audio.id}
+                            onClick={() => setSelectedAudioId(audio.id)}
+                            className={`w-full text-left text-sm p-2 rounded-md flex items-center gap-2 transition-colors ${selectedAudioId === audio.id ? 'bg-primary-600 text-white' : 'hover:bg-neutral-200 dark:hover:bg-neutral-700'}`}
+                        >
+                            <MicIcon className="w-4 h-4 flex-shrink-0"/>
+                            <span className="truncate">{audio.prompt}</span>
+                        </button>
+                    )) : (
+                        <p className="text-center text-sm text-neutral-500 p-2">No audio found. Create a voice-over in Voice Studio first.</p>
+                    )}
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                <h3 className="text-lg font-semibold">3. Adjust the Mix</h3>
+                <SliderControl label="Voice-over Start" value={Math.min(mix.offset, maxOffset)} min={0} max={maxOffset} step={0.1} unit="s" onChange={updateMix('offset')} />
+                <SliderControl label="Voice-over Volume" value={mix.voiceVolume} min={0} max={200} step={5} unit="%" onChange={updateMix('voiceVolume')} />
+                <SliderControl label="Original Audio Volume" value={mix.originalVolume} min={0} max={100} step={5} unit="%" onChange={updateMix('originalVolume')} />
+                <SliderControl label="Original Audio During Voice-over (Ducking)" value={mix.duckedVolume} min={0} max={100} step={5} unit="%" onChange={updateMix('duckedVolume')} />
+                <div className="grid grid-cols-2 gap-4">
+                    <SliderControl label="Fade In" value={mix.fadeIn} min={0} max={3} step={0.1} unit="s" onChange={updateMix('fadeIn')} />
+                    <SliderControl label="Fade Out" value={mix.fadeOut} min={0} max={3} step={0.1} unit="s" onChange={updateMix('fadeOut')} />
+                </div>
+                {audioDuration > 0 && videoDuration > 0 && mix.offset + audioDuration > videoDuration && (
+                    <p className="text-xs text-yellow-600 dark:text-yellow-400">The voice-over runs past the end of the video and will be cut off.</p>
+                )}
+            </div>
+
+            <div className="pt-4 mt-auto flex gap-4">
+                <button onClick={handleMix} disabled={isMixing || !selectedVideo || !selectedAudio} className="w-full flex items-center justify-center gap-2 bg-primary-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                    {isMixing ? <Spinner/> : 'Mix & Save to Gallery'}
+                </button>
+                <button onClick={handleReset} disabled={isMixing} className="flex-shrink-0 bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 font-semibold py-3 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50">
+                    Reset
+                </button>
+            </div>
+        </>
+    );
+
+    const rightPanel = (
+        <>
+            {isMixing ? (
+                <div className="flex flex-col items-center justify-center h-full gap-4">
+                    <Spinner />
+                    <p className="text-neutral-500 dark:text-neutral-400">{progressMessage || 'Processing...'}</p>
+                </div>
+            ) : error ? (
+                <div className="text-center p-4 text-red-500 dark:text-red-400">
+                    <AlertTriangleIcon className="w-12 h-12 mx-auto mb-2"/>
+                    <p className="font-semibold">Oh no!</p>
+                    <p className="text-sm">{error}</p>
+                </div>
+            ) : outputUrl ? (
+                <div className="w-full h-full flex flex-col items-center justify-center gap-4">
+                    <video src={outputUrl} controls autoPlay className="max-w-full max-h-[80%] rounded-md"/>
+                    <a href={outputUrl} download={`monoklix-voiceover-${Date.now()}.mp4`} className="flex items-center gap-2 bg-green-600 text-white font-semibold py-2 px-6 rounded-lg hover:bg-green-700 transition-colors">
+                        <DownloadIcon className="w-4 h-4"/> Download Video
+                    </a>
+                </div>
+            ) : selectedVideo ? (
+                <div className="w-full h-full flex flex-col items-center justify-center gap-4">
+                    <video ref={previewVideoRef} src={blobUrls.get(selectedVideo.id)} controls playsInline className="max-w-full max-h-[80%] rounded-md bg-black"/>
+                    {selectedAudio && <audio ref={previewAudioRef} src={blobUrls.get(selectedAudio.id)} preload="auto" />}
+                    <button onClick={handlePreview} disabled={!selectedAudio} className="flex items-center gap-2 bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-6 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50">
+                        <PlayIcon className="w-4 h-4"/> Preview Timing
+                    </button>
+                </div>
+            ) : (
+                <div className="text-center text-neutral-500 dark:text-neutral-600">
+                    <MicIcon className="w-16 h-16 mx-auto" />
+                    <p>Your narrated video will appear here.</p>
+                </div>
+            )}
+        </>
+    );
+
+    return <TwoColumnLayout leftPanel={leftPanel} rightPanel={rightPanel} language={language} />;
+};
+
+export default VoiceOverMixerView;
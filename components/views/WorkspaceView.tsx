@@ -0,0 +1,474 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+    getMyWorkspaces, createWorkspace, deleteWorkspace, getWorkspaceMembers, inviteWorkspaceMember,
+    removeWorkspaceMember, getPendingInvites, respondToInvite, getWorkspaceItems, shareHistoryItemToWorkspace,
+    uploadBrandAsset, deleteWorkspaceItem, downloadWorkspaceItem, saveWorkspaceItemToHistory
+} from '../../services/workspaceService';
+import { getHistory } from '../../services/historyService';
+import {
+    type User, type HistoryItem, type Workspace, type WorkspaceMember, type WorkspaceInvite, type WorkspaceItem
+} from '../../types';
+import {
+    AudioIcon, CheckCircleIcon, DownloadIcon, FileTextIcon, GalleryIcon, PlusIcon, TrashIcon, UploadIcon, UsersIcon, XIcon
+} from '../Icons';
+import Tabs, { type Tab } from '../common/Tabs';
+import Spinner from '../common/Spinner';
+
+interface WorkspaceViewProps {
+    currentUser: User;
+}
+
+type WorkspaceTabId = 'library' | 'members';
+type LibraryFilter = 'all' | 'images' | 'videos' | 'audio' | 'text' | 'brand';
+
+const libraryFilters: { id: LibraryFilter; label: string }[] = [
+    { id: 'all', label: 'All' },
+    { id: 'images', label: 'Images' },
+    { id: 'videos', label: 'Videos' },
+    { id: 'audio', label: 'Audio' },
+    { id: 'text', label: 'Copy & Storyboards' },
+    { id: 'brand', label: 'Brand Assets' },
+];
+
+const matchesFilter = (item: WorkspaceItem, filter: LibraryFilter): boolean => {
+    switch (filter) {
+        case 'images': return item.type === 'Image' || item.type === 'Canvas';
+        case 'videos': return item.type === 'Video';
+        case 'audio': return item.type === 'Audio';
+        case 'text': return item.type === 'Copy' || item.type === 'Storyboard';
+        case 'brand': return item.kind === 'brand_asset';
+        default: return true;
+    }
+};
+
+const getErrorMessage = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+const inputClasses = "w-full bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none";
+
+// --- History Picker ---
+
+const HistoryPicker: React.FC<{ onPick: (item: HistoryItem) => Promise<void>; onClose: () => void }> = ({ onPick, onClose }) => {
+    const [items, setItems] = useState<HistoryItem[] | null>(null);
+    const [sharingId, setSharingId] = useState<string | null>(null);
+    const [sharedIds, setSharedIds] = useState<string[]>([]);
+    const [urls, setUrls] = useState(new Map<string, string>());
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const createdUrls = new Map<string, string>();
+        getHistory().then(history => {
+            const available = history.filter(item => item.result !== 'unavailable');
+            available.forEach(item => {
+                if (item.result instanceof Blob) createdUrls.set(item.id, URL.createObjectURL(item.result));
+            });
+            setUrls(createdUrls);
+            setItems(available);
+        });
+        return () => createdUrls.forEach(url => URL.revokeObjectURL(url));
+    }, []);
+
+    const handlePick = async (item: HistoryItem) => {
+        setSharingId(item.id);
+        setError(null);
+        try {
+            await onPick(item);
+            setSharedIds(prev => [...prev, item.id]);
+        } catch (e) {
+            setError(getErrorMessage(e));
+        } finally {
+            setSharingId(null);
+        }
+    };
+
+    const renderThumb = (item: HistoryItem) => {
+        if (item.type === 'Image' || item.type === 'Canvas') {
+            return <img src={`data:image/png;base64,${item.result as string}`} alt={item.prompt} className="w-full h-full object-cover"/>;
+        }
+        if (item.type === 'Video') {
+            return <video src={urls.get(item.id)} className="w-full h-full object-cover bg-black" muted playsInline/>;
+        }
+        return (
+            <div className="w-full h-full flex flex-col items-center justify-center gap-2 p-2 text-neutral-500">
+                {item.type === 'Audio' ? <AudioIcon className="w-8 h-8"/> : <FileTextIcon className="w-8 h-8"/>}
+                <span className="text-xs line-clamp-3 text-center">{item.prompt}</span>
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-zoomIn p-4" onClick={onClose} role="dialog" aria-modal="true">
+            <div className="bg-white dark:bg-neutral-900 rounded-lg shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col p-6" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold">Share from My History</h2>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-neutral-200 dark:hover:bg-neutral-700"><XIcon className="w-6 h-6"/></button>
+                </div>
+                {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+                <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar">
+                    {items === null ? (
+                        <div className="flex h-full items-center justify-center"><Spinner /></div>
+                    ) : items.length === 0 ? (
+                        <p className="text-center text-neutral-500 py-20">Your history is empty.</p>
+                    ) : (
+                        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                            {items.map(item => (
+                                <button
+                                    key={item.id}
+                                    onClick={() => handlePick(item)}
+                                    disabled={!!sharingId || sharedIds.includes(item.id)}
+                                    className="relative aspect-square rounded-md overflow-hidden bg-neutral-100 dark:bg-neutral-800 group"
+                                >
+                                    {renderThumb(item)}
+                                    <span className="absolute top-2 left-2 text-[10px] font-semibold px-1.5 py-0.5 rounded bg-black/60 text-white">{item.type}</span>
+                                    <div className={`absolute inset-0 flex items-center justify-center transition-colors ${sharedIds.includes(item.id) ? 'bg-black/50' : 'group-hover:bg-black/30'}`}>
+                                        {sharingId === item.id && <Spinner />}
+                                        {sharedIds.includes(item.id) && <CheckCircleIcon className="w-8 h-8 text-green-400"/>}
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Main View ---
+
+const WorkspaceView: React.FC<WorkspaceViewProps> = ({ currentUser }) => {
+    const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+    const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [members, setMembers] = useState<WorkspaceMember[]>([]);
+    const [items, setItems] = useState<WorkspaceItem[]>([]);
+    const [activeTab, setActiveTab] = useState<WorkspaceTabId>('library');
+    const [filter, setFilter] = useState<LibraryFilter>('all');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isLoadingWorkspace, setIsLoadingWorkspace] = useState(false);
+    const [busyItemId, setBusyItemId] = useState<string | null>(null);
+    const [savedItemIds, setSavedItemIds] = useState<string[]>([]);
+    const [newWorkspaceName, setNewWorkspaceName] = useState('');
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [isPickingHistory, setIsPickingHistory] = useState(false);
+    const [isUploading, setIsUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const activeWorkspace = workspaces.find(w => w.id === activeId) || null;
+    const isOwner = activeWorkspace?.ownerId === currentUser.id;
+
+    const refreshWorkspaces = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const [mine, pending] = await Promise.all([getMyWorkspaces(), getPendingInvites()]);
+            setWorkspaces(mine);
+            setInvites(pending);
+            setActiveId(prev => mine.some(w => w.id === prev) ? prev : mine[0]?.id || null);
+        } catch (e) {
+            setError(`Could not load workspaces. ${getErrorMessage(e)}`);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    const refreshWorkspace = useCallback(async (workspaceId: string) => {
+        setIsLoadingWorkspace(true);
+        try {
+            const [workspaceMembers, workspaceItems] = await Promise.all([getWorkspaceMembers(workspaceId), getWorkspaceItems(workspaceId)]);
+            setMembers(workspaceMembers);
+            setItems(workspaceItems);
+        } catch (e) {
+            setError(getErrorMessage(e));
+        } finally {
+            setIsLoadingWorkspace(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshWorkspaces();
+    }, [refreshWorkspaces]);
+
+    useEffect(() => {
+        setMembers([]);
+        setItems([]);
+        setSavedItemIds([]);
+        if (activeId) refreshWorkspace(activeId);
+    }, [activeId, refreshWorkspace]);
+
+    const filteredItems = useMemo(() => items.filter(item => matchesFilter(item, filter)), [items, filter]);
+
+    // Wraps an action so that its error is shown in the view instead of being thrown.
+    const run = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (e) {
+            setError(getErrorMessage(e));
+        }
+    };
+
+    const handleCreateWorkspace = () => run(async () => {
+        const workspace = await createWorkspace(newWorkspaceName);
+        setWorkspaces(prev => [...prev, workspace]);
+        setActiveId(workspace.id);
+        setNewWorkspaceName('');
+    });
+
+    const handleRespond = (invite: WorkspaceInvite, accept: boolean) => run(async () => {
+        await respondToInvite(invite, accept);
+        await refreshWorkspaces();
+        if (accept) setActiveId(invite.workspace.id);
+    });
+
+    const handleInvite = () => run(async () => {
+        if (!activeWorkspace) return;
+        const member = await inviteWorkspaceMember(activeWorkspace, inviteEmail);
+        setMembers(prev => [...prev, member]);
+        setInviteEmail('');
+    });
+
+    const handleRemoveMember = (member: WorkspaceMember) => run(async () => {
+        if (!activeWorkspace) return;
+        const isSelf = member.userId === currentUser.id;
+        const question = isSelf ? `Leave "${activeWorkspace.name}"?` : `Remove ${member.fullName || member.email} from "${activeWorkspace.name}"?`;
+        if (!window.confirm(question)) return;
+        await removeWorkspaceMember(activeWorkspace, member);
+        if (isSelf) {
+            await refreshWorkspaces();
+        } else {
+            setMembers(prev => prev.filter(m => m.id !== member.id));
+        }
+    });
+
+    const handleDeleteWorkspace = () => run(async () => {
+        if (!activeWorkspace || !window.confirm(`Delete "${activeWorkspace.name}" and everything shared in it? This cannot be undone.`)) return;
+        await deleteWorkspace(activeWorkspace);
+        await refreshWorkspaces();
+    });
+
+    // Errors are shown by the picker, which stays open on top of the view.
+    const handleShareFromHistory = async (historyItem: HistoryItem) => {
+        if (!activeId) return;
+        const shared = await shareHistoryItemToWorkspace(activeId, historyItem);
+        setItems(prev => [shared, ...prev]);
+    };
+
+    const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (!activeId || files.length === 0) return;
+        setIsUploading(true);
+        run(async () => {
+            for (const file of files) {
+                const shared = await uploadBrandAsset(activeId, file);
+                setItems(prev => [shared, ...prev]);
+            }
+        }).finally(() => setIsUploading(false));
+    };
+
+    const handleItemAction = (item: WorkspaceItem, action: () => Promise<void>) => {
+        setBusyItemId(item.id);
+        run(action).finally(() => setBusyItemId(null));
+    };
+
+    const handleDownload = (item: WorkspaceItem) => handleItemAction(item, async () => {
+        const blob = await downloadWorkspaceItem(item);
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = item.storagePath?.split('/').pop() || `monoklix-${item.type.toLowerCase()}-${item.id}.txt`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    });
+
+    const handleSaveToHistory = (item: WorkspaceItem) => handleItemAction(item, async () => {
+        await saveWorkspaceItemToHistory(item);
+        setSavedItemIds(prev => [...prev, item.id]);
+    });
+
+    const handleDeleteItem = (item: WorkspaceItem) => {
+        if (!activeWorkspace || !window.confirm("Remove this item from the workspace library?")) return;
+        handleItemAction(item, async () => {
+            await deleteWorkspaceItem(activeWorkspace, item);
+            setItems(prev => prev.filter(i => i.id !== item.id));
+        });
+    };
+
+    const renderItemPreview = (item: WorkspaceItem) => {
+        if (!item.storagePath) {
+            return <pre className="w-full h-full p-3 text-xs whitespace-pre-wrap font-sans overflow-hidden text-neutral-600 dark:text-neutral-300">{item.textContent}</pre>;
+        }
+        if (!item.url) {
+            return <div className="w-full h-full flex items-center justify-center text-xs text-neutral-500">Preview unavailable</div>;
+        }
+        if (item.type === 'Video') return <video src={item.url} className="w-full h-full object-cover bg-black" controls playsInline/>;
+        if (item.type === 'Audio') {
+            return (
+                <div className="w-full h-full flex flex-col items-center justify-center gap-3 p-3">
+                    <AudioIcon className="w-10 h-10 text-neutral-400"/>
+                    <audio src={item.url} controls className="w-full"/>
+                </div>
+            );
+        }
+        return <img src={item.url} alt={item.prompt} className="w-full h-full object-cover"/>;
+    };
+
+    const tabs: Tab<WorkspaceTabId>[] = [
+        { id: 'library', label: 'Library', count: items.length },
+        { id: 'members', label: 'Members', count: members.filter(m => m.status === 'active').length },
+    ];
+
+    if (isLoading) {
+        return <div className="flex-1 flex items-center justify-center"><Spinner /></div>;
+    }
+
+    return (
+        <div className="flex-1 flex flex-col min-h-0 overflow-y-auto pr-2 custom-scrollbar space-y-6">
+            {invites.length > 0 && (
+                <div className="space-y-2">
+                    {invites.map(invite => (
+                        <div key={invite.member.id} className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg bg-primary-50 dark:bg-primary-900/20 border border-primary-200 dark:border-primary-800">
+                            <p className="text-sm">You've been invited to join <strong>{invite.workspace.name}</strong>.</p>
+                            <div className="flex gap-2">
+                                <button onClick={() => handleRespond(invite, true)} className="bg-primary-600 text-white font-semibold py-1.5 px-4 rounded-lg text-sm hover:bg-primary-700 transition-colors">Accept</button>
+                                <button onClick={() => handleRespond(invite, false)} className="bg-neutral-200 dark:bg-neutral-700 font-semibold py-1.5 px-4 rounded-lg text-sm hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors">Decline</button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-end gap-4">
+                {workspaces.length > 0 && (
+                    <div className="min-w-[12rem]">
+                        <label className="block text-sm font-medium mb-1">Workspace</label>
+                        <select value={activeId || ''} onChange={e => setActiveId(e.target.value)} className={inputClasses}>
+                            {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                        </select>
+                    </div>
+                )}
+                <div className="flex gap-2 items-end">
+                    <div>
+                        <label className="block text-sm font-medium mb-1">New Workspace</label>
+                        <input type="text" value={newWorkspaceName} onChange={e => setNewWorkspaceName(e.target.value)} placeholder="e.g., Agency Team" className={inputClasses}/>
+                    </div>
+                    <button onClick={handleCreateWorkspace} disabled={!newWorkspaceName.trim()} className="flex items-center gap-2 bg-primary-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50">
+                        <PlusIcon className="w-4 h-4"/> Create
+                    </button>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            {!activeWorkspace ? (
+                <div className="flex-1 flex items-center justify-center text-center text-neutral-500 dark:text-neutral-400 py-12">
+                    <div>
+                        <div className="inline-block p-4 bg-neutral-100 dark:bg-neutral-800/50 rounded-full mb-4"><UsersIcon className="w-10 h-10"/></div>
+                        <p className="font-semibold">No Workspaces Yet</p>
+                        <p className="text-sm">Create a workspace and invite your team to share outputs and brand assets.</p>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    <div className="flex justify-center">
+                        <Tabs tabs={tabs} activeTab={activeTab} setActiveTab={setActiveTab} />
+                    </div>
+
+                    {isLoadingWorkspace ? (
+                        <div className="flex justify-center py-12"><Spinner /></div>
+                    ) : activeTab === 'library' ? (
+                        <div className="space-y-4">
+                            <div className="flex flex-wrap justify-between items-center gap-3">
+                                <div className="flex flex-wrap gap-2">
+                                    {libraryFilters.map(f => (
+                                        <button key={f.id} onClick={() => setFilter(f.id)} className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${filter === f.id ? 'bg-primary-600 text-white' : 'bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600'}`}>
+                                            {f.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="flex gap-2">
+                                    <button onClick={() => setIsPickingHistory(true)} className="flex items-center gap-2 bg-primary-600 text-white font-semibold py-2 px-4 rounded-lg text-sm hover:bg-primary-700 transition-colors">
+                                        <GalleryIcon className="w-4 h-4"/> Share from History
+                                    </button>
+                                    <button onClick={() => fileInputRef.current?.click()} disabled={isUploading} className="flex items-center gap-2 bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-4 rounded-lg text-sm hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50">
+                                        {isUploading ? <Spinner /> : <UploadIcon className="w-4 h-4"/>} Upload Brand Asset
+                                    </button>
+                                    <input ref={fileInputRef} type="file" accept="image/*,video/*,audio/*" multiple className="hidden" onChange={handleUpload}/>
+                                </div>
+                            </div>
+
+                            {filteredItems.length === 0 ? (
+                                <p className="text-center text-neutral-500 py-12">Nothing shared here yet.</p>
+                            ) : (
+                                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                                    {filteredItems.map(item => (
+                                        <div key={item.id} className="rounded-lg border border-neutral-200 dark:border-neutral-800 overflow-hidden flex flex-col">
+                                            <div className="relative aspect-square bg-neutral-100 dark:bg-neutral-800">
+                                                {renderItemPreview(item)}
+                                                {item.kind === 'brand_asset' && <span className="absolute top-2 left-2 text-[10px] font-semibold px-1.5 py-0.5 rounded bg-primary-600 text-white">Brand Asset</span>}
+                                            </div>
+                                            <div className="p-3 space-y-2 flex-1 flex flex-col">
+                                                <p className="text-sm line-clamp-2" title={item.prompt}>{item.prompt}</p>
+                                                <p className="text-xs text-neutral-500">
+                                                    Shared by {item.sharedBy === currentUser.id ? 'you' : item.sharedByName} · {new Date(item.createdAt).toLocaleDateString()}
+                                                </p>
+                                                <div className="flex gap-2 mt-auto pt-1">
+                                                    <button onClick={() => handleSaveToHistory(item)} disabled={busyItemId === item.id || savedItemIds.includes(item.id)} className="flex-1 flex items-center justify-center gap-1 text-xs font-semibold py-1.5 rounded-lg bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-60">
+                                                        {savedItemIds.includes(item.id) ? <><CheckCircleIcon className="w-3 h-3 text-green-500"/> Saved</> : 'Save to My Gallery'}
+                                                    </button>
+                                                    <button onClick={() => handleDownload(item)} disabled={busyItemId === item.id} title="Download" className="p-1.5 rounded-lg bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors">
+                                                        {busyItemId === item.id ? <Spinner /> : <DownloadIcon className="w-4 h-4"/>}
+                                                    </button>
+                                                    {(isOwner || item.sharedBy === currentUser.id) && (
+                                                        <button onClick={() => handleDeleteItem(item)} disabled={busyItemId === item.id} title="Remove" className="p-1.5 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors">
+                                                            <TrashIcon className="w-4 h-4"/>
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="max-w-2xl mx-auto w-full space-y-4">
+                            {isOwner && (
+                                <div className="flex gap-2">
+                                    <input type="email" value={inviteEmail} onChange={e => setInviteEmail(e.target.value)} placeholder="member@email.com" className={inputClasses}/>
+                                    <button onClick={handleInvite} disabled={!inviteEmail.trim()} className="flex-shrink-0 bg-primary-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50">Invite</button>
+                                </div>
+                            )}
+                            <ul className="divide-y divide-neutral-200 dark:divide-neutral-800">
+                                {members.map(member => (
+                                    <li key={member.id} className="flex items-center justify-between gap-3 py-3">
+                                        <div>
+                                            <p className="text-sm font-semibold">{member.fullName || member.email}{member.userId === currentUser.id && ' (you)'}</p>
+                                            <p className="text-xs text-neutral-500">{member.email} · {member.role === 'owner' ? 'Owner' : member.status === 'invited' ? 'Invited' : 'Member'}</p>
+                                        </div>
+                                        {member.role !== 'owner' && (isOwner || member.userId === currentUser.id) && (
+                                            <button onClick={() => handleRemoveMember(member)} className="text-sm text-red-500 hover:underline">
+                                                {member.userId === currentUser.id ? 'Leave' : member.status === 'invited' ? 'Cancel Invite' : 'Remove'}
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                            {isOwner && (
+                                <button onClick={handleDeleteWorkspace} className="flex items-center gap-2 text-sm text-red-500 hover:underline">
+                                    <TrashIcon className="w-4 h-4"/> Delete Workspace
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </>
+            )}
+
+            {isPickingHistory && <HistoryPicker onPick={handleShareFromHistory} onClose={() => setIsPickingHistory(false)} />}
+        </div>
+    );
+};
+
+export default WorkspaceView;
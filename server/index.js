@@ -1,6 +1,12 @@
 import express from 'express';
 import cors from 'cors';
 import fetch from 'node-fetch';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID, createHash } from 'crypto';
+import { fork } from 'child_process';
+import { fileURLToPath } from 'url';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -447,6 +453,404 @@ app.get('/api/veo/download-video', async (req, res) => {
   }
 });
 
+// ===============================
+// 🎞️ RENDER ENDPOINTS
+// ===============================
+// Media is uploaded first, then processed by a forked
+// worker process. Jobs live in memory; their files are swept after RENDER_TTL_MS.
+const RENDER_DIR = process.env.RENDER_DIR || path.join(os.tmpdir(), 'monoklix-renders');
+const RENDER_UPLOADS_DIR = path.join(RENDER_DIR, 'uploads');
+const RENDER_JOBS_DIR = path.join(RENDER_DIR, 'jobs');
+const RENDER_WORKER_PATH = fileURLToPath(new URL('./renderWorker.js', import.meta.url));
+const MAX_CONCURRENT_RENDERS = Number(process.env.MAX_CONCURRENT_RENDERS) || 2;
+const MAX_RENDER_CLIPS = 50;
+const MAX_SUBTITLES_LENGTH = 2 * 1024 * 1024;
+const RENDER_TTL_MS = 60 * 60 * 1000;
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/;
+// A generated clip is a few MB; this leaves room for long combined videos and audio tracks.
+const MAX_RENDER_UPLOAD_MB = Number(process.env.MAX_RENDER_UPLOAD_MB) || 150;
+// Caps on what is kept in the uploads directory between sweeps, overall and per token.
+const MAX_RENDER_UPLOADS_TOTAL_BYTES = (Number(process.env.MAX_RENDER_UPLOADS_TOTAL_MB) || 5120) * 1024 * 1024;
+const MAX_RENDER_UPLOADS_PER_CLIENT_BYTES = (Number(process.env.MAX_RENDER_UPLOADS_PER_CLIENT_MB) || 1024) * 1024 * 1024;
+// Render callers are looked up in the app's Supabase `users` table by their personal auth token.
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const RENDER_AUTH_CACHE_MS = 5 * 60 * 1000;
+const INACTIVE_USER_STATUSES = ['inactive', 'pending_payment'];
+
+fs.mkdirSync(RENDER_UPLOADS_DIR, { recursive: true });
+fs.mkdirSync(RENDER_JOBS_DIR, { recursive: true });
+
+const renderJobs = new Map();
+// uploadId -> { owner, size }. Uploads are only usable by, and counted against, their owner.
+const renderUploads = new Map();
+// Token hash -> { userId, expiresAt }, so polling a job doesn't hit Supabase every time.
+const renderAuthCache = new Map();
+const renderQueue = [];
+let activeRenders = 0;
+
+const toPublicRenderJob = (job) => ({
+  id: job.id,
+  status: job.status,
+  message: job.message,
+  error: job.error,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  downloadUrl: job.status === 'completed' ? `/api/render/jobs/${job.id}/download` : null,
+});
+
+const updateRenderJob = (job, changes) => {
+  Object.assign(job, changes, { updatedAt: Date.now() });
+};
+
+// Returns the id of the active user whose personal auth token this is, or null.
+const findRenderUser = async (authToken) => {
+  const tokenHash = createHash('sha256').update(authToken).digest('hex');
+  const cached = renderAuthCache.get(tokenHash);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.userId;
+  }
+
+  const query = new URLSearchParams({ select: 'id,status', personal_auth_token: `eq.${authToken}`, limit: '1' });
+  const response = await fetch(`${SUPABASE_URL}/rest/v1/users?${query}`, {
+    headers: {
+      'apikey': SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`User lookup failed (${response.status})`);
+  }
+  const [user] = await response.json();
+  if (!user || INACTIVE_USER_STATUSES.includes(user.status)) {
+    renderAuthCache.delete(tokenHash);
+    return null;
+  }
+  renderAuthCache.set(tokenHash, { userId: user.id, expiresAt: Date.now() + RENDER_AUTH_CACHE_MS });
+  return user.id;
+};
+
+// Render routes run ffmpeg on this machine, so unlike the proxy routes (where Google checks
+// the token) the caller must be an active app user. Uploads and jobs belong to that user.
+const requireRenderAuth = async (req, res, next) => {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return res.status(503).json({ error: 'Rendering is not configured on this server.' });
+  }
+  const authToken = req.headers.authorization?.replace('Bearer ', '').trim();
+  if (!authToken) {
+    return res.status(401).json({ error: 'Authorization token is required.' });
+  }
+  try {
+    const userId = await findRenderUser(authToken);
+    if (!userId) {
+      return res.status(401).json({ error: 'Invalid or inactive authorization token.' });
+    }
+    req.renderClientId = userId;
+    next();
+  } catch (error) {
+    log('error', req, '❌ Render auth error:', error.message);
+    res.status(503).json({ error: 'Could not verify the authorization token. Please try again.' });
+  }
+};
+
+const getUploadsDirSize = async () => {
+  const names = await fs.promises.readdir(RENDER_UPLOADS_DIR).catch(() => []);
+  let total = 0;
+  for (const name of names) {
+    const stats = await fs.promises.stat(path.join(RENDER_UPLOADS_DIR, name)).catch(() => null);
+    total += stats?.size ?? 0;
+  }
+  return total;
+};
+
+const getClientUploadSize = (clientId) => {
+  let total = 0;
+  for (const upload of renderUploads.values()) {
+    if (upload.owner === clientId) total += upload.size;
+  }
+  return total;
+};
+
+// Answered with 404, so callers can't tell someone else's upload from a missing one.
+class RenderInputNotFoundError extends Error {}
+
+// Turns a client clip reference into something the worker can read. Only the caller's own
+// uploads are accepted, so the worker never fetches URLs or reads files chosen by the client.
+const resolveRenderInput = (ref, owner) => {
+  if (typeof ref?.uploadId !== 'string') {
+    throw new Error('Each input must have an uploadId.');
+  }
+  const filePath = path.join(RENDER_UPLOADS_DIR, ref.uploadId);
+  if (!UPLOAD_ID_PATTERN.test(ref.uploadId) || renderUploads.get(ref.uploadId)?.owner !== owner || !fs.existsSync(filePath)) {
+    throw new RenderInputNotFoundError(`Upload ${ref.uploadId} was not found or has expired.`);
+  }
+  return { path: filePath };
+};
+
+const getInputErrorStatus = (error) => error instanceof RenderInputNotFoundError ? 404 : 400;
+
+// Returns the caller's job with the given id, or undefined for a missing or foreign job.
+const getOwnedRenderJob = (req) => {
+  const job = renderJobs.get(req.params.id);
+  return job?.owner === req.renderClientId ? job : undefined;
+};
+
+const runRenderJob = (job) => {
+  activeRenders++;
+  updateRenderJob(job, { status: 'processing', message: 'Starting render worker...' });
+  log('log', null, `🎞️ [RENDER] ${job.type} job ${job.id} started`);
+
+  const worker = fork(RENDER_WORKER_PATH);
+
+  worker.on('message', (msg) => {
+    if (msg.type === 'progress') {
+      updateRenderJob(job, { message: msg.message });
+    } else if (msg.type === 'completed') {
+      updateRenderJob(job, { status: 'completed', message: null });
+      log('log', null, `✅ [RENDER] Job ${job.id} completed`);
+    } else if (msg.type === 'failed') {
+      updateRenderJob(job, { status: 'failed', message: null, error: msg.error });
+      log('error', null, `❌ [RENDER] Job ${job.id} failed:`, msg.error);
+    }
+  });
+
+  worker.on('exit', (code) => {
+    if (job.status === 'processing') {
+      updateRenderJob(job, { status: 'failed', message: null, error: `Render worker exited unexpectedly (code ${code}).` });
+      log('error', null, `❌ [RENDER] Worker for job ${job.id} exited with code ${code}`);
+    }
+    activeRenders--;
+    startQueuedRenders();
+  });
+
+  worker.send({
+    ...job.input,
+    uploadsDir: RENDER_UPLOADS_DIR,
+    type: job.type,
+    workDir: job.workDir,
+    outputPath: job.outputPath,
+  });
+};
+
+const startQueuedRenders = () => {
+  while (activeRenders < MAX_CONCURRENT_RENDERS && renderQueue.length > 0) {
+    runRenderJob(renderQueue.shift());
+  }
+};
+
+// Download names for each worker type's output, e.g. monoklix-combined-<id>.mp4.
+const RENDER_OUTPUT_PREFIXES = {
+  concat: 'monoklix-combined',
+  mix: 'monoklix-voiceover',
+  captions: 'monoklix-captioned',
+};
+
+// Creates a job of the given worker type ('concat' | 'mix' | 'captions') for a user and queues it.
+const queueRenderJob = async (type, input, owner) => {
+  const id = randomUUID();
+  const workDir = path.join(RENDER_JOBS_DIR, id);
+  await fs.promises.mkdir(workDir, { recursive: true });
+
+  const now = Date.now();
+  const job = {
+    id,
+    type,
+    owner,
+    status: 'queued',
+    message: 'Waiting for a free render worker...',
+    error: null,
+    input,
+    workDir,
+    outputPath: path.join(workDir, 'output.mp4'),
+    filenamePrefix: RENDER_OUTPUT_PREFIXES[type] ?? 'monoklix-render',
+    createdAt: now,
+    updatedAt: now,
+  };
+  renderJobs.set(id, job);
+  renderQueue.push(job);
+  startQueuedRenders();
+  return job;
+};
+
+// Reads an optional non-negative number from a request body, clamped to max.
+const readRenderNumber = (value, fallback, max) => {
+  const num = Number(value ?? fallback);
+  if (!Number.isFinite(num) || num < 0) {
+    throw new Error(`Invalid numeric option: ${value}`);
+  }
+  return Math.min(num, max);
+};
+
+const sweepRenderFiles = async () => {
+  const cutoff = Date.now() - RENDER_TTL_MS;
+
+  for (const [id, job] of renderJobs) {
+    if ((job.status === 'completed' || job.status === 'failed') && job.updatedAt < cutoff) {
+      renderJobs.delete(id);
+      await fs.promises.rm(job.workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  const uploads = await fs.promises.readdir(RENDER_UPLOADS_DIR).catch(() => []);
+  for (const name of uploads) {
+    const filePath = path.join(RENDER_UPLOADS_DIR, name);
+    const stats = await fs.promises.stat(filePath).catch(() => null);
+    if (!stats || stats.mtimeMs < cutoff) {
+      await fs.promises.rm(filePath, { force: true }).catch(() => {});
+      renderUploads.delete(name);
+    }
+  }
+};
+setInterval(() => { sweepRenderFiles(); }, 10 * 60 * 1000).unref();
+
+// 📤 UPLOAD A CLIP OR AUDIO TRACK (raw body)
+app.post('/api/render/uploads', requireRenderAuth, express.raw({ type: () => true, limit: `${MAX_RENDER_UPLOAD_MB}mb` }), async (req, res) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Request body must contain the media file.' });
+    }
+    if (getClientUploadSize(req.renderClientId) + req.body.length > MAX_RENDER_UPLOADS_PER_CLIENT_BYTES) {
+      return res.status(429).json({ error: 'Upload quota reached. Please try again once your earlier renders have expired.' });
+    }
+    if (await getUploadsDirSize() + req.body.length > MAX_RENDER_UPLOADS_TOTAL_BYTES) {
+      return res.status(507).json({ error: 'The render server is out of upload space. Please try again later.' });
+    }
+    const uploadId = randomUUID();
+    await fs.promises.writeFile(path.join(RENDER_UPLOADS_DIR, uploadId), req.body);
+    renderUploads.set(uploadId, { owner: req.renderClientId, size: req.body.length });
+    log('log', req, `📤 [RENDER UPLOAD] Stored ${(req.body.length / 1024 / 1024).toFixed(1)} MB as ${uploadId}`);
+    res.status(201).json({ uploadId });
+  } catch (error) {
+    log('error', req, '❌ Render upload error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 🎞️ START A CONCAT JOB
+app.post('/api/render/concat', requireRenderAuth, async (req, res) => {
+  log('log', req, '\n🎞️ ===== [RENDER] CONCAT REQUEST =====');
+  try {
+    const { clips, audio } = req.body || {};
+    if (!Array.isArray(clips) || clips.length < 2) {
+      return res.status(400).json({ error: 'At least 2 clips are required.' });
+    }
+    if (clips.length > MAX_RENDER_CLIPS) {
+      return res.status(400).json({ error: `A maximum of ${MAX_RENDER_CLIPS} clips can be combined.` });
+    }
+
+    let input;
+    try {
+      input = {
+        clips: clips.map(clip => resolveRenderInput(clip, req.renderClientId)),
+        audio: audio ? resolveRenderInput(audio, req.renderClientId) : null,
+      };
+    } catch (validationError) {
+      return res.status(getInputErrorStatus(validationError)).json({ error: validationError.message });
+    }
+
+    const job = await queueRenderJob('concat', input, req.renderClientId);
+    log('log', req, `✅ [RENDER] Job ${job.id} queued`);
+    res.status(202).json(toPublicRenderJob(job));
+  } catch (error) {
+    log('error', req, '❌ Render concat error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 🎙️ START A VOICE-OVER MIX JOB
+app.post('/api/render/mix', requireRenderAuth, async (req, res) => {
+  log('log', req, '\n🎙️ ===== [RENDER] MIX REQUEST =====');
+  try {
+    const { video, audio, options = {} } = req.body || {};
+    if (!video || !audio) {
+      return res.status(400).json({ error: 'Both a video and an audio track are required.' });
+    }
+
+    let input;
+    try {
+      input = {
+        video: resolveRenderInput(video, req.renderClientId),
+        audio: resolveRenderInput(audio, req.renderClientId),
+        options: {
+          offset: readRenderNumber(options.offset, 0, 600),
+          audioDuration: readRenderNumber(options.audioDuration, 0, 3600),
+          originalVolume: readRenderNumber(options.originalVolume, 1, 2),
+          duckedVolume: readRenderNumber(options.duckedVolume, 0.3, 2),
+          voiceVolume: readRenderNumber(options.voiceVolume, 1, 4),
+          fadeIn: readRenderNumber(options.fadeIn, 0, 30),
+          fadeOut: readRenderNumber(options.fadeOut, 0, 30),
+        },
+      };
+    } catch (validationError) {
+      return res.status(getInputErrorStatus(validationError)).json({ error: validationError.message });
+    }
+
+    const job = await queueRenderJob('mix', input, req.renderClientId);
+    log('log', req, `✅ [RENDER] Job ${job.id} queued`);
+    res.status(202).json(toPublicRenderJob(job));
+  } catch (error) {
+    log('error', req, '❌ Render mix error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 💬 START A BURNED-IN CAPTIONS JOB
+app.post('/api/render/captions', requireRenderAuth, async (req, res) => {
+  log('log', req, '\n💬 ===== [RENDER] CAPTIONS REQUEST =====');
+  try {
+    const { video, subtitles } = req.body || {};
+    if (!video) {
+      return res.status(400).json({ error: 'A video is required.' });
+    }
+    if (typeof subtitles !== 'string' || !subtitles.includes('[Events]')) {
+      return res.status(400).json({ error: 'subtitles must be an ASS subtitle script.' });
+    }
+    if (subtitles.length > MAX_SUBTITLES_LENGTH) {
+      return res.status(400).json({ error: 'The subtitle script is too long.' });
+    }
+
+    let input;
+    try {
+      input = { video: resolveRenderInput(video, req.renderClientId), subtitles };
+    } catch (validationError) {
+      return res.status(getInputErrorStatus(validationError)).json({ error: validationError.message });
+    }
+
+    const job = await queueRenderJob('captions', input, req.renderClientId);
+    log('log', req, `✅ [RENDER] Job ${job.id} queued`);
+    res.status(202).json(toPublicRenderJob(job));
+  } catch (error) {
+    log('error', req, '❌ Render captions error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 🔍 RENDER JOB STATUS
+app.get('/api/render/jobs/:id', requireRenderAuth, (req, res) => {
+  const job = getOwnedRenderJob(req);
+  if (!job) {
+    return res.status(404).json({ error: 'Render job not found or expired.' });
+  }
+  res.json(toPublicRenderJob(job));
+});
+
+// 📥 DOWNLOAD RENDER OUTPUT
+app.get('/api/render/jobs/:id/download', requireRenderAuth, (req, res) => {
+  const job = getOwnedRenderJob(req);
+  if (!job) {
+    return res.status(404).json({ error: 'Render job not found or expired.' });
+  }
+  if (job.status !== 'completed') {
+    return res.status(409).json({ error: `Render job is ${job.status}.` });
+  }
+  res.download(job.outputPath, `${job.filenamePrefix}-${job.id}.mp4`, (err) => {
+    if (err && !res.headersSent) {
+      log('error', req, '❌ Render download error:', err);
+      res.status(500).json({ error: 'Error sending rendered video' });
+    }
+  });
+});
+
 // ===============================
 // 🚀 SERVER START
 // ===============================
@@ -472,5 +876,12 @@ app.listen(PORT, '0.0.0.0', () => {
   logSystem('   POST /api/imagen/generate');
   logSystem('   POST /api/imagen/run-recipe');
   logSystem('   POST /api/imagen/upload');
+  logSystem('📋 RENDER Endpoints:');
+  logSystem('   POST /api/render/uploads');
+  logSystem('   POST /api/render/concat');
+  logSystem('   POST /api/render/mix');
+  logSystem('   POST /api/render/captions');
+  logSystem('   GET  /api/render/jobs/:id');
+  logSystem('   GET  /api/render/jobs/:id/download');
   logSystem('===================================\n');
 });
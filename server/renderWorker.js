@@ -0,0 +1,177 @@
+// Render worker: runs a single render job (concat, voice-over mix or captions) in its own
+// process so ffmpeg work never blocks the proxy's event loop. Forked by the
+// /api/render endpoints in index.js.
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+
+const send = (message) => new Promise(resolve => {
+  if (process.send) {
+    process.send(message, () => resolve());
+  } else {
+    resolve();
+  }
+});
+
+// Inputs are uploads already on disk; anything outside the uploads directory is refused.
+const resolveInput = (input, uploadsDir, name) => {
+  const filePath = path.resolve(input?.path ?? '');
+  if (!filePath.startsWith(path.resolve(uploadsDir) + path.sep)) {
+    throw new Error(`Input ${name} is not an uploaded file.`);
+  }
+  return filePath;
+};
+
+const runFfmpeg = (args, options = {}) => new Promise((resolve, reject) => {
+  const ffmpeg = spawn(FFMPEG_PATH, ['-hide_banner', '-y', ...args], options);
+  let stderrTail = '';
+
+  ffmpeg.stderr.on('data', (chunk) => {
+    const text = chunk.toString();
+    stderrTail = (stderrTail + text).slice(-2000);
+    const timeMatch = text.match(/time=(\d{2}:\d{2}:\d{2})/);
+    if (timeMatch) {
+      send({ type: 'progress', message: `Processing: ${timeMatch[1]}` });
+    }
+  });
+
+  ffmpeg.on('error', (err) => reject(new Error(`Could not start ffmpeg (${FFMPEG_PATH}): ${err.message}`)));
+  ffmpeg.on('close', (code) => {
+    if (code === 0) {
+      resolve();
+    } else {
+      const lastLine = stderrTail.trim().split('\n').pop();
+      reject(new Error(`ffmpeg exited with code ${code}: ${lastLine}`));
+    }
+  });
+});
+
+// `ffmpeg -i` without an output exits non-zero but still prints the stream list.
+const hasAudioStream = (filePath) => new Promise((resolve) => {
+  const ffmpeg = spawn(FFMPEG_PATH, ['-hide_banner', '-i', filePath]);
+  let stderr = '';
+  ffmpeg.stderr.on('data', (chunk) => { stderr += chunk.toString(); });
+  ffmpeg.on('error', () => resolve(false));
+  ffmpeg.on('close', () => resolve(/Stream #\d+:\d+.*: Audio:/.test(stderr)));
+});
+
+const escapeConcatPath = (filePath) => filePath.replace(/'/g, `'\\''`);
+
+const renderConcat = async ({ workDir, uploadsDir, clips, audio, outputPath }) => {
+  await send({ type: 'progress', message: 'Preparing clips...' });
+  const clipPaths = clips.map((clip, i) => resolveInput(clip, uploadsDir, `clip ${i + 1}`));
+  const audioPath = audio ? resolveInput(audio, uploadsDir, 'audio') : null;
+
+  const listPath = path.join(workDir, 'filelist.txt');
+  await fs.promises.writeFile(listPath, clipPaths.map(p => `file '${escapeConcatPath(p)}'`).join('\n'));
+
+  // The list only names local uploads; the whitelist stops it from reaching anything else.
+  const args = ['-f', 'concat', '-safe', '0', '-protocol_whitelist', 'file', '-i', listPath];
+  if (audioPath) {
+    // The audio track replaces the clips' own audio; it is padded with silence or cut to the video length.
+    args.push('-i', audioPath, '-map', '0:v:0', '-map', '1:a:0', '-af', 'apad', '-shortest');
+  }
+  args.push(
+    '-c:v', 'libx264',
+    '-preset', 'fast',
+    '-crf', '23',
+    '-c:a', 'aac',
+    '-b:a', '192k',
+    '-movflags', '+faststart',
+    outputPath
+  );
+
+  await send({ type: 'progress', message: 'Combining videos...' });
+  await runFfmpeg(args);
+};
+
+// Lays a voice-over on top of a video. The original audio is lowered to
+// duckedVolume while the voice-over plays and kept at originalVolume otherwise.
+const renderMix = async ({ uploadsDir, video, audio, options, outputPath }) => {
+  await send({ type: 'progress', message: 'Preparing media...' });
+  const videoPath = resolveInput(video, uploadsDir, 'video');
+  const audioPath = resolveInput(audio, uploadsDir, 'voice-over');
+
+  const { offset, audioDuration, originalVolume, duckedVolume, voiceVolume, fadeIn, fadeOut } = options;
+
+  const voiceFilters = [`volume=${voiceVolume}`];
+  if (fadeIn > 0) {
+    voiceFilters.push(`afade=t=in:st=0:d=${fadeIn}`);
+  }
+  if (fadeOut > 0 && audioDuration > fadeOut) {
+    voiceFilters.push(`afade=t=out:st=${audioDuration - fadeOut}:d=${fadeOut}`);
+  }
+  voiceFilters.push(`adelay=${Math.round(offset * 1000)}:all=1`, 'apad');
+
+  const filters = [`[1:a]${voiceFilters.join(',')}[voice]`];
+  let audioLabel = '[voice]';
+
+  if (await hasAudioStream(videoPath)) {
+    // Without a known duration, keep the original ducked from the offset to the end.
+    const duckWindow = audioDuration > 0 ? `between(t,${offset},${offset + audioDuration})` : `gte(t,${offset})`;
+    filters.push(`[0:a]volume='if(${duckWindow},${duckedVolume},${originalVolume})':eval=frame[orig]`);
+    filters.push('[orig][voice]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[mixed]');
+    audioLabel = '[mixed]';
+  }
+
+  await send({ type: 'progress', message: 'Mixing audio...' });
+  await runFfmpeg([
+    '-i', videoPath,
+    '-i', audioPath,
+    '-filter_complex', filters.join(';'),
+    '-map', '0:v:0',
+    '-map', audioLabel,
+    '-c:v', 'copy',
+    '-c:a', 'aac',
+    '-b:a', '192k',
+    '-shortest',
+    '-movflags', '+faststart',
+    outputPath,
+  ]);
+};
+
+// Burns an ASS subtitle script onto the video. ffmpeg runs inside the job
+// directory so the subtitles filter gets a plain relative path (filter
+// arguments would otherwise need ':' and '\\' escaping).
+const renderCaptions = async ({ workDir, uploadsDir, video, subtitles, outputPath }) => {
+  await send({ type: 'progress', message: 'Preparing media...' });
+  const videoPath = resolveInput(video, uploadsDir, 'video');
+  await fs.promises.writeFile(path.join(workDir, 'captions.ass'), subtitles);
+
+  await send({ type: 'progress', message: 'Burning in captions...' });
+  await runFfmpeg([
+    '-i', videoPath,
+    '-vf', 'ass=captions.ass',
+    '-map', '0:v:0',
+    '-map', '0:a?',
+    '-c:v', 'libx264',
+    '-preset', 'fast',
+    '-crf', '20',
+    '-c:a', 'copy',
+    '-movflags', '+faststart',
+    outputPath,
+  ], { cwd: workDir });
+};
+
+const renderers = {
+  concat: renderConcat,
+  mix: renderMix,
+  captions: renderCaptions,
+};
+
+process.once('message', async (job) => {
+  try {
+    const render = renderers[job.type];
+    if (!render) {
+      throw new Error(`Unknown render job type: ${job.type}`);
+    }
+    await render(job);
+    await send({ type: 'completed' });
+  } catch (error) {
+    await send({ type: 'failed', error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    process.exit(0);
+  }
+});
@@ -1,7 +1,9 @@
 import { addLogEntry } from './aiLogService';
-import { getAvailableServersForUser } from './userService';
-import { type User } from '../types';
-import { supabase } from './supabaseClient';
+import { getServerCandidates, rankServers, recordRequestResult, refreshServerHealth } from './proxyBalancer';
+import { type User, type GenerationPhase, type ProgressCallback } from '../types';
+import { waitForGenerationSlot } from './generationQueueService';
+import { isAbortError } from '../utils/abortUtils';
+import { createProgress } from '../utils/progressUtils';
 
 export const getVeoProxyUrl = (): string => {
   if (window.location.hostname === 'localhost') {
@@ -48,7 +50,10 @@ const getPersonalToken = (): { token: string; createdAt: string; } | null => {
     return null;
 };
 
-const getCurrentUserInternal = (): User | null => {
+/**
+ * Returns the signed-in user saved in localStorage, or null if there is none.
+ */
+export const getCurrentUser = (): User | null => {
     try {
         const savedUserJson = localStorage.getItem('currentUser');
         if (savedUserJson) {
@@ -58,139 +63,167 @@ const getCurrentUserInternal = (): User | null => {
             }
         }
     } catch (error) {
-        console.error("Failed to parse user from localStorage for activity log.", error);
+        console.error("Failed to parse user from localStorage.", error);
     }
     return null;
 };
 
+// Gateway errors mean the proxy itself is down or overloaded, unlike API errors it relays.
+const GATEWAY_ERROR_STATUSES = [502, 503, 504];
+const MAX_SERVER_ATTEMPTS = 3;
+// Minimum gap between two generation slots on the same server.
+export const GENERATION_COOLDOWN_SECONDS = 10;
+
+// A response that came back with an error status. The status lets callers (e.g. the batch
+// scheduler) tell requests worth retrying from ones that will fail the same way again.
+class ApiResponseError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.status = status;
+    }
+}
+
+class ProxyGatewayError extends ApiResponseError {}
+// The request never got a response, so the proxy cannot have started any work for it.
+class ProxyConnectionError extends Error {}
+
+const isNetworkError = (message: string): boolean => {
+    const lower = message.toLowerCase();
+    return lower.includes('failed to fetch') || lower.includes('load failed') || lower.includes('networkerror');
+};
+
+/**
+ * Picks the servers to try for one request, best first. Each request gets its own list,
+ * so failing over never changes the server other generations (or the user's session) use.
+ */
+const getServersForRequest = async (serviceType: 'veo' | 'imagen', user: User | null): Promise<string[]> => {
+  const preferredUrl = serviceType === 'veo' ? getVeoProxyUrl() : getImagenProxyUrl();
+  if (window.location.hostname === 'localhost') {
+    return [preferredUrl];
+  }
+  const candidates = await getServerCandidates(user, preferredUrl);
+  await refreshServerHealth(candidates);
+  return rankServers(candidates, preferredUrl).slice(0, MAX_SERVER_ATTEMPTS);
+};
+
 export const executeProxiedRequest = async (
   relativePath: string,
   serviceType: 'veo' | 'imagen',
   requestBody: any,
   logContext: string,
   specificToken?: string,
-  onStatusUpdate?: (status: string) => void
-): Promise<{ data: any; successfulToken: string }> => {
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<{ data: any; successfulToken: string; server: string }> => {
   console.log(`[API Client] Starting process for: ${logContext}`);
+  signal?.throwIfAborted();
+
+  const currentUser = getCurrentUser();
+  const servers = await getServersForRequest(serviceType, currentUser);
   
+  // Generations are paid and not idempotent: a gateway error doesn't mean the job wasn't
+  // submitted, so they only fail over when no response came back at all.
   const isGenerationRequest = logContext.includes('GENERATE') || logContext.includes('RECIPE');
-  if (isGenerationRequest) {
-    if (onStatusUpdate) onStatusUpdate('All slots are in use. You are in the queue...');
-    
-    const serverUrl = serviceType === 'veo' ? getVeoProxyUrl() : getImagenProxyUrl();
-
-    let slotAcquired = false;
-    while (!slotAcquired) {
-        const { data: acquired, error } = await supabase.rpc('request_generation_slot', { 
-            cooldown_seconds: 10,
-            server_url: serverUrl
-        });
-
-        if (error) {
-            console.error('Error requesting generation slot:', error);
-            if (onStatusUpdate) onStatusUpdate('');
-            throw new Error(`Database error while requesting a generation slot: ${error.message}`);
-        }
-        if (acquired) {
-            slotAcquired = true;
-        } else {
-            if (onStatusUpdate) onStatusUpdate('Retrying to get a slot in 2 seconds...');
-            await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-    }
-    if (onStatusUpdate) onStatusUpdate('Slot acquired successfully. Starting generation...');
+
+  let tokenToUse: { token: string; createdAt: string; } | null = null;
+  let tokenIdentifier: string;
+
+  if (specificToken) {
+      tokenToUse = { token: specificToken, createdAt: 'specific' };
+      tokenIdentifier = 'Provided Token';
+  } else {
+      tokenToUse = getPersonalToken();
+      if (!tokenToUse) {
+          const error = new Error(`Personal Auth Token is required for ${logContext}, but none was found.`);
+          addLogEntry({ model: logContext, prompt: `Request failed`, output: error.message, tokenCount: 0, status: 'Error', error: error.message });
+          throw error;
+      }
+      tokenIdentifier = 'Personal Token';
   }
-  
-  const originalServer = sessionStorage.getItem('selectedProxyServer');
+  const token = tokenToUse.token;
+
+  const phase: GenerationPhase = relativePath === '/upload' ? 'uploading' : relativePath === '/status' ? 'polling' : 'submitted';
 
-  const attemptFetch = async (attempt = 1): Promise<{ data: any; successfulToken: string }> => {
+  const attemptFetch = async (baseUrl: string, attempt: number): Promise<{ data: any; successfulToken: string; server: string }> => {
+    const endpoint = `${baseUrl}/api/${serviceType}${relativePath}`;
+
+    // The slot is taken on the server actually receiving the generation, including after a failover.
+    if (isGenerationRequest) {
+      await waitForGenerationSlot(baseUrl, GENERATION_COOLDOWN_SECONDS, onProgress, signal);
+    }
+
+    onProgress?.(createProgress(phase, { server: baseUrl, attempt }));
+    console.log(`[API Client] Attempting ${logContext} on ${baseUrl} with ${tokenIdentifier} (...${token.slice(-6)})`);
+    
+    let response: Response;
     try {
-        const baseUrl = serviceType === 'veo' ? getVeoProxyUrl() : getImagenProxyUrl();
-        const endpoint = `${baseUrl}/api/${serviceType}${relativePath}`;
-
-        let tokenToUse: { token: string; createdAt: string; } | null = null;
-        let tokenIdentifier: string;
-
-        if (specificToken) {
-            tokenToUse = { token: specificToken, createdAt: 'specific' };
-            tokenIdentifier = 'Provided Token';
-        } else {
-            tokenToUse = getPersonalToken();
-            if (!tokenToUse) {
-                throw new Error(`Personal Auth Token is required for ${logContext}, but none was found.`);
-            }
-            tokenIdentifier = 'Personal Token';
-        }
-        
-        const currentUser = getCurrentUserInternal();
-        if (onStatusUpdate) onStatusUpdate(`Attempting generation with ${tokenIdentifier}...`);
-        console.log(`[API Client] Attempting ${logContext} on ${baseUrl} with ${tokenIdentifier} (...${tokenToUse.token.slice(-6)})`);
-        
-        const response = await fetch(endpoint, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${tokenToUse.token}`,
-                'x-user-username': currentUser?.username || 'unknown',
-            },
-            body: JSON.stringify(requestBody),
-        });
-
-        const data = await response.json().catch(async () => {
-             const textResponse = await response.text();
-             return { error: { message: `Proxy returned non-JSON response (${response.status}): ${textResponse}` } };
-        });
-
-        console.log(`[API Client] Response for ${logContext} with ${tokenIdentifier}. Status: ${response.status}`);
-
-        if (!response.ok) {
-            const errorMessage = data.error?.message || data.message || `API call failed (${response.status})`;
-            throw new Error(errorMessage);
-        }
-        
-        console.log(`✅ [API Client] Success for ${logContext}`);
-        return { data, successfulToken: tokenToUse.token };
+      response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${token}`,
+              'x-user-username': currentUser?.username || 'unknown',
+          },
+          body: JSON.stringify(requestBody),
+          signal,
+      });
+    } catch (fetchError) {
+      if (isAbortError(fetchError)) throw fetchError;
+      throw new ProxyConnectionError(fetchError instanceof Error ? fetchError.message : String(fetchError));
+    }
 
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const isNetworkError = errorMessage.toLowerCase().includes('failed to fetch') || errorMessage.toLowerCase().includes('load failed');
-
-        if (isNetworkError && attempt < 2) {
-            console.warn(`[API Fallback] Network error for ${logContext}. Attempting fallback.`);
-            addLogEntry({ model: logContext, prompt: `Network Error - Retrying`, output: `Attempting fallback to another server...`, tokenCount: 0, status: 'Error', error: errorMessage });
-            if (onStatusUpdate) onStatusUpdate('Network error, trying a backup server...');
-
-            const currentUser = getCurrentUserInternal();
-            if (!currentUser) throw error;
-
-            const availableServers = await getAvailableServersForUser(currentUser);
-            const currentServer = sessionStorage.getItem('selectedProxyServer');
-            const otherServers = availableServers.filter(s => s !== currentServer);
-
-            if (otherServers.length > 0) {
-                const fallbackServer = otherServers[Math.floor(Math.random() * otherServers.length)];
-                console.log(`[API Fallback] Switching from ${currentServer} to fallback server: ${fallbackServer}`);
-                sessionStorage.setItem('selectedProxyServer', fallbackServer);
-                return attemptFetch(attempt + 1);
-            }
-        }
-        
-        // If it's not a network error, or it's a retry that failed, or no fallbacks exist, restore original server and throw.
-        if (originalServer) {
-            sessionStorage.setItem('selectedProxyServer', originalServer);
-        } else {
-            sessionStorage.removeItem('selectedProxyServer');
+    const data = await response.json().catch(async () => {
+         const textResponse = await response.text();
+         return { error: { message: `Proxy returned non-JSON response (${response.status}): ${textResponse}` } };
+    });
+
+    console.log(`[API Client] Response for ${logContext} with ${tokenIdentifier}. Status: ${response.status}`);
+
+    if (!response.ok) {
+        const errorMessage = data.error?.message || data.message || `API call failed (${response.status})`;
+        if (GATEWAY_ERROR_STATUSES.includes(response.status)) {
+            throw new ProxyGatewayError(errorMessage, response.status);
         }
-        throw error;
+        // The proxy answered, so the server is healthy even though the API call failed.
+        recordRequestResult(baseUrl, true);
+        throw new ApiResponseError(errorMessage, response.status);
     }
+    
+    recordRequestResult(baseUrl, true);
+    console.log(`✅ [API Client] Success for ${logContext}`);
+    return { data, successfulToken: token, server: baseUrl };
   };
 
-  try {
-    return await attemptFetch();
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`❌ [API Client] Request failed permanently for ${logContext}:`, errorMessage);
-    addLogEntry({ model: logContext, prompt: `Request failed`, output: errorMessage, tokenCount: 0, status: 'Error', error: errorMessage });
-    throw error;
+  for (let i = 0; i < servers.length; i++) {
+    const baseUrl = servers[i];
+    try {
+      return await attemptFetch(baseUrl, i + 1);
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.log(`[API Client] ${logContext} was cancelled.`);
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const isServerFailure = error instanceof ProxyGatewayError || error instanceof ProxyConnectionError || isNetworkError(errorMessage);
+      if (isServerFailure) {
+        recordRequestResult(baseUrl, false);
+      }
+
+      const canFailOver = isGenerationRequest ? error instanceof ProxyConnectionError : isServerFailure;
+      const nextServer = servers[i + 1];
+      if (canFailOver && nextServer) {
+        console.warn(`[API Fallback] Server error for ${logContext} on ${baseUrl}. Failing over to ${nextServer}.`);
+        addLogEntry({ model: logContext, prompt: `Server Error - Retrying`, output: `Failing over from ${baseUrl} to ${nextServer}...`, tokenCount: 0, status: 'Error', error: errorMessage });
+        continue;
+      }
+
+      console.error(`❌ [API Client] Request failed permanently for ${logContext}:`, errorMessage);
+      addLogEntry({ model: logContext, prompt: `Request failed`, output: errorMessage, tokenCount: 0, status: 'Error', error: errorMessage });
+      onProgress?.(createProgress('failed', { server: baseUrl, attempt: i + 1, detail: errorMessage }));
+      throw error;
+    }
   }
+  throw new Error(`No proxy server is available for ${logContext}.`);
 };
@@ -0,0 +1,308 @@
+/**
+ * Batch manifests: CSV or JSON files (optionally zipped together with their reference
+ * images) that describe one batch item per row, and the results manifest written back
+ * out after a run.
+ *
+ * Recognised columns, case- and punctuation-insensitive: prompt, negative_prompt,
+ * aspect_ratio, model, image (a file name inside the zip, or an http(s) URL), end_image
+ * (the last frame for keyframe videos, given the same way) and output_name. Only
+ * `prompt` is required.
+ */
+import { type BatchItem, type BatchItemResult } from '../types';
+import { MODELS } from './aiConfig';
+import { createZip, readZip, type ZipEntryInput } from '../utils/zipUtils';
+
+export const BATCH_ASPECT_RATIOS = ["9:16", "1:1", "16:9", "4:3", "3:4"];
+
+const COLUMN_ALIASES: Record<string, keyof BatchItem | 'imageRef' | 'endImageRef'> = {
+    prompt: 'prompt',
+    negativeprompt: 'negativePrompt',
+    aspectratio: 'aspectRatio',
+    model: 'model',
+    image: 'imageRef',
+    referenceimage: 'imageRef',
+    startimage: 'imageRef',
+    firstframe: 'imageRef',
+    endimage: 'endImageRef',
+    lastframe: 'endImageRef',
+    outputname: 'outputName',
+    filename: 'outputName',
+};
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+};
+
+export interface ParsedBatchManifest {
+    items: BatchItem[];
+    // Problems with individual rows that didn't stop the import, for the activity log.
+    warnings: string[];
+}
+
+type ManifestRow = Partial<Record<keyof BatchItem | 'imageRef' | 'endImageRef', string>>;
+
+export const isBatchManifestFile = (fileName: string) => /\.(csv|json|zip)$/i.test(fileName);
+
+const normalizeColumn = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Parses CSV text into rows of cells, handling quoted cells with commas, quotes and newlines.
+ */
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(c => c.trim()));
+};
+
+const csvToRows = (text: string): ManifestRow[] => {
+    const [header, ...records] = parseCsv(text.replace(/^﻿/, ''));
+    if (!header) return [];
+    const fields = header.map(name => COLUMN_ALIASES[normalizeColumn(name)]);
+    return records.map(record => {
+        const row: ManifestRow = {};
+        fields.forEach((field, i) => {
+            if (field && record[i]?.trim()) row[field] = record[i].trim();
+        });
+        return row;
+    });
+};
+
+const jsonToRows = (text: string): ManifestRow[] => {
+    const parsed = JSON.parse(text);
+    const records = Array.isArray(parsed) ? parsed : parsed?.items;
+    if (!Array.isArray(records)) {
+        throw new Error('A JSON manifest must be an array of rows, or an object with an "items" array.');
+    }
+    return records.map(record => {
+        const row: ManifestRow = {};
+        if (record && typeof record === 'object') {
+            Object.entries(record).forEach(([name, value]) => {
+                const field = COLUMN_ALIASES[normalizeColumn(name)];
+                if (field && value !== null && value !== undefined && String(value).trim()) row[field] = String(value).trim();
+            });
+        }
+        return row;
+    });
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+            if (typeof reader.result === 'string') {
+                resolve(reader.result.split(',')[1]);
+            } else {
+                reject(new Error("Failed to read blob as base64 string."));
+            }
+        };
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+const getBaseName = (path: string) => path.split('/').pop() ?? path;
+
+const resolveImage = async (ref: string, zipFiles: Map<string, Blob> | null): Promise<BatchItem['image']> => {
+    if (/^https?:\/\//i.test(ref)) {
+        const response = await fetch(ref);
+        if (!response.ok) throw new Error(`could not download ${ref} (${response.status})`);
+        const blob = await response.blob();
+        return { base64: await blobToBase64(blob), mimeType: blob.type || 'image/png' };
+    }
+
+    if (!zipFiles) throw new Error(`"${ref}" is a file name; upload the manifest and images together as a .zip`);
+    // Match the full path first, then just the file name, so images can live in a subfolder.
+    const match = zipFiles.get(ref)
+        ?? [...zipFiles.entries()].find(([path]) => getBaseName(path).toLowerCase() === getBaseName(ref).toLowerCase())?.[1];
+    if (!match) throw new Error(`"${ref}" was not found in the zip`);
+
+    const extension = ref.split('.').pop()?.toLowerCase() ?? '';
+    return { base64: await blobToBase64(match), mimeType: IMAGE_MIME_TYPES[extension] || 'image/png' };
+};
+
+const resolveModel = (value: string): string | null => {
+    const lower = value.toLowerCase();
+    const option = MODELS.videoGenerationOptions.find(o => o.id.toLowerCase() === lower || o.label.toLowerCase() === lower);
+    return option?.id ?? null;
+};
+
+/**
+ * Reads a CSV, JSON or zipped manifest into batch items. Rows without a prompt are
+ * skipped; unknown settings and missing images are dropped with a warning.
+ */
+export const parseBatchManifest = async (file: File): Promise<ParsedBatchManifest> => {
+    let zipFiles: Map<string, Blob> | null = null;
+    let manifestName = file.name;
+    let text: string;
+
+    if (/\.zip$/i.test(file.name)) {
+        zipFiles = await readZip(file);
+        const manifestPath = [...zipFiles.keys()]
+            .filter(path => /\.(csv|json)$/i.test(path) && !path.startsWith('__MACOSX/'))
+            .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+        if (!manifestPath) throw new Error('The zip does not contain a .csv or .json manifest.');
+        manifestName = manifestPath;
+        text = await zipFiles.get(manifestPath)!.text();
+    } else {
+        text = await file.text();
+    }
+
+    const rows = /\.json$/i.test(manifestName) ? jsonToRows(text) : csvToRows(text);
+    const items: BatchItem[] = [];
+    const warnings: string[] = [];
+
+    for (const [index, row] of rows.entries()) {
+        const rowLabel = `Row ${index + 1}`;
+        if (!row.prompt) {
+            warnings.push(`${rowLabel} has no prompt and was skipped.`);
+            continue;
+        }
+
+        const item: BatchItem = { prompt: row.prompt };
+        if (row.negativePrompt) item.negativePrompt = row.negativePrompt;
+        if (row.outputName) item.outputName = row.outputName;
+
+        if (row.aspectRatio) {
+            if (BATCH_ASPECT_RATIOS.includes(row.aspectRatio)) item.aspectRatio = row.aspectRatio;
+            else warnings.push(`${rowLabel}: unsupported aspect ratio "${row.aspectRatio}", using the batch setting.`);
+        }
+
+        if (row.model) {
+            const model = resolveModel(row.model);
+            if (model) item.model = model;
+            else warnings.push(`${rowLabel}: unknown model "${row.model}", using the default.`);
+        }
+
+        if (row.imageRef) {
+            try {
+                item.image = await resolveImage(row.imageRef, zipFiles);
+            } catch (error) {
+                warnings.push(`${rowLabel}: reference image skipped, ${error instanceof Error ? error.message : String(error)}.`);
+            }
+        }
+
+        if (row.endImageRef) {
+            try {
+                item.endImage = await resolveImage(row.endImageRef, zipFiles);
+            } catch (error) {
+                warnings.push(`${rowLabel}: end image skipped, ${error instanceof Error ? error.message : String(error)}.`);
+            }
+        }
+
+        items.push(item);
+    }
+
+    return { items, warnings };
+};
+
+const getSceneNumber = (index: number) => String(index + 1).padStart(3, '0');
+
+/**
+ * The file name a batch item's output is saved under: the row's `output_name` if it has
+ * one (made safe for file systems), otherwise its 1-based position, zero-padded.
+ */
+export const getBatchOutputName = (item: BatchItem, index: number, extension: string): string => {
+    const base = item.outputName
+        ? item.outputName.replace(/\.[a-z0-9]+$/i, '').replace(/[^\w\-. ]+/g, '_').trim()
+        : '';
+    return `${base || getSceneNumber(index)}.${extension}`;
+};
+
+const escapeCsvCell = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serialises the outcome of every batch row, in order, as CSV or JSON.
+ */
+export const buildResultsManifest = (items: BatchItem[], results: (BatchItemResult | undefined)[], format: 'csv' | 'json'): string => {
+    const rows = items.map((item, index) => {
+        const result = results[index];
+        return {
+            row: index + 1,
+            prompt: item.prompt,
+            status: result?.status ?? 'pending',
+            output: result?.status === 'success' ? result.outputName : '',
+            seed: result?.seed ?? null,
+            error: result?.error ?? '',
+        };
+    });
+
+    if (format === 'json') return JSON.stringify(rows, null, 2);
+
+    const header = ['row', 'prompt', 'status', 'output', 'seed', 'error'];
+    const lines = rows.map(row => [String(row.row), row.prompt, row.status, row.output, row.seed === null ? '' : String(row.seed), row.error].map(escapeCsvCell).join(','));
+    return [header.join(','), ...lines].join('\n');
+};
+
+/**
+ * Packs a finished batch into one zip: every generated file, prefixed with its scene
+ * number so editors get them in order, plus a manifest.json with each scene's prompt,
+ * settings, seed and error.
+ */
+export const buildBatchArchive = async (
+    items: BatchItem[],
+    results: (BatchItemResult | undefined)[],
+    outputs: Map<number, Blob>
+): Promise<Blob> => {
+    const entries: ZipEntryInput[] = [];
+    const scenes = items.map((item, index) => {
+        const result = results[index];
+        const output = outputs.get(index);
+        let file: string | null = null;
+        if (output && result) {
+            const sceneNumber = getSceneNumber(index);
+            file = result.outputName.startsWith(sceneNumber) ? result.outputName : `${sceneNumber}-${result.outputName}`;
+            entries.push({ name: file, data: output });
+        }
+        return {
+            scene: index + 1,
+            file,
+            prompt: item.prompt,
+            negativePrompt: item.negativePrompt ?? null,
+            aspectRatio: item.aspectRatio ?? null,
+            model: item.model ?? null,
+            seed: result?.seed ?? null,
+            status: result?.status ?? 'pending',
+            error: result?.error ?? null,
+        };
+    });
+
+    const manifest = { createdAt: new Date().toISOString(), scenes };
+    entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+    return createZip(entries);
+};
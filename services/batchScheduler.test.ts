@@ -0,0 +1,104 @@
+// Note: This file is for testing demonstration purposes and requires a test environment like Jest to run.
+
+import { describe, it, expect } from '@jest/globals';
+import { classifyBatchError, createBatchScheduler, MAX_JOBS_PER_TOKEN, type BatchSchedulerEvent } from './batchScheduler';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('batchScheduler', () => {
+  it('should classify safety, rate limit and auth errors', () => {
+    expect(classifyBatchError(new Error('Bad request: PUBLIC_ERROR_MINOR_FILTER'))).toBe('safety');
+    expect(classifyBatchError(new Error('[429] Too Many Requests'))).toBe('rateLimit');
+    expect(classifyBatchError(new Error('Request had invalid authentication credentials'))).toBe('fatal');
+    expect(classifyBatchError(new Error('Failed to fetch'))).toBe('retryable');
+  });
+
+  it('should only treat policy blocks as safety errors', () => {
+    expect(classifyBatchError(new Error('PUBLIC_ERROR_UNSAFE_GENERATION_FILTER'))).toBe('safety');
+    expect(classifyBatchError(new Error('The prompt violates our Responsible AI practices'))).toBe('safety');
+    expect(classifyBatchError(new Error('Proxy error 500: upstream content filter timed out'))).toBe('retryable');
+    expect(classifyBatchError(new Error('Request blocked by CORS policy'))).toBe('fatal');
+  });
+
+  it('should only retry network, timeout and server errors', () => {
+    const withStatus = (message: string, status: number) => Object.assign(new Error(message), { status });
+    expect(classifyBatchError(withStatus('Internal error encountered.', 500))).toBe('retryable');
+    expect(classifyBatchError(withStatus('Request contains an invalid argument.', 400))).toBe('fatal');
+    expect(classifyBatchError(new Error('Request timed out'))).toBe('retryable');
+    expect(classifyBatchError(new Error('Video generation did not return any output.'))).toBe('fatal');
+  });
+
+  it('should not treat video failures that only mention safety as policy blocks', () => {
+    expect(classifyBatchError(new Error('Video generation finished without an error, but no output was produced. This may happen if your request was blocked by safety policies.'))).not.toBe('safety');
+    expect(classifyBatchError(new Error('Video generation failed on the server. This often happens if your request was blocked by safety policies.'))).not.toBe('safety');
+    expect(classifyBatchError(new Error('Video generation failed on the server: MEDIA_GENERATION_STATUS_FAILED'))).not.toBe('safety');
+  });
+
+  it('should never run more jobs at once than one token allows', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const prompts = Array.from({ length: 10 }, (_, i) => `prompt ${i}`);
+
+    const scheduler = createBatchScheduler(prompts, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(10);
+      running--;
+    }, { concurrency: 50, maxRetries: 0, signal: new AbortController().signal });
+    await scheduler.run();
+
+    expect(maxRunning).toBe(MAX_JOBS_PER_TOKEN);
+  });
+
+  it('should re-queue a safety-blocked item once with the rephrased prompt', async () => {
+    const events: BatchSchedulerEvent[] = [];
+    const promptsRun: string[] = [];
+
+    const scheduler = createBatchScheduler(['a knife fight'], async (_, prompt) => {
+      promptsRun.push(prompt);
+      if (prompt === 'a knife fight') throw new Error('Bad request: PUBLIC_ERROR_UNSAFE_GENERATION_FILTER');
+    }, {
+      concurrency: 1,
+      maxRetries: 0,
+      rephrasePrompt: async () => 'a friendly cooking duel',
+      onEvent: event => events.push(event),
+      signal: new AbortController().signal,
+    });
+    await scheduler.run();
+
+    expect(promptsRun).toEqual(['a knife fight', 'a friendly cooking duel']);
+    expect(events).toContainEqual({ type: 'rephrased', index: 0, prompt: 'a friendly cooking duel' });
+    expect(events[events.length - 1]).toEqual({ type: 'succeeded', index: 0 });
+  });
+
+  it('should not start new jobs while paused', async () => {
+    const started: number[] = [];
+    const scheduler = createBatchScheduler(['a', 'b'], async index => {
+      started.push(index);
+    }, { concurrency: 1, maxRetries: 0, signal: new AbortController().signal });
+
+    scheduler.pause();
+    const run = scheduler.run();
+    await sleep(20);
+    expect(started).toEqual([]);
+
+    scheduler.resume();
+    await run;
+    expect(started).toEqual([0, 1]);
+  });
+
+  it('should report items that never started as cancelled when aborted', async () => {
+    const controller = new AbortController();
+    const events: BatchSchedulerEvent[] = [];
+    const scheduler = createBatchScheduler(['a', 'b', 'c'], async (_, __, signal) => {
+      await new Promise((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+    }, { concurrency: 1, maxRetries: 0, onEvent: event => events.push(event), signal: controller.signal });
+
+    const run = scheduler.run();
+    await sleep(10);
+    controller.abort();
+    await run;
+
+    expect(events.filter(e => e.type === 'cancelled').map(e => (e as { index: number }).index)).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Runs the items of a batch concurrently: at most MAX_JOBS_PER_TOKEN run at once, rate
+ * limits pause every worker, and failures are retried with backoff. Job starts are already
+ * spaced by the proxy's generation slot queue (see apiClient), so they aren't spaced here.
+ */
+import { isAbortError, abortableDelay } from '../utils/abortUtils';
+
+// A client-side cap on how many jobs one batch keeps in flight on a single auth token.
+// The proxy doesn't enforce it; it keeps a batch from starving the user's other tools.
+export const MAX_JOBS_PER_TOKEN = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+const RATE_LIMIT_DELAY_MS = 30000;
+
+export type BatchErrorKind = 'safety' | 'rateLimit' | 'retryable' | 'fatal';
+
+// The reasons the generation APIs give for a policy block, e.g. "PUBLIC_ERROR_UNSAFE_GENERATION_FILTER"
+// or "violates Responsible AI practices". Words like "safety", "filter" or "blocked" alone also
+// turn up in other failures (proxy, CORS, our own hints), where a rephrased prompt won't help.
+const SAFETY_ERROR_PATTERN = /public_error_\w*_filter|responsible ai/;
+// Failures that say nothing about the request itself, so the same request may succeed later.
+const TRANSIENT_ERROR_PATTERN = /failed to fetch|load failed|networkerror|network error|timed? ?out|econnreset|bad gateway|service unavailable|internal server error|\b5\d\d\b/;
+
+export type BatchSchedulerEvent =
+    | { type: 'started'; index: number; attempt: number }
+    | { type: 'succeeded'; index: number }
+    | { type: 'retrying'; index: number; attempt: number; delayMs: number; error: string }
+    | { type: 'rephrased'; index: number; prompt: string }
+    | { type: 'failed'; index: number; error: string }
+    | { type: 'cancelled'; index: number }
+    | { type: 'rateLimited'; delayMs: number };
+
+export interface BatchSchedulerOptions {
+    concurrency: number;
+    maxRetries: number;
+    // When set, a prompt blocked by a safety filter is rewritten once and the item re-queued.
+    rephrasePrompt?: (prompt: string, signal: AbortSignal) => Promise<string>;
+    onEvent?: (event: BatchSchedulerEvent) => void;
+    signal: AbortSignal;
+}
+
+export interface BatchScheduler {
+    run: () => Promise<void>;
+    pause: () => void;
+    resume: () => void;
+    isPaused: () => boolean;
+}
+
+/**
+ * Sorts a failed job's error into how the scheduler should react to it. Every retry is a new
+ * paid generation, so only network, timeout and server (5xx) errors are retried; anything
+ * else, such as a 400 or a failed Veo operation, would fail the same way again and is fatal.
+ */
+export const classifyBatchError = (error: unknown): BatchErrorKind => {
+    const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+    // Set by apiClient on errors that came with an HTTP response.
+    const status = (error as { status?: unknown } | null)?.status;
+
+    if (SAFETY_ERROR_PATTERN.test(message)) {
+        return 'safety';
+    }
+    if (status === 429 || message.includes('429') || message.includes('rate limit') || message.includes('too many requests') || message.includes('resource exhausted')) {
+        return 'rateLimit';
+    }
+    if (typeof status === 'number') {
+        return status >= 500 ? 'retryable' : 'fatal';
+    }
+    return TRANSIENT_ERROR_PATTERN.test(message) ? 'retryable' : 'fatal';
+};
+
+/**
+ * Creates a scheduler with one job per prompt. `runJob` generates one item from the given
+ * prompt (the item's own unless it was rephrased) and throws if it fails.
+ */
+export const createBatchScheduler = (
+    prompts: string[],
+    runJob: (index: number, prompt: string, signal: AbortSignal) => Promise<void>,
+    options: BatchSchedulerOptions
+): BatchScheduler => {
+    const { signal, onEvent } = options;
+    const concurrency = Math.max(1, Math.min(options.concurrency, MAX_JOBS_PER_TOKEN));
+    const currentPrompts = [...prompts];
+    const attempts = prompts.map(() => 0);
+    const rephrased = new Set<number>();
+    const queue = prompts.map((_, index) => index);
+
+    let paused = false;
+    let resumeWaiters: (() => void)[] = [];
+    let rateLimitedUntil = 0;
+
+    const waitWhilePaused = async () => {
+        while (paused && !signal.aborted) {
+            await new Promise<void>(resolve => {
+                resumeWaiters.push(resolve);
+                signal.addEventListener('abort', () => resolve(), { once: true });
+            });
+        }
+        signal.throwIfAborted();
+    };
+
+    const waitOutRateLimit = async () => {
+        if (rateLimitedUntil > Date.now()) {
+            await abortableDelay(rateLimitedUntil - Date.now(), signal);
+        }
+    };
+
+    const handleFailure = async (index: number, error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        const kind = classifyBatchError(error);
+
+        if (kind === 'safety') {
+            if (options.rephrasePrompt && !rephrased.has(index)) {
+                rephrased.add(index);
+                currentPrompts[index] = await options.rephrasePrompt(currentPrompts[index], signal);
+                attempts[index] = 0;
+                onEvent?.({ type: 'rephrased', index, prompt: currentPrompts[index] });
+                queue.push(index);
+                return;
+            }
+            onEvent?.({ type: 'failed', index, error: message });
+            return;
+        }
+
+        if (kind === 'fatal' || attempts[index] > options.maxRetries) {
+            onEvent?.({ type: 'failed', index, error: message });
+            return;
+        }
+
+        if (kind === 'rateLimit') {
+            // Hold back every worker, not just this one; the limit is per token.
+            rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + RATE_LIMIT_DELAY_MS);
+            onEvent?.({ type: 'rateLimited', delayMs: RATE_LIMIT_DELAY_MS });
+        }
+
+        const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempts[index] - 1);
+        onEvent?.({ type: 'retrying', index, attempt: attempts[index] + 1, delayMs, error: message });
+        await abortableDelay(delayMs, signal);
+        queue.unshift(index);
+    };
+
+    const processItem = async (index: number) => {
+        try {
+            await waitOutRateLimit();
+            attempts[index]++;
+            onEvent?.({ type: 'started', index, attempt: attempts[index] });
+            await runJob(index, currentPrompts[index], signal);
+            onEvent?.({ type: 'succeeded', index });
+        } catch (error) {
+            if (isAbortError(error)) {
+                onEvent?.({ type: 'cancelled', index });
+                return;
+            }
+            try {
+                await handleFailure(index, error);
+            } catch (retryError) {
+                if (isAbortError(retryError)) {
+                    onEvent?.({ type: 'cancelled', index });
+                } else {
+                    // The rephrase itself failed; report the error that blocked the item.
+                    onEvent?.({ type: 'failed', index, error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+        }
+    };
+
+    return {
+        run: async () => {
+            // An item waiting out its retry delay goes back on the queue afterwards, so an
+            // idle worker only exits once no other worker has an item in hand.
+            let active = 0;
+            const worker = async () => {
+                while (!signal.aborted) {
+                    await waitWhilePaused().catch(() => {});
+                    if (signal.aborted) break;
+                    const index = queue.shift();
+                    if (index === undefined) {
+                        if (active === 0) return;
+                        await abortableDelay(250, signal).catch(() => {});
+                        continue;
+                    }
+                    active++;
+                    try {
+                        await processItem(index);
+                    } finally {
+                        active--;
+                    }
+                }
+            };
+            await Promise.all(Array.from({ length: Math.min(concurrency, prompts.length) }, worker));
+            queue.splice(0).forEach(index => onEvent?.({ type: 'cancelled', index }));
+        },
+        pause: () => {
+            paused = true;
+        },
+        resume: () => {
+            paused = false;
+            resumeWaiters.forEach(resolve => resolve());
+            resumeWaiters = [];
+        },
+        isPaused: () => paused,
+    };
+};
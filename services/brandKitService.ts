@@ -0,0 +1,93 @@
+import { v4 as uuidv4 } from 'uuid';
+import { type BrandKit, type BrandProduct } from '../types';
+import { dbGetBrandKits, dbPutBrandKit, dbDeleteBrandKit } from './indexedDBService';
+import { type PromptInputs } from './promptTemplateEngine';
+import { getCurrentUser } from './apiClient';
+
+export const createBrandKit = (name: string): BrandKit => {
+    const now = Date.now();
+    return {
+        id: uuidv4(),
+        userId: getCurrentUser()?.id ?? '',
+        name,
+        logo: null,
+        colors: [],
+        fonts: [],
+        toneOfVoice: '',
+        forbiddenWords: [],
+        products: [],
+        timestamp: now,
+        updatedAt: now,
+    };
+};
+
+export const createBrandProduct = (): BrandProduct => ({
+    id: uuidv4(),
+    name: '',
+    description: '',
+    image: null,
+});
+
+/**
+ * Fetches the current user's brand kits, newest first.
+ * @returns {Promise<BrandKit[]>} The saved kits, or an empty array if no user is logged in.
+ */
+export const getBrandKits = async (): Promise<BrandKit[]> => {
+    const user = getCurrentUser();
+    if (!user) return [];
+    try {
+        return await dbGetBrandKits(user.id);
+    } catch (error) {
+        console.error("Failed to load brand kits from IndexedDB:", error);
+        return [];
+    }
+};
+
+/**
+ * Saves a brand kit, creating or replacing it.
+ * @param {BrandKit} kit - The kit to save.
+ */
+export const saveBrandKit = async (kit: BrandKit): Promise<void> => {
+    const user = getCurrentUser();
+    if (!user) {
+        console.warn("Cannot save brand kit: no user is logged in.");
+        return;
+    }
+    await dbPutBrandKit({ ...kit, userId: user.id, updatedAt: Date.now() });
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+    await dbDeleteBrandKit(id);
+};
+
+// --- Prompt Helpers ---
+
+/**
+ * Turns a brand kit into the `brand*` / `forbiddenWords` inputs understood by the
+ * built-in prompt templates. All values are empty strings when no kit is selected,
+ * which leaves the templates' brand sections out entirely.
+ */
+export const getBrandKitPromptInputs = (kit: BrandKit | null | undefined): PromptInputs => ({
+    brandName: kit?.name.trim() ?? '',
+    brandTone: kit?.toneOfVoice.trim() ?? '',
+    brandColors: kit?.colors.join(', ') ?? '',
+    brandFonts: kit?.fonts.join(', ') ?? '',
+    forbiddenWords: kit?.forbiddenWords.map(word => `"${word}"`).join(', ') ?? '',
+});
+
+/**
+ * Finds the kit's forbidden words that appear in a piece of generated text, ignoring case.
+ * @returns {string[]} The forbidden words found, in the kit's order.
+ */
+export const findForbiddenWords = (text: string, kit: BrandKit | null | undefined): string[] => {
+    if (!kit || !text) return [];
+    const lowerText = text.toLowerCase();
+    return kit.forbiddenWords.filter(word => {
+        const lowerWord = word.toLowerCase();
+        // Whole-word match for single words; plain substring match for phrases and symbols.
+        if (/^[\p{L}\p{N}]+$/u.test(lowerWord)) {
+            return new RegExp(`(^|[^\\p{L}\\p{N}])${lowerWord}($|[^\\p{L}\\p{N}])`, 'u').test(lowerText);
+        }
+        return lowerText.includes(lowerWord);
+    });
+};
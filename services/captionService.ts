@@ -0,0 +1,218 @@
+/**
+ * Builds timed caption cues from a voice-over script and exports them as SRT, WebVTT
+ * or styled ASS subtitles (the format the render server burns onto videos).
+ */
+
+export interface CaptionWord {
+    text: string;
+    start: number; // Seconds
+    end: number;
+}
+
+export interface CaptionCue {
+    id: string;
+    start: number;
+    end: number;
+    text: string;
+    words: CaptionWord[];
+}
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+
+export interface CaptionStyle {
+    fontFamily: string;
+    fontScale: number; // Font size as a fraction of the video height
+    position: CaptionPosition;
+    textColor: string; // #RRGGBB
+    highlightColor: string; // #RRGGBB, used for the active word in karaoke mode
+    outlineColor: string;
+    karaoke: boolean;
+    uppercase: boolean;
+}
+
+export const captionFontOptions = ["Arial", "Helvetica", "Verdana", "Impact", "DejaVu Sans"];
+
+export const getDefaultCaptionStyle = (): CaptionStyle => ({
+    fontFamily: 'Arial',
+    fontScale: 0.06,
+    position: 'bottom',
+    textColor: '#FFFFFF',
+    highlightColor: '#FFE600',
+    outlineColor: '#000000',
+    karaoke: true,
+    uppercase: false,
+});
+
+// Extra weight given to the pause after a sentence, in characters.
+const SENTENCE_PAUSE_WEIGHT = 4;
+
+const wordWeight = (word: string) => word.length + 1;
+
+// Spreads the words evenly (by length) over a time range.
+const timeWords = (words: string[], start: number, end: number): CaptionWord[] => {
+    const totalWeight = words.reduce((sum, word) => sum + wordWeight(word), 0) || 1;
+    let cursor = start;
+    return words.map(text => {
+        const duration = (end - start) * (wordWeight(text) / totalWeight);
+        const word = { text, start: cursor, end: cursor + duration };
+        cursor += duration;
+        return word;
+    });
+};
+
+/**
+ * Splits a script into short caption cues and times them over the voice-over.
+ * Time is shared out by word length, so longer words stay on screen longer.
+ * @param {string} script - The voice-over script.
+ * @param {number} duration - The duration of the voice-over in seconds.
+ * @param {number} offset - When the voice-over starts in the video, in seconds.
+ * @param {number} maxWordsPerCue - The maximum number of words shown at once.
+ * @returns {CaptionCue[]} The timed cues, in order.
+ */
+export const buildCaptionCues = (script: string, duration: number, offset = 0, maxWordsPerCue = 5): CaptionCue[] => {
+    const sentences = script
+        .replace(/\s+/g, ' ')
+        .trim()
+        .split(/(?<=[.!?。！？])\s+/)
+        .filter(Boolean);
+
+    const chunks: { words: string[]; pauseAfter: boolean }[] = [];
+    sentences.forEach(sentence => {
+        const words = sentence.split(' ').filter(Boolean);
+        // Balance the chunks so a long sentence does not end on a lone word.
+        const chunkCount = Math.ceil(words.length / maxWordsPerCue);
+        for (let i = 0; i < chunkCount; i++) {
+            const from = Math.round((i * words.length) / chunkCount);
+            const to = Math.round(((i + 1) * words.length) / chunkCount);
+            chunks.push({ words: words.slice(from, to), pauseAfter: i === chunkCount - 1 });
+        }
+    });
+    if (chunks.length === 0 || duration <= 0) return [];
+
+    const chunkWeight = (chunk: typeof chunks[number]) =>
+        chunk.words.reduce((sum, word) => sum + wordWeight(word), 0) + (chunk.pauseAfter ? SENTENCE_PAUSE_WEIGHT : 0);
+    const totalWeight = chunks.reduce((sum, chunk) => sum + chunkWeight(chunk), 0);
+
+    let cursor = offset;
+    return chunks.map((chunk, i) => {
+        const slot = duration * (chunkWeight(chunk) / totalWeight);
+        // The sentence pause is left empty rather than keeping the caption on screen.
+        const spoken = chunk.pauseAfter ? slot * (1 - SENTENCE_PAUSE_WEIGHT / chunkWeight(chunk)) : slot;
+        const cue: CaptionCue = {
+            id: `cue-${i + 1}`,
+            start: cursor,
+            end: cursor + spoken,
+            text: chunk.words.join(' '),
+            words: timeWords(chunk.words, cursor, cursor + spoken),
+        };
+        cursor += slot;
+        return cue;
+    });
+};
+
+/**
+ * Returns a copy of a cue with new text and/or timing, re-spreading its word timings.
+ */
+export const updateCaptionCue = (cue: CaptionCue, changes: Partial<Pick<CaptionCue, 'text' | 'start' | 'end'>>): CaptionCue => {
+    const next = { ...cue, ...changes };
+    if (next.end < next.start) next.end = next.start;
+    return { ...next, words: timeWords(next.text.split(/\s+/).filter(Boolean), next.start, next.end) };
+};
+
+// --- Timestamp Formatting ---
+
+const splitTime = (seconds: number) => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    return {
+        h: Math.floor(totalMs / 3600000),
+        m: Math.floor((totalMs % 3600000) / 60000),
+        s: Math.floor((totalMs % 60000) / 1000),
+        ms: totalMs % 1000,
+    };
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+    const { h, m, s, ms } = splitTime(seconds);
+    return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+};
+
+// ASS uses centiseconds and a single-digit hour.
+const formatAssTimestamp = (seconds: number) => {
+    const { h, m, s, ms } = splitTime(seconds);
+    return `${h}:${pad(m)}:${pad(s)}.${pad(Math.floor(ms / 10))}`;
+};
+
+// --- Exporters ---
+
+export const toSrt = (cues: CaptionCue[]): string =>
+    cues.map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`).join('\n');
+
+export const toVtt = (cues: CaptionCue[]): string =>
+    `WEBVTT\n\n${cues.map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`).join('\n')}`;
+
+// ASS colours are &HBBGGRR& (alpha omitted).
+const toAssColor = (hex: string) => {
+    const value = hex.replace('#', '').padEnd(6, '0');
+    return `&H${value.slice(4, 6)}${value.slice(2, 4)}${value.slice(0, 2)}&`.toUpperCase();
+};
+
+// ASS has no way to escape a backslash or braces (they start override codes), so they are
+// dropped; line breaks become the \N hard break.
+const escapeAssText = (text: string) => text
+    .replace(/[\\{}]/g, '')
+    .replace(/\r?\n/g, '\\N');
+
+const ASS_ALIGNMENT: Record<CaptionPosition, number> = { bottom: 2, middle: 5, top: 8 };
+
+/**
+ * Renders cues as an ASS subtitle script sized for the given video.
+ * In karaoke mode every word gets its own event so only the spoken word is highlighted.
+ * @param {CaptionCue[]} cues - The timed cues.
+ * @param {CaptionStyle} style - Font, colours and placement.
+ * @param {{ width: number; height: number }} video - The video resolution in pixels.
+ * @returns {string} The .ass file contents.
+ */
+export const toAss = (cues: CaptionCue[], style: CaptionStyle, video: { width: number; height: number }): string => {
+    const fontSize = Math.round(video.height * style.fontScale);
+    const outline = Math.max(1, Math.round(fontSize / 12));
+    const marginV = Math.round(video.height * 0.08);
+    const primary = toAssColor(style.textColor);
+    const highlight = toAssColor(style.highlightColor);
+    const transform = (text: string) => escapeAssText(style.uppercase ? text.toUpperCase() : text);
+
+    const events: string[] = [];
+    cues.forEach(cue => {
+        if (!style.karaoke || cue.words.length === 0) {
+            events.push(`Dialogue: 0,${formatAssTimestamp(cue.start)},${formatAssTimestamp(cue.end)},Caption,,0,0,0,,${transform(cue.text)}`);
+            return;
+        }
+        cue.words.forEach((word, activeIndex) => {
+            const line = cue.words
+                .map((w, i) => i === activeIndex ? `{\\c${highlight}}${transform(w.text)}{\\c${primary}}` : transform(w.text))
+                .join(' ');
+            // Hold the last word until the cue ends so the caption does not flicker off early.
+            const end = activeIndex === cue.words.length - 1 ? cue.end : word.end;
+            events.push(`Dialogue: 0,${formatAssTimestamp(word.start)},${formatAssTimestamp(end)},Caption,,0,0,0,,${line}`);
+        });
+    });
+
+    return [
+        '[Script Info]',
+        'ScriptType: v4.00+',
+        `PlayResX: ${video.width}`,
+        `PlayResY: ${video.height}`,
+        'WrapStyle: 0',
+        'ScaledBorderAndShadow: yes',
+        '',
+        '[V4+ Styles]',
+        'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+        `Style: Caption,${style.fontFamily},${fontSize},${primary},${highlight},${toAssColor(style.outlineColor)},&H80000000&,-1,0,0,0,100,100,0,0,1,${outline},0,${ASS_ALIGNMENT[style.position]},40,40,${marginV},1`,
+        '',
+        '[Events]',
+        'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+        ...events,
+        '',
+    ].join('\n');
+};
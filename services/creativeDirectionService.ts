@@ -236,6 +236,68 @@ export const poseOptions = [
 
 export const aspectRatioOptions = ["9:16", "16:9", "1:1", "4:3", "3:4"];
 
+// --- Video-only direction ---
+
+export const cameraMovementOptions = [
+  "Crane Up",
+  "Dolly In",
+  "Dolly Out",
+  "Drone Flyover",
+  "Gimbal Follow",
+  "Handheld",
+  "Orbit",
+  "Pan Left",
+  "Pan Right",
+  "Pull-Out",
+  "Push-In",
+  "Random",
+  "Static / Locked-Off",
+  "Tilt Down",
+  "Tilt Up",
+  "Tracking Shot",
+  "Zoom In"
+];
+
+export const subjectMotionOptions = [
+  "Dancing",
+  "Hands Demonstrating Product",
+  "Hair / Fabric in the Wind",
+  "Natural Gestures",
+  "Product Rotating",
+  "Random",
+  "Still / Posed",
+  "Subtle Movement",
+  "Turning to Camera",
+  "Walking Toward Camera",
+  "Walking Past Camera"
+];
+
+export const pacingOptions = [
+  "Building Up",
+  "Fast & Energetic",
+  "Random",
+  "Slow & Calm",
+  "Slow Motion",
+  "Steady"
+];
+
+export const shotDurationOptions = [
+  "Quick Cuts (about 2s each)",
+  "Random",
+  "Single Continuous Shot",
+  "Two Shots (about 4s each)"
+];
+
+export const transitionOptions = [
+  "Ends on a Still Frame",
+  "Fade to Black",
+  "Hard Cut",
+  "Match Cut",
+  "None",
+  "Random",
+  "Whip Pan"
+];
+
 
 // A type for the state
 export interface CreativeDirectionState {
@@ -265,4 +327,26 @@ export const getInitialCreativeDirectionState = (): CreativeDirectionState => ({
   pose: 'Random',
   creativityLevel: 5,
   aspectRatio: '9:16',
-});
\ No newline at end of file
+});
+
+// The state for video tools: the still-image fields still set the look of each frame,
+// the rest describe how the shot moves.
+export interface VideoCreativeDirectionState extends CreativeDirectionState {
+  cameraMovement: string;
+  subjectMotion: string;
+  pacing: string;
+  shotDuration: string;
+  transition: string;
+}
+
+export const getInitialVideoCreativeDirectionState = (): VideoCreativeDirectionState => ({
+  ...getInitialCreativeDirectionState(),
+  cameraMovement: 'Random',
+  subjectMotion: 'Random',
+  pacing: 'Random',
+  shotDuration: 'Random',
+  transition: 'None',
+});
+
+export const isVideoCreativeDirectionState = (state: CreativeDirectionState): state is VideoCreativeDirectionState =>
+  'cameraMovement' in state;
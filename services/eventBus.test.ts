@@ -0,0 +1,58 @@
+// Note: This file is for testing demonstration purposes and requires a test environment like Jest to run.
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import eventBus, { type Unsubscribe } from './eventBus';
+
+describe('eventBus', () => {
+  const subscriptions: Unsubscribe[] = [];
+
+  afterEach(() => {
+    // The bus is a module-level singleton, so every test cleans up after itself.
+    subscriptions.splice(0).forEach(unsubscribe => unsubscribe());
+  });
+
+  it('should deliver the payload to listeners and stop after unsubscribing', () => {
+    const listener = jest.fn();
+    const unsubscribe = eventBus.on('videoJobCompleted', listener);
+
+    eventBus.dispatch('videoJobCompleted', { jobId: 'job-1' });
+    unsubscribe();
+    eventBus.dispatch('videoJobCompleted', { jobId: 'job-2' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ jobId: 'job-1' });
+  });
+
+  it('should only call a once() listener a single time', () => {
+    const listener = jest.fn();
+    subscriptions.push(eventBus.once('personalTokenFailed', listener));
+
+    eventBus.dispatch('personalTokenFailed');
+    eventBus.dispatch('personalTokenFailed');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass the event name to wildcard listeners', () => {
+    const listener = jest.fn();
+    subscriptions.push(eventBus.onAny(listener));
+
+    eventBus.dispatch('videoJobCompleted', { jobId: 'job-1' });
+
+    expect(listener).toHaveBeenCalledWith('videoJobCompleted', { jobId: 'job-1' });
+  });
+
+  it('should keep calling other listeners when one throws', () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = jest.fn(() => { throw new Error('boom'); });
+    const healthy = jest.fn();
+    subscriptions.push(eventBus.on('videoJobCompleted', failing));
+    subscriptions.push(eventBus.on('videoJobCompleted', healthy));
+
+    eventBus.dispatch('videoJobCompleted', { jobId: 'job-1' });
+
+    expect(failing).toHaveBeenCalled();
+    expect(healthy).toHaveBeenCalledWith({ jobId: 'job-1' });
+    consoleSpy.mockRestore();
+  });
+});
@@ -1,27 +1,112 @@
-type Callback = (data?: any) => void;
-type Listeners = { [key: string]: Callback[] };
+import { type User, type GenerationQueueEntry } from '../types';
+
+export interface ConsoleLogEvent {
+  level: 'log' | 'warn' | 'error' | 'debug';
+  message: string;
+  timestamp: Date;
+}
+
+/**
+ * Catalog of every application event and the payload it carries.
+ * Add new events here so that both dispatchers and listeners are type-checked.
+ */
+export interface EventMap {
+  consoleLog: ConsoleLogEvent;
+  generationQueueUpdated: GenerationQueueEntry;
+  personalTokenFailed: void;
+  userUsageUpdated: User;
+  videoJobCompleted: { jobId: string };
+}
+
+export type EventName = keyof EventMap;
+export type EventCallback<K extends EventName> = (data: EventMap[K]) => void;
+export type WildcardCallback = (event: EventName, data: EventMap[EventName]) => void;
+export type Unsubscribe = () => void;
+
+// Events without a payload are dispatched without a second argument.
+type PayloadArgs<K extends EventName> = EventMap[K] extends void ? [] : [EventMap[K]];
+type Listeners = { [K in EventName]?: EventCallback<K>[] };
+
+let isReportingError = false;
+
+/**
+ * Logs a listener failure without letting it interrupt the other listeners.
+ * Guarded because console output is itself re-dispatched as a 'consoleLog' event.
+ */
+const reportListenerError = (event: string, error: unknown) => {
+  if (isReportingError) return;
+  isReportingError = true;
+  try {
+    console.error(`[Event Bus] A listener for '${event}' threw an error:`, error);
+  } finally {
+    isReportingError = false;
+  }
+};
 
 const eventBus = {
   listeners: {} as Listeners,
+  wildcardListeners: [] as WildcardCallback[],
 
-  on(event: string, callback: Callback) {
-    if (!this.listeners[event]) {
-      this.listeners[event] = [];
-    }
-    this.listeners[event].push(callback);
+  /**
+   * Subscribes to an event.
+   * @returns {Unsubscribe} A function that removes the listener.
+   */
+  on<K extends EventName>(event: K, callback: EventCallback<K>): Unsubscribe {
+    const listeners = (this.listeners[event] ?? []) as EventCallback<K>[];
+    listeners.push(callback);
+    (this.listeners as Record<EventName, EventCallback<K>[]>)[event] = listeners;
+    return () => this.remove(event, callback);
   },
 
-  dispatch(event: string, data?: any) {
-    if (this.listeners[event]) {
-      this.listeners[event].forEach(callback => callback(data));
-    }
+  /**
+   * Subscribes to the next occurrence of an event only.
+   * @returns {Unsubscribe} A function that removes the listener before it fires.
+   */
+  once<K extends EventName>(event: K, callback: EventCallback<K>): Unsubscribe {
+    const unsubscribe = this.on(event, (data) => {
+      unsubscribe();
+      callback(data);
+    });
+    return unsubscribe;
+  },
+
+  /**
+   * Subscribes to every event. Wildcard listeners receive the event name along with its payload.
+   * @returns {Unsubscribe} A function that removes the listener.
+   */
+  onAny(callback: WildcardCallback): Unsubscribe {
+    this.wildcardListeners.push(callback);
+    return () => {
+      this.wildcardListeners = this.wildcardListeners.filter(cb => cb !== callback);
+    };
+  },
+
+  dispatch<K extends EventName>(event: K, ...args: PayloadArgs<K>) {
+    const data = args[0] as EventMap[K];
+    // Iterate over copies so listeners can unsubscribe while the event is being dispatched.
+    const listeners = [...((this.listeners[event] ?? []) as EventCallback<K>[])];
+    listeners.forEach(callback => {
+      try {
+        callback(data);
+      } catch (error) {
+        reportListenerError(event, error);
+      }
+    });
+    [...this.wildcardListeners].forEach(callback => {
+      try {
+        callback(event, data);
+      } catch (error) {
+        reportListenerError(event, error);
+      }
+    });
   },
 
-  remove(event: string, callback: Callback) {
-    if (this.listeners[event]) {
-      this.listeners[event] = this.listeners[event].filter(cb => cb !== callback);
+  remove<K extends EventName>(event: K, callback: EventCallback<K>) {
+    const listeners = this.listeners[event] as EventCallback<K>[] | undefined;
+    if (listeners) {
+      (this.listeners as Record<EventName, EventCallback<K>[]>)[event] = listeners.filter(cb => cb !== callback);
     }
   }
 };
 
-export default eventBus;
\ No newline at end of file
+export default eventBus;
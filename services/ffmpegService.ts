@@ -0,0 +1,181 @@
+/**
+ * Shares one in-browser ffmpeg.wasm instance between the tools that edit video locally,
+ * so the engine is downloaded and initialised at most once per page load. It is also the
+ * fallback for joining clips when the render server is unavailable.
+ */
+
+declare global {
+    interface Window {
+        FFmpeg: any;
+        FFmpegUtil: any;
+    }
+}
+
+const LIBRARY_WAIT_INTERVAL = 250;
+const LIBRARY_WAIT_ATTEMPTS = 60; // 15 seconds
+
+let enginePromise: Promise<any> | null = null;
+
+const initFFmpeg = async (onStatus?: (message: string) => void): Promise<any> => {
+    onStatus?.('Waiting for video engine to load...');
+
+    // Wait for FFmpeg libraries (loaded from HTML script tags)
+    let attempts = 0;
+    while ((!window.FFmpeg || !window.FFmpegUtil) && attempts < LIBRARY_WAIT_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, LIBRARY_WAIT_INTERVAL));
+        attempts++;
+
+        if (attempts % 4 === 0) {
+            onStatus?.(`Loading libraries... (${Math.round(attempts / 4)}s)`);
+        }
+    }
+
+    if (!window.FFmpeg || !window.FFmpegUtil) {
+        throw new Error(
+            "Video processing library failed to load. " +
+            "Please check your internet connection and reload the page. " +
+            "Ensure the script tags in index.html are correct."
+        );
+    }
+
+    console.log('✅ FFmpeg libraries detected');
+    onStatus?.('Initializing FFmpeg...');
+
+    const { createFFmpeg } = window.FFmpeg;
+    const ffmpeg = createFFmpeg({
+        log: true,
+        coreURL: 'https://unpkg.com/@ffmpeg/core@0.12.10/dist/umd/ffmpeg-core.js',
+    });
+
+    ffmpeg.setLogger(({ type, message }: { type: string; message: string }) => {
+        console.log(`[FFmpeg ${type}]`, message);
+    });
+
+    onStatus?.('Loading FFmpeg core...');
+    await ffmpeg.load();
+    console.log('✅ FFmpeg ready');
+    return ffmpeg;
+};
+
+/**
+ * Returns the shared FFmpeg instance, loading it on first use. A failed load is not
+ * cached, so a later call tries again.
+ * @param {(message: string) => void} [onStatus] - Receives loading messages while this call starts the engine.
+ */
+export const loadFFmpeg = (onStatus?: (message: string) => void): Promise<any> => {
+    if (!enginePromise) {
+        enginePromise = initFFmpeg(onStatus).catch(error => {
+            enginePromise = null;
+            throw error;
+        });
+    }
+    return enginePromise;
+};
+
+/**
+ * Cuts a video to the given range with the shared engine. The clip is re-encoded rather
+ * than stream-copied so the cut lands on the exact frame instead of the nearest keyframe.
+ * @returns {Promise<Blob>} The trimmed MP4.
+ */
+export const trimVideoInBrowser = async (
+    video: Blob,
+    startSeconds: number,
+    endSeconds: number,
+    onStatus?: (message: string) => void
+): Promise<Blob> => {
+    const ffmpeg = await loadFFmpeg(onStatus);
+    const tempFiles = ['trim-input.mp4', 'trim-output.mp4'];
+
+    try {
+        onStatus?.('Loading video...');
+        ffmpeg.FS('writeFile', 'trim-input.mp4', await window.FFmpegUtil.fetchFile(video));
+
+        onStatus?.('Trimming video... This may take a moment.');
+        await ffmpeg.run(
+            '-i', 'trim-input.mp4',
+            '-ss', startSeconds.toFixed(3),
+            '-t', (endSeconds - startSeconds).toFixed(3),
+            '-c:v', 'libx264',
+            '-preset', 'fast',
+            '-crf', '23',
+            '-c:a', 'aac',
+            '-b:a', '192k',
+            '-movflags', '+faststart',
+            'trim-output.mp4'
+        );
+
+        const data = ffmpeg.FS('readFile', 'trim-output.mp4');
+        return new Blob([data.buffer], { type: 'video/mp4' });
+    } finally {
+        for (const file of tempFiles) {
+            try { ffmpeg.FS('unlink', file); } catch (e) {}
+        }
+    }
+};
+
+/**
+ * Joins clips end to end with the shared engine, optionally replacing their audio with
+ * a single track. Clips are re-encoded so ones with slightly different encodings still join.
+ * @returns {Promise<Blob>} The combined MP4.
+ */
+export const concatVideosInBrowser = async (
+    clips: Blob[],
+    audio: Blob | null = null,
+    onStatus?: (message: string) => void
+): Promise<Blob> => {
+    const ffmpeg = await loadFFmpeg(onStatus);
+    const tempFiles: string[] = [];
+
+    try {
+        let fileList = '';
+
+        // Write videos to virtual filesystem
+        for (let i = 0; i < clips.length; i++) {
+            const fileName = `input${i}.mp4`;
+            tempFiles.push(fileName);
+
+            onStatus?.(`Loading video ${i + 1}/${clips.length}...`);
+
+            const videoData = await window.FFmpegUtil.fetchFile(clips[i]);
+            ffmpeg.FS('writeFile', fileName, videoData);
+            fileList += `file '${fileName}'\n`;
+        }
+
+        tempFiles.push('filelist.txt', 'output.mp4');
+        ffmpeg.FS('writeFile', 'filelist.txt', fileList);
+
+        const audioArgs: string[] = [];
+        if (audio) {
+            tempFiles.push('audio');
+            ffmpeg.FS('writeFile', 'audio', await window.FFmpegUtil.fetchFile(audio));
+            audioArgs.push('-i', 'audio', '-map', '0:v:0', '-map', '1:a:0', '-af', 'apad', '-shortest');
+        }
+
+        onStatus?.('Combining videos... This may take a moment.');
+        console.log('🎬 Starting video combine...');
+
+        await ffmpeg.run(
+            '-f', 'concat',
+            '-safe', '0',
+            '-i', 'filelist.txt',
+            ...audioArgs,
+            '-c:v', 'libx264',
+            '-preset', 'fast',
+            '-crf', '23',
+            '-c:a', 'aac',
+            '-b:a', '192k',
+            'output.mp4'
+        );
+
+        console.log('✅ Combine finished');
+        onStatus?.('Finishing up...');
+
+        const data = ffmpeg.FS('readFile', 'output.mp4');
+        return new Blob([data.buffer], { type: 'video/mp4' });
+    } finally {
+        // Clean up virtual files
+        for (const file of tempFiles) {
+            try { ffmpeg.FS('unlink', file); } catch (e) {}
+        }
+    }
+};
@@ -2,15 +2,17 @@ import { GoogleGenAI, Chat, GenerateContentResponse, Modality } from "@google/ge
 import { addLogEntry } from './aiLogService';
 import { triggerUserWebhook } from './webhookService';
 import { MODELS } from './aiConfig';
-import { generateVideoWithVeo3, checkVideoStatus, uploadImageForVeo3 } from './veo3Service';
+import { generateVideoWithVeo3, uploadImageForVeo3 } from './veo3Service';
+import { createVideoJob, runVideoJob } from './videoJobService';
 import { cropImageToAspectRatio } from "./imageService";
 import { decodeBase64, createWavBlob } from '../utils/audioUtils';
 import { incrementImageUsage, incrementVideoUsage, getSharedMasterApiKey } from './userService';
 import { addHistoryItem } from "./historyService";
 import eventBus from "./eventBus";
-import { type User } from '../types';
+import { type User, type ProgressCallback, type GenerationProgress, type VideoVariationResult } from '../types';
 import { getImagenProxyUrl, getVeoProxyUrl } from './apiClient';
 import { generateImageWithImagen } from "./imagenV3Service";
+import { abortableDelay, isAbortError } from '../utils/abortUtils';
 
 
 const getActiveApiKey = (): string | null => {
@@ -52,19 +54,23 @@ const MAX_RETRIES = 5;
  * A wrapper function to automatically retry an API call on failure.
  * @param apiCall The asynchronous function to execute.
  * @param onRetry A callback function triggered on each retry attempt.
+ * @param signal Stops retrying (and interrupts the backoff wait) when aborted.
  * @returns The result of the successful API call.
- * @throws The last error if all retry attempts fail.
+ * @throws The last error if all retry attempts fail, or an AbortError if cancelled.
  */
 async function withRetry<T>(
   apiCall: () => Promise<T>, 
-  onRetry: (attempt: number, error: any) => void
+  onRetry: (attempt: number, error: any) => void,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: any;
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    signal?.throwIfAborted();
     try {
       return await apiCall();
     } catch (error) {
       lastError = error;
+      if (isAbortError(error)) throw error;
       const errorMessage = error instanceof Error ? error.message : String(error);
       const lowerCaseMessage = errorMessage.toLowerCase();
 
@@ -80,7 +86,7 @@ async function withRetry<T>(
       if (attempt < MAX_RETRIES) {
         onRetry(attempt, error);
         // Exponential backoff
-        await new Promise(res => setTimeout(res, 1000 * attempt)); 
+        await abortableDelay(1000 * attempt, signal);
       }
     }
   }
@@ -159,6 +165,105 @@ export const streamChatResponse = async (chat: Chat, prompt: string) => {
     }
 };
 
+type VideoImageInput = { imageBytes: string, mimeType: string };
+
+/**
+ * Crops and uploads the reference frames, then submits the generation to Veo3.
+ * @returns The submitted operations with the seed of each, and the token and server that accepted them.
+ */
+const submitVideoGeneration = async (
+    prompt: string,
+    model: string,
+    aspectRatio: string,
+    image: VideoImageInput | undefined,
+    endImage: VideoImageInput | undefined,
+    variations: number,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal,
+    seed?: number
+): Promise<{ operations: any[]; seeds: number[]; successfulToken: string; server: string; }> => {
+    const cropToAspectRatio = async (input: VideoImageInput | undefined) => {
+        if (!input || (aspectRatio !== '16:9' && aspectRatio !== '9:16')) return input;
+        try {
+            addLogEntry({ model, prompt: "Cropping reference image...", output: `Cropping to ${aspectRatio}...`, tokenCount: 0, status: "Success" });
+            const croppedBase64 = await cropImageToAspectRatio(input.imageBytes, aspectRatio);
+            return {
+                ...input,
+                imageBytes: croppedBase64,
+            };
+        } catch (cropError) {
+            console.error("Image cropping failed, proceeding with original image.", cropError);
+            addLogEntry({ model, prompt: "Image cropping failed", output: "Proceeding with original image.", tokenCount: 0, status: "Error", error: cropError instanceof Error ? cropError.message : String(cropError) });
+            return input;
+        }
+    };
+
+    const processedImage = await cropToAspectRatio(image);
+    // The last frame only applies together with a first frame.
+    const processedEndImage = image ? await cropToAspectRatio(endImage) : undefined;
+
+    const veo3AspectRatio = (ar: string): 'landscape' | 'portrait' => {
+        if (ar === '9:16' || ar === '3:4') return 'portrait';
+        return 'landscape';
+    };
+    const aspectRatioForVeo3 = veo3AspectRatio(aspectRatio);
+
+    let imageMediaId: string | undefined = undefined;
+    let endImageMediaId: string | undefined = undefined;
+    let successfulToken: string | null = null;
+    
+    if (processedImage) {
+        addLogEntry({ model, prompt: "Uploading reference image...", output: "In progress...", tokenCount: 0, status: "Success" });
+        const uploadResult = await uploadImageForVeo3(processedImage.imageBytes, processedImage.mimeType, aspectRatioForVeo3, onProgress, signal);
+        imageMediaId = uploadResult.mediaId;
+        successfulToken = uploadResult.successfulToken;
+    }
+
+    if (processedEndImage && successfulToken) {
+        addLogEntry({ model, prompt: "Uploading last frame image...", output: "In progress...", tokenCount: 0, status: "Success" });
+        // Uploaded media belongs to the token that uploaded it, so both frames use the same one.
+        const uploadResult = await uploadImageForVeo3(processedEndImage.imageBytes, processedEndImage.mimeType, aspectRatioForVeo3, onProgress, signal, successfulToken);
+        endImageMediaId = uploadResult.mediaId;
+    }
+
+    const useStandardModel = !model.includes('fast');
+    
+    addLogEntry({ model, prompt, output: "Starting video generation via proxy...", tokenCount: 0, status: "Success" });
+    console.debug(`[Video Prompt Sent]\n---\n${prompt}\n---`);
+    const { operations, successfulToken: generationToken, seeds, server } = await generateVideoWithVeo3({
+        prompt,
+        imageMediaId,
+        endImageMediaId,
+        config: {
+            aspectRatio: aspectRatioForVeo3,
+            useStandardModel,
+            seed,
+            variations,
+            authToken: successfulToken || undefined, // Pass the same token used for upload
+        },
+        signal,
+    }, onProgress);
+
+    if (!generationToken) {
+        throw new Error("Could not determine which auth token was successful for video creation.");
+    }
+
+    if (!operations || operations.length === 0) {
+        throw new Error("Video generation failed to start. The API did not return any operations.");
+    }
+
+    return { operations, seeds, successfulToken: generationToken, server };
+};
+
+const logVideoGenerationError = (model: string, prompt: string, error: unknown) => {
+    if (isAbortError(error)) {
+        addLogEntry({ model, prompt, output: 'Video generation was cancelled.', tokenCount: 0, status: 'Error', error: 'Cancelled by user' });
+        return;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    addLogEntry({ model, prompt, output: `Video generation process failed: ${errorMessage}`, tokenCount: 0, status: 'Error', error: errorMessage });
+};
+
 /**
  * Generates a video from a text prompt and an optional image using the Veo3 service.
  * @param {string} prompt - The text prompt for video generation.
@@ -167,6 +272,10 @@ export const streamChatResponse = async (chat: Chat, prompt: string) => {
  * @param {string} resolution - The resolution (used by Veo3).
  * @param {string} negativePrompt - A negative prompt.
  * @param {{ imageBytes: string; mimeType: string }} [image] - Optional image data.
+ * @param {ProgressCallback} [onProgress] - Receives queue, upload, polling and download progress.
+ * @param {AbortSignal} [signal] - Cancels the upload, the generation request and the status polling.
+ * @param {number} [seed] - Fixed seed to reproduce a generation; a random one is used when omitted.
+ * @param {{ imageBytes: string; mimeType: string }} [endImage] - Optional last frame; with `image` as the first frame, the video interpolates between them.
  * @returns {Promise<{ videoFile: File; thumbnailUrl: string | null; }>} The generated video as a File object.
  */
 export const generateVideo = async (
@@ -175,126 +284,91 @@ export const generateVideo = async (
     aspectRatio: string,
     resolution: string,
     negativePrompt: string,
-    image: { imageBytes: string, mimeType: string } | undefined,
-    onStatusUpdate?: (status: string) => void
-): Promise<{ videoFile: File; thumbnailUrl: string | null; }> => {
+    image: VideoImageInput | undefined,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal,
+    seed?: number,
+    endImage?: VideoImageInput
+): Promise<{ videoFile: File; thumbnailUrl: string | null; seed: number; successfulToken: string; server: string; }> => {
     try {
-        let processedImage = image;
-
-        if (image && (aspectRatio === '16:9' || aspectRatio === '9:16')) {
-            try {
-                addLogEntry({ model, prompt: "Cropping reference image...", output: `Cropping to ${aspectRatio}...`, tokenCount: 0, status: "Success" });
-                const croppedBase64 = await cropImageToAspectRatio(image.imageBytes, aspectRatio);
-                processedImage = {
-                    ...image,
-                    imageBytes: croppedBase64,
-                };
-            } catch (cropError) {
-                console.error("Image cropping failed, proceeding with original image.", cropError);
-                addLogEntry({ model, prompt: "Image cropping failed", output: "Proceeding with original image.", tokenCount: 0, status: "Error", error: cropError instanceof Error ? cropError.message : String(cropError) });
-            }
-        }
-
-        const veo3AspectRatio = (ar: string): 'landscape' | 'portrait' => {
-            if (ar === '9:16' || ar === '3:4') return 'portrait';
-            return 'landscape';
-        };
-        const aspectRatioForVeo3 = veo3AspectRatio(aspectRatio);
-
-        let imageMediaId: string | undefined = undefined;
-        let successfulToken: string | null = null;
-        
-        if (processedImage) {
-            addLogEntry({ model, prompt: "Uploading reference image...", output: "In progress...", tokenCount: 0, status: "Success" });
-            const uploadResult = await uploadImageForVeo3(processedImage.imageBytes, processedImage.mimeType, aspectRatioForVeo3, onStatusUpdate);
-            imageMediaId = uploadResult.mediaId;
-            successfulToken = uploadResult.successfulToken;
-        }
+        const { operations, seeds, successfulToken, server } = await submitVideoGeneration(prompt, model, aspectRatio, image, endImage, 1, onProgress, signal, seed);
 
-        const useStandardModel = !model.includes('fast');
-        
-        addLogEntry({ model, prompt, output: "Starting video generation via proxy...", tokenCount: 0, status: "Success" });
-        console.debug(`[Video Prompt Sent]\n---\n${prompt}\n---`);
-        const { operations: initialOperations, successfulToken: generationToken } = await generateVideoWithVeo3({
+        // Persist the submitted operations so a page reload doesn't lose the generation.
+        const job = await createVideoJob({
             prompt,
-            imageMediaId,
-            config: {
-                aspectRatio: aspectRatioForVeo3,
-                useStandardModel,
-                authToken: successfulToken || undefined, // Pass the same token used for upload
-            },
-        }, onStatusUpdate);
-
-        const videoCreationToken = generationToken;
-
-        if (!videoCreationToken) {
-            throw new Error("Could not determine which auth token was successful for video creation.");
-        }
-
-        if (!initialOperations || initialOperations.length === 0) {
-            throw new Error("Video generation failed to start. The API did not return any operations.");
-        }
+            model,
+            aspectRatio,
+            seed: seeds[0],
+            operations,
+            successfulToken,
+        });
 
-        let finalOperations: any[] = initialOperations;
-        let finalUrl: string | null = null;
-        let thumbnailUrl: string | null = null;
-        const POLL_INTERVAL = 10000;
+        const { videoFile, thumbnailUrl } = await runVideoJob(job, onProgress, signal);
+        return { videoFile, thumbnailUrl, seed: seeds[0], successfulToken, server };
 
-        while (!finalUrl) {
-            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
-            addLogEntry({ model, prompt, output: `Checking video status...`, tokenCount: 0, status: "Success" });
+    } catch (error) {
+        logVideoGenerationError(model, prompt, error);
+        throw error;
+    }
+};
 
-            const statusResponse = await checkVideoStatus(finalOperations, videoCreationToken, onStatusUpdate);
-            if (!statusResponse?.operations || statusResponse.operations.length === 0) {
-                console.warn('⚠️ Empty status response, retrying...');
-                continue;
-            }
+/**
+ * Generates several variations of a video in one request, each with its own seed, and
+ * polls them in parallel. Every variation is tracked as its own video job, so each one can
+ * be resumed after a reload. Takes the same inputs as `generateVideo`, plus:
+ * @param {number} variations - How many videos to generate.
+ * @param {(index: number, progress: GenerationProgress) => void} [onProgress] - Receives the progress of each variation by index; upload and queue progress is reported for all of them.
+ * @returns The result of each variation in request order, failed ones with their error. Throws if every variation fails.
+ */
+export const generateVideoVariations = async (
+    prompt: string,
+    model: string,
+    aspectRatio: string,
+    resolution: string,
+    negativePrompt: string,
+    image: VideoImageInput | undefined,
+    variations: number,
+    onProgress?: (index: number, progress: GenerationProgress) => void,
+    signal?: AbortSignal,
+    seed?: number,
+    endImage?: VideoImageInput
+): Promise<{ variations: VideoVariationResult[]; successfulToken: string; server: string; }> => {
+    try {
+        const reportAll = (progress: GenerationProgress) => {
+            for (let index = 0; index < variations; index++) onProgress?.(index, progress);
+        };
+        const { operations, seeds, successfulToken, server } = await submitVideoGeneration(prompt, model, aspectRatio, image, endImage, variations, reportAll, signal, seed);
 
-            finalOperations = statusResponse.operations;
-            const opStatus = finalOperations[0];
-            
-            const isCompleted = opStatus.done === true || ['MEDIA_GENERATION_STATUS_COMPLETED', 'MEDIA_GENERATION_STATUS_SUCCESS', 'MEDIA_GENERATION_STATUS_SUCCESSFUL'].includes(opStatus.status);
-
-            if (isCompleted) {
-                finalUrl = opStatus.operation?.metadata?.video?.fifeUrl
-                           || opStatus.metadata?.video?.fifeUrl
-                           || opStatus.result?.generatedVideo?.[0]?.fifeUrl
-                           || opStatus.result?.generatedVideos?.[0]?.fifeUrl
-                           || opStatus.video?.fifeUrl
-                           || opStatus.fifeUrl;
-                
-                thumbnailUrl = opStatus.operation?.metadata?.video?.servingBaseUri
-                            || opStatus.metadata?.video?.servingBaseUri
-                            || null;
-                
-                if (!finalUrl) {
-                    console.error('Operation finished but no video URL was returned. Full operation object:', JSON.stringify(opStatus, null, 2));
-                    throw new Error("Video generation finished without an error, but no output was produced. This may happen if your request was blocked by safety policies. Please try modifying your prompt or using a different image.");
-                }
-            } else if (opStatus.error) {
-                throw new Error(`Video generation failed: ${opStatus.error.message || opStatus.error.code || 'Unknown error'}`);
-            } else if (opStatus.status === 'MEDIA_GENERATION_STATUS_FAILED') {
-                console.error('❌ Video generation failed with status FAILED. Full operation object:', JSON.stringify(opStatus, null, 2));
-                throw new Error("Video generation failed on the server. This often happens if your request was blocked by safety policies. Please try modifying your prompt or using a different image.");
-            }
-        }
-        
-        const PROXY_URL = getVeoProxyUrl();
-        addLogEntry({ model, prompt, output: "Video ready. Downloading from proxy...", tokenCount: 0, status: "Success" });
-        const proxyDownloadUrl = `${PROXY_URL}/api/veo/download-video?url=${encodeURIComponent(finalUrl)}`;
+        // Operations come back in request order, so each lines up with the seed it was sent with.
+        const results = await Promise.allSettled(operations.map(async (operation, index) => {
+            const variationSeed = seeds[index] ?? seeds[0];
+            const job = await createVideoJob({
+                prompt,
+                model,
+                aspectRatio,
+                seed: variationSeed,
+                operations: [operation],
+                successfulToken,
+            });
+            const { videoFile, thumbnailUrl } = await runVideoJob(job, progress => onProgress?.(index, progress), signal);
+            return { seed: variationSeed, videoFile, thumbnailUrl };
+        }));
 
-        const response = await fetch(proxyDownloadUrl);
-        if (!response.ok) {
-            throw new Error(`Background download failed with status: ${response.status}`);
+        signal?.throwIfAborted();
+        if (results.every(result => result.status === 'rejected')) {
+            throw (results[0] as PromiseRejectedResult).reason;
         }
-        const blob = await response.blob();
-        const videoFile = new File([blob], `monoklix-veo3-${Date.now()}.mp4`, { type: 'video/mp4' });
 
-        return { videoFile, thumbnailUrl };
+        return {
+            variations: results.map((result, index): VideoVariationResult => result.status === 'fulfilled'
+                ? result.value
+                : { seed: seeds[index] ?? seeds[0], error: result.reason instanceof Error ? result.reason.message : String(result.reason) }),
+            successfulToken,
+            server,
+        };
 
     } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        addLogEntry({ model, prompt, output: `Video generation process failed: ${errorMessage}`, tokenCount: 0, status: 'Error', error: errorMessage });
+        logVideoGenerationError(model, prompt, error);
         throw error;
     }
 };
@@ -304,9 +378,10 @@ export const generateVideo = async (
  * Generates text content from a prompt and one or more images.
  * @param {string} prompt - The text prompt.
  * @param {MultimodalContent[]} images - An array of image objects.
+ * @param {AbortSignal} [signal] - Cancels the request and any pending retries.
  * @returns {Promise<string>} The text response from the model.
  */
-export const generateMultimodalContent = async (prompt: string, images: MultimodalContent[]): Promise<string> => {
+export const generateMultimodalContent = async (prompt: string, images: MultimodalContent[], signal?: AbortSignal): Promise<string> => {
     const model = MODELS.text;
     const textPart = { text: prompt };
     const imageParts = images.map(image => ({
@@ -325,6 +400,7 @@ export const generateMultimodalContent = async (prompt: string, images: Multimod
             contents: { parts: [...imageParts, textPart] },
             config: {
                 thinkingConfig: { thinkingBudget: 0 },
+                abortSignal: signal,
             }
         });
     };
@@ -343,7 +419,7 @@ export const generateMultimodalContent = async (prompt: string, images: Multimod
                 status: 'Error',
                 error: `Retry ${attempt}: ${errorMessage}`
             });
-        });
+        }, signal);
 
         const textOutput = response.text ?? '';
         addLogEntry({
@@ -365,9 +441,10 @@ export const generateMultimodalContent = async (prompt: string, images: Multimod
 /**
  * Generates text content from a text-only prompt.
  * @param {string} prompt - The text prompt.
+ * @param {AbortSignal} [signal] - Cancels the request and any pending retries.
  * @returns {Promise<string>} The text response from the model.
  */
-export const generateText = async (prompt: string): Promise<string> => {
+export const generateText = async (prompt: string, signal?: AbortSignal): Promise<string> => {
     const model = MODELS.text;
     console.debug(`[Text Prompt Sent]\n---\n${prompt}\n---`);
     
@@ -378,6 +455,7 @@ export const generateText = async (prompt: string): Promise<string> => {
             contents: { parts: [{ text: prompt }] },
             config: {
                 thinkingConfig: { thinkingBudget: 0 },
+                abortSignal: signal,
             }
         });
     };
@@ -394,7 +472,7 @@ export const generateText = async (prompt: string): Promise<string> => {
                 status: 'Error',
                 error: `Retry ${attempt}: ${errorMessage}`
             });
-        });
+        }, signal);
 
         const textOutput = response.text ?? '';
         addLogEntry({
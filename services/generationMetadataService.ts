@@ -0,0 +1,116 @@
+/**
+ * Fills in the details recorded with each history item: which tool made it, what it
+ * probably cost, which token and server ran it, and thumbnails of its reference images.
+ */
+import { type GenerationMetadata, type GenerationSourceTool, type NewHistoryItem, type ReferenceImage } from '../types';
+import { MODELS } from './aiConfig';
+import { createImageThumbnail } from './imageService';
+import { isStoredReferenceImage, storeReferenceImages } from './referenceImageService';
+
+// Approximate list prices per generated image or 8-second video, in US dollars. They are
+// only used to give users a feel for what their gallery cost, not for billing.
+const ESTIMATED_COST_USD: Record<string, number> = {
+    [MODELS.imageGeneration]: 0.04,
+    [MODELS.imageEdit]: 0.04,
+    'veo-3.1-fast-generate-001': 1.2,
+    'veo-3.1-generate-001': 3.2,
+};
+
+const THUMBNAIL_SIZE = 96;
+const TOKEN_SUFFIX_LENGTH = 6;
+
+// History labels written by each tool, checked in order. Older items have no recorded
+// source tool, so it is worked out from these when history is migrated.
+const SOURCE_TOOL_LABELS: [RegExp, GenerationSourceTool][] = [
+    [/\(shared by .+\)$/, 'Workspace'],
+    [/^(Image Generation|Image Edit):/, 'ImageGeneration'],
+    [/^(Video Generation|Resumed):/, 'VideoGeneration'],
+    [/^(Extended:|Extension segment)/, 'VideoExtension'],
+    [/^Trimmed:/, 'VideoTrimmer'],
+    [/^Batch:/, 'Batch'],
+    [/^TikTok Affiliate:/, 'TiktokAffiliate'],
+    [/^(Product Review:|Storyboard Scene|Edited Storyboard Scene|Scene \d+ Video)/, 'ProductReview'],
+    [/^Product Photo:/, 'ProductPhoto'],
+    [/^Product Ad:/, 'ProductAd'],
+    [/^Image (Upscaled|Colors Enhanced)$/, 'ImageEnhancer'],
+    [/^Background Removed$/, 'BackgroundRemover'],
+    [/^Staff MONOklix/, 'StaffMonoklix'],
+    [/^Content Ideas for:/, 'ContentIdeas'],
+    [/^Marketing Copy for:/, 'MarketingCopy'],
+    [/^Voice:/, 'VoiceStudio'],
+    [/^Voice-over mix:/, 'VoiceOverMixer'],
+    [/^Captioned:/, 'CaptionStudio'],
+];
+
+/**
+ * Works out which tool created a history item from its label.
+ */
+export const inferSourceTool = (label: string): GenerationSourceTool => {
+    const unprefixed = label.replace(/^Re-run: /, '');
+    return SOURCE_TOOL_LABELS.find(([pattern]) => pattern.test(unprefixed))?.[1] ?? 'Unknown';
+};
+
+/**
+ * The estimated cost of one generation with the given model, or undefined if it has no
+ * known price.
+ */
+export const estimateGenerationCost = (model: string | undefined): number | undefined =>
+    model ? ESTIMATED_COST_USD[model] : undefined;
+
+export const getTokenSuffix = (token: string | undefined): string | undefined =>
+    token ? token.slice(-TOKEN_SUFFIX_LENGTH) : undefined;
+
+/**
+ * The run details every generation records: model, how long it took, and which token and
+ * server handled it.
+ */
+export const getRunMetadata = (
+    model: string,
+    startedAt: number,
+    run: { successfulToken?: string; server?: string }
+): Pick<GenerationMetadata, 'model' | 'durationMs' | 'server' | 'tokenSuffix'> => ({
+    model,
+    durationMs: Date.now() - startedAt,
+    server: run.server,
+    tokenSuffix: getTokenSuffix(run.successfulToken),
+});
+
+/**
+ * Adds what can be derived for a new history item: its source tool from the label, an
+ * estimated cost for image and video generations, and reference image thumbnails. New
+ * reference images are moved to the reference image store, leaving only their hashes.
+ */
+export const completeGenerationMetadata = async (item: NewHistoryItem): Promise<GenerationMetadata> => {
+    const { referenceImages, ...rest } = item.metadata ?? {};
+    const metadata: GenerationMetadata = { ...rest };
+    metadata.sourceTool ??= inferSourceTool(item.prompt);
+
+    if ((item.type === 'Image' || item.type === 'Video') && metadata.costUsd === undefined) {
+        metadata.costUsd = estimateGenerationCost(metadata.model);
+    }
+
+    if (!referenceImages?.length) return metadata;
+
+    // Images carried over from another item only have their hash; that item made the thumbnails.
+    const newImages = referenceImages.filter((image): image is ReferenceImage => !isStoredReferenceImage(image));
+    if (!metadata.referenceThumbnails && newImages.length === referenceImages.length) {
+        try {
+            metadata.referenceThumbnails = await Promise.all(newImages.map(image =>
+                createImageThumbnail(`data:${image.mimeType};base64,${image.base64}`, THUMBNAIL_SIZE)
+            ));
+        } catch (error) {
+            console.warn('Failed to create reference thumbnails:', error);
+        }
+    }
+    metadata.referenceImages = await storeReferenceImages(referenceImages);
+    return metadata;
+};
+
+/**
+ * A readable name for a recorded model id, falling back to the id itself.
+ */
+export const getModelLabel = (model: string): string => {
+    if (model === MODELS.imageGeneration) return 'Imagen';
+    if (model === MODELS.imageEdit) return 'Imagen (edit)';
+    return MODELS.videoGenerationOptions.find(option => option.id === model)?.label ?? model;
+};
@@ -0,0 +1,210 @@
+/**
+ * FIFO queue in front of the per-server `request_generation_slot` throttle. Each waiting
+ * request gets a row in `generation_queue`; only the oldest live row for a server asks for
+ * a slot, and everyone else follows their position via Supabase realtime.
+ */
+import { supabase } from './supabaseClient';
+import eventBus from './eventBus';
+import { type GenerationQueueEntry, type GenerationQueueStatus, type ProgressCallback } from '../types';
+import { createAbortError } from '../utils/abortUtils';
+import { createProgress } from '../utils/progressUtils';
+import { getCurrentUser } from './apiClient';
+
+// Waiting rows are heartbeated so a closed tab doesn't hold up the queue forever.
+const HEARTBEAT_INTERVAL_MS = 10_000;
+const STALE_ENTRY_MS = 30_000;
+// The head of the queue re-asks for a slot at this interval while the server cools down.
+const HEAD_RETRY_MS = 2_000;
+// Number of recent slot acquisitions used to estimate how fast the queue moves.
+const ETA_SAMPLE_SIZE = 10;
+// Acquired rows are only kept for the estimate above, and waiting rows left behind by closed
+// tabs are already skipped; anything older than this is deleted so the table stays small.
+const ENTRY_TTL_MS = 60 * 60 * 1000;
+
+// Cancel handlers of the requests waiting in this tab, keyed by queue entry id.
+const cancelHandlers = new Map<string, () => void>();
+
+/**
+ * Cancels a request that is still waiting for a generation slot. Its `waitForGenerationSlot`
+ * call rejects with an AbortError, just as if its AbortSignal had fired.
+ */
+export const cancelQueuedGeneration = (entryId: string) => {
+    cancelHandlers.get(entryId)?.();
+};
+
+const getQueuePosition = async (serverUrl: string, createdAt: string): Promise<number> => {
+    const { count, error } = await supabase
+        .from('generation_queue')
+        .select('id', { count: 'exact', head: true })
+        .eq('server_url', serverUrl)
+        .eq('status', 'waiting')
+        .lt('created_at', createdAt)
+        .gt('last_seen_at', new Date(Date.now() - STALE_ENTRY_MS).toISOString());
+    if (error) throw new Error(error.message);
+    return (count ?? 0) + 1;
+};
+
+// Deletes a server's expired entries. Best effort: a failure only leaves old rows behind.
+const pruneExpiredEntries = async (serverUrl: string) => {
+    const { error } = await supabase
+        .from('generation_queue')
+        .delete()
+        .eq('server_url', serverUrl)
+        .lt('created_at', new Date(Date.now() - ENTRY_TTL_MS).toISOString());
+    if (error) console.warn(`[Generation Queue] Failed to prune expired entries for ${serverUrl}:`, error.message);
+};
+
+/**
+ * Estimates the seconds until a slot frees up for the given position from the average gap
+ * between the server's recent slot acquisitions, never less than the server's cooldown.
+ */
+const estimateWaitSeconds = async (serverUrl: string, position: number, cooldownSeconds: number): Promise<number> => {
+    const { data, error } = await supabase
+        .from('generation_queue')
+        .select('acquired_at')
+        .eq('server_url', serverUrl)
+        .eq('status', 'acquired')
+        .order('acquired_at', { ascending: false })
+        .limit(ETA_SAMPLE_SIZE);
+
+    let secondsPerSlot = cooldownSeconds;
+    const times = (error ? [] : data).map(row => row.acquired_at ? new Date(row.acquired_at).getTime() : NaN).filter(t => !isNaN(t));
+    if (times.length >= 2) {
+        const averageGap = (times[0] - times[times.length - 1]) / (times.length - 1) / 1000;
+        secondsPerSlot = Math.max(cooldownSeconds, averageGap);
+    }
+    return Math.round(position * secondsPerSlot);
+};
+
+/**
+ * Joins the generation queue for a server and resolves once this request holds a slot.
+ * @param {string} serverUrl - The proxy server the generation will run on.
+ * @param {number} cooldownSeconds - The server's minimum gap between slots.
+ * @param {ProgressCallback} [onProgress] - Receives 'queued' updates with the position and estimated wait.
+ * @param {AbortSignal} [signal] - Leaves the queue and rejects with an AbortError when aborted.
+ */
+export const waitForGenerationSlot = async (
+    serverUrl: string,
+    cooldownSeconds: number,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+): Promise<void> => {
+    signal?.throwIfAborted();
+    const user = getCurrentUser();
+    const { data: row, error: insertError } = await supabase
+        .from('generation_queue')
+        .insert({ server_url: serverUrl, user_id: user?.id ?? null, username: user?.username || 'unknown' })
+        .select()
+        .single();
+    if (insertError || !row) {
+        throw new Error(`Database error while joining the generation queue: ${insertError?.message ?? 'no entry created'}`);
+    }
+
+    let isCancelled = false;
+    let wake: (() => void) | null = null;
+    const wakeUp = () => {
+        const resolve = wake;
+        wake = null;
+        resolve?.();
+    };
+    const cancel = () => {
+        isCancelled = true;
+        wakeUp();
+    };
+    cancelHandlers.set(row.id, cancel);
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    // Someone ahead of us getting a slot or leaving moves us up; heartbeats and new arrivals don't.
+    const channel = supabase
+        .channel(`generation-queue-${row.id}`)
+        .on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table: 'generation_queue', filter: `server_url=eq.${serverUrl}` },
+            (payload) => {
+                const changed = payload.new as { status?: GenerationQueueStatus };
+                if (payload.eventType === 'DELETE' || (payload.eventType === 'UPDATE' && changed.status !== 'waiting')) {
+                    wakeUp();
+                }
+            }
+        )
+        .subscribe();
+
+    const publish = (status: GenerationQueueStatus, position: number, etaSeconds: number | null) => {
+        const entry: GenerationQueueEntry = { id: row.id, serverUrl, status, position, etaSeconds };
+        eventBus.dispatch('generationQueueUpdated', entry);
+    };
+
+    const markAcquired = async () => {
+        const { error } = await supabase
+            .from('generation_queue')
+            .update({ status: 'acquired', acquired_at: new Date().toISOString() })
+            .eq('id', row.id);
+        if (error) console.error(`[Generation Queue] Failed to mark entry ${row.id} as acquired:`, error.message);
+    };
+
+    // A cancelled entry isn't needed for anything, so it is removed rather than kept.
+    const leaveQueue = async () => {
+        const { error } = await supabase.from('generation_queue').delete().eq('id', row.id);
+        if (error) console.error(`[Generation Queue] Failed to remove entry ${row.id}:`, error.message);
+    };
+
+    let lastHeartbeat = Date.now();
+    let position = 0;
+    let isAcquired = false;
+
+    try {
+        while (true) {
+            if (isCancelled) {
+                throw createAbortError('Generation was cancelled while waiting in the queue.');
+            }
+
+            if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) {
+                lastHeartbeat = Date.now();
+                await supabase.from('generation_queue').update({ last_seen_at: new Date().toISOString() }).eq('id', row.id);
+            }
+
+            position = await getQueuePosition(serverUrl, row.created_at);
+
+            if (position === 1) {
+                const { data: acquired, error } = await supabase.rpc('request_generation_slot', {
+                    cooldown_seconds: cooldownSeconds,
+                    server_url: serverUrl
+                });
+                if (error) {
+                    console.error('Error requesting generation slot:', error);
+                    throw new Error(`Database error while requesting a generation slot: ${error.message}`);
+                }
+                if (acquired) {
+                    isAcquired = true;
+                    await markAcquired();
+                    publish('acquired', 0, 0);
+                    pruneExpiredEntries(serverUrl);
+                    return;
+                }
+            }
+
+            const etaSeconds = await estimateWaitSeconds(serverUrl, position, cooldownSeconds);
+            publish('waiting', position, etaSeconds);
+            onProgress?.(createProgress('queued', { server: serverUrl, queuePosition: position, etaSeconds }));
+
+            // Sleep until the queue changes, cancel is pressed, or it's time to retry/heartbeat.
+            await new Promise<void>(resolve => {
+                const timer = setTimeout(wakeUp, position === 1 ? HEAD_RETRY_MS : HEARTBEAT_INTERVAL_MS);
+                wake = () => {
+                    clearTimeout(timer);
+                    resolve();
+                };
+                if (isCancelled) wakeUp();
+            });
+        }
+    } finally {
+        cancelHandlers.delete(row.id);
+        signal?.removeEventListener('abort', cancel);
+        supabase.removeChannel(channel);
+        if (!isAcquired) {
+            // Cancelled or failed: leave the queue so the requests behind us move up.
+            leaveQueue();
+            publish('cancelled', position, null);
+        }
+    }
+};
@@ -0,0 +1,122 @@
+import { type HistoryItem, type GenerationMetadata, type ProgressCallback, type ReferenceImage } from '../types';
+import { generateImageWithImagen, editOrComposeWithImagen, type ImagenConfig } from './imagenV3Service';
+import { generateVideo } from './geminiService';
+import { addHistoryItem } from './historyService';
+import { incrementImageUsage, incrementVideoUsage } from './userService';
+import { MODELS } from './aiConfig';
+import eventBus from './eventBus';
+import { getRunMetadata } from './generationMetadataService';
+import { loadReferenceImages } from './referenceImageService';
+import { createProgress } from '../utils/progressUtils';
+import { getCurrentUser } from './apiClient';
+
+export type RerunSeedMode = 'same' | 'vary';
+
+const RERUN_LABEL_PREFIX = 'Re-run: ';
+
+/**
+ * Whether a history item recorded enough about its generation to be run again.
+ */
+export const canRerunHistoryItem = (item: HistoryItem): boolean =>
+    (item.type === 'Image' || item.type === 'Video') && !!item.metadata?.prompt;
+
+const runImage = async (prompt: string, metadata: GenerationMetadata, referenceImages: ReferenceImage[], seed: number | undefined, onProgress?: ProgressCallback, signal?: AbortSignal) => {
+    const config: ImagenConfig = {
+        sampleCount: 1,
+        aspectRatio: metadata.aspectRatio as ImagenConfig['aspectRatio'],
+        seed,
+    };
+
+    // Edits were recorded with the full editing prompt, so it is sent as is.
+    const result = referenceImages.length
+        ? await editOrComposeWithImagen({
+            prompt,
+            images: referenceImages.map(img => ({ ...img, category: 'MEDIA_CATEGORY_SUBJECT', caption: img.caption ?? 'image to edit' })),
+            config,
+            signal,
+        }, onProgress)
+        : await generateImageWithImagen({
+            prompt,
+            config: { ...config, negativePrompt: metadata.negativePrompt },
+            signal,
+        }, onProgress);
+
+    const resultImage: string | undefined = result.imagePanels[0]?.generatedImages[0]?.encodedImage;
+    if (!resultImage) {
+        throw new Error("The AI did not return an image. Please try again.");
+    }
+    const model = referenceImages.length ? MODELS.imageEdit : MODELS.imageGeneration;
+    return { result: resultImage, seed: result.seed as number, model, run: result };
+};
+
+const runVideo = async (prompt: string, metadata: GenerationMetadata, referenceImages: ReferenceImage[], seed: number | undefined, onProgress?: ProgressCallback, signal?: AbortSignal) => {
+    // A second reference image is the last frame of a start-and-end keyframe video.
+    const [referenceImage, endImage] = referenceImages;
+    const model = metadata.model ?? MODELS.videoGenerationDefault;
+    const { videoFile, seed: usedSeed, successfulToken, server } = await generateVideo(
+        prompt,
+        model,
+        metadata.aspectRatio ?? '9:16',
+        metadata.resolution ?? '720p',
+        metadata.negativePrompt ?? '',
+        referenceImage ? { imageBytes: referenceImage.base64, mimeType: referenceImage.mimeType } : undefined,
+        onProgress,
+        signal,
+        seed,
+        endImage ? { imageBytes: endImage.base64, mimeType: endImage.mimeType } : undefined
+    );
+    return { result: videoFile as Blob, seed: usedSeed, model, run: { successfulToken, server } };
+};
+
+/**
+ * Generates a history item again from its recorded metadata, either with the same seed
+ * (to reproduce it) or a new random one (to get a variation), and saves the result as
+ * a new history item.
+ */
+export const rerunHistoryItem = async (
+    item: HistoryItem,
+    seedMode: RerunSeedMode,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+): Promise<void> => {
+    const metadata = item.metadata;
+    if (!metadata?.prompt || !canRerunHistoryItem(item)) {
+        throw new Error('This item has no recorded generation settings to re-run.');
+    }
+
+    // Leaving the seed unset makes the service pick a new random one.
+    const seed = seedMode === 'same' ? metadata.seed : undefined;
+    const referenceImages = await loadReferenceImages(metadata.referenceImages ?? []);
+    const startedAt = Date.now();
+    const { result, seed: usedSeed, model, run } = item.type === 'Video'
+        ? await runVideo(metadata.prompt, metadata, referenceImages, seed, onProgress, signal)
+        : await runImage(metadata.prompt, metadata, referenceImages, seed, onProgress, signal);
+
+    onProgress?.(createProgress('caching'));
+    await addHistoryItem({
+        type: item.type,
+        prompt: item.prompt.startsWith(RERUN_LABEL_PREFIX) ? item.prompt : `${RERUN_LABEL_PREFIX}${item.prompt}`,
+        result,
+        // Only the generation settings carry over; edit history such as a trim range,
+        // cover frame or cost belongs to the original item.
+        metadata: {
+            prompt: metadata.prompt,
+            aspectRatio: metadata.aspectRatio,
+            resolution: metadata.resolution,
+            negativePrompt: metadata.negativePrompt,
+            referenceImages: metadata.referenceImages,
+            referenceThumbnails: metadata.referenceThumbnails,
+            ...getRunMetadata(model, startedAt, run),
+            seed: usedSeed,
+        },
+    });
+
+    const user = getCurrentUser();
+    if (user) {
+        const updateResult = item.type === 'Video' ? await incrementVideoUsage(user) : await incrementImageUsage(user);
+        if (updateResult.success) {
+            eventBus.dispatch('userUsageUpdated', updateResult.user);
+        }
+    }
+    onProgress?.(createProgress('done'));
+};
@@ -1,24 +1,62 @@
 import localforage from 'localforage';
 import { v4 as uuidv4 } from 'uuid';
-import { type HistoryItem } from '../types';
+import { type HistoryItem, type NewHistoryItem } from '../types';
 import { cacheVideo, getCachedVideo, deleteCachedVideo } from './videoCacheService';
+import { completeGenerationMetadata, inferSourceTool } from './generationMetadataService';
+import { pruneReferenceImages, storeReferenceImages } from './referenceImageService';
 
 const HISTORY_KEY = 'monoklix_history';
+const HISTORY_VERSION_KEY = 'monoklix_history_version';
+// Version 2 added generation metadata; older items get their source tool from their label.
+// Version 3 moved reference images out of the items into the reference image store.
+const HISTORY_VERSION = 3;
 const MAX_HISTORY_ITEMS = 100;
 
 // ===============================
 // 📝 HISTORY MANAGEMENT
 // ===============================
 
+/**
+ * Read stored history, migrating items saved by older versions of the app first
+ */
+const loadHistory = async (): Promise<HistoryItem[]> => {
+  const history = await localforage.getItem<HistoryItem[]>(HISTORY_KEY) || [];
+  const version = await localforage.getItem<number>(HISTORY_VERSION_KEY) || 1;
+  if (version >= HISTORY_VERSION) {
+    return history;
+  }
+
+  const migrated = await Promise.all(history.map(async item => {
+    const metadata = { ...item.metadata, sourceTool: item.metadata?.sourceTool ?? inferSourceTool(item.prompt) };
+    // Items saved before version 3 still hold the base64 here, which stores it once by hash
+    if (metadata.referenceImages?.length) {
+      metadata.referenceImages = await storeReferenceImages(metadata.referenceImages);
+    }
+    return { ...item, metadata };
+  }));
+  await localforage.setItem(HISTORY_KEY, migrated);
+  await localforage.setItem(HISTORY_VERSION_KEY, HISTORY_VERSION);
+  console.log(`✅ Migrated ${migrated.length} history items to version ${HISTORY_VERSION}`);
+  return migrated;
+};
+
+/**
+ * Drop stored reference images that no remaining item uses
+ */
+const pruneUnusedReferenceImages = (history: HistoryItem[]): Promise<void> =>
+  pruneReferenceImages(new Set(history.flatMap(item => item.metadata?.referenceImages?.map(image => image.hash) ?? [])))
+    .catch(err => console.warn('Failed to prune reference images:', err));
+
 /**
  * Add item to history with video caching
  */
-export const addHistoryItem = async (item: Omit<HistoryItem, 'id' | 'timestamp'>): Promise<void> => {
+export const addHistoryItem = async (item: NewHistoryItem): Promise<void> => {
   try {
     const newItem: HistoryItem = {
       ...item,
       id: uuidv4(),
       timestamp: Date.now(),
+      metadata: await completeGenerationMetadata(item),
     };
 
     // ✅ If it's a video, cache it persistently
@@ -30,7 +68,7 @@ export const addHistoryItem = async (item: Omit<HistoryItem, 'id' | 'timestamp'>
         item.result,
         {
           prompt: item.prompt,
-          model: 'veo-3.0', // You can pass this from the caller
+          model: newItem.metadata?.model,
           duration: undefined // Can calculate if needed
         }
       );
@@ -39,12 +77,12 @@ export const addHistoryItem = async (item: Omit<HistoryItem, 'id' | 'timestamp'>
       newItem.result = `cached:${newItem.id}`;
     }
 
-    const history = await localforage.getItem<HistoryItem[]>(HISTORY_KEY) || [];
+    const history = await loadHistory();
     history.unshift(newItem);
 
     // Limit history size
-    if (history.length > MAX_HISTORY_ITEMS) {
-      const removed = history.splice(MAX_HISTORY_ITEMS);
+    const removed = history.length > MAX_HISTORY_ITEMS ? history.splice(MAX_HISTORY_ITEMS) : [];
+    if (removed.length > 0) {
       
       // Clean up cached videos for removed items
       for (const item of removed) {
@@ -58,6 +96,9 @@ export const addHistoryItem = async (item: Omit<HistoryItem, 'id' | 'timestamp'>
     }
 
     await localforage.setItem(HISTORY_KEY, history);
+    if (removed.length > 0) {
+      await pruneUnusedReferenceImages(history);
+    }
     console.log('✅ History item added:', newItem.id);
 
   } catch (error) {
@@ -71,7 +112,7 @@ export const addHistoryItem = async (item: Omit<HistoryItem, 'id' | 'timestamp'>
  */
 export const getHistory = async (): Promise<HistoryItem[]> => {
   try {
-    const history = await localforage.getItem<HistoryItem[]>(HISTORY_KEY) || [];
+    const history = await loadHistory();
     
     // ✅ Resolve cached video references
     const resolvedHistory = await Promise.all(
@@ -120,7 +161,7 @@ export const getHistoryItemById = async (id: string): Promise<HistoryItem | null
  */
 export const deleteHistoryItem = async (id: string): Promise<void> => {
   try {
-    const history = await localforage.getItem<HistoryItem[]>(HISTORY_KEY) || [];
+    const history = await loadHistory();
     const itemIndex = history.findIndex(item => item.id === id);
     
     if (itemIndex === -1) {
@@ -140,6 +181,7 @@ export const deleteHistoryItem = async (id: string): Promise<void> => {
 
     history.splice(itemIndex, 1);
     await localforage.setItem(HISTORY_KEY, history);
+    await pruneUnusedReferenceImages(history);
     console.log('✅ History item deleted:', id);
 
   } catch (error) {
@@ -153,7 +195,7 @@ export const deleteHistoryItem = async (id: string): Promise<void> => {
  */
 export const clearHistory = async (): Promise<void> => {
   try {
-    const history = await localforage.getItem<HistoryItem[]>(HISTORY_KEY) || [];
+    const history = await loadHistory();
 
     // Delete all cached videos
     const deletePromises = history
@@ -167,6 +209,7 @@ export const clearHistory = async (): Promise<void> => {
 
     await Promise.all(deletePromises);
     await localforage.removeItem(HISTORY_KEY);
+    await pruneUnusedReferenceImages([]);
     console.log('✅ History cleared');
 
   } catch (error) {
@@ -193,7 +236,7 @@ export const getHistoryByType = async (type: HistoryItem['type']): Promise<Histo
  */
 export const exportHistory = async (): Promise<string> => {
   try {
-    const history = await localforage.getItem<HistoryItem[]>(HISTORY_KEY) || [];
+    const history = await loadHistory();
     
     // Convert to exportable format (remove blobs)
     const exportData = history.map(item => ({
@@ -201,6 +244,8 @@ export const exportHistory = async (): Promise<string> => {
       type: item.type,
       prompt: item.prompt,
       timestamp: item.timestamp,
+      // Reference images are left out; the thumbnails are enough to recognise them
+      metadata: item.metadata && { ...item.metadata, referenceImages: undefined },
       // Store video reference only
       result: item.type === 'Video' ? 'cached' : item.result
     }));
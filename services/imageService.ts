@@ -77,3 +77,86 @@ export const cropImageToAspectRatio = async (
       : `data:image/png;base64,${imageBase64}`;
   });
 };
+
+/**
+ * Scales an image down to fit within maxSize x maxSize for use as a small preview.
+ * @returns {Promise<string>} A JPEG data URL.
+ */
+export const createImageThumbnail = async (imageBase64: string, maxSize = 512): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
+
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+
+    img.onerror = () => reject(new Error('Failed to load image for thumbnail'));
+
+    img.src = imageBase64.startsWith('data:')
+      ? imageBase64
+      : `data:image/png;base64,${imageBase64}`;
+  });
+};
+
+/**
+ * Captures the frame shown at `timeSeconds` in a video, e.g. to use as its poster.
+ * @returns {Promise<string>} The frame as base64 PNG data, without the data URL prefix.
+ */
+export const extractVideoFrame = async (video: Blob, timeSeconds: number): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(video);
+    const element = document.createElement('video');
+    element.muted = true;
+    element.playsInline = true;
+    element.preload = 'auto';
+
+    element.onloadedmetadata = () => {
+      // Seeking to the very end can land past the last decodable frame, so stop just short.
+      element.currentTime = Math.max(0, Math.min(timeSeconds, element.duration - 0.05));
+    };
+
+    element.onseeked = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = element.videoWidth;
+      canvas.height = element.videoHeight;
+      const ctx = canvas.getContext('2d');
+      URL.revokeObjectURL(url);
+
+      if (!ctx) {
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
+
+      ctx.drawImage(element, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png').split(',')[1]);
+    };
+
+    element.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load video for frame capture'));
+    };
+
+    element.src = url;
+  });
+};
+
+/**
+ * Captures the last frame of a video, e.g. to continue the shot in a new generation.
+ * @returns {Promise<string>} The frame as base64 PNG data, without the data URL prefix.
+ */
+export const extractLastVideoFrame = (video: Blob): Promise<string> =>
+  extractVideoFrame(video, Infinity);
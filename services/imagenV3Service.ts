@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { executeProxiedRequest } from './apiClient';
+import { type ProgressCallback } from '../types';
 import { generateVideoWithVeo3 } from './veo3Service';
 
 // This map translates user-friendly aspect ratios to the API-specific enums.
@@ -22,6 +23,7 @@ export interface ImagenConfig {
 export interface ImageGenerationRequest {
   prompt: string;
   config: ImagenConfig;
+  signal?: AbortSignal;
 }
 
 export interface RecipeMediaInput {
@@ -32,7 +34,7 @@ export interface RecipeMediaInput {
   };
 }
 
-export const uploadImageForImagen = async (base64Image: string, mimeType: string, authToken?: string, onStatusUpdate?: (status: string) => void): Promise<string> => {
+export const uploadImageForImagen = async (base64Image: string, mimeType: string, authToken?: string, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<string> => {
   console.log(`📤 [Imagen Service] Preparing to upload image for Imagen. MimeType: ${mimeType}`);
   const requestBody = {
     clientContext: { 
@@ -50,7 +52,8 @@ export const uploadImageForImagen = async (base64Image: string, mimeType: string
     requestBody, 
     'IMAGEN UPLOAD', 
     authToken, 
-    onStatusUpdate
+    onProgress,
+    signal
   );
 
   const mediaId = 
@@ -67,11 +70,12 @@ export const uploadImageForImagen = async (base64Image: string, mimeType: string
 };
 
 
-export const generateImageWithImagen = async (request: ImageGenerationRequest, onStatusUpdate?: (status: string) => void, isHealthCheck = false) => {
+export const generateImageWithImagen = async (request: ImageGenerationRequest, onProgress?: ProgressCallback, isHealthCheck = false) => {
   console.log(`🎨 [Imagen Service] Preparing generateImageWithImagen (T2I) request...`);
-  const { prompt, config } = request;
+  const { prompt, config, signal } = request;
   
   const fullPrompt = config.negativePrompt ? `${prompt}, negative prompt: ${config.negativePrompt}` : prompt;
+  const seed = config.seed ?? Math.floor(Math.random() * 2147483647);
   
   console.debug(`[Imagen T2I Prompt Sent]\n---\n${fullPrompt}\n---`);
 
@@ -86,39 +90,43 @@ export const generateImageWithImagen = async (request: ImageGenerationRequest, o
       },
       prompt: fullPrompt,
       mediaCategory: 'MEDIA_CATEGORY_SCENE',
-      seed: config.seed || Math.floor(Math.random() * 2147483647),
+      seed,
   };
   
   const logContext = isHealthCheck ? 'IMAGEN HEALTH CHECK' : 'IMAGEN GENERATE';
   console.log(`🎨 [Imagen Service] Sending T2I request to API client.`);
   
-  const { data: result } = await executeProxiedRequest(
+  const { data: result, successfulToken, server } = await executeProxiedRequest(
     '/generate',
     'imagen',
     requestBody,
     logContext,
     config.authToken,
-    onStatusUpdate
+    onProgress,
+    signal
   );
 
   console.log(`🎨 [Imagen Service] Received T2I result with ${result.imagePanels?.length || 0} panels.`);
-  return result;
+  // The seed, token and server are returned so callers can record how the image was made.
+  return { ...result, seed, successfulToken, server };
 };
 
 export const runImageRecipe = async (request: {
     userInstruction: string;
     recipeMediaInputs: RecipeMediaInput[];
     config: Omit<ImagenConfig, 'negativePrompt'>;
-}, onStatusUpdate?: (status: string) => void) => {
+    signal?: AbortSignal;
+}, onProgress?: ProgressCallback) => {
     console.log(`✏️ [Imagen Service] Preparing runImageRecipe request with ${request.recipeMediaInputs.length} media inputs.`);
-    const { userInstruction, recipeMediaInputs, config } = request;
+    const { userInstruction, recipeMediaInputs, config, signal } = request;
+    const seed = config.seed ?? Math.floor(Math.random() * 2147483647);
     
     const requestBody = {
         clientContext: {
             tool: 'BACKBONE',
             sessionId: `;${Date.now()}`
         },
-        seed: config.seed || Math.floor(Math.random() * 2147483647),
+        seed,
         imageModelSettings: {
             imageModel: 'R2I',
             aspectRatio: aspectRatioApiMap[config.aspectRatio || '1:1'] || "IMAGE_ASPECT_RATIO_SQUARE"
@@ -127,29 +135,31 @@ export const runImageRecipe = async (request: {
         recipeMediaInputs
     };
 
-    const { data: result } = await executeProxiedRequest(
+    const { data: result, successfulToken, server } = await executeProxiedRequest(
       '/run-recipe',
       'imagen',
       requestBody,
       'IMAGEN RECIPE',
       config.authToken,
-      onStatusUpdate
+      onProgress,
+      signal
     );
     console.log(`✏️ [Imagen Service] Received recipe result with ${result.imagePanels?.length || 0} panels.`);
-    return result;
+    return { ...result, seed, successfulToken, server };
 };
 
 export const editOrComposeWithImagen = async (request: {
     prompt: string,
     images: { base64: string, mimeType: string, category: string, caption: string }[],
-    config: ImagenConfig
-}, onStatusUpdate?: (status: string) => void) => {
+    config: ImagenConfig,
+    signal?: AbortSignal
+}, onProgress?: ProgressCallback) => {
     console.log(`🎨➡️✏️ [Imagen Service] Starting editOrComposeWithImagen flow with ${request.images.length} images.`);
     
     console.debug(`[Imagen Edit/Compose Prompt Sent]\n---\n${request.prompt}\n---`);
 
     const mediaIds = await Promise.all(
-        request.images.map(img => uploadImageForImagen(img.base64, img.mimeType, request.config.authToken, onStatusUpdate))
+        request.images.map(img => uploadImageForImagen(img.base64, img.mimeType, request.config.authToken, onProgress, request.signal))
     );
     console.log(`🎨➡️✏️ [Imagen Service] All images uploaded. Media IDs: [${mediaIds.join(', ')}]`);
 
@@ -162,8 +172,9 @@ export const editOrComposeWithImagen = async (request: {
     const result = await runImageRecipe({
         userInstruction: request.prompt,
         recipeMediaInputs,
-        config: request.config
-    }, onStatusUpdate);
+        config: request.config,
+        signal: request.signal
+    }, onProgress);
     
     return result;
 };
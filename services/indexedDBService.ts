@@ -1,11 +1,14 @@
-import { type AiLogItem, type HistoryItem } from '../types';
+import { type AiLogItem, type BrandKit, type HistoryItem, type StoryboardProject, type VideoJob } from '../types';
 
 const DB_NAME = 'monoklix-ai-db';
-const DB_VERSION = 2; // Incremented version to trigger onupgradeneeded
+const DB_VERSION = 5; // Incremented version to trigger onupgradeneeded
 const STORES = {
     SETTINGS: 'settings',
     HISTORY: 'history',
     LOGS: 'logs',
+    VIDEO_JOBS: 'videoJobs',
+    STORYBOARD_PROJECTS: 'storyboardProjects',
+    BRAND_KITS: 'brandKits',
 };
 
 let db: IDBDatabase | null = null;
@@ -46,6 +49,21 @@ const openDB = (): Promise<IDBDatabase> => {
                 logsStore.createIndex('userId', 'userId', { unique: false });
                 logsStore.createIndex('timestamp', 'timestamp', { unique: false });
             }
+            if (!dbInstance.objectStoreNames.contains(STORES.VIDEO_JOBS)) {
+                const jobsStore = dbInstance.createObjectStore(STORES.VIDEO_JOBS, { keyPath: 'id' });
+                jobsStore.createIndex('userId', 'userId', { unique: false });
+                jobsStore.createIndex('timestamp', 'timestamp', { unique: false });
+            }
+            if (!dbInstance.objectStoreNames.contains(STORES.STORYBOARD_PROJECTS)) {
+                const projectsStore = dbInstance.createObjectStore(STORES.STORYBOARD_PROJECTS, { keyPath: 'id' });
+                projectsStore.createIndex('userId', 'userId', { unique: false });
+                projectsStore.createIndex('timestamp', 'timestamp', { unique: false });
+            }
+            if (!dbInstance.objectStoreNames.contains(STORES.BRAND_KITS)) {
+                const brandKitsStore = dbInstance.createObjectStore(STORES.BRAND_KITS, { keyPath: 'id' });
+                brandKitsStore.createIndex('userId', 'userId', { unique: false });
+                brandKitsStore.createIndex('timestamp', 'timestamp', { unique: false });
+            }
         };
     });
 };
@@ -116,6 +134,17 @@ const deleteItem = async (storeName: string, id: string): Promise<void> => {
     });
 };
 
+const putItem = async (storeName: string, item: any): Promise<void> => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    store.put(item);
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = (event) => reject((event.target as IDBTransaction).error);
+    });
+};
+
 const clearItemsForUser = async (storeName: string, userId: string): Promise<void> => {
     const dbInstance = await openDB();
     const transaction = dbInstance.transaction(storeName, 'readwrite');
@@ -186,4 +215,19 @@ export const dbAddAndPruneHistory = (item: HistoryItem, userId: string, max: num
 // --- Exported Log Functions ---
 export const dbGetLogs = (userId: string) => getAllItemsForUser<AiLogItem>(STORES.LOGS, userId);
 export const dbClearLogs = (userId: string) => clearItemsForUser(STORES.LOGS, userId);
-export const dbAddAndPruneLogEntry = (item: AiLogItem, userId: string, max: number) => addAndPrune(STORES.LOGS, item, userId, max);
\ No newline at end of file
+export const dbAddAndPruneLogEntry = (item: AiLogItem, userId: string, max: number) => addAndPrune(STORES.LOGS, item, userId, max);
+
+// --- Exported Video Job Functions ---
+export const dbGetVideoJobs = (userId: string) => getAllItemsForUser<VideoJob>(STORES.VIDEO_JOBS, userId);
+export const dbPutVideoJob = (job: VideoJob) => putItem(STORES.VIDEO_JOBS, job);
+export const dbDeleteVideoJob = (id: string) => deleteItem(STORES.VIDEO_JOBS, id);
+
+// --- Exported Storyboard Project Functions ---
+export const dbGetStoryboardProjects = (userId: string) => getAllItemsForUser<StoryboardProject>(STORES.STORYBOARD_PROJECTS, userId);
+export const dbPutStoryboardProject = (project: StoryboardProject) => putItem(STORES.STORYBOARD_PROJECTS, project);
+export const dbDeleteStoryboardProject = (id: string) => deleteItem(STORES.STORYBOARD_PROJECTS, id);
+
+// --- Exported Brand Kit Functions ---
+export const dbGetBrandKits = (userId: string) => getAllItemsForUser<BrandKit>(STORES.BRAND_KITS, userId);
+export const dbPutBrandKit = (kit: BrandKit) => putItem(STORES.BRAND_KITS, kit);
+export const dbDeleteBrandKit = (id: string) => deleteItem(STORES.BRAND_KITS, id);
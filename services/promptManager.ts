@@ -2,8 +2,14 @@
  * This service centralizes all prompt engineering logic.
  * Instead of constructing prompts inside UI components, we define them here.
  * This makes prompts easier to manage, version, and test independently of the UI.
+ *
+ * Prompts that have been moved to declarative templates (services/promptTemplates.ts)
+ * are rendered through the template registry, which also applies per-user overrides.
  */
-import { type CreativeDirectionState } from './creativeDirectionService';
+import { type CreativeDirectionState, type VideoCreativeDirectionState } from './creativeDirectionService';
+import { renderPrompt, getPromptLocale } from './promptTemplateService';
+import { getBrandKitPromptInputs } from './brandKitService';
+import { type BrandKit } from '../types';
 
 
 // --- AI Support ---
@@ -30,11 +36,8 @@ Example replies:
 - "Baik, saya escalate isu ni kepada team teknikal kami."`;
 
 // --- Content Ideas ---
-export const getContentIdeasPrompt = (topic: string, language: string): string => `
-    Generate a list of 5 engaging content ideas (e.g., blog posts, social media updates, video scripts) for the following topic: "${topic}".
-    The ideas should be trendy, relevant, and aimed at capturing audience attention. For each idea, provide a catchy title and a brief description of the concept.
-    The final output language must be strictly in ${language}.
-`;
+export const getContentIdeasPrompt = (topic: string, language: string): string =>
+  renderPrompt('content-ideas', { topic, language });
 
 // --- Marketing Copy ---
 export const getMarketingCopyPrompt = (details: {
@@ -43,24 +46,11 @@ export const getMarketingCopyPrompt = (details: {
   keywords: string;
   selectedTone: string;
   selectedLanguage: string;
-}): string => `
-    You are an expert marketing copywriter. Generate compelling marketing copy based on the following details.
-    The final output language must be strictly in ${details.selectedLanguage}.
-
-    **Product/Service Details:**
-    ${details.productDetails}
-
-    **Target Audience:**
-    ${details.targetAudience || 'General Audience'}
-
-    **Tone of Voice:**
-    ${details.selectedTone}
-
-    **Keywords to include:**
-    ${details.keywords || 'None'}
-
-    The copy should be engaging, persuasive, and ready for use in social media posts, advertisements, or website content. Structure the output clearly, perhaps with a headline and body.
-`;
+  brandKit?: BrandKit | null;
+}): string => {
+  const { brandKit, ...rest } = details;
+  return renderPrompt('marketing-copy', { ...rest, ...getBrandKitPromptInputs(brandKit) });
+};
 
 // --- Product Ad Storyline ---
 export const getProductAdPrompt = (details: {
@@ -69,55 +59,22 @@ export const getProductAdPrompt = (details: {
   vibe: string;
   lighting: string;
   contentType: string;
-}): string => `
-    You are an expert advertising copywriter and storyboard artist for social media video ads.
-    Create a compelling 1-scene storyboard for a video ad based on the provided product image and details.
-    The output language for the storyboard must be in ${details.language}.
-
-    **Product Description:**
-    ${details.productDesc}
-
-    **Creative Direction:**
-    - Vibe: ${details.vibe}
-    - Lighting: ${details.lighting}
-    - Content Type: ${details.contentType}
-
-    Based on all this information, describe one effective scene. What does the viewer see? What is the voiceover or on-screen text?
-    Keep it short, engaging, and optimised for platforms like TikTok or Instagram Reels.
-`;
+  brandKit?: BrandKit | null;
+}): string => {
+  const { brandKit, ...rest } = details;
+  return renderPrompt('product-ad', { ...rest, ...getBrandKitPromptInputs(brandKit) }, getPromptLocale(details.language));
+};
 
 // --- Product Photo (Unified Prompt) ---
 export const getProductPhotoPrompt = (details: {
   creativeDirection: CreativeDirectionState;
   customPrompt: string;
+  brandKit?: BrandKit | null;
 }): string => {
   if (details.customPrompt.trim()) {
     return details.customPrompt.trim();
   }
-
-  const { vibe, style, lighting, camera, composition, lensType, filmSim, effect, creativityLevel } = details.creativeDirection;
-
-  const promptParts = [
-    `Create a professional, photorealistic product photo for the uploaded image.`,
-    `Do not include any people, models, or text. Focus only on the product itself.`,
-
-    `**Creative Direction:**`,
-    `- Background / Vibe: ${vibe}`,
-    `- Artistic Style: ${style === 'Random' ? 'photorealistic' : style}`,
-    `- Lighting: ${lighting === 'Random' ? 'interesting, cinematic lighting' : lighting}`,
-    `- Camera Shot: ${camera === 'Random' ? 'a dynamic angle' : camera}`,
-    `- Composition: ${composition === 'Random' ? 'well-composed' : composition}`,
-    `- Lens Type: ${lensType === 'Random' ? 'standard lens' : lensType}`,
-    `- Film Simulation: ${filmSim === 'Random' ? 'modern digital look' : filmSim}`,
-    `- Visual Effect: ${effect === 'Random' || effect === 'None' ? 'none' : effect}`,
-    `- AI Creativity Level: ${creativityLevel} out of 10 (0 = literal, 10 = full artistic freedom)`,
-    
-    `**Final Requirements:**`,
-    `- The result must be clean, aesthetic, and suitable for e-commerce listings or social media.`,
-    `- CRITICAL: The final image must be purely visual. Do NOT add text, watermarks, or logos.`
-  ];
-
-  return promptParts.join('\n');
+  return renderPrompt('product-photo', { ...details.creativeDirection, ...getBrandKitPromptInputs(details.brandKit) });
 };
 
 
@@ -129,66 +86,11 @@ export const getProductReviewStoryboardPrompt = (details: {
   includeCaptions: 'Yes' | 'No';
   includeVoiceover: 'Yes' | 'No';
   includeModel: 'Yes' | 'No';
+  sceneCount: number;
   creativeDirection: CreativeDirectionState;
 }): string => {
-  const { vibe, style, lighting, camera, composition, lensType, filmSim, effect, creativityLevel } = details.creativeDirection;
-  const isMalay = details.selectedLanguage === 'Bahasa Malaysia';
-  const sceneTitle = isMalay ? 'Babak' : 'Scene';
-  const voiceoverTitle = isMalay ? 'Skrip Suara Latar' : 'Voiceover';
-  const captionTitle = isMalay ? 'Kapsyen' : 'Captions';
-  const visualTitle = isMalay ? 'Visual' : 'Visuals';
-
-  // Dynamically build the list of required elements and instructions
-  const structureElements = [`"**${visualTitle}:**"`];
-  let dynamicExtraInstructions = "For each scene, create a description of the visuals.";
-
-  if (details.includeVoiceover === 'Yes') {
-    structureElements.push(`"**${voiceoverTitle}:**"`);
-    dynamicExtraInstructions += " Also, write a natural-sounding voiceover script (max 120 characters).";
-  }
-
-  if (details.includeCaptions === 'Yes') {
-    structureElements.push(`"**${captionTitle}:**"`);
-    dynamicExtraInstructions += " Also, provide short, punchy on-screen captions.";
-  }
-
-  return `
-You are an expert AI assistant specialising in creating storyboards for social media product review videos.
-The output language for all generated text (titles, descriptions, scripts) must be strictly in ${details.selectedLanguage}.
-
-Create a **4-scene storyboard** for a short-form video (TikTok, Instagram Reels, YouTube Shorts) based on the following:
-
-**Product Description:**
-${details.productDesc}
-
-**Creative Direction:**
-- Include a model in the video: ${details.includeModel}
-- Vibe: ${vibe}
-- Background Vibe: ${vibe}
-- Content Type: ${details.selectedContentType}
-- Artistic Style: ${style}
-- Lighting: ${lighting}
-- Camera Shot Style: ${camera}
-- Composition: ${composition}
-- Lens Type: ${lensType}
-- Film Simulation: ${filmSim}
-- Visual Effect: ${effect}
-- AI Creativity Level (0-10): ${creativityLevel}
-- On-Screen Text/Captions: ${details.includeCaptions}
-- Voiceover Script: ${details.includeVoiceover}
-
-**Task:**
-${dynamicExtraInstructions}
-The storyboard must follow a logical flow:  
-1. Introduction (hook & product reveal)  
-2. Demonstration / Features  
-3. Benefits / User experience  
-4. Call-to-action (why buy / final push)
-
-**Output Structure:**
-The output must be structured with clear headings for each scene, like "**${sceneTitle} 1:**", "**${sceneTitle} 2:**", etc.
-For each scene, you MUST use the following headings for the required elements: ${structureElements.join(', ')}.
-`;
+  const { creativeDirection, ...rest } = details;
+  return renderPrompt('product-review-storyboard', { ...creativeDirection, ...rest }, getPromptLocale(details.selectedLanguage));
 };
 
 
@@ -262,73 +164,18 @@ export const getTiktokAffiliatePrompt = (details: {
   hasFaceImage?: boolean;
   customPrompt: string;
   creativeDirection: CreativeDirectionState;
+  brandKit?: BrandKit | null;
 }): string => {
   if (details.customPrompt.trim()) {
     return details.customPrompt.trim();
   }
-  
-  const { vibe, style, lighting, camera, composition, lensType, filmSim, pose, creativityLevel } = details.creativeDirection;
-
-  if (details.hasFaceImage) {
-    // Use a much stricter prompt when a face is provided to ensure it's preserved.
-    return `
-You are an AI image generation expert. Your task is to create a single, photorealistic UGC-style image by compositing a person and a product into a new scene.
-
-**Provided Assets:**
-1.  **Person's Face:** A reference image of the person to be featured.
-2.  **Product:** A reference image of the product.
-
-**Creative Direction for the New Scene:**
--   **Background/Vibe:** ${vibe}
--   **Model's Pose:** ${pose === 'Random' ? 'a natural and relaxed pose, interacting with the product if appropriate' : pose}
--   **Artistic Style:** ${style === 'Random' ? 'photorealistic' : style}
--   **Lighting:** ${lighting === 'Random' ? 'flattering and natural-looking lighting' : lighting}
--   **Camera Shot:** ${camera === 'Random' ? 'a dynamic angle' : camera}
--   **Composition:** ${composition === 'Random' ? 'well-composed' : composition}
--   **Lens Type:** ${lensType === 'Random' ? 'standard lens' : lensType}
--   **Film Simulation:** ${filmSim === 'Random' ? 'modern digital look' : filmSim}
--   **AI Creativity Level (0-10):** ${creativityLevel}
-
-**CRITICAL INSTRUCTIONS:**
-1.  **Face Fidelity:** The person's face in the final image **MUST be a photorealistic and exact match** to the face from the provided reference image. **Do not alter** their facial features, structure, or identity. The gender is determined by the face image.
-2.  **Product Integration:** Seamlessly and naturally integrate the product into the scene with the person.
-3.  **Final Image Quality:** The result must be a high-quality, authentic-looking UGC image suitable for TikTok.
-4.  **No Text:** The output image must be purely visual. Do NOT add any text, watermarks, or logos.
-
-Generate only the image that perfectly matches this description.
-`;
-  } else {
-    // The original prompt for when no face is provided (generates a new face).
-    const modelInstruction = `A ${details.gender} model with facial features typical of ${details.modelFace === 'Random' ? 'Southeast Asia' : details.modelFace}. Ensure the face looks realistic and appealing.`;
-    const productInstruction = "Include the product from the uploaded image.";
-
-    return `
-Create a high-quality, photorealistic User-Generated Content (UGC) image suitable for TikTok affiliate marketing.
-The image must naturally feature the provided product image.
-
-**Core Instructions:**
-1. The main subject is the model and the product together. Integrate the product naturally.
-2. ${modelInstruction}
-3. The aesthetic must be eye-catching and feel authentic, like real UGC content.
-
-**Creative Direction:**
-- Model's Gender: ${details.gender}
-- Model's Pose: ${pose === 'Random' ? 'a natural and relaxed pose, interacting with the product if appropriate' : pose}
-- Product: ${productInstruction}
-- Background/Vibe: ${vibe}
-- Artistic Style: ${style === 'Random' ? 'photorealistic' : style}
-- Lighting: ${lighting === 'Random' ? 'flattering and natural-looking lighting' : lighting}
-- Camera Shot: ${camera === 'Random' ? 'a dynamic angle' : camera}
-- Composition: ${composition === 'Random' ? 'well-composed' : composition}
-- Lens Type: ${lensType === 'Random' ? 'standard lens' : lensType}
-- Film Simulation: ${filmSim === 'Random' ? 'modern digital look' : filmSim}
-- AI Creativity Level (0-10): ${creativityLevel}
-
-**Final Requirements:**
-- The result must be a high-quality, authentic-looking, and engaging image for affiliate marketing.
-- CRITICAL: The image must be purely visual. Do NOT add text, watermarks, or logos.
-`;
-  }
+  return renderPrompt('tiktok-affiliate', {
+    ...details.creativeDirection,
+    ...getBrandKitPromptInputs(details.brandKit),
+    gender: details.gender,
+    modelFace: details.modelFace,
+    hasFaceImage: !!details.hasFaceImage,
+  });
 };
 
 // --- Background Remover ---
@@ -361,59 +208,49 @@ You are an expert AI image editor. Your task is to modify the provided reference
 Generate only the edited image based on these instructions.
 `;
 
+// --- Batch Processor (Safety Rephrase) ---
+export const getSafetyRephrasePrompt = (blockedPrompt: string): string => `
+The following image or video generation prompt was blocked by a safety filter. Rewrite it so it keeps the same scene, subject, style and intent, but removes or softens anything likely to trigger the filter (violence, weapons, explicit or suggestive content, real public figures, brand logos, minors in unsafe situations).
+
+**Blocked Prompt:**
+"${blockedPrompt}"
+
+**CRITICAL:** Only output the rewritten prompt as plain text. Do not add explanations, quotes or markdown.
+`;
+
+// --- Video Extension ---
+export const getVideoContinuationPrompt = (originalPrompt: string, direction: string): string => `
+Continue this shot seamlessly. The provided image is the last frame of the previous clip: start exactly from it, with no cut, transition or fade, and keep the same subject, setting, lighting, camera style, colour grade and audio mood.
+
+**What happens next:** ${direction.trim() || 'The action continues naturally from where the previous clip ended.'}
+
+**Original scene:**
+${originalPrompt}
+`;
+
+// --- Video Direction ---
+/**
+ * The camera, motion and pacing lines for a video prompt. Fields left on 'Random' are
+ * omitted so the model decides; returns an empty list when nothing was chosen. Labels are
+ * in Malay when the rest of the prompt is.
+ */
+export const getVideoDirectionPromptLines = (direction: VideoCreativeDirectionState, isMalay = false): string[] => {
+    const { cameraMovement, subjectMotion, pacing, shotDuration, transition } = direction;
+    const lines: string[] = [];
+    if (cameraMovement !== 'Random') lines.push(`• ${isMalay ? 'Pergerakan kamera' : 'Camera movement'}: ${cameraMovement}`);
+    if (subjectMotion !== 'Random') lines.push(`• ${isMalay ? 'Pergerakan subjek' : 'Subject motion'}: ${subjectMotion}`);
+    if (pacing !== 'Random') lines.push(`• ${isMalay ? 'Rentak' : 'Pacing'}: ${pacing}`);
+    if (shotDuration !== 'Random') lines.push(`• ${isMalay ? 'Struktur syot' : 'Shot structure'}: ${shotDuration}`);
+    if (transition !== 'Random' && transition !== 'None') lines.push(`• ${isMalay ? 'Pengakhiran / peralihan ke klip seterusnya' : 'Ending / transition into the next clip'}: ${transition}`);
+    return lines;
+};
+
 // --- Staff Monoklix ---
 export const getStaffMonoklixPrompt = (details: {
   agentId: string;
   userInput: string;
   language: string;
-}): string => {
-    const baseInstruction = `You are a helpful AI assistant. Your final output language must be strictly in ${details.language}.`;
-    let agentSpecificInstruction = '';
-
-    switch (details.agentId) {
-        case 'wan':
-            agentSpecificInstruction = `You are Wan, an expert in market research. Based on the product/service "${details.userInput}", create a detailed "Ideal Customer Persona". Include demographics, interests, pain points, and motivations.`;
-            break;
-        case 'tina':
-            agentSpecificInstruction = `You are Tina, a behavioral psychology expert. For the product/service "${details.userInput}", identify the key "Fears" (what the customer wants to avoid) and "Desires" (what the customer wants to achieve).`;
-            break;
-        case 'jamil':
-            agentSpecificInstruction = `You are Jamil, a marketing strategist. For the product/service "${details.userInput}", brainstorm 3 distinct "Marketing Angles". Each angle should present a unique way to appeal to potential customers.`;
-            break;
-        case 'najwa':
-            agentSpecificInstruction = `You are Najwa, a professional copywriter. Write a short, persuasive marketing copy for the product/service "${details.userInput}". Focus on benefits over features.`;
-            break;
-        case 'saifuz':
-            agentSpecificInstruction = `You are Saifuz, an A/B testing specialist. Take the following sales copy and create 3 different variations of it. Each variation should try a different hook or call-to-action. Original copy: "${details.userInput}"`;
-            break;
-        case 'mieya':
-            agentSpecificInstruction = `You are Mieya, an expert in classic marketing formulas. Write a marketing copy for the product/service "${details.userInput}" using the AIDA (Attention, Interest, Desire, Action) formula.`;
-            break;
-        case 'afiq':
-            agentSpecificInstruction = `You are Afiq, a web content strategist. Outline the key sections for a high-converting sales page for the product/service "${details.userInput}". Include sections like Headline, Problem, Solution, Testimonials, Offer, and Call to Action.`;
-            break;
-        case 'julia':
-            agentSpecificInstruction = `You are Julia, a headline specialist. Brainstorm 10 catchy and click-worthy headlines for an advertisement about "${details.userInput}".`;
-            break;
-        case 'mazrul':
-            agentSpecificInstruction = `You are Mazrul, a video scriptwriter. Write a short (30-60 seconds) video script for a social media ad about "${details.userInput}". Include visual cues and voiceover text.`;
-            break;
-        case 'musa':
-            agentSpecificInstruction = `You are Musa, a personal branding coach. Based on the input "${details.userInput}", write a compelling personal branding post suitable for the specified platform. Focus on storytelling and providing value.`;
-            break;
-        case 'joe_davinci':
-            agentSpecificInstruction = `You are Joe, an AI art prompt engineer. Based on the input "${details.userInput}", create a detailed and effective prompt for an AI image generator to create a stunning visual. Include details about style, lighting, composition, and subject.`;
-            break;
-        case 'zaki':
-            agentSpecificInstruction = `You are Zaki, a graphic design prompter. Based on the input "${details.userInput}", create a detailed prompt for an AI to generate a promotional poster. Include instructions on text, layout, color scheme, and overall mood.`;
-            break;
-        default:
-            agentSpecificInstruction = `Analyze the following user input and provide a helpful response: "${details.userInput}"`;
-            break;
-    }
-
-    return `${baseInstruction}\n\n${agentSpecificInstruction}`;
-};
+}): string => renderPrompt('staff-monoklix', details, getPromptLocale(details.language));
 
 // --- Social Post Studio AI Writer ---
 export const getSocialPostStudioCaptionPrompt = (details: {
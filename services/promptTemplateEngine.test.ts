@@ -0,0 +1,87 @@
+// Note: This file is for testing demonstration purposes and requires a test environment like Jest to run.
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  renderPromptTemplate, validateTemplateSource, PromptTemplateError, type PromptTemplate
+} from './promptTemplateEngine';
+
+const makeTemplate = (body: string, overrides: Partial<PromptTemplate> = {}): PromptTemplate => ({
+  id: 'test',
+  version: 1,
+  title: 'Test',
+  description: '',
+  variables: [
+    { name: 'product', label: 'Product', type: 'string', required: true },
+    { name: 'style', label: 'Style', type: 'string', default: 'Random', emptyValues: ['Random'] },
+    { name: 'withModel', label: 'With Model', type: 'enum', options: ['Yes', 'No'], default: 'No' },
+    { name: 'count', label: 'Count', type: 'number', default: 3 },
+  ],
+  body: { en: body },
+  sampleInputs: {},
+  ...overrides,
+});
+
+describe('promptTemplateEngine', () => {
+  it('should substitute variables and apply declared defaults', () => {
+    const template = makeTemplate('{{product}} x{{count}} ({{style}})');
+    expect(renderPromptTemplate(template, { product: 'Soap' })).toBe('Soap x3 (Random)');
+  });
+
+  it('should use the fallback for empty values and the variable\'s emptyValues', () => {
+    const template = makeTemplate('Style: {{style || "photorealistic"}}');
+    expect(renderPromptTemplate(template, { product: 'Soap' })).toBe('Style: photorealistic');
+    expect(renderPromptTemplate(template, { product: 'Soap', style: '' })).toBe('Style: photorealistic');
+    expect(renderPromptTemplate(template, { product: 'Soap', style: 'Anime' })).toBe('Style: Anime');
+  });
+
+  it('should pick the first matching branch and drop standalone block lines', () => {
+    const template = makeTemplate([
+      'Start',
+      '{{#if withModel == "Yes"}}',
+      'With a model.',
+      '{{else if style}}',
+      'In {{style}} style.',
+      '{{else}}',
+      'Product only.',
+      '{{/if}}',
+      'End',
+    ].join('\n'));
+
+    expect(renderPromptTemplate(template, { product: 'Soap', withModel: 'Yes' })).toBe('Start\nWith a model.\nEnd');
+    expect(renderPromptTemplate(template, { product: 'Soap', style: 'Anime' })).toBe('Start\nIn Anime style.\nEnd');
+    expect(renderPromptTemplate(template, { product: 'Soap' })).toBe('Start\nProduct only.\nEnd');
+  });
+
+  it('should keep inline conditionals on their line', () => {
+    const template = makeTemplate('A{{#if !style}}, B{{/if}}.');
+    expect(renderPromptTemplate(template, { product: 'Soap' })).toBe('A, B.');
+    expect(renderPromptTemplate(template, { product: 'Soap', style: 'Anime' })).toBe('A.');
+  });
+
+  it('should render the requested locale and fall back to English', () => {
+    const template = makeTemplate('{{@scene}} 1: {{product}}', {
+      body: { en: '{{@scene}} 1: {{product}}' },
+      messages: { en: { scene: 'Scene' }, ms: { scene: 'Babak' } },
+    });
+    expect(renderPromptTemplate(template, { product: 'Sabun' }, 'ms')).toBe('Babak 1: Sabun');
+
+    const localized = { ...template, body: { en: 'Product: {{product}}', ms: 'Produk: {{product}}' } };
+    expect(renderPromptTemplate(localized, { product: 'Sabun' }, 'ms')).toBe('Produk: Sabun');
+  });
+
+  it('should reject missing required variables and invalid enum values', () => {
+    const template = makeTemplate('{{product}} {{withModel}}');
+    expect(() => renderPromptTemplate(template, {})).toThrow(PromptTemplateError);
+    expect(() => renderPromptTemplate(template, { product: 'Soap', withModel: 'Maybe' })).toThrow(PromptTemplateError);
+  });
+
+  it('should report unknown variables, messages and unbalanced blocks', () => {
+    const { variables } = makeTemplate('');
+    expect(validateTemplateSource('{{unknown}} {{@missing}}', variables)).toEqual([
+      'Unknown variable "unknown"',
+      'Unknown message "@missing"',
+    ]);
+    expect(validateTemplateSource('{{#if style}}open', variables)).toHaveLength(1);
+    expect(validateTemplateSource('{{product}}', variables)).toEqual([]);
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * A small declarative template language for prompts.
+ *
+ * Syntax:
+ * - `{{name}}`                      the variable's value (or its declared default)
+ * - `{{name || "fallback"}}`        the fallback when the value is empty or one of the variable's `emptyValues` (e.g. 'Random')
+ * - `{{@key}}`                      a localized message from the template's `messages`
+ * - `{{#if name}}`, `{{#if !name}}`, `{{#if name == "Yes"}}`, `{{#if name != "No"}}`
+ *   followed by optional `{{else if ...}}` / `{{else}}` branches and a closing `{{/if}}`
+ *
+ * Block tags that sit on a line of their own are removed together with that line,
+ * so conditionals can be written one per line without leaving blank lines behind.
+ */
+
+export type PromptLocale = 'en' | 'ms';
+export type PromptVariableType = 'string' | 'number' | 'boolean' | 'enum';
+export type PromptValue = string | number | boolean;
+export type PromptInputs = Record<string, PromptValue | null | undefined>;
+
+export interface PromptVariable {
+    name: string;
+    type: PromptVariableType;
+    label: string;
+    required?: boolean;
+    default?: PromptValue;
+    options?: string[]; // Allowed values for 'enum'
+    emptyValues?: string[]; // Values treated as "not set" by fallbacks and conditions
+}
+
+export interface PromptTemplate {
+    id: string;
+    version: number;
+    title: string;
+    description: string;
+    variables: PromptVariable[];
+    body: { en: string } & Partial<Record<PromptLocale, string>>;
+    messages?: Partial<Record<PromptLocale, Record<string, string>>>;
+    sampleInputs: PromptInputs;
+}
+
+export class PromptTemplateError extends Error {}
+
+// --- Parsing ---
+
+interface Condition {
+    name: string;
+    op: 'set' | 'unset' | 'eq' | 'neq';
+    literal?: string;
+}
+
+type TemplateNode =
+    | { kind: 'text'; text: string }
+    | { kind: 'var'; name: string; fallback?: string }
+    | { kind: 'message'; key: string }
+    | { kind: 'if'; branches: { condition: Condition | null; children: TemplateNode[] }[] };
+
+type Tag =
+    | { kind: 'var'; name: string; fallback?: string }
+    | { kind: 'message'; key: string }
+    | { kind: 'if'; condition: Condition }
+    | { kind: 'elseif'; condition: Condition }
+    | { kind: 'else' }
+    | { kind: 'endif' };
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const NAME = '[A-Za-z_][A-Za-z0-9_]*';
+const VAR_TAG = new RegExp(`^(${NAME})(?:\\s*\\|\\|\\s*"([^"]*)")?$`);
+const MESSAGE_TAG = new RegExp(`^@(${NAME})$`);
+const CONDITION = new RegExp(`^(!?)\\s*(${NAME})(?:\\s*(==|!=)\\s*"([^"]*)")?$`);
+
+const parseCondition = (expr: string): Condition => {
+    const match = expr.trim().match(CONDITION);
+    if (!match) throw new PromptTemplateError(`Invalid condition: "${expr}"`);
+    const [, negate, name, operator, literal] = match;
+    if (operator) {
+        if (negate) throw new PromptTemplateError(`Cannot combine "!" with "${operator}" in: "${expr}"`);
+        return { name, op: operator === '==' ? 'eq' : 'neq', literal };
+    }
+    return { name, op: negate ? 'unset' : 'set' };
+};
+
+const parseTag = (source: string): Tag => {
+    if (source.startsWith('#if ')) return { kind: 'if', condition: parseCondition(source.slice(4)) };
+    if (source.startsWith('else if ')) return { kind: 'elseif', condition: parseCondition(source.slice(8)) };
+    if (source === 'else') return { kind: 'else' };
+    if (source === '/if') return { kind: 'endif' };
+
+    const message = source.match(MESSAGE_TAG);
+    if (message) return { kind: 'message', key: message[1] };
+
+    const variable = source.match(VAR_TAG);
+    if (variable) return { kind: 'var', name: variable[1], fallback: variable[2] };
+
+    throw new PromptTemplateError(`Invalid tag: "{{${source}}}"`);
+};
+
+const isBlockTag = (tag: Tag) => tag.kind === 'if' || tag.kind === 'elseif' || tag.kind === 'else' || tag.kind === 'endif';
+
+// Splits the source into alternating text and tag segments, dropping the lines of standalone block tags.
+const tokenize = (source: string): (string | Tag)[] => {
+    const texts: { text: string; lineStart: boolean }[] = [];
+    const tags: Tag[] = [];
+    let lastIndex = 0;
+    for (const match of source.matchAll(TAG_PATTERN)) {
+        texts.push({ text: source.slice(lastIndex, match.index), lineStart: texts.length === 0 });
+        tags.push(parseTag(match[1]));
+        lastIndex = match.index! + match[0].length;
+    }
+    texts.push({ text: source.slice(lastIndex), lineStart: false });
+
+    tags.forEach((tag, i) => {
+        const before = texts[i];
+        const after = texts[i + 1];
+        const lineTail = before.text.slice(before.text.lastIndexOf('\n') + 1);
+        const atLineStart = before.text.includes('\n') || before.lineStart;
+        const standalone = isBlockTag(tag) && atLineStart && lineTail.trim() === '' && /^[ \t]*(\r?\n|$)/.test(after.text);
+        if (standalone) {
+            before.text = before.text.slice(0, before.text.length - lineTail.length);
+            after.text = after.text.replace(/^[ \t]*(\r?\n)?/, '');
+        }
+        after.lineStart = standalone;
+    });
+
+    const tokens: (string | Tag)[] = [];
+    texts.forEach((segment, i) => {
+        if (segment.text) tokens.push(segment.text);
+        if (i < tags.length) tokens.push(tags[i]);
+    });
+    return tokens;
+};
+
+const parse = (source: string): TemplateNode[] => {
+    const root: TemplateNode[] = [];
+    const stack: Extract<TemplateNode, { kind: 'if' }>[] = [];
+    const current = () => stack.length > 0 ? stack[stack.length - 1].branches[stack[stack.length - 1].branches.length - 1].children : root;
+
+    for (const token of tokenize(source)) {
+        if (typeof token === 'string') {
+            current().push({ kind: 'text', text: token });
+            continue;
+        }
+        switch (token.kind) {
+            case 'var':
+            case 'message':
+                current().push(token);
+                break;
+            case 'if': {
+                const node: Extract<TemplateNode, { kind: 'if' }> = { kind: 'if', branches: [{ condition: token.condition, children: [] }] };
+                current().push(node);
+                stack.push(node);
+                break;
+            }
+            case 'elseif':
+            case 'else': {
+                const node = stack[stack.length - 1];
+                if (!node) throw new PromptTemplateError(`"{{else}}" without a matching "{{#if}}"`);
+                if (node.branches[node.branches.length - 1].condition === null) {
+                    throw new PromptTemplateError(`"{{else}}" must be the last branch of an "{{#if}}"`);
+                }
+                node.branches.push({ condition: token.kind === 'elseif' ? token.condition : null, children: [] });
+                break;
+            }
+            case 'endif':
+                if (!stack.pop()) throw new PromptTemplateError(`"{{/if}}" without a matching "{{#if}}"`);
+                break;
+        }
+    }
+
+    if (stack.length > 0) throw new PromptTemplateError(`Missing "{{/if}}" for ${stack.length} "{{#if}}" block(s)`);
+    return root;
+};
+
+const MAX_CACHED_TEMPLATES = 100;
+const parseCache = new Map<string, TemplateNode[]>();
+
+const compile = (source: string): TemplateNode[] => {
+    let nodes = parseCache.get(source);
+    if (!nodes) {
+        nodes = parse(source);
+        // Editors preview on every keystroke, so keep the cache from growing without bound.
+        if (parseCache.size >= MAX_CACHED_TEMPLATES) parseCache.clear();
+        parseCache.set(source, nodes);
+    }
+    return nodes;
+};
+
+// --- Validation ---
+
+const collectReferences = (nodes: TemplateNode[], names: Set<string>, keys: Set<string>) => {
+    nodes.forEach(node => {
+        if (node.kind === 'var') names.add(node.name);
+        else if (node.kind === 'message') keys.add(node.key);
+        else if (node.kind === 'if') {
+            node.branches.forEach(branch => {
+                if (branch.condition) names.add(branch.condition.name);
+                collectReferences(branch.children, names, keys);
+            });
+        }
+    });
+};
+
+/**
+ * Lists the variables a template source refers to, in order of first use, with the
+ * fallback text of the first `{{name || "fallback"}}` tag for each (if any).
+ * @throws {PromptTemplateError} When the source is malformed.
+ */
+export const getTemplatePlaceholders = (source: string): { name: string; fallback?: string }[] => {
+    const placeholders = new Map<string, { name: string; fallback?: string }>();
+    const visit = (nodes: TemplateNode[]) => nodes.forEach(node => {
+        if (node.kind === 'var') {
+            const existing = placeholders.get(node.name);
+            if (!existing) placeholders.set(node.name, { name: node.name, fallback: node.fallback });
+            else if (existing.fallback === undefined) existing.fallback = node.fallback;
+        } else if (node.kind === 'if') {
+            node.branches.forEach(branch => {
+                if (branch.condition && !placeholders.has(branch.condition.name)) {
+                    placeholders.set(branch.condition.name, { name: branch.condition.name });
+                }
+                visit(branch.children);
+            });
+        }
+    });
+    visit(compile(source));
+    return [...placeholders.values()];
+};
+
+/**
+ * Checks a template source against its declared variables and messages.
+ * @returns {string[]} Human-readable problems; empty when the source is valid.
+ */
+export const validateTemplateSource = (
+    source: string,
+    variables: PromptVariable[],
+    messages: Record<string, string> = {}
+): string[] => {
+    let nodes: TemplateNode[];
+    try {
+        nodes = parse(source);
+    } catch (e) {
+        return [e instanceof Error ? e.message : String(e)];
+    }
+
+    const names = new Set<string>();
+    const keys = new Set<string>();
+    collectReferences(nodes, names, keys);
+
+    const declared = new Set(variables.map(v => v.name));
+    return [
+        ...[...names].filter(name => !declared.has(name)).map(name => `Unknown variable "${name}"`),
+        ...[...keys].filter(key => !(key in messages)).map(key => `Unknown message "@${key}"`),
+    ];
+};
+
+// --- Rendering ---
+
+const coerceValue = (variable: PromptVariable, raw: PromptValue): PromptValue => {
+    switch (variable.type) {
+        case 'number': {
+            const num = typeof raw === 'number' ? raw : Number(raw);
+            if (!Number.isFinite(num)) throw new PromptTemplateError(`"${variable.name}" must be a number`);
+            return num;
+        }
+        case 'boolean':
+            return raw === true || raw === 'true';
+        case 'enum':
+            if (!variable.options?.includes(String(raw))) {
+                throw new PromptTemplateError(`"${variable.name}" must be one of: ${variable.options?.join(', ')}`);
+            }
+            return String(raw);
+        default:
+            return String(raw);
+    }
+};
+
+/**
+ * Applies defaults, checks required variables and coerces inputs to their declared types.
+ * Inputs that are not declared by the template are ignored.
+ */
+export const resolveTemplateInputs = (template: PromptTemplate, inputs: PromptInputs): Record<string, PromptValue> => {
+    const values: Record<string, PromptValue> = {};
+    template.variables.forEach(variable => {
+        const raw = inputs[variable.name] ?? variable.default;
+        if (raw === undefined || raw === null) {
+            if (variable.required) throw new PromptTemplateError(`Missing required variable "${variable.name}"`);
+            return;
+        }
+        values[variable.name] = coerceValue(variable, raw);
+    });
+    return values;
+};
+
+/**
+ * Renders a template for the given locale, falling back to English for missing bodies and messages.
+ * @throws {PromptTemplateError} When the source is invalid or an input is missing or of the wrong type.
+ */
+export const renderPromptTemplate = (template: PromptTemplate, inputs: PromptInputs, locale: PromptLocale = 'en'): string => {
+    const values = resolveTemplateInputs(template, inputs);
+    const messages = { ...template.messages?.en, ...template.messages?.[locale] };
+    const variables = new Map(template.variables.map(v => [v.name, v]));
+
+    const isSet = (name: string) => {
+        const value = values[name];
+        if (value === undefined || value === '' || value === false) return false;
+        return !variables.get(name)?.emptyValues?.includes(String(value));
+    };
+
+    const test = (condition: Condition) => {
+        switch (condition.op) {
+            case 'set': return isSet(condition.name);
+            case 'unset': return !isSet(condition.name);
+            case 'eq': return String(values[condition.name] ?? '') === condition.literal;
+            case 'neq': return String(values[condition.name] ?? '') !== condition.literal;
+        }
+    };
+
+    const renderNodes = (nodes: TemplateNode[]): string => nodes.map(node => {
+        switch (node.kind) {
+            case 'text':
+                return node.text;
+            case 'var':
+                if (!variables.has(node.name)) throw new PromptTemplateError(`Unknown variable "${node.name}"`);
+                if (node.fallback !== undefined && !isSet(node.name)) return node.fallback;
+                return values[node.name] === undefined ? '' : String(values[node.name]);
+            case 'message':
+                if (!(node.key in messages)) throw new PromptTemplateError(`Unknown message "@${node.key}"`);
+                return messages[node.key];
+            case 'if': {
+                const branch = node.branches.find(b => b.condition === null || test(b.condition));
+                return branch ? renderNodes(branch.children) : '';
+            }
+        }
+    }).join('');
+
+    return renderNodes(compile(template.body[locale] ?? template.body.en));
+};
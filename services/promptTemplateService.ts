@@ -0,0 +1,183 @@
+/**
+ * Registry of prompt templates: lists the built-in templates, renders them, and
+ * applies per-user overrides so prompts can be tuned without a code change.
+ */
+import { loadData, saveData } from './indexedDBService';
+import { builtInPromptTemplates } from './promptTemplates';
+import {
+    renderPromptTemplate, validateTemplateSource, PromptTemplateError,
+    type PromptTemplate, type PromptInputs, type PromptLocale
+} from './promptTemplateEngine';
+import { getCurrentUser } from './apiClient';
+
+export interface PromptTemplateOverride {
+    templateId: string;
+    body: Partial<Record<PromptLocale, string>>;
+    version: number; // Incremented on every save
+    baseVersion: number; // The built-in version the override was written against
+    updatedAt: number;
+}
+
+export interface PromptTemplateSummary {
+    id: string;
+    title: string;
+    description: string;
+    version: number;
+    override: PromptTemplateOverride | null;
+    isOverrideOutdated: boolean;
+}
+
+export const promptLocales: PromptLocale[] = ['en', 'ms'];
+
+const templatesById = new Map(builtInPromptTemplates.map(t => [t.id, t]));
+
+// Overrides are cached in memory so prompts can still be built synchronously.
+let overrides: Record<string, PromptTemplateOverride> = {};
+let overridesUserId: string | null = null;
+
+const getStorageKey = (userId: string) => `promptTemplateOverrides_${userId}`;
+
+/**
+ * Maps an output language name (as used by the views) to a template locale.
+ */
+export const getPromptLocale = (language: string): PromptLocale =>
+    language === 'Bahasa Malaysia' || language === 'ms' ? 'ms' : 'en';
+
+/**
+ * Loads the user's template overrides into memory. Call this once the user is known.
+ */
+export const loadPromptTemplateOverrides = async (userId: string): Promise<void> => {
+    try {
+        overrides = (await loadData<Record<string, PromptTemplateOverride>>(getStorageKey(userId))) || {};
+        overridesUserId = userId;
+    } catch (error) {
+        console.error("Failed to load prompt template overrides.", error);
+        overrides = {};
+        overridesUserId = null;
+    }
+};
+
+const getActiveOverrides = (): Record<string, PromptTemplateOverride> => {
+    // Never apply one user's overrides to another after switching accounts.
+    return overridesUserId && overridesUserId === getCurrentUser()?.id ? overrides : {};
+};
+
+const getBuiltInTemplate = (id: string): PromptTemplate => {
+    const template = templatesById.get(id);
+    if (!template) throw new PromptTemplateError(`Unknown prompt template "${id}"`);
+    return template;
+};
+
+const applyOverride = (template: PromptTemplate, override: PromptTemplateOverride | undefined): PromptTemplate =>
+    override ? { ...template, body: { ...template.body, ...override.body } } : template;
+
+export const listPromptTemplates = (): PromptTemplateSummary[] => {
+    const active = getActiveOverrides();
+    return builtInPromptTemplates.map(template => {
+        const override = active[template.id] || null;
+        return {
+            id: template.id,
+            title: template.title,
+            description: template.description,
+            version: template.version,
+            override,
+            isOverrideOutdated: !!override && override.baseVersion < template.version,
+        };
+    });
+};
+
+/**
+ * Returns a template with the current user's override applied (if any).
+ * @param {boolean} builtIn - Ignore the user's override.
+ */
+export const getPromptTemplate = (id: string, builtIn = false): PromptTemplate => {
+    const template = getBuiltInTemplate(id);
+    return builtIn ? template : applyOverride(template, getActiveOverrides()[id]);
+};
+
+/**
+ * Renders a registered template. A broken user override falls back to the built-in
+ * template so a bad edit can never stop generation.
+ * @param {string} id - The template ID.
+ * @param {PromptInputs} inputs - Variable values; missing ones use the declared defaults.
+ * @param {PromptLocale} locale - The localization variant to render.
+ * @returns {string} The prompt text.
+ */
+export const renderPrompt = (id: string, inputs: PromptInputs, locale: PromptLocale = 'en'): string => {
+    const builtIn = getBuiltInTemplate(id);
+    const override = getActiveOverrides()[id];
+    if (override) {
+        try {
+            return renderPromptTemplate(applyOverride(builtIn, override), inputs, locale);
+        } catch (error) {
+            console.warn(`⚠️ Custom prompt template "${id}" failed, using the built-in version.`, error);
+        }
+    }
+    return renderPromptTemplate(builtIn, inputs, locale);
+};
+
+/**
+ * Renders a template (e.g. an unsaved edit) with sample inputs for previewing.
+ * @returns The rendered prompt, or the error that prevented rendering.
+ */
+export const previewPromptTemplate = (
+    template: PromptTemplate,
+    locale: PromptLocale = 'en',
+    inputs: PromptInputs = template.sampleInputs
+): { prompt: string | null; error: string | null } => {
+    const messages = { ...template.messages?.en, ...template.messages?.[locale] };
+    const problems = validateTemplateSource(template.body[locale] ?? template.body.en, template.variables, messages);
+    if (problems.length > 0) {
+        return { prompt: null, error: problems.join('\n') };
+    }
+    try {
+        return { prompt: renderPromptTemplate(template, inputs, locale), error: null };
+    } catch (error) {
+        return { prompt: null, error: error instanceof Error ? error.message : String(error) };
+    }
+};
+
+/**
+ * Saves the current user's customized bodies for a template.
+ * @throws {PromptTemplateError} When a body references unknown variables or is malformed.
+ */
+export const savePromptTemplateOverride = async (id: string, body: Partial<Record<PromptLocale, string>>): Promise<PromptTemplateOverride> => {
+    const user = getCurrentUser();
+    if (!user) throw new Error("User not logged in.");
+    const template = getBuiltInTemplate(id);
+
+    for (const locale of promptLocales) {
+        const source = body[locale];
+        if (source === undefined) continue;
+        const messages = { ...template.messages?.en, ...template.messages?.[locale] };
+        const problems = validateTemplateSource(source, template.variables, messages);
+        if (problems.length > 0) {
+            throw new PromptTemplateError(`${locale.toUpperCase()}: ${problems.join('; ')}`);
+        }
+    }
+
+    if (overridesUserId !== user.id) {
+        await loadPromptTemplateOverrides(user.id);
+    }
+    const override: PromptTemplateOverride = {
+        templateId: id,
+        body,
+        version: (overrides[id]?.version || 0) + 1,
+        baseVersion: template.version,
+        updatedAt: Date.now(),
+    };
+    overrides = { ...overrides, [id]: override };
+    await saveData(getStorageKey(user.id), overrides);
+    return override;
+};
+
+export const resetPromptTemplateOverride = async (id: string): Promise<void> => {
+    const user = getCurrentUser();
+    if (!user) throw new Error("User not logged in.");
+    if (overridesUserId !== user.id) {
+        await loadPromptTemplateOverrides(user.id);
+    }
+    const { [id]: _removed, ...rest } = overrides;
+    overrides = rest;
+    await saveData(getStorageKey(user.id), overrides);
+};
@@ -0,0 +1,425 @@
+/**
+ * Built-in prompt templates. See promptTemplateEngine.ts for the syntax.
+ * Bump a template's `version` whenever its body or variables change so users
+ * with a customized copy can see that the built-in one has moved on.
+ */
+import { type PromptTemplate, type PromptVariable } from './promptTemplateEngine';
+
+// Creative direction values where 'Random' means "let the model decide".
+const creativeVariable = (name: string, label: string, emptyValues = ['Random']): PromptVariable => ({
+    name, label, type: 'string', default: 'Random', emptyValues,
+});
+
+const creativeDirectionVariables: PromptVariable[] = [
+    { name: 'vibe', label: 'Background / Vibe', type: 'string', default: 'Random' },
+    creativeVariable('style', 'Artistic Style'),
+    creativeVariable('lighting', 'Lighting'),
+    creativeVariable('camera', 'Camera Shot'),
+    creativeVariable('composition', 'Composition'),
+    creativeVariable('lensType', 'Lens Type'),
+    creativeVariable('filmSim', 'Film Simulation'),
+    creativeVariable('effect', 'Visual Effect', ['Random', 'None']),
+    { name: 'creativityLevel', label: 'AI Creativity Level', type: 'number', default: 5 },
+];
+
+// Filled from the selected brand kit (see brandKitService.getBrandKitPromptInputs); empty without one.
+const brandKitVariables: PromptVariable[] = [
+    { name: 'brandName', label: 'Brand Name', type: 'string', default: '' },
+    { name: 'brandTone', label: 'Brand Tone of Voice', type: 'string', default: '' },
+    { name: 'brandColors', label: 'Brand Colors', type: 'string', default: '' },
+    { name: 'brandFonts', label: 'Brand Fonts', type: 'string', default: '' },
+    { name: 'forbiddenWords', label: 'Forbidden Words', type: 'string', default: '' },
+];
+
+const sampleBrandKit = {
+    brandName: 'Kopi Pagi',
+    brandTone: 'Warm, neighbourly and a little playful. Short sentences, no hype.',
+    brandColors: '#6B3E26, #F4E1C1',
+    brandFonts: 'Poppins',
+    forbiddenWords: '"cheap", "best in the world"',
+};
+
+const sampleCreativeDirection = {
+    vibe: 'Minimalist studio with soft shadows',
+    style: 'Random',
+    lighting: 'Golden hour',
+    camera: 'Close-up',
+    composition: 'Random',
+    lensType: 'Random',
+    filmSim: 'Random',
+    effect: 'None',
+    creativityLevel: 5,
+};
+
+const contentIdeasTemplate: PromptTemplate = {
+    id: 'content-ideas',
+    version: 1,
+    title: 'Content Ideas',
+    description: 'Five content ideas for a topic.',
+    variables: [
+        { name: 'topic', label: 'Topic', type: 'string', required: true },
+        { name: 'language', label: 'Output Language', type: 'string', default: 'English' },
+    ],
+    body: {
+        en: `
+    Generate a list of 5 engaging content ideas (e.g., blog posts, social media updates, video scripts) for the following topic: "{{topic}}".
+    The ideas should be trendy, relevant, and aimed at capturing audience attention. For each idea, provide a catchy title and a brief description of the concept.
+    The final output language must be strictly in {{language}}.
+`,
+    },
+    sampleInputs: { topic: 'Healthy breakfast ideas for busy parents', language: 'English' },
+};
+
+const marketingCopyTemplate: PromptTemplate = {
+    id: 'marketing-copy',
+    version: 2,
+    title: 'Marketing Copy',
+    description: 'Persuasive copy for social posts, ads or websites.',
+    variables: [
+        { name: 'productDetails', label: 'Product/Service Details', type: 'string', required: true },
+        { name: 'targetAudience', label: 'Target Audience', type: 'string', default: '' },
+        { name: 'keywords', label: 'Keywords', type: 'string', default: '' },
+        { name: 'selectedTone', label: 'Tone of Voice', type: 'string', default: 'Professional' },
+        { name: 'selectedLanguage', label: 'Output Language', type: 'string', default: 'English' },
+        ...brandKitVariables,
+    ],
+    body: {
+        en: `
+    You are an expert marketing copywriter. Generate compelling marketing copy based on the following details.
+    The final output language must be strictly in {{selectedLanguage}}.
+
+{{#if brandName}}
+    **Brand:**
+    {{brandName}}
+
+{{/if}}
+    **Product/Service Details:**
+    {{productDetails}}
+
+    **Target Audience:**
+    {{targetAudience || "General Audience"}}
+
+    **Tone of Voice:**
+    {{selectedTone}}
+
+{{#if brandTone}}
+    **Brand Voice Guidelines:**
+    {{brandTone}}
+
+{{/if}}
+    **Keywords to include:**
+    {{keywords || "None"}}
+
+{{#if forbiddenWords}}
+    **Never use these words or phrases:**
+    {{forbiddenWords}}
+
+{{/if}}
+    The copy should be engaging, persuasive, and ready for use in social media posts, advertisements, or website content. Structure the output clearly, perhaps with a headline and body.
+`,
+    },
+    sampleInputs: {
+        productDetails: 'A cold-pressed coconut oil for cooking and skincare',
+        targetAudience: 'Health-conscious women aged 25-40',
+        keywords: 'organic, halal, local',
+        selectedTone: 'Friendly',
+        selectedLanguage: 'English',
+        ...sampleBrandKit,
+    },
+};
+
+const productAdTemplate: PromptTemplate = {
+    id: 'product-ad',
+    version: 2,
+    title: 'Product Ad Storyline',
+    description: 'A one-scene video ad storyboard for a product image.',
+    variables: [
+        { name: 'productDesc', label: 'Product Description', type: 'string', required: true },
+        { name: 'language', label: 'Output Language', type: 'string', default: 'English' },
+        { name: 'vibe', label: 'Vibe', type: 'string', default: 'Random' },
+        { name: 'lighting', label: 'Lighting', type: 'string', default: 'Random' },
+        { name: 'contentType', label: 'Content Type', type: 'string', default: 'Random' },
+        ...brandKitVariables,
+    ],
+    body: {
+        en: `
+    You are an expert advertising copywriter and storyboard artist for social media video ads.
+    Create a compelling 1-scene storyboard for a video ad based on the provided product image and details.
+    The output language for the storyboard must be in {{language}}.
+
+{{#if brandName}}
+    **Brand:**
+    {{brandName}}
+
+{{/if}}
+    **Product Description:**
+    {{productDesc}}
+
+    **Creative Direction:**
+    - Vibe: {{vibe}}
+    - Lighting: {{lighting}}
+    - Content Type: {{contentType}}
+{{#if brandColors}}
+    - Brand Colors (use them in the set, props and wardrobe): {{brandColors}}
+{{/if}}
+{{#if brandFonts}}
+    - On-Screen Text Font: {{brandFonts}}
+{{/if}}
+{{#if brandTone}}
+    - Voiceover and On-Screen Text Tone: {{brandTone}}
+{{/if}}
+{{#if forbiddenWords}}
+    - Never use these words or phrases: {{forbiddenWords}}
+{{/if}}
+
+    Based on all this information, describe one effective scene. What does the viewer see? What is the voiceover or on-screen text?
+    Keep it short, engaging, and optimised for platforms like TikTok or Instagram Reels.
+`,
+    },
+    sampleInputs: {
+        productDesc: 'A matte black insulated water bottle that keeps drinks cold for 24 hours',
+        language: 'English',
+        vibe: 'Energetic',
+        lighting: 'Bright daylight',
+        contentType: 'Hard Selling',
+        ...sampleBrandKit,
+    },
+};
+
+const productPhotoTemplate: PromptTemplate = {
+    id: 'product-photo',
+    version: 2,
+    title: 'Product Photo',
+    description: 'A clean e-commerce product photo from an uploaded product image.',
+    variables: [...creativeDirectionVariables, ...brandKitVariables],
+    body: {
+        en: `Create a professional, photorealistic product photo for the uploaded image.
+Do not include any people, models, or text. Focus only on the product itself.
+**Creative Direction:**
+- Background / Vibe: {{vibe}}
+- Artistic Style: {{style || "photorealistic"}}
+- Lighting: {{lighting || "interesting, cinematic lighting"}}
+- Camera Shot: {{camera || "a dynamic angle"}}
+- Composition: {{composition || "well-composed"}}
+- Lens Type: {{lensType || "standard lens"}}
+- Film Simulation: {{filmSim || "modern digital look"}}
+- Visual Effect: {{effect || "none"}}
+- AI Creativity Level: {{creativityLevel}} out of 10 (0 = literal, 10 = full artistic freedom)
+{{#if brandColors}}
+- Brand Colors: build the background and props around {{brandColors}}; keep the product's own colors unchanged.
+{{/if}}
+**Final Requirements:**
+- The result must be clean, aesthetic, and suitable for e-commerce listings or social media.
+- CRITICAL: The final image must be purely visual. Do NOT add text, watermarks, or logos.`,
+    },
+    sampleInputs: { ...sampleCreativeDirection, ...sampleBrandKit },
+};
+
+const productReviewStoryboardTemplate: PromptTemplate = {
+    id: 'product-review-storyboard',
+    version: 1,
+    title: 'Product Review Storyboard',
+    description: 'A multi-scene storyboard for a short-form product review video.',
+    variables: [
+        { name: 'productDesc', label: 'Product Description', type: 'string', required: true },
+        { name: 'selectedLanguage', label: 'Output Language', type: 'string', default: 'English' },
+        { name: 'selectedContentType', label: 'Content Type', type: 'string', default: 'Random' },
+        { name: 'includeCaptions', label: 'Include Captions', type: 'enum', options: ['Yes', 'No'], default: 'No' },
+        { name: 'includeVoiceover', label: 'Include Voiceover', type: 'enum', options: ['Yes', 'No'], default: 'Yes' },
+        { name: 'includeModel', label: 'Include Model', type: 'enum', options: ['Yes', 'No'], default: 'No' },
+        { name: 'sceneCount', label: 'Number of Scenes', type: 'number', default: 4 },
+        ...creativeDirectionVariables,
+    ],
+    body: {
+        en: `
+You are an expert AI assistant specialising in creating storyboards for social media product review videos.
+The output language for all generated text (titles, descriptions, scripts) must be strictly in {{selectedLanguage}}.
+
+Create a **{{sceneCount}}-scene storyboard** for a short-form video (TikTok, Instagram Reels, YouTube Shorts) based on the following:
+
+**Product Description:**
+{{productDesc}}
+
+**Creative Direction:**
+- Include a model in the video: {{includeModel}}
+- Vibe: {{vibe}}
+- Background Vibe: {{vibe}}
+- Content Type: {{selectedContentType}}
+- Artistic Style: {{style}}
+- Lighting: {{lighting}}
+- Camera Shot Style: {{camera}}
+- Composition: {{composition}}
+- Lens Type: {{lensType}}
+- Film Simulation: {{filmSim}}
+- Visual Effect: {{effect}}
+- AI Creativity Level (0-10): {{creativityLevel}}
+- On-Screen Text/Captions: {{includeCaptions}}
+- Voiceover Script: {{includeVoiceover}}
+
+**Task:**
+For each scene, create a description of the visuals.{{#if includeVoiceover == "Yes"}} Also, write a natural-sounding voiceover script (max 120 characters).{{/if}}{{#if includeCaptions == "Yes"}} Also, provide short, punchy on-screen captions.{{/if}}
+The storyboard must have exactly {{sceneCount}} scenes and follow a logical flow, spreading these beats across the scenes:
+1. Introduction (hook & product reveal)
+2. Demonstration / Features
+3. Benefits / User experience
+4. Call-to-action (why buy / final push)
+
+**Output Structure:**
+The output must be structured with clear headings for each scene, like "**{{@sceneTitle}} 1:**", "**{{@sceneTitle}} 2:**", etc.
+For each scene, you MUST use the following headings for the required elements: "**{{@visualTitle}}:**"{{#if includeVoiceover == "Yes"}}, "**{{@voiceoverTitle}}:**"{{/if}}{{#if includeCaptions == "Yes"}}, "**{{@captionTitle}}:**"{{/if}}.
+`,
+    },
+    // The scene headings are parsed back out of the response, so they follow the output language.
+    messages: {
+        en: { sceneTitle: 'Scene', voiceoverTitle: 'Voiceover', captionTitle: 'Captions', visualTitle: 'Visuals' },
+        ms: { sceneTitle: 'Babak', voiceoverTitle: 'Skrip Suara Latar', captionTitle: 'Kapsyen', visualTitle: 'Visual' },
+    },
+    sampleInputs: {
+        productDesc: 'A lightweight foldable hijab steamer for travel',
+        selectedLanguage: 'English',
+        selectedContentType: 'Unboxing',
+        includeCaptions: 'Yes',
+        includeVoiceover: 'Yes',
+        includeModel: 'Yes',
+        sceneCount: 4,
+        ...sampleCreativeDirection,
+    },
+};
+
+const tiktokAffiliateTemplate: PromptTemplate = {
+    id: 'tiktok-affiliate',
+    version: 2,
+    title: 'TikTok Affiliate UGC Image',
+    description: 'A UGC-style image of a model with the product, optionally matching a face reference.',
+    variables: [
+        { name: 'hasFaceImage', label: 'Face Reference Provided', type: 'boolean', default: false },
+        { name: 'gender', label: "Model's Gender", type: 'string', default: 'Female' },
+        creativeVariable('modelFace', 'Model Face'),
+        creativeVariable('pose', "Model's Pose"),
+        ...creativeDirectionVariables,
+        ...brandKitVariables,
+    ],
+    body: {
+        en: `{{#if hasFaceImage}}
+
+You are an AI image generation expert. Your task is to create a single, photorealistic UGC-style image by compositing a person and a product into a new scene.
+
+**Provided Assets:**
+1.  **Person's Face:** A reference image of the person to be featured.
+2.  **Product:** A reference image of the product.
+
+**Creative Direction for the New Scene:**
+-   **Background/Vibe:** {{vibe}}
+-   **Model's Pose:** {{pose || "a natural and relaxed pose, interacting with the product if appropriate"}}
+-   **Artistic Style:** {{style || "photorealistic"}}
+-   **Lighting:** {{lighting || "flattering and natural-looking lighting"}}
+-   **Camera Shot:** {{camera || "a dynamic angle"}}
+-   **Composition:** {{composition || "well-composed"}}
+-   **Lens Type:** {{lensType || "standard lens"}}
+-   **Film Simulation:** {{filmSim || "modern digital look"}}
+-   **AI Creativity Level (0-10):** {{creativityLevel}}
+{{#if brandColors}}
+-   **Brand Colors:** work {{brandColors}} into the background, props and outfit; keep the product's own colors unchanged.
+{{/if}}
+
+**CRITICAL INSTRUCTIONS:**
+1.  **Face Fidelity:** The person's face in the final image **MUST be a photorealistic and exact match** to the face from the provided reference image. **Do not alter** their facial features, structure, or identity. The gender is determined by the face image.
+2.  **Product Integration:** Seamlessly and naturally integrate the product into the scene with the person.
+3.  **Final Image Quality:** The result must be a high-quality, authentic-looking UGC image suitable for TikTok.
+4.  **No Text:** The output image must be purely visual. Do NOT add any text, watermarks, or logos.
+
+Generate only the image that perfectly matches this description.
+{{else}}
+
+Create a high-quality, photorealistic User-Generated Content (UGC) image suitable for TikTok affiliate marketing.
+The image must naturally feature the provided product image.
+
+**Core Instructions:**
+1. The main subject is the model and the product together. Integrate the product naturally.
+2. A {{gender}} model with facial features typical of {{modelFace || "Southeast Asia"}}. Ensure the face looks realistic and appealing.
+3. The aesthetic must be eye-catching and feel authentic, like real UGC content.
+
+**Creative Direction:**
+- Model's Gender: {{gender}}
+- Model's Pose: {{pose || "a natural and relaxed pose, interacting with the product if appropriate"}}
+- Product: Include the product from the uploaded image.
+- Background/Vibe: {{vibe}}
+- Artistic Style: {{style || "photorealistic"}}
+- Lighting: {{lighting || "flattering and natural-looking lighting"}}
+- Camera Shot: {{camera || "a dynamic angle"}}
+- Composition: {{composition || "well-composed"}}
+- Lens Type: {{lensType || "standard lens"}}
+- Film Simulation: {{filmSim || "modern digital look"}}
+- AI Creativity Level (0-10): {{creativityLevel}}
+{{#if brandColors}}
+- Brand Colors: work {{brandColors}} into the background, props and outfit; keep the product's own colors unchanged.
+{{/if}}
+
+**Final Requirements:**
+- The result must be a high-quality, authentic-looking, and engaging image for affiliate marketing.
+- CRITICAL: The image must be purely visual. Do NOT add text, watermarks, or logos.
+{{/if}}`,
+    },
+    sampleInputs: {
+        hasFaceImage: false,
+        gender: 'Female',
+        modelFace: 'Malaysia',
+        pose: 'Random',
+        ...sampleCreativeDirection,
+        ...sampleBrandKit,
+    },
+};
+
+const staffMonoklixTemplate: PromptTemplate = {
+    id: 'staff-monoklix',
+    version: 1,
+    title: 'Staff MONOklix Agents',
+    description: 'Instructions for each specialist agent in Staff MONOklix.',
+    variables: [
+        { name: 'agentId', label: 'Agent', type: 'string', required: true },
+        { name: 'userInput', label: 'User Input', type: 'string', required: true },
+        { name: 'language', label: 'Output Language', type: 'string', default: 'English' },
+    ],
+    body: {
+        en: `You are a helpful AI assistant. Your final output language must be strictly in {{language}}.
+
+{{#if agentId == "wan"}}
+You are Wan, an expert in market research. Based on the product/service "{{userInput}}", create a detailed "Ideal Customer Persona". Include demographics, interests, pain points, and motivations.
+{{else if agentId == "tina"}}
+You are Tina, a behavioral psychology expert. For the product/service "{{userInput}}", identify the key "Fears" (what the customer wants to avoid) and "Desires" (what the customer wants to achieve).
+{{else if agentId == "jamil"}}
+You are Jamil, a marketing strategist. For the product/service "{{userInput}}", brainstorm 3 distinct "Marketing Angles". Each angle should present a unique way to appeal to potential customers.
+{{else if agentId == "najwa"}}
+You are Najwa, a professional copywriter. Write a short, persuasive marketing copy for the product/service "{{userInput}}". Focus on benefits over features.
+{{else if agentId == "saifuz"}}
+You are Saifuz, an A/B testing specialist. Take the following sales copy and create 3 different variations of it. Each variation should try a different hook or call-to-action. Original copy: "{{userInput}}"
+{{else if agentId == "mieya"}}
+You are Mieya, an expert in classic marketing formulas. Write a marketing copy for the product/service "{{userInput}}" using the AIDA (Attention, Interest, Desire, Action) formula.
+{{else if agentId == "afiq"}}
+You are Afiq, a web content strategist. Outline the key sections for a high-converting sales page for the product/service "{{userInput}}". Include sections like Headline, Problem, Solution, Testimonials, Offer, and Call to Action.
+{{else if agentId == "julia"}}
+You are Julia, a headline specialist. Brainstorm 10 catchy and click-worthy headlines for an advertisement about "{{userInput}}".
+{{else if agentId == "mazrul"}}
+You are Mazrul, a video scriptwriter. Write a short (30-60 seconds) video script for a social media ad about "{{userInput}}". Include visual cues and voiceover text.
+{{else if agentId == "musa"}}
+You are Musa, a personal branding coach. Based on the input "{{userInput}}", write a compelling personal branding post suitable for the specified platform. Focus on storytelling and providing value.
+{{else if agentId == "joe_davinci"}}
+You are Joe, an AI art prompt engineer. Based on the input "{{userInput}}", create a detailed and effective prompt for an AI image generator to create a stunning visual. Include details about style, lighting, composition, and subject.
+{{else if agentId == "zaki"}}
+You are Zaki, a graphic design prompter. Based on the input "{{userInput}}", create a detailed prompt for an AI to generate a promotional poster. Include instructions on text, layout, color scheme, and overall mood.
+{{else}}
+Analyze the following user input and provide a helpful response: "{{userInput}}"
+{{/if}}`,
+    },
+    sampleInputs: { agentId: 'jamil', userInput: 'Homemade sambal in glass jars', language: 'English' },
+};
+
+export const builtInPromptTemplates: PromptTemplate[] = [
+    contentIdeasTemplate,
+    marketingCopyTemplate,
+    productAdTemplate,
+    productPhotoTemplate,
+    productReviewStoryboardTemplate,
+    tiktokAffiliateTemplate,
+    staffMonoklixTemplate,
+];
@@ -0,0 +1,86 @@
+// Note: This file is for testing demonstration purposes and requires a test environment like Jest to run.
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { rankServers, recordRequestResult, resetServerStats, getServerStats, probeServerHealth } from './proxyBalancer';
+
+const S1 = 'https://s1.monoklix.com';
+const S2 = 'https://s2.monoklix.com';
+const S3 = 'https://s3.monoklix.com';
+
+const failTimes = (url: string, times: number) => {
+  for (let i = 0; i < times; i++) recordRequestResult(url, false);
+};
+
+describe('proxyBalancer', () => {
+  afterEach(() => {
+    // Server stats are module-level, so every test starts from a clean slate.
+    resetServerStats();
+    jest.restoreAllMocks();
+  });
+
+  it('should keep the preferred server first when nothing is known about the servers', () => {
+    expect(rankServers([S1, S2, S3], S2)[0]).toBe(S2);
+  });
+
+  it('should rank servers with recent errors below healthy ones', () => {
+    recordRequestResult(S1, false);
+    recordRequestResult(S1, true);
+    recordRequestResult(S2, true);
+
+    expect(rankServers([S1, S2])).toEqual([S2, S1]);
+  });
+
+  it('should skip a server whose circuit is open until a probe after the cool-off succeeds', async () => {
+    const now = 1_000_000;
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const fetchMock = jest.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('ok'));
+
+    failTimes(S1, 3);
+    expect(rankServers([S1, S2], S1)).toEqual([S2]);
+    expect(getServerStats().find(s => s.url === S1)?.circuit).toBe('open');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    clock.mockReturnValue(now + 31_000);
+    expect(rankServers([S1, S2], S1)).toEqual([S2]);
+    expect(getServerStats().find(s => s.url === S1)?.circuit).toBe('half-open');
+
+    await probeServerHealth(S1);
+    expect(getServerStats().find(s => s.url === S1)?.circuit).toBe('closed');
+    expect(rankServers([S1, S2], S1)[0]).toBe(S1);
+  });
+
+  it('should send a single probe to a half-open server however many requests are ranked', async () => {
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    let finishProbe: (response: Response) => void = () => {};
+    const fetchMock = jest.spyOn(globalThis, 'fetch').mockReturnValue(new Promise<Response>(resolve => { finishProbe = resolve; }));
+
+    failTimes(S1, 3);
+    clock.mockReturnValue(1_031_000);
+    for (let i = 0; i < 5; i++) {
+      expect(rankServers([S1, S2], S1)).toEqual([S2]);
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    finishProbe(new Response('unavailable', { status: 503 }));
+    await probeServerHealth(S1);
+    expect(getServerStats().find(s => s.url === S1)?.circuit).toBe('open');
+    expect(rankServers([S1, S2], S1)).toEqual([S2]);
+  });
+
+  it('should close the circuit again after a successful request', () => {
+    failTimes(S1, 3);
+    recordRequestResult(S1, true);
+
+    expect(getServerStats().find(s => s.url === S1)?.circuit).toBe('closed');
+    expect(rankServers([S1, S2])).toContain(S1);
+  });
+
+  it('should still return the server that cools off first when every circuit is open', () => {
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    failTimes(S1, 3);
+    clock.mockReturnValue(1_005_000);
+    failTimes(S2, 3);
+
+    expect(rankServers([S1, S2])).toEqual([S1]);
+  });
+});
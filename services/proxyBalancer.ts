@@ -0,0 +1,200 @@
+import { type User } from '../types';
+import { getAvailableServersForUser } from './userService';
+
+// --- Tuning ---
+const ERROR_WINDOW_SIZE = 20;            // Request outcomes kept per server for the error rate.
+const LATENCY_SMOOTHING = 0.3;           // Weight of the newest health probe in the latency average.
+const UNKNOWN_LATENCY_MS = 1500;         // Assumed latency for servers that haven't been probed yet.
+const FAILURES_TO_OPEN_CIRCUIT = 3;      // Consecutive failures before a server is skipped.
+const BASE_COOL_OFF_MS = 30_000;         // First cool-off; doubles every time the circuit re-opens.
+const MAX_COOL_OFF_MS = 5 * 60_000;
+const HEALTH_PROBE_INTERVAL_MS = 60_000;
+const HEALTH_PROBE_TIMEOUT_MS = 5_000;
+const PREFERRED_SERVER_BONUS = 0.8;      // Score multiplier that keeps users on the server they picked.
+const SERVER_LIST_TTL_MS = 5 * 60_000;
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProxyServerStats {
+    url: string;
+    latencyMs: number | null;
+    errorRate: number;
+    consecutiveFailures: number;
+    circuit: CircuitState;
+    circuitOpenUntil: number;
+    lastProbeAt: number;
+}
+
+interface ServerState {
+    url: string;
+    latencyMs: number | null;
+    outcomes: boolean[];
+    consecutiveFailures: number;
+    timesTripped: number;
+    circuitOpenUntil: number;
+    lastProbeAt: number;
+    probe: Promise<void> | null;
+}
+
+const servers = new Map<string, ServerState>();
+let serverListCache: { userId: string; urls: string[]; fetchedAt: number } | null = null;
+
+const getState = (url: string): ServerState => {
+    let state = servers.get(url);
+    if (!state) {
+        state = { url, latencyMs: null, outcomes: [], consecutiveFailures: 0, timesTripped: 0, circuitOpenUntil: 0, lastProbeAt: 0, probe: null };
+        servers.set(url, state);
+    }
+    return state;
+};
+
+const getErrorRate = (state: ServerState): number =>
+    state.outcomes.length === 0 ? 0 : state.outcomes.filter(ok => !ok).length / state.outcomes.length;
+
+const getCircuitState = (state: ServerState): CircuitState => {
+    if (state.consecutiveFailures < FAILURES_TO_OPEN_CIRCUIT) return 'closed';
+    return Date.now() < state.circuitOpenUntil ? 'open' : 'half-open';
+};
+
+/**
+ * Lower is better: the smoothed health-probe latency, inflated by the recent error rate.
+ */
+const getScore = (state: ServerState, preferredUrl: string | null): number => {
+    const latency = state.latencyMs ?? UNKNOWN_LATENCY_MS;
+    const score = latency * (1 + 4 * getErrorRate(state));
+    return state.url === preferredUrl ? score * PREFERRED_SERVER_BONUS : score;
+};
+
+const pushOutcome = (state: ServerState, ok: boolean) => {
+    state.outcomes.push(ok);
+    if (state.outcomes.length > ERROR_WINDOW_SIZE) state.outcomes.shift();
+};
+
+const markSuccess = (state: ServerState) => {
+    state.consecutiveFailures = 0;
+    state.timesTripped = 0;
+    state.circuitOpenUntil = 0;
+};
+
+const markFailure = (state: ServerState) => {
+    state.consecutiveFailures++;
+    if (state.consecutiveFailures >= FAILURES_TO_OPEN_CIRCUIT) {
+        // A failed half-open probe re-opens the circuit with a longer cool-off.
+        const coolOff = Math.min(BASE_COOL_OFF_MS * 2 ** state.timesTripped, MAX_COOL_OFF_MS);
+        state.timesTripped++;
+        state.circuitOpenUntil = Date.now() + coolOff;
+        console.warn(`[Proxy Balancer] Circuit opened for ${state.url} for ${Math.round(coolOff / 1000)}s after ${state.consecutiveFailures} failures.`);
+    }
+};
+
+/**
+ * Records the outcome of a proxied request. Only failures that say something about the
+ * server itself (network errors, gateway errors) should be recorded as failures; an API
+ * error relayed by a healthy proxy counts as a success.
+ */
+export const recordRequestResult = (url: string, ok: boolean) => {
+    const state = getState(url);
+    pushOutcome(state, ok);
+    if (ok) markSuccess(state);
+    else markFailure(state);
+};
+
+/**
+ * Orders servers from best to worst score, leaving out those whose circuit is open.
+ * A half-open server is not sent requests either: it gets a single health probe and
+ * rejoins the ranking once that succeeds. If no server is available, the one that cools
+ * off first is returned on its own so requests can still go somewhere.
+ */
+export const rankServers = (urls: string[], preferredUrl: string | null = null): string[] => {
+    const states = [...new Set(urls)].map(getState);
+    // Probes are shared per server, so concurrent rankings still send only one.
+    states.filter(state => getCircuitState(state) === 'half-open').forEach(state => probeServerHealth(state.url));
+    const available = states.filter(state => getCircuitState(state) === 'closed');
+    if (available.length === 0) {
+        const soonest = states.reduce<ServerState | null>((best, s) => !best || s.circuitOpenUntil < best.circuitOpenUntil ? s : best, null);
+        return soonest ? [soonest.url] : [];
+    }
+    return available
+        .sort((a, b) => getScore(a, preferredUrl) - getScore(b, preferredUrl))
+        .map(state => state.url);
+};
+
+/**
+ * Calls the `/health` endpoint of a proxy server, updating its latency and circuit.
+ */
+export const probeServerHealth = (url: string): Promise<void> => {
+    const state = getState(url);
+    if (state.probe) return state.probe;
+
+    state.probe = (async () => {
+        const startedAt = Date.now();
+        try {
+            const response = await fetch(`${url}/health`, { signal: AbortSignal.timeout(HEALTH_PROBE_TIMEOUT_MS) });
+            if (!response.ok) throw new Error(`Health check returned ${response.status}`);
+            const elapsed = Date.now() - startedAt;
+            state.latencyMs = state.latencyMs === null ? elapsed : state.latencyMs + LATENCY_SMOOTHING * (elapsed - state.latencyMs);
+            markSuccess(state);
+        } catch (error) {
+            console.warn(`[Proxy Balancer] Health check failed for ${url}:`, error instanceof Error ? error.message : error);
+            markFailure(state);
+        } finally {
+            state.lastProbeAt = Date.now();
+            state.probe = null;
+        }
+    })();
+    return state.probe;
+};
+
+/**
+ * Probes servers whose health data is missing or stale. Servers that have never been
+ * probed are awaited so the first ranking isn't blind; stale ones refresh in the background.
+ */
+export const refreshServerHealth = async (urls: string[]): Promise<void> => {
+    const now = Date.now();
+    const unprobed: Promise<void>[] = [];
+    urls.forEach(url => {
+        const state = getState(url);
+        if (state.lastProbeAt === 0) {
+            unprobed.push(probeServerHealth(url));
+        } else if (now - state.lastProbeAt > HEALTH_PROBE_INTERVAL_MS) {
+            probeServerHealth(url);
+        }
+    });
+    await Promise.all(unprobed);
+};
+
+/**
+ * Returns the servers a user may be routed to, with their preferred server first.
+ * The user's server list is cached briefly since admins fetch it from the database.
+ */
+export const getServerCandidates = async (user: User | null, preferredUrl: string): Promise<string[]> => {
+    if (!user) return [preferredUrl];
+    try {
+        if (!serverListCache || serverListCache.userId !== user.id || Date.now() - serverListCache.fetchedAt > SERVER_LIST_TTL_MS) {
+            serverListCache = { userId: user.id, urls: await getAvailableServersForUser(user), fetchedAt: Date.now() };
+        }
+        return [preferredUrl, ...serverListCache.urls.filter(url => url !== preferredUrl)];
+    } catch (error) {
+        console.warn('[Proxy Balancer] Could not load the server list, using the preferred server only.', error);
+        return [preferredUrl];
+    }
+};
+
+export const getServerStats = (): ProxyServerStats[] =>
+    [...servers.values()].map(state => ({
+        url: state.url,
+        latencyMs: state.latencyMs === null ? null : Math.round(state.latencyMs),
+        errorRate: getErrorRate(state),
+        consecutiveFailures: state.consecutiveFailures,
+        circuit: getCircuitState(state),
+        circuitOpenUntil: state.circuitOpenUntil,
+        lastProbeAt: state.lastProbeAt,
+    }));
+
+/**
+ * Forgets all collected server health, e.g. when the user logs out.
+ */
+export const resetServerStats = () => {
+    servers.clear();
+    serverListCache = null;
+};
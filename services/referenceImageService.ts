@@ -0,0 +1,73 @@
+/**
+ * Keeps the reference images of history items, once per image. History metadata only
+ * records each image's hash, so re-runs, trims and extensions of the same generation
+ * share one copy instead of carrying the base64 from item to item.
+ */
+import localforage from 'localforage';
+import { type ReferenceImage, type StoredReferenceImage } from '../types';
+
+interface StoredImageBytes {
+    base64: string;
+    mimeType: string;
+    storedAt: number;
+}
+
+// Images are saved before the history item that uses them, so recent ones are never pruned
+// in case their item is still being added.
+const PRUNE_GRACE_PERIOD_MS = 10 * 60 * 1000;
+
+const referenceImageStorage = localforage.createInstance({
+    name: 'monoklix',
+    storeName: 'referenceImages',
+    description: 'Reference images of history items, keyed by content hash'
+});
+
+const hashImage = async (base64: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(base64));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const isStoredReferenceImage = (image: ReferenceImage | StoredReferenceImage): image is StoredReferenceImage =>
+    'hash' in image;
+
+/**
+ * Saves any images that still carry their bytes and returns references to all of them,
+ * in the same order. Images already in the store are not written again.
+ */
+export const storeReferenceImages = async (
+    images: (ReferenceImage | StoredReferenceImage)[]
+): Promise<StoredReferenceImage[]> =>
+    Promise.all(images.map(async image => {
+        if (isStoredReferenceImage(image)) return image;
+
+        const hash = await hashImage(image.base64);
+        if (!await referenceImageStorage.getItem<StoredImageBytes>(hash)) {
+            await referenceImageStorage.setItem<StoredImageBytes>(hash, { base64: image.base64, mimeType: image.mimeType, storedAt: Date.now() });
+        }
+        return { hash, mimeType: image.mimeType, ...(image.caption !== undefined && { caption: image.caption }) };
+    }));
+
+/**
+ * Loads the bytes of recorded reference images, e.g. to send them to the model again.
+ * Throws if any of them is no longer stored.
+ */
+export const loadReferenceImages = async (images: StoredReferenceImage[]): Promise<ReferenceImage[]> =>
+    Promise.all(images.map(async ({ hash, mimeType, caption }) => {
+        const stored = await referenceImageStorage.getItem<StoredImageBytes>(hash);
+        if (!stored) {
+            throw new Error('The reference images for this item are no longer available.');
+        }
+        return { base64: stored.base64, mimeType, ...(caption !== undefined && { caption }) };
+    }));
+
+/**
+ * Removes stored images that no history item refers to any more.
+ */
+export const pruneReferenceImages = async (hashesInUse: Set<string>): Promise<void> => {
+    const cutoff = Date.now() - PRUNE_GRACE_PERIOD_MS;
+    const unused: string[] = [];
+    await referenceImageStorage.iterate<StoredImageBytes, void>((stored, hash) => {
+        if (!hashesInUse.has(hash) && stored.storedAt < cutoff) unused.push(hash);
+    });
+    await Promise.all(unused.map(hash => referenceImageStorage.removeItem(hash)));
+};
@@ -0,0 +1,223 @@
+import { type RenderJob } from '../types';
+import { getVeoProxyUrl, getCurrentUser } from './apiClient';
+import { abortableDelay } from '../utils/abortUtils';
+
+const POLL_INTERVAL = 2000;
+// Longest a render job may take, from submission to a finished output, before we give up on it.
+const RENDER_TIMEOUT = 20 * 60 * 1000;
+
+/** Mixing options for laying a voice-over on a video. Times are in seconds, volumes are linear gains (1 = unchanged). */
+export interface VoiceOverMixOptions {
+    offset: number; // When the voice-over starts in the video
+    audioDuration: number; // Length of the voice-over, used for ducking and the fade-out
+    originalVolume: number; // Original audio level outside the voice-over
+    duckedVolume: number; // Original audio level while the voice-over plays
+    voiceVolume: number;
+    fadeIn: number;
+    fadeOut: number;
+}
+
+// The render routes take the same personal auth token as the generation proxy routes.
+const getHeaders = (contentType: string) => {
+    const user = getCurrentUser();
+    return {
+        'Content-Type': contentType,
+        'Authorization': `Bearer ${user?.personalAuthToken ?? ''}`,
+        'x-user-username': user?.username || 'unknown',
+    };
+};
+
+const readJson = async (response: Response) => {
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(data.error || `Render server request failed (${response.status})`);
+    }
+    return data;
+};
+
+/**
+ * Uploads a clip or audio track to the render server.
+ * @returns {Promise<string>} The upload ID to reference in a render request.
+ */
+export const uploadRenderInput = async (media: Blob, signal?: AbortSignal): Promise<string> => {
+    const response = await fetch(`${getVeoProxyUrl()}/api/render/uploads`, {
+        method: 'POST',
+        headers: getHeaders(media.type || 'application/octet-stream'),
+        body: media,
+        signal,
+    });
+    const data = await readJson(response);
+    return data.uploadId;
+};
+
+/**
+ * Starts a server-side concat job.
+ * @param {string[]} clipUploadIds - Uploaded clips, in playback order.
+ * @param {string | null} audioUploadId - Optional audio track that replaces the clips' own audio.
+ */
+export const startConcatRender = async (clipUploadIds: string[], audioUploadId: string | null = null, signal?: AbortSignal): Promise<RenderJob> => {
+    const response = await fetch(`${getVeoProxyUrl()}/api/render/concat`, {
+        method: 'POST',
+        headers: getHeaders('application/json'),
+        body: JSON.stringify({
+            clips: clipUploadIds.map(uploadId => ({ uploadId })),
+            audio: audioUploadId ? { uploadId: audioUploadId } : undefined,
+        }),
+        signal,
+    });
+    return readJson(response);
+};
+
+/**
+ * Starts a server-side voice-over mix job.
+ * @param {string} videoUploadId - The uploaded video.
+ * @param {string} audioUploadId - The uploaded voice-over.
+ * @param {VoiceOverMixOptions} options - Offset, ducking and fade settings.
+ */
+export const startMixRender = async (videoUploadId: string, audioUploadId: string, options: VoiceOverMixOptions, signal?: AbortSignal): Promise<RenderJob> => {
+    const response = await fetch(`${getVeoProxyUrl()}/api/render/mix`, {
+        method: 'POST',
+        headers: getHeaders('application/json'),
+        body: JSON.stringify({
+            video: { uploadId: videoUploadId },
+            audio: { uploadId: audioUploadId },
+            options,
+        }),
+        signal,
+    });
+    return readJson(response);
+};
+
+/**
+ * Starts a server-side job that burns captions onto a video.
+ * @param {string} videoUploadId - The uploaded video.
+ * @param {string} subtitles - An ASS subtitle script (see captionService.toAss).
+ */
+export const startCaptionsRender = async (videoUploadId: string, subtitles: string, signal?: AbortSignal): Promise<RenderJob> => {
+    const response = await fetch(`${getVeoProxyUrl()}/api/render/captions`, {
+        method: 'POST',
+        headers: getHeaders('application/json'),
+        body: JSON.stringify({
+            video: { uploadId: videoUploadId },
+            subtitles,
+        }),
+        signal,
+    });
+    return readJson(response);
+};
+
+export const getRenderJob = async (jobId: string, signal?: AbortSignal): Promise<RenderJob> => {
+    const response = await fetch(`${getVeoProxyUrl()}/api/render/jobs/${jobId}`, {
+        headers: getHeaders('application/json'),
+        signal,
+    });
+    // Jobs only live in the server's memory, so a restart or expiry loses them for good.
+    if (response.status === 404) {
+        throw new Error('The render job is no longer available on the server. Please try again.');
+    }
+    return readJson(response);
+};
+
+// Polls a render job until it finishes, then downloads its output.
+const waitForRenderResult = async (initialJob: RenderJob, onProgress?: (message: string) => void, signal?: AbortSignal): Promise<Blob> => {
+    const deadline = Date.now() + RENDER_TIMEOUT;
+    let job = initialJob;
+    while (job.status === 'queued' || job.status === 'processing') {
+        if (job.message) onProgress?.(job.message);
+        if (Date.now() >= deadline) {
+            throw new Error('The render job took too long to finish. Please try again.');
+        }
+        await abortableDelay(POLL_INTERVAL, signal);
+        job = await getRenderJob(job.id, signal);
+    }
+
+    if (job.status === 'failed' || !job.downloadUrl) {
+        throw new Error(job.error || 'The render job failed.');
+    }
+
+    onProgress?.('Downloading rendered video...');
+    const response = await fetch(`${getVeoProxyUrl()}${job.downloadUrl}`, {
+        headers: getHeaders('application/json'),
+        signal,
+    });
+    if (!response.ok) {
+        throw new Error(`Failed to download the rendered video (${response.status})`);
+    }
+    return response.blob();
+};
+
+/**
+ * Combines clips on the render server: uploads the media, waits for the job and downloads the result.
+ * @param {Blob[]} clips - The clips to combine, in playback order.
+ * @param {Blob | null} audio - Optional audio track for the combined video.
+ * @param {(message: string) => void} onProgress - Receives human-readable progress messages.
+ * @param {AbortSignal} [signal] - Stops uploading or waiting for the job.
+ * @returns {Promise<Blob>} The combined MP4.
+ */
+export const renderConcatOnServer = async (
+    clips: Blob[],
+    audio: Blob | null = null,
+    onProgress?: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const clipUploadIds: string[] = [];
+    for (let i = 0; i < clips.length; i++) {
+        onProgress?.(`Uploading video ${i + 1}/${clips.length}...`);
+        clipUploadIds.push(await uploadRenderInput(clips[i], signal));
+    }
+
+    let audioUploadId: string | null = null;
+    if (audio) {
+        onProgress?.('Uploading audio track...');
+        audioUploadId = await uploadRenderInput(audio, signal);
+    }
+
+    const job = await startConcatRender(clipUploadIds, audioUploadId, signal);
+    return waitForRenderResult(job, onProgress, signal);
+};
+
+/**
+ * Mixes a voice-over onto a video on the render server.
+ * @param {Blob} video - The video to narrate.
+ * @param {Blob} audio - The voice-over track.
+ * @param {VoiceOverMixOptions} options - Offset, ducking and fade settings.
+ * @param {(message: string) => void} onProgress - Receives human-readable progress messages.
+ * @param {AbortSignal} [signal] - Stops uploading or waiting for the job.
+ * @returns {Promise<Blob>} The mixed MP4.
+ */
+export const renderMixOnServer = async (
+    video: Blob,
+    audio: Blob,
+    options: VoiceOverMixOptions,
+    onProgress?: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    onProgress?.('Uploading video...');
+    const videoUploadId = await uploadRenderInput(video, signal);
+    onProgress?.('Uploading voice-over...');
+    const audioUploadId = await uploadRenderInput(audio, signal);
+
+    const job = await startMixRender(videoUploadId, audioUploadId, options, signal);
+    return waitForRenderResult(job, onProgress, signal);
+};
+
+/**
+ * Burns captions onto a video on the render server.
+ * @param {Blob} video - The video to caption.
+ * @param {string} subtitles - An ASS subtitle script with the styled, timed captions.
+ * @param {(message: string) => void} onProgress - Receives human-readable progress messages.
+ * @param {AbortSignal} [signal] - Stops uploading or waiting for the job.
+ * @returns {Promise<Blob>} The captioned MP4.
+ */
+export const renderCaptionsOnServer = async (
+    video: Blob,
+    subtitles: string,
+    onProgress?: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    onProgress?.('Uploading video...');
+    const videoUploadId = await uploadRenderInput(video, signal);
+
+    const job = await startCaptionsRender(videoUploadId, subtitles, signal);
+    return waitForRenderResult(job, onProgress, signal);
+};
@@ -0,0 +1,113 @@
+import { v4 as uuidv4 } from 'uuid';
+import { type StoryboardScene, type StoryboardProject, type StoryboardSettings } from '../types';
+import { dbGetStoryboardProjects, dbPutStoryboardProject, dbDeleteStoryboardProject } from './indexedDBService';
+import { getCurrentUser } from './apiClient';
+
+export const MIN_SCENE_COUNT = 1;
+export const MAX_SCENE_COUNT = 12;
+
+const SCENE_SPLIT_REGEX = /\*\*(?:Scene|Babak)\s+\d+:.*?\*\*/i;
+
+// --- Scene Helpers ---
+
+export const createScene = (prompt = ''): StoryboardScene => ({
+    id: uuidv4(),
+    prompt,
+    image: null,
+    video: null,
+    videoFilename: null,
+    thumbnailUrl: null,
+    imageError: null,
+    videoError: null,
+});
+
+/**
+ * Splits a generated storyboard into scene scripts on its "**Scene N:**" / "**Babak N:**" headings.
+ * @param {string} storyboard - The raw storyboard text returned by the AI.
+ * @returns {string[]} One script per scene, in order. Empty if no headings were found.
+ */
+export const parseStoryboardScenes = (storyboard: string): string[] => {
+    const parts = storyboard.split(SCENE_SPLIT_REGEX);
+    return parts.length > 1 ? parts.slice(1).map(part => part.trim()).filter(Boolean) : [];
+};
+
+/**
+ * Rebuilds the storyboard text from its scenes, numbering them in their current order.
+ * @param {StoryboardScene[]} scenes - The scenes in playback order.
+ * @param {string} language - The storyboard output language; Malay uses "Babak" headings.
+ * @returns {string} The full storyboard text.
+ */
+export const serializeStoryboard = (scenes: StoryboardScene[], language: string): string => {
+    const sceneTitle = language === 'Bahasa Malaysia' ? 'Babak' : 'Scene';
+    return scenes.map((scene, i) => `**${sceneTitle} ${i + 1}:**\n${scene.prompt}`).join('\n\n');
+};
+
+/**
+ * Inserts a copy of a scene, including its generated media, right after the original.
+ * @returns {StoryboardScene[]} A new scene list.
+ */
+export const duplicateScene = (scenes: StoryboardScene[], sceneId: string): StoryboardScene[] => {
+    const index = scenes.findIndex(scene => scene.id === sceneId);
+    if (index === -1) return scenes;
+    const copy: StoryboardScene = { ...scenes[index], id: uuidv4() };
+    return [...scenes.slice(0, index + 1), copy, ...scenes.slice(index + 1)];
+};
+
+/**
+ * Moves a scene to a new position, shifting the scenes in between.
+ * @returns {StoryboardScene[]} A new scene list.
+ */
+export const moveScene = (scenes: StoryboardScene[], fromIndex: number, toIndex: number): StoryboardScene[] => {
+    if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= scenes.length) return scenes;
+    const reordered = [...scenes];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(Math.max(0, Math.min(toIndex, reordered.length)), 0, moved);
+    return reordered;
+};
+
+// --- Project Persistence ---
+
+export const createStoryboardProject = (title: string, settings: StoryboardSettings, scenes: StoryboardScene[] = []): StoryboardProject => {
+    const now = Date.now();
+    return {
+        id: uuidv4(),
+        userId: getCurrentUser()?.id ?? '',
+        title,
+        scenes,
+        settings,
+        timestamp: now,
+        updatedAt: now,
+    };
+};
+
+/**
+ * Fetches the current user's saved storyboard projects, newest first.
+ * @returns {Promise<StoryboardProject[]>} The saved projects, or an empty array if no user is logged in.
+ */
+export const getStoryboardProjects = async (): Promise<StoryboardProject[]> => {
+    const user = getCurrentUser();
+    if (!user) return [];
+    try {
+        return await dbGetStoryboardProjects(user.id);
+    } catch (error) {
+        console.error("Failed to load storyboard projects from IndexedDB:", error);
+        return [];
+    }
+};
+
+/**
+ * Saves a storyboard project, creating or replacing it.
+ * @param {StoryboardProject} project - The project to save.
+ */
+export const saveStoryboardProject = async (project: StoryboardProject): Promise<void> => {
+    const user = getCurrentUser();
+    if (!user) {
+        console.warn("Cannot save storyboard project: no user is logged in.");
+        return;
+    }
+    await dbPutStoryboardProject({ ...project, userId: user.id, updatedAt: Date.now() });
+};
+
+export const deleteStoryboardProject = async (id: string): Promise<void> => {
+    await dbDeleteStoryboardProject(id);
+};
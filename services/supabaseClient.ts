@@ -182,6 +182,118 @@ export interface Database {
         }
         Relationships: []
       }
+      user_prompts: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          user_id: string
+          author: string
+          title: string
+          prompt: string
+          tags: string[]
+          cover_image: string | null
+          target: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id: string
+          author: string
+          title: string
+          prompt: string
+          tags?: string[]
+          cover_image?: string | null
+          target: string
+        }
+        Update: {
+          updated_at?: string
+          title?: string
+          prompt?: string
+          tags?: string[]
+          cover_image?: string | null
+          target?: string
+        }
+        Relationships: []
+      }
+      workspaces: {
+        Row: {
+          id: string
+          created_at: string
+          name: string
+          owner_id: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          name: string
+          owner_id: string
+        }
+        Update: {
+          name?: string
+        }
+        Relationships: []
+      }
+      workspace_members: {
+        Row: {
+          id: string
+          created_at: string
+          workspace_id: string
+          user_id: string
+          email: string
+          full_name: string | null
+          role: 'owner' | 'member'
+          status: 'invited' | 'active'
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          workspace_id: string
+          user_id: string
+          email: string
+          full_name?: string | null
+          role?: 'owner' | 'member'
+          status?: 'invited' | 'active'
+        }
+        Update: {
+          status?: 'invited' | 'active'
+          full_name?: string | null
+        }
+        Relationships: []
+      }
+      workspace_items: {
+        Row: {
+          id: string
+          created_at: string
+          workspace_id: string
+          type: string
+          kind: 'output' | 'brand_asset'
+          prompt: string
+          shared_by: string
+          shared_by_name: string
+          storage_path: string | null
+          text_content: string | null
+          mime_type: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          workspace_id: string
+          type: string
+          kind?: 'output' | 'brand_asset'
+          prompt: string
+          shared_by: string
+          shared_by_name: string
+          storage_path?: string | null
+          text_content?: string | null
+          mime_type?: string | null
+        }
+        Update: {
+          prompt?: string
+        }
+        Relationships: []
+      }
       generated_api_keys: {
         Row: {
           id: number
@@ -231,6 +343,34 @@ export interface Database {
         };
         Relationships: [];
       }
+      generation_queue: {
+        Row: {
+          id: string
+          created_at: string
+          server_url: string
+          user_id: string | null
+          username: string
+          status: 'waiting' | 'acquired' | 'cancelled'
+          last_seen_at: string
+          acquired_at: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          server_url: string
+          user_id?: string | null
+          username: string
+          status?: 'waiting' | 'acquired' | 'cancelled'
+          last_seen_at?: string
+          acquired_at?: string | null
+        }
+        Update: {
+          status?: 'waiting' | 'acquired' | 'cancelled'
+          last_seen_at?: string
+          acquired_at?: string | null
+        }
+        Relationships: []
+      }
       proxy_servers: {
         Row: {
           id: number
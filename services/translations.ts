@@ -12,7 +12,68 @@ const translations = {
             previousItem: 'Previous Item',
             nextItem: 'Next Item',
             closePreview: 'Close Preview',
+            trimVideo: 'Trim video',
             generating: 'Generating...',
+            progress: {
+                queued: 'Waiting for a free slot',
+                uploading: 'Uploading reference images',
+                submitted: 'Sending request',
+                polling: 'Generating',
+                downloading: 'Downloading result',
+                caching: 'Saving to gallery',
+                done: 'Done',
+                failed: 'Failed',
+                queuePosition: '#{position} in queue',
+                eta: '~{seconds}s left',
+                attempt: 'attempt {attempt}',
+            },
+            seed: {
+                label: 'Seed',
+                random: 'Random',
+                randomize: 'Pick a random seed',
+                clear: 'Use a new random seed each time',
+                hint: 'Lock a seed to reproduce a result, or leave it empty for a new one each time.',
+                copy: 'Copy seed',
+                rerunSame: 'Re-run (same seed)',
+                rerunVary: 'Vary seed',
+                rerunDone: 'Saved to your gallery.',
+                rerunUnavailable: 'This item was created before seeds were recorded and cannot be re-run.',
+            },
+            generationDetails: {
+                model: 'Model',
+                aspectRatio: 'Aspect ratio',
+                resolution: 'Resolution',
+                source: 'Made with',
+                duration: 'Took {seconds}s',
+                cost: '~${cost}',
+                costHint: 'Estimated from list prices',
+                server: 'Server',
+                token: 'Token …{suffix}',
+                references: 'Reference images',
+                segments: 'Joined clips',
+                trimmedFrom: 'Trimmed to {start}s–{end}s of the original',
+            },
+            sourceTools: {
+                ImageGeneration: 'Image Generation',
+                VideoGeneration: 'Video Generation',
+                VideoExtension: 'Video Extension',
+                VideoTrimmer: 'Video Trimmer',
+                Batch: 'Batch Processor',
+                TiktokAffiliate: 'TikTok Affiliate',
+                ProductReview: 'Product Review',
+                ProductPhoto: 'Product Photo',
+                ProductAd: 'Product Ad',
+                ImageEnhancer: 'Image Enhancer',
+                BackgroundRemover: 'Background Remover',
+                StaffMonoklix: 'Staff MONOklix',
+                ContentIdeas: 'Content Ideas',
+                MarketingCopy: 'Marketing Copy',
+                VoiceStudio: 'Voice Studio',
+                VoiceOverMixer: 'Voice-over Mixer',
+                CaptionStudio: 'Caption Studio',
+                Workspace: 'Team Workspace',
+                Unknown: 'Other',
+            },
             errors: {
                 emailRequired: 'Email is required to log in.',
                 emailNotRegistered: 'This email is not registered. Please check your email or sign up for an account.',
@@ -45,6 +106,8 @@ const translations = {
             openConsole: 'Open Console Log',
             refreshSession: 'Refresh Session',
             refreshSessionTooltip: 'Clear session data & refresh the app. Use this if you encounter persistent errors.',
+            videoJobsResumed: 'Resuming {count} video generation(s) that were interrupted by a page reload. They will be saved to your gallery when ready.',
+            videoJobCompleted: 'An interrupted video generation has finished and was saved to your gallery.',
         },
         assigningTokenModal: {
             scanningTitle: 'Verifying Connection Slot',
@@ -673,6 +736,7 @@ const translations = {
             tabs: {
                 images: 'Images',
                 videos: 'Videos',
+                team: 'Team Workspace',
                 log: 'API Log'
             },
             emptyTitle: 'Your {tab} Gallery is Empty',
@@ -683,9 +747,54 @@ const translations = {
             reEdit: 'Re-edit Image',
             createVideo: 'Create Video',
             download: 'Download',
+            shareToWorkspace: 'Share to Workspace',
             delete: 'Delete',
             // FIX: Add missing key for delete confirmation.
             confirmDelete: 'Are you sure you want to delete this item from your history?',
+            rerun: 'Re-run with the same settings',
+            extend: {
+                action: 'Extend video',
+                title: 'Extend Video',
+                subtitle: 'Continues the clip from its last frame and joins the new footage onto the end.',
+                directionLabel: 'What happens next (optional)',
+                directionPlaceholder: 'e.g., The camera slowly pushes in as she lifts the bottle to the light',
+                segmentsLabel: 'Length to add',
+                segmentOption: '{count} × ~8s',
+                start: 'Extend',
+                cancel: 'Cancel',
+                segmentProgress: 'Generating segment {segment} of {total}',
+                joining: 'Joining clips...',
+                done: 'The extended video was saved to your gallery.',
+            },
+            trim: {
+                action: 'Trim video',
+                title: 'Trim Video',
+                subtitle: 'Cut the start and end of the clip and pick its cover frame. The original is kept.',
+                in: 'In',
+                out: 'Out',
+                setIn: 'Set in',
+                setOut: 'Set out',
+                previousFrame: 'Previous frame',
+                nextFrame: 'Next frame',
+                playRange: 'Play selection',
+                keptDuration: 'Keeps {seconds}s',
+                poster: 'Cover frame',
+                setPoster: 'Use current frame',
+                posterHint: 'Defaults to the first kept frame.',
+                keyboardHint: 'Use ← and → to step one frame.',
+                save: 'Save trimmed copy',
+                cancel: 'Cancel',
+                done: 'The trimmed video was saved to your gallery.',
+                invalidRange: 'The out point must come after the in point.',
+            },
+            filters: {
+                search: 'Search prompts...',
+                allTools: 'All tools',
+                allModels: 'All models',
+                allAspectRatios: 'All aspect ratios',
+                clear: 'Clear filters',
+                noMatches: 'No items match these filters.',
+            },
             log: {
                 title: 'AI API Log',
                 clear: 'Clear Logs',
@@ -709,6 +818,8 @@ const translations = {
             tabs: {
                 profile: 'User Profile',
                 api: 'Integrations',
+                brandKits: 'Brand Kits',
+                prompts: 'Prompt Templates',
                 contentAdmin: 'Content Admin',
                 userDb: 'User Database'
             },
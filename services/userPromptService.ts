@@ -0,0 +1,124 @@
+/**
+ * Users' own prompt library, stored in the `user_prompts` Supabase table.
+ * Prompts may contain placeholders in the prompt template syntax, e.g.
+ * `A {{product}} on a {{surface || "marble table"}}`, which are filled in before use.
+ */
+import { supabase, type Database } from './supabaseClient';
+import {
+    getTemplatePlaceholders, renderPromptTemplate, type PromptInputs
+} from './promptTemplateEngine';
+import { type UserPrompt } from '../types';
+import { getCurrentUser } from './apiClient';
+
+type UserPromptRow = Database['public']['Tables']['user_prompts']['Row'];
+
+export type UserPromptDraft = Pick<UserPrompt, 'title' | 'prompt' | 'tags' | 'coverImage' | 'target'>;
+
+const mapRowToUserPrompt = (row: UserPromptRow): UserPrompt => ({
+    id: row.id,
+    userId: row.user_id,
+    author: row.author,
+    title: row.title,
+    prompt: row.prompt,
+    tags: row.tags || [],
+    coverImage: row.cover_image,
+    target: row.target === 'video' ? 'video' : 'image',
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+/**
+ * Normalizes free-form tags: trimmed, lower-case, without '#' and duplicates.
+ */
+export const normalizePromptTags = (tags: string[]): string[] =>
+    [...new Set(tags.map(tag => tag.trim().replace(/^#/, '').toLowerCase()).filter(Boolean))];
+
+/**
+ * Fetches the current user's saved prompts, most recently updated first.
+ */
+export const getUserPrompts = async (): Promise<UserPrompt[]> => {
+    const user = getCurrentUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+        .from('user_prompts')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false });
+
+    if (error) {
+        console.error("Error fetching saved prompts:", error);
+        throw new Error(error.message);
+    }
+    return (data || []).map(mapRowToUserPrompt);
+};
+
+/**
+ * Creates a prompt, or updates it when an ID is given.
+ * @param {UserPromptDraft} draft - The prompt fields.
+ * @param {string} id - The prompt to update, if editing.
+ * @returns {Promise<UserPrompt>} The saved prompt.
+ */
+export const saveUserPrompt = async (draft: UserPromptDraft, id?: string): Promise<UserPrompt> => {
+    const user = getCurrentUser();
+    if (!user) throw new Error("User not logged in.");
+
+    const fields = {
+        title: draft.title.trim(),
+        prompt: draft.prompt,
+        tags: normalizePromptTags(draft.tags),
+        cover_image: draft.coverImage,
+        target: draft.target,
+    };
+
+    const query = id
+        ? supabase.from('user_prompts').update({ ...fields, updated_at: new Date().toISOString() }).eq('id', id).eq('user_id', user.id)
+        : supabase.from('user_prompts').insert({ ...fields, user_id: user.id, author: user.fullName || user.username });
+
+    const { data, error } = await query.select().single();
+    if (error || !data) {
+        console.error("Error saving prompt:", error);
+        throw new Error(error?.message || "Failed to save the prompt.");
+    }
+    return mapRowToUserPrompt(data);
+};
+
+export const deleteUserPrompt = async (id: string): Promise<void> => {
+    const user = getCurrentUser();
+    if (!user) throw new Error("User not logged in.");
+
+    const { error } = await supabase.from('user_prompts').delete().eq('id', id).eq('user_id', user.id);
+    if (error) {
+        console.error("Error deleting prompt:", error);
+        throw new Error(error.message);
+    }
+};
+
+// --- Placeholders ---
+
+/**
+ * Lists the placeholders in a saved prompt, with their default text if one is given.
+ * Returns an empty list if the prompt's placeholder syntax is malformed.
+ */
+export const getPromptPlaceholders = (prompt: string): { name: string; fallback?: string }[] => {
+    try {
+        return getTemplatePlaceholders(prompt);
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Fills a saved prompt's placeholders with the given values.
+ * @throws {PromptTemplateError} When the placeholder syntax is malformed.
+ */
+export const fillPromptPlaceholders = (prompt: string, values: PromptInputs): string =>
+    renderPromptTemplate({
+        id: 'user-prompt',
+        version: 1,
+        title: '',
+        description: '',
+        variables: getTemplatePlaceholders(prompt).map(p => ({ name: p.name, label: p.name, type: 'string' })),
+        body: { en: prompt },
+        sampleInputs: {},
+    }, values).trim();
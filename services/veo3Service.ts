@@ -1,31 +1,42 @@
 import { v4 as uuidv4 } from 'uuid';
 import { executeProxiedRequest } from './apiClient';
+import { type ProgressCallback } from '../types';
 
 interface Veo3Config {
   authToken: string;
   aspectRatio: 'landscape' | 'portrait';
   seed?: number;
   useStandardModel?: boolean;
+  // Number of videos to generate in one call, each from its own seed. Defaults to 1.
+  variations?: number;
 }
 
 interface VideoGenerationRequest {
   prompt: string;
   imageMediaId?: string;
+  // With a start image, makes the video end on this frame, interpolating between the two.
+  endImageMediaId?: string;
   config: Omit<Veo3Config, 'authToken'> & { authToken?: string };
+  signal?: AbortSignal;
 }
 
 export const generateVideoWithVeo3 = async (
     request: VideoGenerationRequest,
-    onStatusUpdate?: (status: string) => void,
+    onProgress?: ProgressCallback,
     isHealthCheck = false
-): Promise<{ operations: any[]; successfulToken: string }> => {
+): Promise<{ operations: any[]; successfulToken: string; seed: number; seeds: number[]; server: string }> => {
   console.log('🎬 [VEO Service] Preparing generateVideoWithVeo3 request...');
-  const { prompt, imageMediaId, config } = request;
+  const { prompt, imageMediaId, endImageMediaId, config, signal } = request;
   const isImageToVideo = !!imageMediaId;
+  const isKeyframeToVideo = isImageToVideo && !!endImageMediaId;
 
   let videoModelKey: string;
   
-  if (isImageToVideo) {
+  if (isKeyframeToVideo) {
+    videoModelKey = config.aspectRatio === 'landscape'
+      ? 'veo_3_1_i2v_s_fast_ultra_fl'
+      : 'veo_3_1_i2v_s_fast_portrait_ultra_fl';
+  } else if (isImageToVideo) {
     videoModelKey = config.aspectRatio === 'landscape'
       ? 'veo_3_1_i2v_s_fast_landscape_ultra'
       : 'veo_3_1_i2v_s_fast_portrait_ultra';
@@ -39,47 +50,54 @@ export const generateVideoWithVeo3 = async (
     ? 'VIDEO_ASPECT_RATIO_LANDSCAPE'
     : 'VIDEO_ASPECT_RATIO_PORTRAIT';
 
-  const seed = config.seed || Math.floor(Math.random() * 2147483647);
-  const sceneId = uuidv4();
+  const seed = config.seed ?? Math.floor(Math.random() * 2147483647);
+  // Variations use consecutive seeds, so a fixed seed reproduces the whole set.
+  const seeds = Array.from({ length: Math.max(1, config.variations ?? 1) }, (_, i) => (seed + i - 1) % 2147483647 + 1);
 
   const requestBody: any = {
     clientContext: {
       tool: 'PINHOLE',
       userPaygateTier: 'PAYGATE_TIER_TWO'
     },
-    requests: [{
-      aspectRatio: aspectRatioValue,
-      seed: seed,
-      textInput: { prompt },
-      videoModelKey: videoModelKey,
-      metadata: { sceneId: sceneId }
-    }]
+    requests: seeds.map(variationSeed => {
+      const videoRequest: any = {
+        aspectRatio: aspectRatioValue,
+        seed: variationSeed,
+        textInput: { prompt },
+        videoModelKey: videoModelKey,
+        metadata: { sceneId: uuidv4() }
+      };
+      if (imageMediaId) {
+        videoRequest.startImage = { mediaId: imageMediaId };
+      }
+      if (isKeyframeToVideo) {
+        videoRequest.endImage = { mediaId: endImageMediaId };
+      }
+      return videoRequest;
+    })
   };
 
-  if (imageMediaId) {
-    requestBody.requests[0].startImage = { mediaId: imageMediaId };
-  }
-
   console.log('🎬 [VEO Service] Constructed T2V/I2V request body. Sending to API client.');
   const relativePath = isImageToVideo ? '/generate-i2v' : '/generate-t2v';
   
   const logContext = isHealthCheck
     ? (isImageToVideo ? 'VEO I2V HEALTH CHECK' : 'VEO T2V HEALTH CHECK')
-    : (isImageToVideo ? 'VEO I2V GENERATE' : 'VEO T2V GENERATE');
+    : (isKeyframeToVideo ? 'VEO KEYFRAMES GENERATE' : isImageToVideo ? 'VEO I2V GENERATE' : 'VEO T2V GENERATE');
   
-  const { data, successfulToken } = await executeProxiedRequest(
+  const { data, successfulToken, server } = await executeProxiedRequest(
     relativePath,
     'veo',
     requestBody,
     logContext,
     config.authToken,
-    onStatusUpdate
+    onProgress,
+    signal
   );
   console.log('🎬 [VEO Service] Received operations from API client:', data.operations?.length || 0);
-  return { operations: data.operations || [], successfulToken };
+  return { operations: data.operations || [], successfulToken, seed: seeds[0], seeds, server };
 };
 
-export const checkVideoStatus = async (operations: any[], token: string, onStatusUpdate?: (status: string) => void) => {
+export const checkVideoStatus = async (operations: any[], token: string, onProgress?: ProgressCallback, signal?: AbortSignal) => {
   console.log(`🔍 [VEO Service] Checking status for ${operations.length} operations...`);
   const payload = { operations };
 
@@ -89,7 +107,8 @@ export const checkVideoStatus = async (operations: any[], token: string, onStatu
     payload,
     'VEO STATUS',
     token,
-    onStatusUpdate
+    onProgress,
+    signal
   );
   
   if (data.operations && data.operations.length > 0) {
@@ -111,7 +130,9 @@ export const uploadImageForVeo3 = async (
   base64Image: string,
   mimeType: string,
   aspectRatio: 'landscape' | 'portrait',
-  onStatusUpdate?: (status: string) => void
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+  authToken?: string
 ): Promise<{ mediaId: string; successfulToken: string }> => {
   console.log(`📤 [VEO Service] Preparing to upload image for VEO. MimeType: ${mimeType}`);
   const imageAspectRatioEnum = aspectRatio === 'landscape' 
@@ -136,8 +157,9 @@ export const uploadImageForVeo3 = async (
     'veo',
     requestBody,
     'VEO UPLOAD',
-    undefined, // Use personal token for upload
-    onStatusUpdate
+    authToken, // Uses the personal token unless a later upload must match an earlier one
+    onProgress,
+    signal
   );
 
   const mediaId = data.mediaGenerationId?.mediaGenerationId || data.mediaId;
@@ -0,0 +1,177 @@
+/**
+ * Extends a history video past Veo's clip length: each new segment starts from the last
+ * frame of the one before, and the segments are joined onto the original on the render
+ * server (or in the browser when it is unavailable) and saved as a single history item
+ * that records its lineage.
+ */
+import { type GenerationProgress, type HistoryItem, type VideoSegment } from '../types';
+import { generateVideo } from './geminiService';
+import { extractLastVideoFrame } from './imageService';
+import { renderConcatOnServer } from './renderService';
+import { concatVideosInBrowser } from './ffmpegService';
+import { addHistoryItem } from './historyService';
+import { incrementVideoUsage } from './userService';
+import { getVideoContinuationPrompt } from './promptManager';
+import { estimateGenerationCost, getRunMetadata } from './generationMetadataService';
+import { MODELS } from './aiConfig';
+import eventBus from './eventBus';
+import { isAbortError } from '../utils/abortUtils';
+import { getCurrentUser } from './apiClient';
+
+export const MAX_EXTENSION_SEGMENTS = 3;
+
+const EXTENDED_LABEL_PREFIX = 'Extended: ';
+
+export interface VideoExtensionOptions {
+    // What should happen in the new footage; the shot just carries on when empty.
+    direction: string;
+    segments: number;
+}
+
+export type VideoExtensionProgress =
+    | { step: 'segment'; segment: number; total: number; progress: GenerationProgress }
+    | { step: 'joining'; message: string };
+
+interface GeneratedSegment {
+    video: Blob;
+    frame: string;
+    prompt: string;
+    seed: number;
+}
+
+const recordVideoUsage = async () => {
+    const user = getCurrentUser();
+    if (!user) return;
+    const updateResult = await incrementVideoUsage(user);
+    if (updateResult.success) {
+        eventBus.dispatch('userUsageUpdated', updateResult.user);
+    }
+};
+
+// Saves each finished segment as its own history item, for when they can't be joined.
+const saveSegmentsSeparately = async (
+    item: HistoryItem,
+    segments: GeneratedSegment[],
+    settings: { model: string; aspectRatio: string; resolution: string; negativePrompt?: string }
+) => {
+    for (const [index, segment] of segments.entries()) {
+        await addHistoryItem({
+            type: 'Video',
+            prompt: `Extension segment ${index + 1}: ${item.prompt}`,
+            result: segment.video,
+            metadata: {
+                prompt: segment.prompt,
+                seed: segment.seed,
+                ...settings,
+                referenceImages: [{ base64: segment.frame, mimeType: 'image/png' }],
+                sourceTool: 'VideoExtension',
+            },
+        });
+    }
+};
+
+/**
+ * Whether a history item is a video that is still available to extend.
+ */
+export const canExtendHistoryItem = (item: HistoryItem): boolean =>
+    item.type === 'Video' && item.result instanceof Blob;
+
+/**
+ * Generates `options.segments` continuation clips for a history video, joins them onto it
+ * and saves the result to history. If a later segment fails, the extension is cancelled
+ * or the clips can't be joined, each finished segment is saved on its own instead so the
+ * generations aren't lost, and the error is rethrown.
+ */
+export const extendHistoryVideo = async (
+    item: HistoryItem,
+    options: VideoExtensionOptions,
+    onProgress?: (progress: VideoExtensionProgress) => void,
+    signal?: AbortSignal
+): Promise<void> => {
+    if (!canExtendHistoryItem(item)) {
+        throw new Error('This video is no longer available to extend.');
+    }
+
+    const source = item.result as Blob;
+    const metadata = item.metadata;
+    const originalPrompt = metadata?.prompt ?? item.prompt;
+    const model = metadata?.model ?? MODELS.videoGenerationDefault;
+    const aspectRatio = metadata?.aspectRatio ?? '9:16';
+    const resolution = metadata?.resolution ?? '720p';
+    const total = Math.max(1, Math.min(options.segments, MAX_EXTENSION_SEGMENTS));
+    const prompt = getVideoContinuationPrompt(originalPrompt, options.direction);
+    const settings = { model, aspectRatio, resolution, negativePrompt: metadata?.negativePrompt };
+    const startedAt = Date.now();
+
+    const segments: GeneratedSegment[] = [];
+    let lastRun: { successfulToken?: string; server?: string } = {};
+    let lastClip = source;
+    try {
+        for (let segment = 1; segment <= total; segment++) {
+            const frame = await extractLastVideoFrame(lastClip);
+            const { videoFile, seed, successfulToken, server } = await generateVideo(
+                prompt,
+                model,
+                aspectRatio,
+                resolution,
+                metadata?.negativePrompt ?? '',
+                { imageBytes: frame, mimeType: 'image/png' },
+                progress => onProgress?.({ step: 'segment', segment, total, progress }),
+                signal
+            );
+            segments.push({ video: videoFile, frame, prompt, seed });
+            lastRun = { successfulToken, server };
+            lastClip = videoFile;
+            await recordVideoUsage();
+        }
+    } catch (error) {
+        if (segments.length === 0) throw error;
+        console.error('Extension stopped before all segments were generated, saving the finished ones separately:', error);
+        await saveSegmentsSeparately(item, segments, settings);
+        // A cancellation stays a cancellation so the caller doesn't report it as a failure.
+        if (isAbortError(error)) throw error;
+        throw new Error(`Only ${segments.length} of ${total} new segments were generated, so they were saved to your gallery separately. ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const label = item.prompt.startsWith(EXTENDED_LABEL_PREFIX) ? item.prompt : `${EXTENDED_LABEL_PREFIX}${item.prompt}`;
+
+    const clips = [source, ...segments.map(segment => segment.video)];
+    const onJoinProgress = (message: string) => onProgress?.({ step: 'joining', message });
+    let joined: Blob;
+    try {
+        try {
+            joined = await renderConcatOnServer(clips, null, onJoinProgress, signal);
+        } catch (serverError) {
+            if (signal?.aborted) throw serverError;
+            console.warn('⚠️ Server render failed, falling back to in-browser join:', serverError);
+            joined = await concatVideosInBrowser(clips, null, onJoinProgress);
+        }
+    } catch (error) {
+        console.error('Failed to join extension segments, saving them separately:', error);
+        await saveSegmentsSeparately(item, segments, settings);
+        if (isAbortError(error)) throw error;
+        throw new Error(`The new segments could not be joined onto the video, so they were saved to your gallery separately. ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // An extended video carries the lineage of the one it extends, so extending twice
+    // still lists every clip from the first generation on.
+    const lineage: VideoSegment[] = [
+        ...(metadata?.segments ?? [{ historyItemId: item.id, prompt: originalPrompt, seed: metadata?.seed }]),
+        ...segments.map(segment => ({ prompt: segment.prompt, seed: segment.seed })),
+    ];
+    const segmentCost = estimateGenerationCost(model);
+
+    await addHistoryItem({
+        type: 'Video',
+        prompt: label,
+        result: joined,
+        metadata: {
+            ...getRunMetadata(model, startedAt, lastRun),
+            aspectRatio,
+            resolution,
+            sourceTool: 'VideoExtension',
+            costUsd: segmentCost !== undefined ? segmentCost * segments.length : undefined,
+            segments: lineage,
+        },
+    });
+};
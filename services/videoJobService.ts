@@ -0,0 +1,261 @@
+import { v4 as uuidv4 } from 'uuid';
+import { type VideoJob, type ProgressCallback } from '../types';
+import { dbGetVideoJobs, dbPutVideoJob, dbDeleteVideoJob } from './indexedDBService';
+import { checkVideoStatus } from './veo3Service';
+import { getVeoProxyUrl, getCurrentUser } from './apiClient';
+import { addLogEntry } from './aiLogService';
+import { addHistoryItem } from './historyService';
+import { incrementVideoUsage } from './userService';
+import eventBus from './eventBus';
+import { getRunMetadata } from './generationMetadataService';
+import { abortableDelay, isAbortError } from '../utils/abortUtils';
+import { createProgress, createPollingProgress } from '../utils/progressUtils';
+
+const POLL_INTERVAL = 10000;
+// Jobs older than this are assumed to have expired on the Veo side and are discarded.
+const MAX_JOB_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Jobs currently being polled in this tab, so a resume pass never runs the same job twice.
+const activeJobIds = new Set<string>();
+// Jobs are stored per origin, so every open tab sees them. A Web Lock per job is shared by
+// all those tabs and is held while the job is polled, so only one tab ever resumes it.
+const JOB_LOCK_PREFIX = 'monoklix-video-job-';
+
+/**
+ * Thrown when Veo reports that an operation has definitively failed.
+ * The job is removed from the store since there is nothing left to resume.
+ */
+class VideoJobFailedError extends Error {}
+
+// The reason Veo gives for a failed operation, e.g. a PUBLIC_ERROR_*_FILTER code for a policy block.
+const getOperationFailureReason = (opStatus: any): string =>
+    opStatus.error?.message
+    || opStatus.error?.code
+    || opStatus.operation?.error?.message
+    || opStatus.operation?.error?.code
+    || opStatus.status
+    || 'Unknown error';
+
+/**
+ * Runs `task` while holding the job's cross-tab lock. With `ifAvailable`, the task is
+ * skipped (resolving to null) when another tab holds it. Browsers without Web Locks
+ * just run the task.
+ */
+const withJobLock = async <T>(jobId: string, ifAvailable: boolean, task: () => Promise<T>): Promise<T | null> => {
+    if (!navigator.locks) return task();
+    return navigator.locks.request(`${JOB_LOCK_PREFIX}${jobId}`, { ifAvailable }, lock => lock ? task() : null);
+};
+
+const persistJob = async (job: VideoJob) => {
+    if (!job.userId) return;
+    try {
+        await dbPutVideoJob(job);
+    } catch (error) {
+        console.warn(`[Video Jobs] Failed to persist job ${job.id}:`, error);
+    }
+};
+
+const removeJob = async (jobId: string) => {
+    try {
+        await dbDeleteVideoJob(jobId);
+    } catch (error) {
+        console.warn(`[Video Jobs] Failed to remove job ${jobId}:`, error);
+    }
+};
+
+/**
+ * Records a freshly submitted Veo generation so it survives a page reload.
+ * @returns {Promise<VideoJob>} The created job. It is still returned if persisting fails.
+ */
+export const createVideoJob = async (
+    data: Pick<VideoJob, 'prompt' | 'model' | 'aspectRatio' | 'seed' | 'operations' | 'successfulToken'>
+): Promise<VideoJob> => {
+    const now = Date.now();
+    const job: VideoJob = {
+        ...data,
+        id: uuidv4(),
+        userId: getCurrentUser()?.id ?? '',
+        status: 'polling',
+        timestamp: now,
+        updatedAt: now,
+    };
+    await persistJob(job);
+    return job;
+};
+
+// Polls a job until its video is downloaded. Callers hold the job's lock.
+const pollVideoJob = async (
+    job: VideoJob,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+): Promise<{ videoFile: File; thumbnailUrl: string | null; }> => {
+    const { model, prompt } = job;
+    activeJobIds.add(job.id);
+
+    try {
+        let finalUrl: string | null = null;
+        let thumbnailUrl: string | null = null;
+        let pollCount = 0;
+
+        onProgress?.(createPollingProgress(pollCount));
+        while (!finalUrl) {
+            await abortableDelay(POLL_INTERVAL, signal);
+            addLogEntry({ model, prompt, output: `Checking video status...`, tokenCount: 0, status: "Success" });
+
+            // Polls report their own progress below; the per-request updates would reset the bar.
+            const statusResponse = await checkVideoStatus(job.operations, job.successfulToken, undefined, signal);
+            onProgress?.(createPollingProgress(++pollCount));
+            if (!statusResponse?.operations || statusResponse.operations.length === 0) {
+                console.warn('⚠️ Empty status response, retrying...');
+                continue;
+            }
+
+            job.operations = statusResponse.operations;
+            job.updatedAt = Date.now();
+            await persistJob(job);
+
+            const opStatus = job.operations[0];
+            const isCompleted = opStatus.done === true || ['MEDIA_GENERATION_STATUS_COMPLETED', 'MEDIA_GENERATION_STATUS_SUCCESS', 'MEDIA_GENERATION_STATUS_SUCCESSFUL'].includes(opStatus.status);
+
+            if (isCompleted) {
+                finalUrl = opStatus.operation?.metadata?.video?.fifeUrl
+                           || opStatus.metadata?.video?.fifeUrl
+                           || opStatus.result?.generatedVideo?.[0]?.fifeUrl
+                           || opStatus.result?.generatedVideos?.[0]?.fifeUrl
+                           || opStatus.video?.fifeUrl
+                           || opStatus.fifeUrl;
+
+                thumbnailUrl = opStatus.operation?.metadata?.video?.servingBaseUri
+                            || opStatus.metadata?.video?.servingBaseUri
+                            || null;
+
+                if (!finalUrl) {
+                    console.error('Operation finished but no video URL was returned. Full operation object:', JSON.stringify(opStatus, null, 2));
+                    throw new VideoJobFailedError(`Video generation finished without producing a video: ${getOperationFailureReason(opStatus)}`);
+                }
+            } else if (opStatus.error) {
+                throw new VideoJobFailedError(`Video generation failed: ${getOperationFailureReason(opStatus)}`);
+            } else if (opStatus.status === 'MEDIA_GENERATION_STATUS_FAILED') {
+                console.error('❌ Video generation failed with status FAILED. Full operation object:', JSON.stringify(opStatus, null, 2));
+                throw new VideoJobFailedError(`Video generation failed on the server: ${getOperationFailureReason(opStatus)}`);
+            }
+        }
+
+        job.status = 'downloading';
+        job.updatedAt = Date.now();
+        await persistJob(job);
+
+        const PROXY_URL = getVeoProxyUrl();
+        addLogEntry({ model, prompt, output: "Video ready. Downloading from proxy...", tokenCount: 0, status: "Success" });
+        onProgress?.(createProgress('downloading', { server: PROXY_URL }));
+        const proxyDownloadUrl = `${PROXY_URL}/api/veo/download-video?url=${encodeURIComponent(finalUrl)}`;
+
+        const response = await fetch(proxyDownloadUrl, { signal });
+        if (!response.ok) {
+            throw new Error(`Background download failed with status: ${response.status}`);
+        }
+        const blob = await response.blob();
+        const videoFile = new File([blob], `monoklix-veo3-${Date.now()}.mp4`, { type: 'video/mp4' });
+
+        await removeJob(job.id);
+        return { videoFile, thumbnailUrl };
+
+    } catch (error) {
+        if (error instanceof VideoJobFailedError || isAbortError(error)) {
+            await removeJob(job.id);
+        }
+        if (!isAbortError(error)) {
+            onProgress?.(createProgress('failed', { detail: error instanceof Error ? error.message : String(error) }));
+        }
+        throw error;
+    } finally {
+        activeJobIds.delete(job.id);
+    }
+};
+
+/**
+ * Polls a job's operations until the video is ready, then downloads it through the proxy.
+ * The job is removed from the store once the video is downloaded or Veo reports a failure;
+ * on any other error (e.g. network loss) it is kept so it can be resumed later. Aborting the
+ * signal stops polling and drops the job, so a cancelled video isn't resumed after a reload.
+ * Other tabs won't resume the job while this runs.
+ * @returns {Promise<{ videoFile: File; thumbnailUrl: string | null; }>} The downloaded video.
+ */
+export const runVideoJob = async (
+    job: VideoJob,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+): Promise<{ videoFile: File; thumbnailUrl: string | null; }> =>
+    (await withJobLock(job.id, false, () => pollVideoJob(job, onProgress, signal)))!;
+
+/**
+ * Resumes every unfinished video job of the current user, e.g. after a page reload.
+ * Jobs another tab is already polling are left to that tab.
+ * Each recovered video is saved to history and counted towards the user's usage.
+ * Dispatches 'videoJobCompleted' on the event bus when a resumed job finishes.
+ * @returns {Promise<number>} The number of jobs that were resumed.
+ */
+export const resumePendingVideoJobs = async (): Promise<number> => {
+    const user = getCurrentUser();
+    if (!user) return 0;
+
+    let jobs: VideoJob[];
+    try {
+        jobs = await dbGetVideoJobs(user.id);
+    } catch (error) {
+        console.error('[Video Jobs] Failed to load pending jobs:', error);
+        return 0;
+    }
+
+    const now = Date.now();
+    let resumedCount = 0;
+    // Only for the count: the lock below is what actually keeps two tabs off one job.
+    const heldLocks = new Set((await navigator.locks?.query())?.held?.map(lock => lock.name));
+
+    for (const job of jobs) {
+        if (activeJobIds.has(job.id) || heldLocks.has(`${JOB_LOCK_PREFIX}${job.id}`)) continue;
+
+        if (now - job.timestamp > MAX_JOB_AGE_MS) {
+            console.warn(`[Video Jobs] Discarding expired job ${job.id}.`);
+            await removeJob(job.id);
+            continue;
+        }
+
+        resumedCount++;
+
+        withJobLock(job.id, true, async () => {
+            // The tab that held the lock may have finished the job since the list was read.
+            const storedJobs = await dbGetVideoJobs(user.id);
+            if (!storedJobs.some(storedJob => storedJob.id === job.id)) return null;
+            console.log(`[Video Jobs] Resuming interrupted video job ${job.id}...`);
+            return pollVideoJob(job);
+        })
+            .then(async result => {
+                if (!result) return;
+                const { videoFile } = result;
+                await addHistoryItem({
+                    type: 'Video',
+                    prompt: `Resumed: ${job.prompt.trim().substring(0, 100)}...`,
+                    result: videoFile,
+                    metadata: {
+                        ...getRunMetadata(job.model, job.timestamp, { successfulToken: job.successfulToken }),
+                        prompt: job.prompt,
+                        seed: job.seed,
+                        aspectRatio: job.aspectRatio,
+                    },
+                });
+                const updateResult = await incrementVideoUsage(user);
+                if (updateResult.success) {
+                    eventBus.dispatch('userUsageUpdated', updateResult.user);
+                }
+                eventBus.dispatch('videoJobCompleted', { jobId: job.id });
+            })
+            .catch(error => {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                console.error(`[Video Jobs] Resumed job ${job.id} failed:`, errorMessage);
+                addLogEntry({ model: job.model, prompt: job.prompt, output: `Resumed video job failed: ${errorMessage}`, tokenCount: 0, status: 'Error', error: errorMessage });
+            });
+    }
+
+    return resumedCount;
+};
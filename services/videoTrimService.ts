@@ -0,0 +1,86 @@
+/**
+ * Saves a trimmed copy of a history video, cut in the browser with the shared FFmpeg
+ * engine, together with a chosen cover frame and a link back to the original.
+ */
+import { type HistoryItem } from '../types';
+import { trimVideoInBrowser } from './ffmpegService';
+import { createImageThumbnail, extractVideoFrame } from './imageService';
+import { addHistoryItem } from './historyService';
+
+const TRIMMED_LABEL_PREFIX = 'Trimmed: ';
+const POSTER_SIZE = 480;
+// Veo renders at 24 fps; cut points are snapped to this grid so they fall on whole frames.
+export const VIDEO_FRAME_RATE = 24;
+
+export interface VideoTrimOptions {
+    startSeconds: number;
+    endSeconds: number;
+    // Time in the original video of the frame to use as the cover.
+    posterSeconds: number;
+}
+
+/**
+ * Rounds a time to the nearest whole frame.
+ */
+export const snapToFrame = (seconds: number): number =>
+    Math.round(seconds * VIDEO_FRAME_RATE) / VIDEO_FRAME_RATE;
+
+/**
+ * Whether a history item is a video that is still available to trim.
+ */
+export const canTrimHistoryItem = (item: HistoryItem): boolean =>
+    item.type === 'Video' && item.result instanceof Blob;
+
+/**
+ * Trims a history video to the given range and saves it as a new history item that
+ * records which item it was cut from. The original is left untouched.
+ */
+export const trimHistoryVideo = async (
+    item: HistoryItem,
+    options: VideoTrimOptions,
+    onStatus?: (message: string) => void
+): Promise<void> => {
+    if (!canTrimHistoryItem(item)) {
+        throw new Error('This video is no longer available to trim.');
+    }
+    const startSeconds = snapToFrame(options.startSeconds);
+    const endSeconds = snapToFrame(options.endSeconds);
+    if (endSeconds <= startSeconds) {
+        throw new Error('The end of the trimmed clip must come after its start.');
+    }
+
+    const trimmed = await trimVideoInBrowser(item.result as Blob, startSeconds, endSeconds, onStatus);
+
+    onStatus?.('Creating cover frame...');
+    let posterFrame: string | undefined;
+    try {
+        const posterSeconds = Math.min(Math.max(options.posterSeconds, startSeconds), endSeconds) - startSeconds;
+        posterFrame = await createImageThumbnail(await extractVideoFrame(trimmed, posterSeconds), POSTER_SIZE);
+    } catch (error) {
+        console.warn('Failed to create the cover frame, saving without one:', error);
+    }
+
+    // The generation settings are kept so the clip can still be inspected and extended;
+    // the run details and cost belong to the original.
+    const metadata = item.metadata;
+    await addHistoryItem({
+        type: 'Video',
+        prompt: item.prompt.startsWith(TRIMMED_LABEL_PREFIX) ? item.prompt : `${TRIMMED_LABEL_PREFIX}${item.prompt}`,
+        result: trimmed,
+        metadata: {
+            prompt: metadata?.prompt,
+            seed: metadata?.seed,
+            model: metadata?.model,
+            aspectRatio: metadata?.aspectRatio,
+            resolution: metadata?.resolution,
+            negativePrompt: metadata?.negativePrompt,
+            referenceImages: metadata?.referenceImages,
+            referenceThumbnails: metadata?.referenceThumbnails,
+            segments: metadata?.segments,
+            sourceTool: 'VideoTrimmer',
+            costUsd: 0,
+            trimmedFrom: { historyItemId: item.id, startSeconds, endSeconds },
+            posterFrame,
+        },
+    });
+};
@@ -0,0 +1,438 @@
+/**
+ * Team workspaces. An owner invites members by email; members share generated outputs
+ * and brand assets into the workspace library, which keeps media in Supabase Storage
+ * and text (copy, storyboards) inline in the `workspace_items` table.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, type Database } from './supabaseClient';
+import { addHistoryItem } from './historyService';
+import { getCurrentUser } from './apiClient';
+import {
+    type User, type HistoryItem, type HistoryItemType, type Workspace, type WorkspaceMember,
+    type WorkspaceInvite, type WorkspaceItem
+} from '../types';
+
+type Tables = Database['public']['Tables'];
+
+export const WORKSPACE_BUCKET = 'workspace-assets';
+// Signed URLs only need to outlive a browsing session of the library.
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const requireUser = (): User => {
+    const user = getCurrentUser();
+    if (!user) throw new Error("User not logged in.");
+    return user;
+};
+
+const getDisplayName = (user: User) => user.fullName || user.username;
+
+const mapWorkspace = (row: Tables['workspaces']['Row']): Workspace => ({
+    id: row.id,
+    name: row.name,
+    ownerId: row.owner_id,
+    createdAt: row.created_at,
+});
+
+const mapMember = (row: Tables['workspace_members']['Row']): WorkspaceMember => ({
+    id: row.id,
+    workspaceId: row.workspace_id,
+    userId: row.user_id,
+    email: row.email,
+    fullName: row.full_name,
+    role: row.role,
+    status: row.status,
+    invitedAt: row.created_at,
+});
+
+const mapItem = (row: Tables['workspace_items']['Row'], url: string | null): WorkspaceItem => ({
+    id: row.id,
+    workspaceId: row.workspace_id,
+    type: row.type as HistoryItemType,
+    kind: row.kind,
+    prompt: row.prompt,
+    sharedBy: row.shared_by,
+    sharedByName: row.shared_by_name,
+    storagePath: row.storage_path,
+    textContent: row.text_content,
+    mimeType: row.mime_type,
+    url,
+    createdAt: row.created_at,
+});
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+            if (typeof reader.result === 'string') {
+                resolve(reader.result.split(',')[1]);
+            } else {
+                reject(new Error("Failed to read blob as base64 string."));
+            }
+        };
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+const extensionForMimeType = (mimeType: string): string => {
+    const subtype = mimeType.split('/')[1]?.split(';')[0] || 'bin';
+    return subtype === 'jpeg' ? 'jpg' : subtype === 'x-wav' ? 'wav' : subtype;
+};
+
+// ===============================
+// 👥 WORKSPACES & MEMBERS
+// ===============================
+
+/**
+ * Lists the workspaces the current user is an active member of.
+ */
+export const getMyWorkspaces = async (): Promise<Workspace[]> => {
+    const user = getCurrentUser();
+    if (!user) return [];
+
+    const { data: memberships, error: memberError } = await supabase
+        .from('workspace_members')
+        .select('workspace_id')
+        .eq('user_id', user.id)
+        .eq('status', 'active');
+    if (memberError) throw new Error(memberError.message);
+    if (!memberships || memberships.length === 0) return [];
+
+    const { data, error } = await supabase
+        .from('workspaces')
+        .select('*')
+        .in('id', memberships.map(m => m.workspace_id))
+        .order('created_at', { ascending: true });
+    if (error) throw new Error(error.message);
+    return (data || []).map(mapWorkspace);
+};
+
+/**
+ * Creates a workspace owned by the current user.
+ */
+export const createWorkspace = async (name: string): Promise<Workspace> => {
+    const user = requireUser();
+    const trimmedName = name.trim();
+    if (!trimmedName) throw new Error("Workspace name is required.");
+
+    const { data, error } = await supabase
+        .from('workspaces')
+        .insert({ name: trimmedName, owner_id: user.id })
+        .select()
+        .single();
+    if (error || !data) throw new Error(error?.message || "Failed to create workspace.");
+
+    const { error: memberError } = await supabase.from('workspace_members').insert({
+        workspace_id: data.id,
+        user_id: user.id,
+        email: user.email,
+        full_name: user.fullName || null,
+        role: 'owner',
+        status: 'active',
+    });
+    if (memberError) throw new Error(memberError.message);
+
+    return mapWorkspace(data);
+};
+
+/**
+ * Deletes a workspace with its members, items and stored files. Owner only.
+ */
+export const deleteWorkspace = async (workspace: Workspace): Promise<void> => {
+    const user = requireUser();
+    if (workspace.ownerId !== user.id) throw new Error("Only the workspace owner can delete it.");
+
+    const { data: items, error: itemsError } = await supabase
+        .from('workspace_items')
+        .select('storage_path')
+        .eq('workspace_id', workspace.id);
+    if (itemsError) throw new Error(itemsError.message);
+
+    // Rows go before files and the workspace last, so a failure part-way leaves a workspace
+    // the owner can still see and delete again rather than orphaned rows.
+    const { error: itemDeleteError } = await supabase.from('workspace_items').delete().eq('workspace_id', workspace.id);
+    if (itemDeleteError) throw new Error(itemDeleteError.message);
+
+    const paths = (items || []).map(i => i.storage_path).filter((p): p is string => !!p);
+    if (paths.length > 0) {
+        const { error: storageError } = await supabase.storage.from(WORKSPACE_BUCKET).remove(paths);
+        if (storageError) console.warn("Failed to remove workspace files:", storageError);
+    }
+
+    const { error: memberDeleteError } = await supabase.from('workspace_members').delete().eq('workspace_id', workspace.id);
+    if (memberDeleteError) throw new Error(memberDeleteError.message);
+    const { error } = await supabase.from('workspaces').delete().eq('id', workspace.id).eq('owner_id', user.id);
+    if (error) throw new Error(error.message);
+};
+
+export const getWorkspaceMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+    const { data, error } = await supabase
+        .from('workspace_members')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: true });
+    if (error) throw new Error(error.message);
+    return (data || []).map(mapMember);
+};
+
+/**
+ * Invites a registered user to a workspace by email. Owner only.
+ * The invite shows up for the user until they accept or decline it.
+ */
+export const inviteWorkspaceMember = async (workspace: Workspace, email: string): Promise<WorkspaceMember> => {
+    const user = requireUser();
+    if (workspace.ownerId !== user.id) throw new Error("Only the workspace owner can invite members.");
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const { data: invitee, error: lookupError } = await supabase
+        .from('users')
+        .select('id, email, full_name')
+        .eq('email', normalizedEmail)
+        .maybeSingle();
+    if (lookupError) throw new Error(lookupError.message);
+    if (!invitee) throw new Error(`No account found for ${normalizedEmail}.`);
+
+    const { data: existing } = await supabase
+        .from('workspace_members')
+        .select('id')
+        .eq('workspace_id', workspace.id)
+        .eq('user_id', invitee.id)
+        .maybeSingle();
+    if (existing) throw new Error(`${normalizedEmail} is already in this workspace.`);
+
+    const { data, error } = await supabase
+        .from('workspace_members')
+        .insert({
+            workspace_id: workspace.id,
+            user_id: invitee.id,
+            email: invitee.email,
+            full_name: invitee.full_name,
+            role: 'member',
+            status: 'invited',
+        })
+        .select()
+        .single();
+    if (error || !data) throw new Error(error?.message || "Failed to invite member.");
+    return mapMember(data);
+};
+
+/**
+ * Removes a member. Owners can remove anyone but themselves; members can leave.
+ */
+export const removeWorkspaceMember = async (workspace: Workspace, member: WorkspaceMember): Promise<void> => {
+    const user = requireUser();
+    if (member.role === 'owner') throw new Error("The owner cannot be removed from the workspace.");
+    if (workspace.ownerId !== user.id && member.userId !== user.id) {
+        throw new Error("Only the workspace owner can remove other members.");
+    }
+
+    const { error } = await supabase.from('workspace_members').delete().eq('id', member.id).eq('workspace_id', workspace.id);
+    if (error) throw new Error(error.message);
+};
+
+/**
+ * Lists the current user's pending workspace invites.
+ */
+export const getPendingInvites = async (): Promise<WorkspaceInvite[]> => {
+    const user = getCurrentUser();
+    if (!user) return [];
+
+    const { data: invites, error } = await supabase
+        .from('workspace_members')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('status', 'invited');
+    if (error) throw new Error(error.message);
+    if (!invites || invites.length === 0) return [];
+
+    const { data: workspaces, error: workspaceError } = await supabase
+        .from('workspaces')
+        .select('*')
+        .in('id', invites.map(i => i.workspace_id));
+    if (workspaceError) throw new Error(workspaceError.message);
+
+    return invites.flatMap(invite => {
+        const workspace = workspaces?.find(w => w.id === invite.workspace_id);
+        return workspace ? [{ member: mapMember(invite), workspace: mapWorkspace(workspace) }] : [];
+    });
+};
+
+export const respondToInvite = async (invite: WorkspaceInvite, accept: boolean): Promise<void> => {
+    const user = requireUser();
+    const query = accept
+        ? supabase.from('workspace_members').update({ status: 'active', full_name: user.fullName || null }).eq('id', invite.member.id).eq('user_id', user.id)
+        : supabase.from('workspace_members').delete().eq('id', invite.member.id).eq('user_id', user.id);
+    const { error } = await query;
+    if (error) throw new Error(error.message);
+};
+
+// ===============================
+// 📁 WORKSPACE LIBRARY
+// ===============================
+
+/**
+ * Lists a workspace's shared items, newest first, with signed URLs for media.
+ */
+export const getWorkspaceItems = async (workspaceId: string): Promise<WorkspaceItem[]> => {
+    const { data, error } = await supabase
+        .from('workspace_items')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    const rows = data || [];
+
+    const paths = rows.map(r => r.storage_path).filter((p): p is string => !!p);
+    const urls = new Map<string, string>();
+    if (paths.length > 0) {
+        const { data: signed, error: signError } = await supabase.storage
+            .from(WORKSPACE_BUCKET)
+            .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+        if (signError) console.warn("Failed to sign workspace file URLs:", signError);
+        signed?.forEach(s => { if (s.path && s.signedUrl) urls.set(s.path, s.signedUrl); });
+    }
+
+    return rows.map(row => mapItem(row, row.storage_path ? urls.get(row.storage_path) || null : null));
+};
+
+interface ShareInput {
+    type: HistoryItemType;
+    kind: WorkspaceItem['kind'];
+    prompt: string;
+    content: Blob | string; // Blob for media, text for copy and storyboards
+}
+
+const shareToWorkspace = async (workspaceId: string, input: ShareInput): Promise<WorkspaceItem> => {
+    const user = requireUser();
+    const id = uuidv4();
+    let storagePath: string | null = null;
+    let mimeType: string | null = null;
+
+    if (input.content instanceof Blob) {
+        mimeType = input.content.type || 'application/octet-stream';
+        storagePath = `${workspaceId}/${id}.${extensionForMimeType(mimeType)}`;
+        const { error: uploadError } = await supabase.storage
+            .from(WORKSPACE_BUCKET)
+            .upload(storagePath, input.content, { contentType: mimeType, upsert: false });
+        if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+    }
+
+    const { data, error } = await supabase
+        .from('workspace_items')
+        .insert({
+            id,
+            workspace_id: workspaceId,
+            type: input.type,
+            kind: input.kind,
+            prompt: input.prompt,
+            shared_by: user.id,
+            shared_by_name: getDisplayName(user),
+            storage_path: storagePath,
+            text_content: typeof input.content === 'string' ? input.content : null,
+            mime_type: mimeType,
+        })
+        .select()
+        .single();
+
+    if (error || !data) {
+        // Don't leave an orphaned file behind if the row could not be written.
+        if (storagePath) await supabase.storage.from(WORKSPACE_BUCKET).remove([storagePath]);
+        throw new Error(error?.message || "Failed to share to workspace.");
+    }
+
+    let url: string | null = null;
+    if (storagePath) {
+        const { data: signed } = await supabase.storage.from(WORKSPACE_BUCKET).createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS);
+        url = signed?.signedUrl || null;
+    }
+    return mapItem(data, url);
+};
+
+/**
+ * Shares a history item (image, video, audio, copy or storyboard) into a workspace.
+ * Video results must already be resolved to Blobs, as returned by `getHistory()`.
+ */
+export const shareHistoryItemToWorkspace = async (workspaceId: string, item: HistoryItem): Promise<WorkspaceItem> => {
+    if (item.result === 'unavailable') throw new Error("This item's data is no longer available.");
+
+    let content: Blob | string;
+    switch (item.type) {
+        case 'Image':
+        case 'Canvas':
+            content = base64ToBlob(item.result as string, 'image/png');
+            break;
+        case 'Video':
+        case 'Audio':
+            if (!(item.result instanceof Blob)) throw new Error(`This ${item.type.toLowerCase()} could not be read.`);
+            content = item.result;
+            break;
+        default:
+            content = item.result instanceof Blob ? await item.result.text() : item.result;
+    }
+
+    return shareToWorkspace(workspaceId, { type: item.type, kind: 'output', prompt: item.prompt, content });
+};
+
+/**
+ * Uploads a brand asset file (logo, product shot, font sample, ...) into a workspace.
+ */
+export const uploadBrandAsset = async (workspaceId: string, file: File): Promise<WorkspaceItem> => {
+    const type: HistoryItemType = file.type.startsWith('video/') ? 'Video' : file.type.startsWith('audio/') ? 'Audio' : 'Image';
+    return shareToWorkspace(workspaceId, { type, kind: 'brand_asset', prompt: file.name, content: file });
+};
+
+/**
+ * Deletes a shared item. The member who shared it and the workspace owner may delete it.
+ */
+export const deleteWorkspaceItem = async (workspace: Workspace, item: WorkspaceItem): Promise<void> => {
+    const user = requireUser();
+    if (item.sharedBy !== user.id && workspace.ownerId !== user.id) {
+        throw new Error("Only the member who shared this item or the workspace owner can delete it.");
+    }
+
+    const { error } = await supabase.from('workspace_items').delete().eq('id', item.id).eq('workspace_id', workspace.id);
+    if (error) throw new Error(error.message);
+    if (item.storagePath) {
+        const { error: storageError } = await supabase.storage.from(WORKSPACE_BUCKET).remove([item.storagePath]);
+        if (storageError) console.warn("Failed to remove workspace file:", storageError);
+    }
+};
+
+/**
+ * Downloads a shared item's media as a Blob.
+ */
+export const downloadWorkspaceItem = async (item: WorkspaceItem): Promise<Blob> => {
+    if (!item.storagePath) {
+        return new Blob([item.textContent || ''], { type: 'text/plain;charset=utf-8' });
+    }
+    const { data, error } = await supabase.storage.from(WORKSPACE_BUCKET).download(item.storagePath);
+    if (error || !data) throw new Error(error?.message || "Failed to download the file.");
+    return data;
+};
+
+/**
+ * Copies a shared item into the current user's own history so it can be reused
+ * with the generation tools (re-edit, create video, ...).
+ */
+export const saveWorkspaceItemToHistory = async (item: WorkspaceItem): Promise<void> => {
+    const prompt = `${item.prompt} (shared by ${item.sharedByName})`;
+
+    if (!item.storagePath) {
+        await addHistoryItem({ type: item.type, prompt, result: item.textContent || '', metadata: { sourceTool: 'Workspace' } });
+        return;
+    }
+
+    const blob = await downloadWorkspaceItem(item);
+    // Images are kept as base64 PNG/JPEG data in history; everything else as Blobs.
+    const result = item.type === 'Image' || item.type === 'Canvas' ? await blobToBase64(blob) : blob;
+    await addHistoryItem({ type: item.type, prompt, result, metadata: { sourceTool: 'Workspace' } });
+};
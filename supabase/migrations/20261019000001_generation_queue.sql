@@ -0,0 +1,55 @@
+-- FIFO queue in front of request_generation_slot (see services/generationQueueService.ts).
+-- request_generation_slot and proxy_server_throttle are unchanged; only the oldest live row
+-- for a server calls it.
+
+create table if not exists public.generation_queue (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  server_url text not null,
+  user_id uuid references public.users (id) on delete cascade,
+  username text not null,
+  status text not null default 'waiting' check (status in ('waiting', 'acquired', 'cancelled')),
+  last_seen_at timestamptz not null default now(),
+  acquired_at timestamptz
+);
+
+-- Queue position: live waiting rows ahead of us on the same server.
+create index if not exists generation_queue_waiting_idx
+  on public.generation_queue (server_url, created_at)
+  where status = 'waiting';
+-- Wait estimate: the server's most recent acquisitions.
+create index if not exists generation_queue_acquired_idx
+  on public.generation_queue (server_url, acquired_at desc)
+  where status = 'acquired';
+-- Pruning of expired rows.
+create index if not exists generation_queue_created_idx
+  on public.generation_queue (server_url, created_at);
+
+-- Waiting clients follow the queue over realtime. Deletes can't be filtered by server_url, so a
+-- client that leaves is noticed on the next heartbeat instead.
+alter publication supabase_realtime add table public.generation_queue;
+
+-- The app talks to Supabase with the anon key, and every client has to see the whole queue
+-- for its server to work out its position. Rows hold no secrets, only a username.
+alter table public.generation_queue enable row level security;
+
+create policy "generation_queue readable by clients"
+  on public.generation_queue for select
+  to anon, authenticated
+  using (true);
+
+create policy "generation_queue joinable by clients"
+  on public.generation_queue for insert
+  to anon, authenticated
+  with check (status = 'waiting');
+
+create policy "generation_queue updatable by clients"
+  on public.generation_queue for update
+  to anon, authenticated
+  using (true)
+  with check (status in ('waiting', 'acquired'));
+
+create policy "generation_queue prunable by clients"
+  on public.generation_queue for delete
+  to anon, authenticated
+  using (status <> 'acquired' or created_at < now() - interval '1 hour');
@@ -0,0 +1,138 @@
+-- Team workspaces (see services/workspaceService.ts): workspaces, their members and invites,
+-- the shared library, and the private `workspace-assets` bucket that holds its media.
+--
+-- Access is enforced here, not only in the browser. Policies identify the caller with
+-- auth.uid(), which must equal public.users.id (see "Supabase Setup" in the README).
+
+create table if not exists public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  name text not null check (length(trim(name)) > 0),
+  owner_id uuid not null references public.users (id) on delete cascade
+);
+
+create table if not exists public.workspace_members (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  email text not null,
+  full_name text,
+  role text not null default 'member' check (role in ('owner', 'member')),
+  status text not null default 'invited' check (status in ('invited', 'active')),
+  unique (workspace_id, user_id)
+);
+create index if not exists workspace_members_user_idx on public.workspace_members (user_id, status);
+
+create table if not exists public.workspace_items (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  type text not null,
+  kind text not null default 'output' check (kind in ('output', 'brand_asset')),
+  prompt text not null,
+  shared_by uuid not null references public.users (id) on delete cascade,
+  shared_by_name text not null,
+  storage_path text,
+  text_content text,
+  mime_type text
+);
+create index if not exists workspace_items_workspace_idx on public.workspace_items (workspace_id, created_at desc);
+
+-- Membership checks for the policies below. Security definer so a policy on
+-- workspace_members can look at workspace_members without recursing into itself.
+create or replace function public.is_workspace_member(target_workspace uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (
+    select 1 from workspace_members
+    where workspace_id = target_workspace and user_id = auth.uid() and status = 'active'
+  );
+$$;
+
+create or replace function public.is_workspace_owner(target_workspace uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (select 1 from workspaces where id = target_workspace and owner_id = auth.uid());
+$$;
+
+create or replace function public.is_workspace_invitee(target_workspace uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (
+    select 1 from workspace_members
+    where workspace_id = target_workspace and user_id = auth.uid() and status = 'invited'
+  );
+$$;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_items enable row level security;
+
+-- Workspaces: members see them, invitees see the one they're invited to, only the owner
+-- renames or deletes.
+create policy "workspaces visible to members and invitees"
+  on public.workspaces for select to authenticated
+  using (owner_id = auth.uid() or public.is_workspace_member(id) or public.is_workspace_invitee(id));
+create policy "workspaces created by their owner"
+  on public.workspaces for insert to authenticated
+  with check (owner_id = auth.uid());
+create policy "workspaces renamed by their owner"
+  on public.workspaces for update to authenticated
+  using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+create policy "workspaces deleted by their owner"
+  on public.workspaces for delete to authenticated
+  using (owner_id = auth.uid());
+
+-- Members: active members see the member list, users see their own invites. Only the owner
+-- adds rows (including their own owner row); invitees accept their own invite; the owner
+-- removes anyone and members remove themselves (leave or decline).
+create policy "workspace_members visible to members and to themselves"
+  on public.workspace_members for select to authenticated
+  using (user_id = auth.uid() or public.is_workspace_member(workspace_id) or public.is_workspace_owner(workspace_id));
+create policy "workspace_members added by the owner"
+  on public.workspace_members for insert to authenticated
+  with check (
+    public.is_workspace_owner(workspace_id)
+    and (role = 'member' and status = 'invited' or role = 'owner' and user_id = auth.uid())
+  );
+create policy "workspace_members accept their own invite"
+  on public.workspace_members for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and status = 'active');
+create policy "workspace_members removed by the owner or themselves"
+  on public.workspace_members for delete to authenticated
+  using (user_id = auth.uid() or public.is_workspace_owner(workspace_id));
+
+-- Library: active members read and share; the sharer or the owner deletes.
+create policy "workspace_items visible to members"
+  on public.workspace_items for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+create policy "workspace_items shared by members"
+  on public.workspace_items for insert to authenticated
+  with check (shared_by = auth.uid() and public.is_workspace_member(workspace_id));
+create policy "workspace_items deleted by the sharer or the owner"
+  on public.workspace_items for delete to authenticated
+  using (shared_by = auth.uid() or public.is_workspace_owner(workspace_id));
+
+-- Storage: files live at `<workspace id>/<item id>.<ext>` in a private bucket and are read
+-- through signed URLs.
+insert into storage.buckets (id, name, public)
+values ('workspace-assets', 'workspace-assets', false)
+on conflict (id) do update set public = false;
+
+create policy "workspace-assets readable by members"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'workspace-assets' and public.is_workspace_member(((storage.foldername(name))[1])::uuid));
+create policy "workspace-assets uploaded by members"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'workspace-assets' and public.is_workspace_member(((storage.foldername(name))[1])::uuid));
+create policy "workspace-assets deleted by the uploader or the owner"
+  on storage.objects for delete to authenticated
+  using (
+    bucket_id = 'workspace-assets'
+    and (owner = auth.uid() or public.is_workspace_owner(((storage.foldername(name))[1])::uuid))
+  );
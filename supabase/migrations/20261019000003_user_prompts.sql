@@ -0,0 +1,34 @@
+-- Personal prompt library (see services/userPromptService.ts). Each row belongs to one
+-- user and is never shared, so every policy is keyed on the owner.
+--
+-- Policies identify the caller with auth.uid(), which must equal public.users.id
+-- (see "Supabase Setup" in the README).
+
+create table if not exists public.user_prompts (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  author text not null,
+  title text not null check (length(trim(title)) > 0),
+  prompt text not null,
+  tags text[] not null default '{}',
+  cover_image text,
+  target text not null default 'image' check (target in ('image', 'video'))
+);
+create index if not exists user_prompts_user_idx on public.user_prompts (user_id, updated_at desc);
+
+alter table public.user_prompts enable row level security;
+
+create policy "user_prompts visible to their owner"
+  on public.user_prompts for select to authenticated
+  using (user_id = auth.uid());
+create policy "user_prompts created by their owner"
+  on public.user_prompts for insert to authenticated
+  with check (user_id = auth.uid());
+create policy "user_prompts edited by their owner"
+  on public.user_prompts for update to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "user_prompts deleted by their owner"
+  on public.user_prompts for delete to authenticated
+  using (user_id = auth.uid());
@@ -1,4 +1,5 @@
 import type { ComponentType } from 'react';
+import type { VideoCreativeDirectionState } from './services/creativeDirectionService';
 
 // FIX: Add Language type for internationalization.
 export type Language = 'en' | 'ms';
@@ -48,8 +49,107 @@ export interface HistoryItem {
   // result can be a base64 string for images/canvas, a Blob for video/audio, or plain text for copy/storyboard.
   result: string | Blob; 
   timestamp: number;
+  metadata?: GenerationMetadata;
 }
 
+// The feature a history item was created from. 'Unknown' covers items saved before this was recorded.
+export type GenerationSourceTool =
+  | 'ImageGeneration'
+  | 'VideoGeneration'
+  | 'VideoExtension'
+  | 'VideoTrimmer'
+  | 'Batch'
+  | 'TiktokAffiliate'
+  | 'ProductReview'
+  | 'ProductPhoto'
+  | 'ProductAd'
+  | 'ImageEnhancer'
+  | 'BackgroundRemover'
+  | 'StaffMonoklix'
+  | 'ContentIdeas'
+  | 'MarketingCopy'
+  | 'VoiceStudio'
+  | 'VoiceOverMixer'
+  | 'CaptionStudio'
+  | 'Workspace'
+  | 'Unknown';
+
+/**
+ * How a history item was generated, so it can be filtered, inspected and re-run with the
+ * same or a new seed. `prompt` is the full prompt sent to the model, not the shortened
+ * history label; items saved before it was recorded only have a `sourceTool`.
+ */
+export interface GenerationMetadata {
+  prompt?: string;
+  seed?: number;
+  model?: string;
+  aspectRatio?: string;
+  resolution?: string;
+  negativePrompt?: string;
+  // The images themselves are kept once each in the reference image store, by hash.
+  referenceImages?: StoredReferenceImage[];
+  // Small JPEG data URLs of the reference images, for display in the gallery.
+  referenceThumbnails?: string[];
+  sourceTool?: GenerationSourceTool;
+  // How long the generation took, from request to result.
+  durationMs?: number;
+  server?: string;
+  // Only the end of the auth token is kept, enough to tell tokens apart.
+  tokenSuffix?: string;
+  // Estimated, based on published per-generation pricing for the model.
+  costUsd?: number;
+  // For videos joined from several generations, the clips they were made from, in order.
+  segments?: VideoSegment[];
+  // For trimmed videos, the history item they were cut from and the range that was kept.
+  trimmedFrom?: VideoTrim;
+  // JPEG data URL of the frame chosen as the video's cover.
+  posterFrame?: string;
+}
+
+/** A reference image as sent to the model. `caption` tells the model what each image is when several are composed together. */
+export interface ReferenceImage {
+  base64: string;
+  mimeType: string;
+  caption?: string;
+}
+
+/** A reference image recorded with a history item, pointing at its bytes in the reference image store. */
+export interface StoredReferenceImage {
+  hash: string;
+  mimeType: string;
+  caption?: string;
+}
+
+/**
+ * Generation metadata as passed to `addHistoryItem`. Reference images may still carry their
+ * bytes; they are moved to the reference image store when the item is saved.
+ */
+export type NewGenerationMetadata = Omit<GenerationMetadata, 'referenceImages'> & {
+  referenceImages?: (ReferenceImage | StoredReferenceImage)[];
+};
+
+export type NewHistoryItem = Omit<HistoryItem, 'id' | 'timestamp' | 'metadata'> & { metadata?: NewGenerationMetadata };
+
+/** One generated clip in an extended video. */
+export interface VideoSegment {
+  // Set for clips that were saved to history on their own, i.e. the video that was extended.
+  historyItemId?: string;
+  prompt: string;
+  seed?: number;
+}
+
+/** The part of a history video that a trimmed copy keeps, in seconds. */
+export interface VideoTrim {
+  historyItemId: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+/** One video of a multi-variation generation; failed variations carry their error instead. */
+export type VideoVariationResult =
+  | { seed: number; videoFile: File; thumbnailUrl: string | null }
+  | { seed: number; error: string };
+
 export interface AiLogItem {
   id: string;
   userId: string;
@@ -64,6 +164,131 @@ export interface AiLogItem {
   mediaOutput?: string | Blob; // Base64 string for images, Blob for video/audio.
 }
 
+export type VideoJobStatus = 'polling' | 'downloading';
+
+/**
+ * A Veo generation that has been submitted and is awaiting its result.
+ * Persisted so that polling can resume after a page reload.
+ */
+export interface VideoJob {
+  id: string;
+  userId: string;
+  prompt: string;
+  model: string;
+  aspectRatio: string;
+  seed?: number;
+  operations: any[]; // Latest operation objects returned by the Veo status endpoint
+  successfulToken: string; // The auth token that created the operations; status checks must reuse it
+  status: VideoJobStatus;
+  timestamp: number;
+  updatedAt: number;
+}
+
+export type GenerationQueueStatus = 'waiting' | 'acquired' | 'cancelled';
+
+/** A request's place in the per-server generation slot queue, as shown to the user while waiting. */
+export interface GenerationQueueEntry {
+  id: string;
+  serverUrl: string;
+  status: GenerationQueueStatus;
+  position: number; // 1 = next in line for a slot
+  etaSeconds: number | null; // Estimated wait, null until it can be estimated
+}
+
+export type GenerationPhase = 'queued' | 'uploading' | 'submitted' | 'polling' | 'downloading' | 'caching' | 'done' | 'failed';
+
+/** A progress update from the generation services; views render it with `GenerationProgressBar`. */
+export interface GenerationProgress {
+  phase: GenerationPhase;
+  percent: number; // 0-100, an estimate
+  attempt?: number; // Server attempt or status poll count, depending on the phase
+  server?: string; // Proxy server handling the request
+  queuePosition?: number;
+  etaSeconds?: number | null;
+  detail?: string; // Untranslated diagnostic text, e.g. the error for 'failed'
+}
+
+export type ProgressCallback = (progress: GenerationProgress) => void;
+
+export type RenderJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+/** A server-side render (e.g. clip concatenation) as reported by the proxy's /api/render endpoints. */
+export interface RenderJob {
+  id: string;
+  status: RenderJobStatus;
+  message: string | null; // Human-readable progress, e.g. "Processing: 00:00:12"
+  error: string | null;
+  downloadUrl: string | null; // Relative to the proxy URL; set once the job has completed
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A single scene of a storyboard, with its script and the media generated for it. */
+export interface StoryboardScene {
+  id: string;
+  prompt: string; // The scene script (visuals, voiceover, captions)
+  image: string | null; // Base64 PNG
+  video: Blob | null;
+  videoFilename: string | null;
+  thumbnailUrl: string | null;
+  imageError: string | null;
+  videoError: string | null;
+}
+
+export interface StoryboardSettings {
+  productDesc: string;
+  productImage: { base64: string; mimeType: string; } | null;
+  faceImage: { base64: string; mimeType: string; } | null;
+  selectedContentType: string;
+  selectedLanguage: string;
+  includeCaptions: 'Yes' | 'No';
+  includeVoiceover: 'Yes' | 'No';
+  includeModel: 'Yes' | 'No';
+  sceneCount: number;
+  creativeState: VideoCreativeDirectionState;
+  videoAspectRatio: string;
+  videoResolution: string;
+  videoLanguage: string;
+}
+
+/**
+ * A saved storyboard the user can come back to later.
+ * Scenes are kept in playback order.
+ */
+export interface StoryboardProject {
+  id: string;
+  userId: string;
+  title: string;
+  scenes: StoryboardScene[];
+  settings: StoryboardSettings;
+  timestamp: number;
+  updatedAt: number;
+}
+
+export interface BrandProduct {
+  id: string;
+  name: string;
+  description: string;
+  image: { base64: string; mimeType: string; } | null;
+}
+
+/**
+ * Reusable brand details that the generators prefill from and inject into their prompts.
+ */
+export interface BrandKit {
+  id: string;
+  userId: string;
+  name: string;
+  logo: { base64: string; mimeType: string; } | null;
+  colors: string[]; // Hex codes, e.g. "#1A73E8"
+  fonts: string[];
+  toneOfVoice: string;
+  forbiddenWords: string[];
+  products: BrandProduct[];
+  timestamp: number;
+  updatedAt: number;
+}
+
 export interface Tutorial {
   title: string;
   description: string;
@@ -138,6 +363,26 @@ export interface BatchItem {
     base64: string;
     mimeType: string;
   };
+  // The last frame for start-and-end keyframe videos; `image` is the first.
+  endImage?: {
+    base64: string;
+    mimeType: string;
+  };
+  // Per-row settings from an imported manifest; the batch-wide settings apply when unset.
+  negativePrompt?: string;
+  aspectRatio?: string;
+  model?: string;
+  outputName?: string;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'success' | 'failed' | 'cancelled';
+
+/** The outcome of one batch row, as listed in the downloadable results manifest. */
+export interface BatchItemResult {
+  status: BatchItemStatus;
+  outputName: string;
+  seed?: number;
+  error?: string;
 }
 
 export type BatchProcessorPreset = BatchItem[];
@@ -150,6 +395,63 @@ export interface ViralPrompt {
   prompt: string;
 }
 
+export type UserPromptTarget = 'image' | 'video';
+
+// A prompt saved by a user to their own library. `prompt` may contain {{placeholders}}.
+export interface UserPrompt {
+  id: string;
+  userId: string;
+  author: string;
+  title: string;
+  prompt: string;
+  tags: string[];
+  coverImage: string | null; // Small JPEG data URL picked from the gallery
+  target: UserPromptTarget;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WorkspaceMemberRole = 'owner' | 'member';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  createdAt: string;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  workspaceId: string;
+  userId: string;
+  email: string;
+  fullName: string | null;
+  role: WorkspaceMemberRole;
+  status: 'invited' | 'active';
+  invitedAt: string;
+}
+
+export interface WorkspaceInvite {
+  member: WorkspaceMember;
+  workspace: Workspace;
+}
+
+// An output or brand asset shared into a workspace library.
+export interface WorkspaceItem {
+  id: string;
+  workspaceId: string;
+  type: HistoryItemType;
+  kind: 'output' | 'brand_asset';
+  prompt: string;
+  sharedBy: string; // User ID
+  sharedByName: string;
+  storagePath: string | null; // Path in the workspace storage bucket; null for text items
+  textContent: string | null; // Copy and storyboards are stored inline
+  mimeType: string | null;
+  url: string | null; // Signed URL for media items, valid for a limited time
+  createdAt: string;
+}
+
 export type WebhookPayload = {
     type: 'text' | 'image' | 'video' | 'audio';
     prompt: string;
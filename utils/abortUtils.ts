@@ -0,0 +1,32 @@
+/**
+ * Returns true if an error was caused by aborting an operation, either through an
+ * AbortSignal (fetch, SDK calls) or by cancelling a queued generation.
+ */
+export const isAbortError = (error: unknown): boolean =>
+    (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+
+/**
+ * Creates the error thrown when the user cancels an operation.
+ */
+export const createAbortError = (message = 'The operation was cancelled.'): DOMException =>
+    new DOMException(message, 'AbortError');
+
+/**
+ * Waits for the given time, rejecting early with an AbortError if the signal fires.
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason ?? createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason ?? createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
@@ -65,3 +65,23 @@ function writeString(view: DataView, offset: number, str: string) {
         view.setUint8(offset + i, str.charCodeAt(i));
     }
 }
+
+/**
+ * Reads the duration of an audio or video Blob from its metadata.
+ * @param media The audio or video Blob.
+ * @returns The duration in seconds, or 0 if it cannot be determined.
+ */
+export function getMediaDuration(media: Blob): Promise<number> {
+    return new Promise((resolve) => {
+        const url = URL.createObjectURL(media);
+        const element = document.createElement(media.type.startsWith('video') ? 'video' : 'audio');
+        const finish = (duration: number) => {
+            URL.revokeObjectURL(url);
+            resolve(Number.isFinite(duration) ? duration : 0);
+        };
+        element.preload = 'metadata';
+        element.onloadedmetadata = () => finish(element.duration);
+        element.onerror = () => finish(0);
+        element.src = url;
+    });
+}
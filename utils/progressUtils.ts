@@ -0,0 +1,36 @@
+import { type GenerationPhase, type GenerationProgress } from '../types';
+
+// Rough share of a generation's total time that has passed when each phase starts.
+const PHASE_PERCENT: Record<GenerationPhase, number> = {
+    queued: 0,
+    uploading: 10,
+    submitted: 20,
+    polling: 30,
+    downloading: 90,
+    caching: 95,
+    done: 100,
+    failed: 100,
+};
+
+// Status polls only ever move the bar up to this point; downloading takes it from there.
+const MAX_POLLING_PERCENT = 85;
+
+/**
+ * Builds a progress update with the phase's default percentage.
+ */
+export const createProgress = (phase: GenerationPhase, details: Omit<GenerationProgress, 'phase' | 'percent'> = {}): GenerationProgress => ({
+    phase,
+    percent: PHASE_PERCENT[phase],
+    ...details,
+});
+
+/**
+ * Estimates the progress of the n-th status poll of a video generation. Each poll adds
+ * a little, so the bar keeps moving without ever claiming the video is done.
+ */
+export const createPollingProgress = (attempt: number, server?: string): GenerationProgress => ({
+    phase: 'polling',
+    percent: Math.min(MAX_POLLING_PERCENT, PHASE_PERCENT.polling + attempt * 5),
+    attempt,
+    server,
+});
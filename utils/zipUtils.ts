@@ -0,0 +1,155 @@
+/**
+ * Minimal ZIP support for batch manifests and exports, without a third-party library.
+ * Reading handles stored and deflated entries (inflated with the browser's
+ * DecompressionStream); writing stores entries uncompressed, which is what we want for
+ * already-compressed media like MP4 and PNG. ZIP64 archives are not supported.
+ */
+
+export interface ZipEntryInput {
+    name: string;
+    data: Blob | string;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+const UTF8_NAME_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const inflateRaw = async (data: Uint8Array): Promise<Blob> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).blob();
+};
+
+/**
+ * Reads every file in a ZIP archive.
+ * @returns {Promise<Map<string, Blob>>} File contents keyed by their path inside the archive.
+ */
+export const readZip = async (zip: Blob): Promise<Map<string, Blob>> => {
+    const buffer = new Uint8Array(await zip.arrayBuffer());
+    const view = new DataView(buffer.buffer);
+
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIR_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd === -1) throw new Error('The file is not a valid ZIP archive.');
+
+    const entryCount = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    const decoder = new TextDecoder();
+    const files = new Map<string, Blob>();
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error('The ZIP archive is corrupt or uses an unsupported format.');
+        }
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(buffer.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = buffer.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) {
+            files.set(name, new Blob([data]));
+        } else if (method === 8) {
+            files.set(name, await inflateRaw(data));
+        } else {
+            console.warn(`[Zip] Skipping "${name}": unsupported compression method ${method}.`);
+        }
+    }
+    return files;
+};
+
+/**
+ * Builds a ZIP archive with the given files, in order and uncompressed.
+ */
+export const createZip = async (entries: ZipEntryInput[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(new Date());
+    const parts: BlobPart[] = [];
+    const centralHeaders: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        // Blobs are read one at a time for their checksum and then referenced, not copied,
+        // so a batch of videos never needs two copies of every file in memory.
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : new Uint8Array(await entry.data.arrayBuffer());
+        const name = encoder.encode(entry.name);
+        const crc = crc32(data);
+        const size = data.length;
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, UTF8_NAME_FLAG, true);
+        local.setUint16(8, 0, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+        parts.push(local.buffer, name, typeof entry.data === 'string' ? data : entry.data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, UTF8_NAME_FLAG, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, size, true);
+        central.setUint32(24, size, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        const header = new Uint8Array(46 + name.length);
+        header.set(new Uint8Array(central.buffer), 0);
+        header.set(name, 46);
+        centralHeaders.push(header);
+
+        offset += 30 + name.length + size;
+    }
+
+    const centralSize = centralHeaders.reduce((sum, header) => sum + header.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIR_SIGNATURE, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralHeaders, end.buffer], { type: 'application/zip' });
+};